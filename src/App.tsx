@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import Sidebar from './components/Sidebar';
 import Dashboard from './components/Dashboard';
 import AccountManagement from './components/AccountManagement';
@@ -11,9 +11,34 @@ import TeamManagement from './components/TeamManagement';
 import Profile from './components/Profile';
 import FileManagement from './components/FileManagement';
 import Login from './components/Login';
-import { Account, Category, SalesData, User, IncentiveRule } from './types';
-import { useSupabase } from './hooks/useSupabase';
-import { supabase } from './lib/supabase';
+import TruncationNotice from './components/TruncationNotice';
+import RemoteChangeNotice from './components/RemoteChangeNotice';
+import AccountDetail from './components/AccountDetail';
+import SetPassword from './components/SetPassword';
+import { Account, Category, User, UserGroup } from './types';
+import {
+  useAccounts,
+  useAddAccount,
+  useAddCategory,
+  useAddUserGroup,
+  useCategories,
+  useDeleteAccount,
+  useDeleteCategory,
+  useDeleteUserGroup,
+  useIncentiveRules,
+  useUpdateAccount,
+  useUpdateCategory,
+  useUpdateUserGroup,
+  useUserGroups,
+  useUsers
+} from './hooks/queries';
+import { useRealtimeSync } from './hooks/useRealtimeSync';
+import { useAccountScope } from './hooks/useAccountScope';
+import { isPasswordRecoveryRedirect, supabase } from './lib/supabase';
+import { fetchAccounts } from './lib/api';
+import { clearQueries, invalidateQueries } from './lib/queryCache';
+import { getDataScope } from './lib/permissions';
+import { SESSION_EXPIRED_MESSAGE, SESSION_REVOKED_MESSAGE, isSessionRevoked, restoreSession } from './lib/auth';
 
 interface DateFilter {
   startDate: string;
@@ -21,13 +46,25 @@ interface DateFilter {
   preset: string;
 }
 
+// Stable fallback while a query has no data, so memoized children don't recompute
+const NO_ROWS: never[] = [];
+
+// How often a logged-in session is checked with the server, besides on focus
+const SESSION_CHECK_INTERVAL = 5 * 60 * 1000;
+
 function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
+  // True until the session saved in the browser has been checked
+  const [isRestoringSession, setIsRestoringSession] = useState(true);
+  // Why the user was logged out when it wasn't their choice
+  const [sessionNotice, setSessionNotice] = useState('');
+  // Set while the app itself signs out, so that isn't taken for an expiry
+  const isSigningOut = useRef(false);
+  // Signed in through a password reset link, so a new password comes first
+  const [isRecoveringPassword, setIsRecoveringPassword] = useState(isPasswordRecoveryRedirect);
   const [activeTab, setActiveTab] = useState('dashboard');
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
-  const [salesData, setSalesData] = useState<SalesData[]>([]);
-  const [incentiveRules, setIncentiveRules] = useState<IncentiveRule[]>([]);
+  // Account shown in the detail view, over whatever tab is active
+  const [openAccountId, setOpenAccountId] = useState<string | null>(null);
   const [dateFilter, setDateFilter] = useState<DateFilter>({
     startDate: '',
     endDate: '',
@@ -37,67 +74,142 @@ function App() {
     paymentFilter: 'all'
   });
 
-  const {
-    loading,
-    error,
-    fetchCategories,
-    addCategory,
-    updateCategory,
-    deleteCategory,
-    fetchAccounts,
-    addAccount,
-    updateAccount,
-    deleteAccount,
-    fetchSalesData,
-    addSalesData,
-    deleteSalesData,
-    fetchIncentiveRules,
-    addIncentiveRule,
-    updateIncentiveRule,
-    deleteIncentiveRule,
-    updateUser,
-  } = useSupabase();
-
-  // Load initial data
+  // Shared data, cached per query and refreshed by the mutations below
+  const isLoggedIn = !!currentUser;
+  const categoriesQuery = useCategories({ enabled: isLoggedIn });
+  // Accounts and users are limited to the user's scope: everyone, their
+  // teams, or just themselves
+  const accountScope = useAccountScope(currentUser);
+  const seesOtherUsers = !!currentUser && getDataScope(currentUser) !== 'own';
+  const accountsQuery = useAccounts({ userIds: accountScope.userIds }, { enabled: accountScope.isReady });
+  const rulesQuery = useIncentiveRules({ enabled: isLoggedIn });
+  // Incentives of other users are only calculated for those who can see them
+  const usersQuery = useUsers(
+    accountScope.userIds ? { userIds: accountScope.userIds } : {},
+    { enabled: seesOtherUsers && accountScope.isReady }
+  );
+  const userGroupsQuery = useUserGroups({ enabled: isLoggedIn });
+
+  const categories = categoriesQuery.data || NO_ROWS;
+  const accounts = accountsQuery.data?.rows || NO_ROWS;
+  const incentiveRules = rulesQuery.data || NO_ROWS;
+  const users = (seesOtherUsers && usersQuery.data?.rows) || NO_ROWS;
+  const userGroups = userGroupsQuery.data || NO_ROWS;
+
+  // Writes from other sessions refresh the queries above as they happen
+  useRealtimeSync(currentUser?.id);
+
+  const resetSession = useCallback((notice = '') => {
+    setCurrentUser(null);
+    setSessionNotice(notice);
+    setIsRecoveringPassword(false);
+    clearQueries();
+    setActiveTab('dashboard');
+    setOpenAccountId(null);
+  }, []);
+
+  // Pick up the session saved in the browser, then follow it: refreshed tokens
+  // are kept, and a session that ends without logging out (refresh token
+  // expired or revoked) returns to the login screen with a message
+  useEffect(() => {
+    let isCancelled = false;
+    restoreSession()
+      .then(user => {
+        if (!isCancelled && user) setCurrentUser(user);
+      })
+      .catch(err => console.warn('Could not restore session:', err))
+      .finally(() => {
+        if (!isCancelled) setIsRestoringSession(false);
+      });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setIsRecoveringPassword(true);
+      } else if (event === 'TOKEN_REFRESHED' && session) {
+        setCurrentUser(prev => prev && { ...prev, access_token: session.access_token, refresh_token: session.refresh_token });
+      } else if (event === 'SIGNED_OUT' && !isSigningOut.current) {
+        resetSession(SESSION_EXPIRED_MESSAGE);
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+      subscription.unsubscribe();
+    };
+  }, [resetSession]);
+
+  // A session ended on the server still looks valid locally until its token
+  // expires, so check with the server now and then and when the tab regains focus
   useEffect(() => {
-    const loadData = async () => {
+    if (!isLoggedIn) return;
+
+    const checkSession = async () => {
+      if (!(await isSessionRevoked())) return;
+      isSigningOut.current = true;
       try {
-        const [categoriesData, accountsData, salesDataResult, rulesData] = await Promise.all([
-          fetchCategories(),
-          fetchAccounts(),
-          fetchSalesData(),
-          fetchIncentiveRules(),
-        ]);
-        
-        setCategories(categoriesData);
-        setAccounts(accountsData);
-        setSalesData(salesDataResult);
-        setIncentiveRules(rulesData);
-      } catch (err) {
-        console.error('Error loading data:', err);
+        await supabase.auth.signOut({ scope: 'local' });
+      } finally {
+        isSigningOut.current = false;
       }
+      resetSession(SESSION_REVOKED_MESSAGE);
+    };
+
+    window.addEventListener('focus', checkSession);
+    const interval = setInterval(checkSession, SESSION_CHECK_INTERVAL);
+    return () => {
+      window.removeEventListener('focus', checkSession);
+      clearInterval(interval);
     };
+  }, [isLoggedIn, resetSession]);
 
-    if (currentUser) {
-      loadData();
+  // The logged-in user's own row, so managed accounts or a role changed by a
+  // superadmin apply without logging in again
+  const ownProfileQuery = useUsers({ userIds: currentUser ? [currentUser.id] : [] }, { enabled: isLoggedIn });
+  useEffect(() => {
+    const profile = ownProfileQuery.data?.rows[0];
+    if (profile) {
+      setCurrentUser(prev => prev && prev.id === profile.id ? { ...prev, ...profile } : prev);
     }
-  }, [currentUser]);
+  }, [ownProfileQuery.data]);
+
+  const addAccount = useAddAccount();
+  const updateAccount = useUpdateAccount();
+  const deleteAccount = useDeleteAccount();
+  const addCategory = useAddCategory();
+  const updateCategory = useUpdateCategory();
+  const deleteCategory = useDeleteCategory();
+  const addUserGroup = useAddUserGroup();
+  const updateUserGroup = useUpdateUserGroup();
+  const deleteUserGroup = useDeleteUserGroup();
+
+  const error = [
+    categoriesQuery, accountsQuery, rulesQuery, usersQuery, userGroupsQuery,
+    addAccount, updateAccount, deleteAccount, addCategory, updateCategory, deleteCategory,
+    addUserGroup, updateUserGroup, deleteUserGroup,
+  ].map(request => request.error).find(Boolean);
 
   const handleLogin = async (user: User) => {
+    setSessionNotice('');
     setCurrentUser(user);
   };
 
+  // The database clears must_change_password when the password changes
+  const handlePasswordSet = () => {
+    setIsRecoveringPassword(false);
+    setCurrentUser(prev => prev && { ...prev, must_change_password: false });
+    invalidateQueries(['users']);
+  };
+
   const handleLogout = async () => {
-    // Only sign out from Supabase if this is not a demo user
-    if (currentUser && !currentUser.email.startsWith('demo_')) {
-      try {
-        await supabase.auth.signOut();
-      } catch (error) {
-        console.warn('Supabase logout failed:', error);
-      }
+    isSigningOut.current = true;
+    try {
+      await supabase.auth.signOut();
+    } catch (error) {
+      console.warn('Supabase logout failed:', error);
+    } finally {
+      isSigningOut.current = false;
     }
-    setCurrentUser(null);
-    setActiveTab('dashboard');
+    resetSession();
   };
 
   const handleTabChange = (tab: string) => {
@@ -108,82 +220,44 @@ function App() {
       window.open('https://kimostudio.my.id', '_blank');
     } else {
       setActiveTab(tab);
+      setOpenAccountId(null);
     }
   };
 
   // Account management handlers
   const handleAddAccount = async (accountData: Omit<Account, 'id' | 'created_at' | 'account_code'>) => {
-    const accountWithUserAssignment = {
+    // The database assigns the account to its creator when they only see
+    // their own accounts
+    await addAccount.mutate({
       ...accountData,
       account_code: `ACC${Date.now().toString().slice(-6)}`, // Generate simple account code
-      user_id: currentUser?.id || null, // Ensure account is assigned to current user
-    };
-    
-    const account = await addAccount(accountWithUserAssignment);
-    if (account) {
-      setAccounts(prev => [...prev, account]);
-      
-      // Auto-assign account to current user's managed accounts if they're not a superadmin
-      if (currentUser && currentUser.role !== 'superadmin' && account.id) {
-        const updatedManagedAccounts = [...currentUser.managed_accounts];
-        if (!updatedManagedAccounts.includes(account.id)) {
-          updatedManagedAccounts.push(account.id);
-          
-          // Update current user's managed accounts in the state
-          setCurrentUser(prev => prev ? {
-            ...prev,
-            managed_accounts: updatedManagedAccounts
-          } : null);
-          
-          // Update user in database (this will be handled by the backend)
-          try {
-            await updateUser(currentUser.id, {
-              managed_accounts: updatedManagedAccounts
-            });
-          } catch (error) {
-            console.error('Error updating user managed accounts:', error);
-          }
-        }
-      }
-    }
+    });
   };
 
   const handleUpdateAccount = async (id: string, updates: Partial<Account>) => {
-    const updatedAccount = await updateAccount(id, updates);
-    if (updatedAccount) {
-      setAccounts(prev => prev.map(acc => acc.id === id ? updatedAccount : acc));
-    }
+    await updateAccount.mutate(id, updates);
   };
 
   const handleDeleteAccount = async (id: string) => {
     if (confirm('Are you sure you want to delete this account? This will also delete all associated sales data.')) {
-      const success = await deleteAccount(id);
-      if (success) {
-        setAccounts(prev => prev.filter(acc => acc.id !== id));
-        setSalesData(prev => prev.filter(data => data.account_id !== id));
-      }
+      await deleteAccount.mutate(id);
     }
   };
 
   // Category management handlers
   const handleAddCategory = async (categoryData: Omit<Category, 'id' | 'created_at'>) => {
-    const category = await addCategory(categoryData);
-    if (category) {
-      setCategories(prev => [...prev, category]);
-    }
+    await addCategory.mutate(categoryData);
   };
 
   const handleUpdateCategory = async (id: string, updates: Partial<Category>) => {
-    const updatedCategory = await updateCategory(id, updates);
-    if (updatedCategory) {
-      setCategories(prev => prev.map(cat => cat.id === id ? updatedCategory : cat));
-    }
+    await updateCategory.mutate(id, updates);
   };
 
   const handleDeleteCategory = async (id: string) => {
-    // Fetch latest account data to ensure we have current state
+    // Fetch latest account data to ensure we have current state; this check
+    // bypasses the cache on purpose
     const latestAccounts = await fetchAccounts();
-    const accountsUsingCategory = latestAccounts.filter(acc => acc.category_id === id);
+    const accountsUsingCategory = latestAccounts.rows.filter(acc => acc.category_id === id);
     
     if (accountsUsingCategory.length > 0) {
       alert(`Cannot delete category. ${accountsUsingCategory.length} account(s) are still using this category. Please reassign or delete those accounts first.`);
@@ -191,70 +265,83 @@ function App() {
     }
     
     if (confirm('Are you sure you want to delete this category?')) {
-      const success = await deleteCategory(id);
-      if (success) {
-        setCategories(prev => prev.filter(cat => cat.id !== id));
-      }
+      await deleteCategory.mutate(id);
     }
   };
 
-  // Sales data handlers
-  const handleUploadData = async (accountId: string, data: Omit<SalesData, 'id' | 'account_id' | 'created_at'>[]) => {
-    const salesDataWithAccountId = data.map(item => ({
-      ...item,
-      account_id: accountId,
-    }));
-    
-    const uploadedData = await addSalesData(salesDataWithAccountId);
-    if (uploadedData.length > 0) {
-      setSalesData(prev => {
-        // Remove existing data for the same account and dates, then add new data
-        const filtered = prev.filter(existing => 
-          !(existing.account_id === accountId && 
-            data.some(newItem => newItem.date === existing.date))
-        );
-        return [...filtered, ...uploadedData];
-      });
-    }
+  // User group handlers
+  const handleAddUserGroup = async (groupData: Omit<UserGroup, 'id' | 'created_at'>) => {
+    await addUserGroup.mutate(groupData);
   };
 
-  const handleDeleteSalesData = async (accountId: string, dateRange?: { start: string; end: string }) => {
-    const success = await deleteSalesData(accountId, dateRange);
-    if (success) {
-      setSalesData(prev => {
-        if (dateRange) {
-          return prev.filter(data => 
-            !(data.account_id === accountId && 
-              data.date >= dateRange.start && 
-              data.date <= dateRange.end)
-          );
-        } else {
-          return prev.filter(data => data.account_id !== accountId);
-        }
-      });
-    }
+  const handleUpdateUserGroup = async (id: string, updates: Partial<UserGroup>) => {
+    await updateUserGroup.mutate(id, updates);
   };
 
-  // Incentive rules handlers
-  const handleUpdateIncentiveRules = (rules: IncentiveRule[]) => {
-    setIncentiveRules(rules);
+  const handleDeleteUserGroup = async (id: string) => {
+    const rulesUsingGroup = incentiveRules.filter(rule => rule.scope_group_id === id);
+
+    if (rulesUsingGroup.length > 0) {
+      alert(`Cannot delete team. ${rulesUsingGroup.length} incentive rule version(s) are pooled on this team.`);
+      return;
+    }
+
+    if (confirm('Are you sure you want to delete this team?')) {
+      await deleteUserGroup.mutate(id);
+    }
   };
 
+  if (isRestoringSession) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 flex items-center justify-center">
+        <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin"></div>
+      </div>
+    );
+  }
+
   if (!currentUser) {
-    return <Login onLogin={handleLogin} />;
+    return <Login onLogin={handleLogin} notice={sessionNotice} />;
+  }
+
+  if (isRecoveringPassword || currentUser.must_change_password) {
+    return (
+      <SetPassword
+        currentUser={currentUser}
+        reason={isRecoveringPassword ? 'recovery' : 'first-login'}
+        onDone={handlePasswordSet}
+        onLogout={handleLogout}
+      />
+    );
   }
 
+  const handleOpenAccount = (account: Account) => setOpenAccountId(account.id);
+
+  // Looked up in the live list so edits and realtime changes show straight away
+  const openAccount = openAccountId ? accounts.find(account => account.id === openAccountId) : undefined;
+
   const renderContent = () => {
+    if (openAccount) {
+      return (
+        <AccountDetail
+          account={openAccount}
+          categories={categories}
+          users={users}
+          currentUser={currentUser}
+          onBack={() => setOpenAccountId(null)}
+        />
+      );
+    }
+
     switch (activeTab) {
       case 'dashboard':
         return (
           <Dashboard
             accounts={accounts}
-            salesData={salesData}
             dateFilter={dateFilter}
             onDateFilterChange={setDateFilter}
             currentUser={currentUser}
             onTabChange={handleTabChange}
+            onOpenAccount={handleOpenAccount}
           />
         );
       case 'accounts':
@@ -270,17 +357,16 @@ function App() {
             onUpdateCategory={handleUpdateCategory}
             onDeleteCategory={handleDeleteCategory}
             initialPaymentFilter={accountsFilter.paymentFilter}
+            onOpenAccount={handleOpenAccount}
           />
         );
       case 'upload':
         return (
           <DataUpload
             accounts={accounts}
-            salesData={salesData}
             categories={categories}
             currentUser={currentUser}
-            onUploadData={handleUploadData}
-            onDeleteSalesData={handleDeleteSalesData}
+            onOpenAccount={handleOpenAccount}
           />
         );
       case 'files':
@@ -294,18 +380,21 @@ function App() {
         return (
           <Reports
             accounts={accounts}
-            salesData={salesData}
             categories={categories}
             dateFilter={dateFilter}
             onDateFilterChange={setDateFilter}
             currentUser={currentUser}
+            onOpenAccount={handleOpenAccount}
           />
         );
       case 'incentives':
         return (
           <IncentiveRules
             incentiveRules={incentiveRules}
-            onUpdateRules={handleUpdateIncentiveRules}
+            accounts={accounts}
+            users={users}
+            categories={categories}
+            userGroups={userGroups}
           />
         );
       case 'incentive-overview':
@@ -318,8 +407,8 @@ function App() {
         return (
           <IncentiveGameMap
             accounts={accounts}
-            salesData={salesData}
             incentiveRules={incentiveRules}
+            users={users}
             currentUser={currentUser}
           />
         );
@@ -328,7 +417,11 @@ function App() {
           <TeamManagement
             accounts={accounts}
             categories={categories}
+            userGroups={userGroups}
             currentUser={currentUser}
+            onAddUserGroup={handleAddUserGroup}
+            onUpdateUserGroup={handleUpdateUserGroup}
+            onDeleteUserGroup={handleDeleteUserGroup}
           />
         );
       case 'profile':
@@ -342,11 +435,11 @@ function App() {
         return (
           <Dashboard
             accounts={accounts}
-            salesData={salesData}
             dateFilter={dateFilter}
             onDateFilterChange={setDateFilter}
             currentUser={currentUser}
             onTabChange={handleTabChange}
+            onOpenAccount={handleOpenAccount}
           />
         );
     }
@@ -366,6 +459,12 @@ function App() {
               <p className="text-red-800">Error: {error}</p>
             </div>
           )}
+          <RemoteChangeNotice accounts={accounts} />
+          {accountsQuery.data?.truncated && (
+            <div className="mb-4">
+              <TruncationNotice shown={accounts.length} what="accounts" hint="Accounts past that point are missing from every page." />
+            </div>
+          )}
           {renderContent()}
         </div>
       </main>
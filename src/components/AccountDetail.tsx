@@ -0,0 +1,379 @@
+import React, { useMemo, useState } from 'react';
+import { AlertTriangle, ArrowLeft, Clock, DollarSign, Mail, MousePointer, Phone, ShoppingCart, TrendingUp, Users } from 'lucide-react';
+import MetricCard from './MetricCard';
+import TruncationNotice from './TruncationNotice';
+import CoverageCalendar from './CoverageCalendar';
+import PaymentTimeline from './PaymentTimeline';
+import AccountNotes from './AccountNotes';
+import AccountOwnership from './AccountOwnership';
+import { Account, Category, DailySalesTotals, User } from '../types';
+import { useAccountAssignments, useAccountStatusHistory, useDailySalesTotals } from '../hooks/queries';
+import {
+  fillDailyTotals,
+  groupTotalsByMonth,
+  percentChange,
+  sumSalesTotals,
+  todayIsoDate
+} from '../lib/salesAggregates';
+import { findMissingDates, getExpectedRange } from '../lib/salesCoverage';
+import { toPeriodKey } from '../lib/incentives';
+import { shiftDate } from '../lib/ruleVersions';
+import { getAccountOwnerIds } from '../lib/assignments';
+
+interface AccountDetailProps {
+  account: Account;
+  categories: Category[];
+  users: User[];
+  currentUser: User;
+  onBack: () => void;
+}
+
+type Metric = 'clicks' | 'orders' | 'gross_commission' | 'total_purchases';
+
+const METRICS: { key: Metric; label: string }[] = [
+  { key: 'clicks', label: 'Clicks' },
+  { key: 'orders', label: 'Orders' },
+  { key: 'gross_commission', label: 'Commission' },
+  { key: 'total_purchases', label: 'Revenue' },
+];
+
+const CHART_WINDOWS = [30, 90];
+
+// Months in the comparison table; one more is loaded to compare the oldest with
+const COMPARED_MONTHS = 6;
+const COVERAGE_MONTHS = 3;
+
+const STATUS_LABELS: Record<Account['status'], string> = {
+  active: 'Aktif',
+  violation: 'Pelanggaran',
+  inactive: 'Non-Aktif',
+};
+
+const STATUS_COLORS: Record<Account['status'], string> = {
+  active: 'bg-green-100 text-green-800',
+  violation: 'bg-red-100 text-red-800',
+  inactive: 'bg-gray-100 text-gray-800',
+};
+
+// YYYY-MM of the month `offset` months before the current one
+const monthsAgo = (offset: number): string => {
+  const now = new Date();
+  const date = new Date(now.getFullYear(), now.getMonth() - offset, 1);
+  return toPeriodKey({ year: date.getFullYear(), month: date.getMonth() + 1 });
+};
+
+const formatCurrency = (amount: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: 'IDR',
+    maximumFractionDigits: 0,
+  }).format(amount);
+
+const formatMetric = (metric: Metric, value: number) =>
+  metric === 'gross_commission' || metric === 'total_purchases'
+    ? formatCurrency(value)
+    : value.toLocaleString('id-ID');
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Everything about one account: its performance over time, data coverage,
+// status and payment history, its owners over time and the notes thread
+const AccountDetail: React.FC<AccountDetailProps> = ({ account, categories, users, currentUser, onBack }) => {
+  const [metric, setMetric] = useState<Metric>('gross_commission');
+  const [chartDays, setChartDays] = useState(30);
+
+  const today = todayIsoDate();
+  const range = useMemo(() => ({ start: `${monthsAgo(COMPARED_MONTHS)}-01`, end: today }), [today]);
+
+  const dailyTotalsQuery = useDailySalesTotals({ accountIds: [account.id], range });
+  const statusHistoryQuery = useAccountStatusHistory(account.id);
+  const assignmentsQuery = useAccountAssignments({ accountIds: [account.id] });
+
+  const dailyTotals = useMemo(() => dailyTotalsQuery.data?.rows || [], [dailyTotalsQuery.data]);
+  const statusHistory = statusHistoryQuery.data || [];
+
+  const chartData = useMemo(
+    () => fillDailyTotals(dailyTotals, { start: shiftDate(today, -(chartDays - 1)), end: today }),
+    [dailyTotals, chartDays, today]
+  );
+  const chartTotals = useMemo(() => sumSalesTotals(chartData), [chartData]);
+  const maxValue = Math.max(0, ...chartData.map(day => day[metric]));
+
+  // Newest month first, each compared with the month before it
+  const monthlyComparison = useMemo(() => {
+    const byPeriod = new Map(groupTotalsByMonth(dailyTotals).map(month => [month.period, month]));
+    return Array.from({ length: COMPARED_MONTHS }, (_, offset) => {
+      const period = monthsAgo(offset);
+      const current = byPeriod.get(period);
+      const previous = byPeriod.get(monthsAgo(offset + 1));
+      const value = current?.[metric] || 0;
+      return {
+        period,
+        value,
+        days: current?.days_count || 0,
+        change: percentChange(value, previous?.[metric] || 0),
+      };
+    });
+  }, [dailyTotals, metric]);
+
+  const coveredDates = useMemo(() => new Set(dailyTotals.map(day => day.date)), [dailyTotals]);
+  const coverageMonths = useMemo(
+    () => Array.from({ length: COVERAGE_MONTHS }, (_, index) => monthsAgo(COVERAGE_MONTHS - 1 - index)),
+    []
+  );
+  const valuesByDate = useMemo(() => new Map(dailyTotals.map(day => [day.date, day[metric]])), [dailyTotals, metric]);
+
+  // Days in the calendar the account should have data for but doesn't
+  const missingDates = useMemo(() => {
+    const expected = account.status === 'inactive'
+      ? null
+      : getExpectedRange(account, { start: `${coverageMonths[0]}-01`, end: today }, today);
+    return new Set(expected ? findMissingDates(coveredDates, expected) : []);
+  }, [account, coverageMonths, coveredDates, today]);
+  const missingThisMonth = [...missingDates].filter(date => date.startsWith(monthsAgo(0))).length;
+
+  // Other users are only loaded for those who can see their accounts; everyone
+  // else sees this account because it is assigned to them
+  const managers = getAccountOwnerIds(assignmentsQuery.data?.rows || [], account.id)
+    .map(userId => users.find(user => user.id === userId) || (userId === currentUser.id ? currentUser : null))
+    .filter((user): user is User => !!user);
+
+  const categoryName = categories.find(cat => cat.id === account.category_id)?.name || 'Belum Diatur';
+  const metricLabel = METRICS.find(option => option.key === metric)?.label || '';
+
+  const formatChartDate = (day: DailySalesTotals) =>
+    new Date(`${day.date}T00:00:00`).toLocaleDateString('id-ID', { day: '2-digit', month: 'short' });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-start justify-between">
+        <div className="flex items-start space-x-4">
+          <button
+            onClick={onBack}
+            className="p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+            title="Back"
+          >
+            <ArrowLeft className="w-5 h-5" />
+          </button>
+          <div>
+            <div className="flex items-center space-x-3">
+              <h1 className="text-2xl font-bold text-gray-900">{account.username}</h1>
+              <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[account.status]}`}>
+                {STATUS_LABELS[account.status]}
+              </span>
+            </div>
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1 text-sm text-gray-600">
+              <span>{account.account_code}</span>
+              <span>{categoryName}</span>
+              {account.email && (
+                <span className="inline-flex items-center space-x-1">
+                  <Mail className="w-4 h-4" />
+                  <span>{account.email}</span>
+                </span>
+              )}
+              {account.phone && (
+                <span className="inline-flex items-center space-x-1">
+                  <Phone className="w-4 h-4" />
+                  <span>{account.phone}</span>
+                </span>
+              )}
+            </div>
+          </div>
+        </div>
+        <div className="text-right text-sm">
+          <div className="flex items-center justify-end space-x-1 text-gray-500">
+            <Users className="w-4 h-4" />
+            <span>Managed by</span>
+          </div>
+          <div className="font-medium text-gray-900">
+            {managers.length > 0 ? managers.map(user => user.name).join(', ') : 'Nobody'}
+          </div>
+        </div>
+      </div>
+
+      {dailyTotalsQuery.error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <p className="text-red-800">Failed to load sales data: {dailyTotalsQuery.error}</p>
+        </div>
+      )}
+      {dailyTotalsQuery.data?.truncated && (
+        <TruncationNotice shown={dailyTotals.length} what="days" />
+      )}
+
+      {/* Totals for the chart window */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <MetricCard title="Clicks" value={chartTotals.clicks.toLocaleString('id-ID')} icon={MousePointer} subtitle={`Last ${chartDays} days`} />
+        <MetricCard title="Orders" value={chartTotals.orders.toLocaleString('id-ID')} icon={ShoppingCart} subtitle={`Last ${chartDays} days`} />
+        <MetricCard title="Commission" value={formatCurrency(chartTotals.gross_commission)} icon={DollarSign} subtitle={`Last ${chartDays} days`} />
+        <MetricCard title="Revenue" value={formatCurrency(chartTotals.total_purchases)} icon={TrendingUp} subtitle={`Last ${chartDays} days`} />
+      </div>
+
+      {/* Daily chart */}
+      <div className="bg-white rounded-xl border border-gray-100 p-6">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex space-x-2">
+            {METRICS.map(option => (
+              <button
+                key={option.key}
+                onClick={() => setMetric(option.key)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  metric === option.key ? 'bg-purple-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <select
+            value={chartDays}
+            onChange={(e) => setChartDays(parseInt(e.target.value))}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            {CHART_WINDOWS.map(days => (
+              <option key={days} value={days}>Last {days} days</option>
+            ))}
+          </select>
+        </div>
+
+        {dailyTotalsQuery.isLoading ? (
+          <div className="h-64 flex items-center justify-center text-sm text-gray-500">Loading sales data...</div>
+        ) : (
+          <>
+            <div className="h-64 flex items-end space-x-px">
+              {chartData.map(day => {
+                const height = maxValue > 0 ? (day[metric] / maxValue) * 240 : 0;
+                return (
+                  <div key={day.date} className="flex-1 h-full flex items-end relative group cursor-pointer">
+                    <div
+                      className="w-full bg-gradient-to-t from-purple-600 to-purple-400 rounded-t transition-all duration-300 group-hover:from-purple-700 group-hover:to-purple-500"
+                      style={{ height: `${height}px` }}
+                    ></div>
+                    <div className="absolute bottom-full left-1/2 transform -translate-x-1/2 mb-1 bg-gray-800 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-10">
+                      {formatChartDate(day)}: {formatMetric(metric, day[metric])}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            <div className="flex justify-between mt-2 text-xs text-gray-500">
+              <span>{chartData.length > 0 && formatChartDate(chartData[0])}</span>
+              <span>{chartData.length > 0 && formatChartDate(chartData[chartData.length - 1])}</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Month over month */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">{metricLabel} by Month</h3>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                <th className="pb-2">Month</th>
+                <th className="pb-2 text-right">{metricLabel}</th>
+                <th className="pb-2 text-right">vs. previous</th>
+                <th className="pb-2 text-right">Days with data</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {monthlyComparison.map(row => (
+                <tr key={row.period}>
+                  <td className="py-2 text-gray-900">
+                    {new Date(`${row.period}-01T00:00:00`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}
+                  </td>
+                  <td className="py-2 text-right font-medium text-gray-900">{formatMetric(metric, row.value)}</td>
+                  <td className={`py-2 text-right ${
+                    row.change === null ? 'text-gray-400' : row.change >= 0 ? 'text-green-600' : 'text-red-600'
+                  }`}>
+                    {row.change === null ? '—' : `${row.change >= 0 ? '+' : ''}${row.change.toFixed(1)}%`}
+                  </td>
+                  <td className="py-2 text-right text-gray-600">{row.days}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Data coverage */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Data Coverage</h3>
+          {missingThisMonth > 0 && (
+            <div className="flex items-start space-x-2 p-3 mb-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>
+                {missingThisMonth} day(s) this month have no sales data yet, so this month's figures and incentives are undercounted.
+              </span>
+            </div>
+          )}
+          <CoverageCalendar
+            months={coverageMonths}
+            coveredDates={coveredDates}
+            today={today}
+            values={valuesByDate}
+            missingDates={missingDates}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Status history */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Status History</h3>
+          {statusHistoryQuery.isLoading ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : statusHistoryQuery.error && statusHistory.length === 0 ? (
+            <p className="text-sm text-red-600">Failed to load history: {statusHistoryQuery.error}</p>
+          ) : statusHistory.length === 0 ? (
+            <p className="text-sm text-gray-500">No status changes recorded yet.</p>
+          ) : (
+            <ol className="space-y-3">
+              {statusHistory.map(entry => (
+                <li key={entry.id} className="flex items-start space-x-3">
+                  <Clock className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                  <div className="text-sm">
+                    <div className="text-gray-900">
+                      {entry.from_status
+                        ? `${STATUS_LABELS[entry.from_status]} → ${STATUS_LABELS[entry.to_status]}`
+                        : `Created as ${STATUS_LABELS[entry.to_status]}`}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {entry.changed_by_name || 'System'} · {formatDateTime(entry.created_at)}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+
+        {/* Payment history */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <PaymentTimeline account={account} currentUser={currentUser} />
+        </div>
+
+        {/* Notes */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Notes</h3>
+          <AccountNotes accountId={account.id} currentUser={currentUser} />
+        </div>
+
+        {/* Owners */}
+        <div className="bg-white rounded-xl border border-gray-100 p-6">
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Owners</h3>
+          <AccountOwnership accountId={account.id} users={users} currentUser={currentUser} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountDetail;
@@ -19,8 +19,23 @@ import {
   Check,
   XIcon
 } from 'lucide-react';
-import { Account, Category, User as UserType } from '../types';
+import { Account, Category, PaymentStatus, User as UserType } from '../types';
 import CategoryManagement from './CategoryManagement';
+import ToastStack from './ToastStack';
+import { useRemoteChanges } from '../hooks/useRealtimeSync';
+import { useOptimisticUpdateAccount } from '../hooks/queries';
+import { useAccountScope } from '../hooks/useAccountScope';
+import { useToasts } from '../hooks/useToasts';
+import { toErrorMessage } from '../lib/queryCache';
+import { PAYMENT_STATUS_LABELS, canChangePaymentStatus, getNextPaymentStatuses } from '../lib/paymentWorkflow';
+import { can, getDataScope, getScopedAccounts } from '../lib/permissions';
+import PaymentTimeline from './PaymentTimeline';
+
+type InlineField = 'status' | 'payment_data' | 'category_id';
+
+// How long an inline edit can be undone, and how long a failed one is reported
+const UNDO_WINDOW = 6000;
+const ERROR_DURATION = 8000;
 
 interface AccountManagementProps {
   accounts: Account[];
@@ -33,6 +48,7 @@ interface AccountManagementProps {
   onAddCategory: (category: Omit<Category, 'id' | 'created_at'>) => void;
   onUpdateCategory: (id: string, updates: Partial<Category>) => void;
   onDeleteCategory: (id: string) => void;
+  onOpenAccount?: (account: Account) => void;
 }
 
 const AccountManagement: React.FC<AccountManagementProps> = ({
@@ -46,20 +62,18 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   onAddCategory,
   onUpdateCategory,
   onDeleteCategory,
+  onOpenAccount,
 }) => {
-  // Filter accounts based on user role
-  const filteredAccountsByRole = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
+  // Filter accounts to the user's scope
+  const accountScope = useAccountScope(currentUser);
+  const filteredAccountsByRole = React.useMemo(
+    () => currentUser ? getScopedAccounts(currentUser, accounts, accountScope.assignedAccountIds) : [],
+    [accounts, currentUser, accountScope.assignedAccountIds]
+  );
+  const seesAllAccounts = getDataScope(currentUser) === 'all';
+  const canCreateAccounts = can(currentUser, 'accounts.create');
+  const canEditAccounts = can(currentUser, 'accounts.edit');
+  const canUpdatePayments = can(currentUser, 'payments.update');
 
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
@@ -67,8 +81,11 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   const [categoryFilter, setCategoryFilter] = useState('all');
   const [showModal, setShowModal] = useState(false);
   const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [editStartedAt, setEditStartedAt] = useState(0);
   const [showCategoryManagement, setShowCategoryManagement] = useState(false);
   const [editingField, setEditingField] = useState<{accountId: string, field: string} | null>(null);
+  const updateAccountInline = useOptimisticUpdateAccount();
+  const { toasts, showToast, dismissToast } = useToasts();
   const [formData, setFormData] = useState({
     username: '',
     email: '',
@@ -76,7 +93,6 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
     status: 'active' as Account['status'],
     payment_data: 'belum diatur' as Account['payment_data'],
     category_id: '',
-    user_id: currentUser?.id || null,
   });
 
   // Listen for payment filter events from Dashboard
@@ -92,6 +108,15 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
     };
   }, []);
 
+  // Latest write by another user to each account, for the "updated by" hints
+  const remoteChanges = useRemoteChanges();
+  const getRemoteChange = (accountId: string) =>
+    remoteChanges.find(change => change.table === 'accounts' && change.record_id === accountId);
+
+  // Someone else saved the account being edited after the form was opened
+  const concurrentChange = editingAccount ? getRemoteChange(editingAccount.id) : undefined;
+  const isEditedElsewhere = !!concurrentChange && concurrentChange.at > editStartedAt;
+
   const getCategoryName = (categoryId: string) => {
     if (!categoryId) return 'Belum Diatur';
     const category = categories.find(cat => cat.id === categoryId);
@@ -115,16 +140,14 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    // Ensure the account is assigned to the current user
-    const accountData = {
-      ...formData,
-      user_id: currentUser?.id || null,
-    };
-    
+    // Ownership isn't part of the form: the database assigns new accounts to
+    // their creator, and assignments change through account_assignments
     if (editingAccount) {
-      onUpdateAccount(editingAccount.id, accountData);
+      // Payment status only moves through the workflow panel, with its checks and history
+      const { username, email, phone, status, category_id } = formData;
+      onUpdateAccount(editingAccount.id, { username, email, phone, status, category_id });
     } else {
-      onAddAccount(accountData);
+      onAddAccount(formData);
     }
     
     closeModal();
@@ -132,6 +155,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
 
   const handleEdit = (account: Account) => {
     setEditingAccount(account);
+    setEditStartedAt(Date.now());
     setFormData({
       username: account.username,
       email: account.email,
@@ -139,7 +163,6 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
       status: account.status,
       payment_data: account.payment_data,
       category_id: account.category_id,
-      user_id: account.user_id,
     });
     setShowModal(true);
   };
@@ -153,7 +176,6 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
       status: 'active',
       payment_data: 'belum diatur',
       category_id: '',
-      user_id: currentUser?.id || null,
     });
     setShowModal(true);
   };
@@ -168,13 +190,54 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
       status: 'active',
       payment_data: 'belum diatur',
       category_id: '',
-      user_id: currentUser?.id || null,
     });
   };
 
-  const handleInlineEdit = (accountId: string, field: string, value: string) => {
-    onUpdateAccount(accountId, { [field]: value });
+  const describeInlineValue = (field: InlineField, value: string) => {
+    switch (field) {
+      case 'status': return `status set to ${getStatusLabel(value as Account['status'])}`;
+      case 'payment_data': return `payment set to ${getPaymentLabel(value as Account['payment_data'])}`;
+      case 'category_id': return `category set to ${getCategoryName(value)}`;
+    }
+  };
+
+  // Inline edits show at once; the row goes back if the server rejects the
+  // change. Each one can be undone for a few seconds, one toast per row.
+  const applyInlineEdit = async (account: Account, field: InlineField, value: string, previousValue: string, canUndo: boolean) => {
+    const key = `${account.id}:${field}`;
+    if (canUndo) {
+      // Stepping back in the payment workflow may need a superadmin
+      const isUndoable = field !== 'payment_data' ||
+        canChangePaymentStatus(value as PaymentStatus, previousValue as PaymentStatus, currentUser.role);
+      showToast({
+        key,
+        tone: 'info',
+        message: `${account.username}: ${describeInlineValue(field, value)}`,
+        action: isUndoable ? {
+          label: 'Undo',
+          onClick: () => {
+            showToast({ key, tone: 'info', message: `${account.username}: change undone` }, UNDO_WINDOW);
+            applyInlineEdit(account, field, previousValue, value, false);
+          },
+        } : undefined,
+      }, UNDO_WINDOW);
+    }
+
+    try {
+      await updateAccountInline.mutateAsync(account.id, { [field]: value });
+    } catch (err) {
+      showToast({
+        key,
+        tone: 'error',
+        message: `${account.username}: could not save the change, it was undone (${toErrorMessage(err)})`,
+      }, ERROR_DURATION);
+    }
+  };
+
+  const handleInlineEdit = (account: Account, field: InlineField, value: string) => {
     setEditingField(null);
+    if (account[field] === value) return;
+    applyInlineEdit(account, field, value, account[field], true);
   };
 
   const getStatusColor = (status: Account['status']) => {
@@ -252,13 +315,13 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
           <div>
             <h1 className="text-2xl font-bold text-gray-900">Account Management</h1>
             <p className="text-gray-600">
-              {currentUser?.role === 'superadmin' 
+              {seesAllAccounts
                 ? 'Manage all affiliate accounts and their information'
                 : `Manage your ${filteredAccountsByRole.length} affiliate accounts`}
             </p>
           </div>
           <div className="flex space-x-3">
-            {currentUser?.role === 'superadmin' && (
+            {can(currentUser, 'categories.manage') && (
               <button
                 onClick={() => setShowCategoryManagement(true)}
                 className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
@@ -267,13 +330,15 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                 <span>Manage Categories</span>
               </button>
             )}
-            <button
-              onClick={handleAdd}
-              className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Account</span>
-            </button>
+            {canCreateAccounts && (
+              <button
+                onClick={handleAdd}
+                className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add Account</span>
+              </button>
+            )}
           </div>
         </div>
 
@@ -436,7 +501,17 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                           <div className="w-8 h-8 bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg flex items-center justify-center mr-3">
                             <User className="w-4 h-4 text-purple-600" />
                           </div>
-                          <div className="text-sm font-medium text-gray-900">{account.username}</div>
+                          <div>
+                            <button
+                              onClick={() => onOpenAccount?.(account)}
+                              className="text-sm font-medium text-gray-900 hover:text-purple-600"
+                            >
+                              {account.username}
+                            </button>
+                            {getRemoteChange(account.id) && (
+                              <div className="text-xs text-blue-600">Updated by {getRemoteChange(account.id)?.user_name}</div>
+                            )}
+                          </div>
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
@@ -451,7 +526,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                           <div className="flex items-center space-x-2">
                             <select
                               defaultValue={account.status}
-                              onChange={(e) => handleInlineEdit(account.id, 'status', e.target.value)}
+                              onChange={(e) => handleInlineEdit(account, 'status', e.target.value)}
                               className="text-xs px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                               autoFocus
                             >
@@ -469,7 +544,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'status'})}
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getStatusColor(account.status)}`}
+                            disabled={!canEditAccounts}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 disabled:hover:opacity-100 disabled:cursor-default transition-opacity ${getStatusColor(account.status)}`}
                           >
                             {getStatusLabel(account.status)}
                           </button>
@@ -480,15 +556,14 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                           <div className="flex items-center space-x-2">
                             <select
                               defaultValue={account.payment_data}
-                              onChange={(e) => handleInlineEdit(account.id, 'payment_data', e.target.value)}
+                              onChange={(e) => handleInlineEdit(account, 'payment_data', e.target.value)}
                               className="text-xs px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                               autoFocus
                             >
-                              <option value="belum diatur">Belum Diatur</option>
-                              <option value="utamakan">Utamakan</option>
-                              <option value="dimasukkan">Dimasukkan</option>
-                              <option value="disetujui">Disetujui</option>
-                              <option value="sah">Sah</option>
+                              {/* Only the steps the workflow allows this user from here */}
+                              {[account.payment_data, ...getNextPaymentStatuses(account.payment_data, currentUser.role)].map(status => (
+                                <option key={status} value={status}>{PAYMENT_STATUS_LABELS[status]}</option>
+                              ))}
                             </select>
                             <button
                               onClick={() => setEditingField(null)}
@@ -500,7 +575,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'payment_data'})}
-                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 transition-opacity ${getPaymentColor(account.payment_data)}`}
+                            disabled={!canUpdatePayments}
+                            className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium hover:opacity-80 disabled:hover:opacity-100 disabled:cursor-default transition-opacity ${getPaymentColor(account.payment_data)}`}
                           >
                             {getPaymentLabel(account.payment_data)}
                           </button>
@@ -511,7 +587,7 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                           <div className="flex items-center space-x-2">
                             <select
                               defaultValue={account.category_id}
-                              onChange={(e) => handleInlineEdit(account.id, 'category_id', e.target.value)}
+                              onChange={(e) => handleInlineEdit(account, 'category_id', e.target.value)}
                               className="text-xs px-2 py-1 border border-gray-300 rounded focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                               autoFocus
                             >
@@ -532,7 +608,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                         ) : (
                           <button
                             onClick={() => setEditingField({accountId: account.id, field: 'category_id'})}
-                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:opacity-80 transition-opacity"
+                            disabled={!canEditAccounts}
+                            className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800 hover:opacity-80 disabled:hover:opacity-100 disabled:cursor-default transition-opacity"
                           >
                             {getCategoryName(account.category_id)}
                           </button>
@@ -543,14 +620,16 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                         <div className="flex items-center space-x-3">
-                          <button
-                            onClick={() => handleEdit(account)}
-                            className="text-blue-600 hover:text-blue-700 transition-colors"
-                          >
-                            <Edit2 className="w-4 h-4" />
-                          </button>
+                          {canEditAccounts && (
+                            <button
+                              onClick={() => handleEdit(account)}
+                              className="text-blue-600 hover:text-blue-700 transition-colors"
+                            >
+                              <Edit2 className="w-4 h-4" />
+                            </button>
+                          )}
                           
-                          {currentUser?.role === 'superadmin' && (
+                          {can(currentUser, 'accounts.delete') && (
                             <button
                               onClick={() => onDeleteAccount(account.id)}
                               className="text-red-600 hover:text-red-700 transition-colors"
@@ -573,13 +652,13 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
               </h3>
               <p className="text-gray-600 mb-4">
                 {filteredAccountsByRole.length === 0 
-                  ? currentUser?.role === 'superadmin'
+                  ? seesAllAccounts
                     ? 'Get started by adding your first account'
                     : 'No accounts have been assigned to you yet. Contact your administrator.'
                   : 'Try adjusting your search or filter criteria'
                 }
               </p>
-              {filteredAccountsByRole.length === 0 && currentUser?.role === 'superadmin' && (
+              {filteredAccountsByRole.length === 0 && seesAllAccounts && canCreateAccounts && (
                 <button
                   onClick={handleAdd}
                   className="bg-purple-600 text-white px-6 py-3 rounded-lg hover:bg-purple-700 transition-colors"
@@ -691,24 +770,33 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                     </select>
                   </div>
                   
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-2">
-                      Payment Status *
-                    </label>
-                    <select
-                      value={formData.payment_data}
-                      onChange={(e) => setFormData({ ...formData, payment_data: e.target.value as Account['payment_data'] })}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                      required
-                    >
-                      <option value="belum diatur">Belum Diatur</option>
-                      <option value="utamakan">Utamakan</option>
-                      <option value="dimasukkan">Dimasukkan</option>
-                      <option value="disetujui">Disetujui</option>
-                      <option value="sah">Sah</option>
-                    </select>
-                  </div>
+                  {!editingAccount && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Payment Status *
+                      </label>
+                      <select
+                        value={formData.payment_data}
+                        onChange={(e) => setFormData({ ...formData, payment_data: e.target.value as Account['payment_data'] })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        required
+                      >
+                        {getNextPaymentStatuses(null, currentUser.role).map(status => (
+                          <option key={status} value={status}>{PAYMENT_STATUS_LABELS[status]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
                 </div>
+
+                {editingAccount && (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    <PaymentTimeline
+                      account={accounts.find(account => account.id === editingAccount.id) || editingAccount}
+                      currentUser={currentUser}
+                    />
+                  </div>
+                )}
                 
                 {/* Show assignment info */}
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
@@ -719,8 +807,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                     <div>
                       <h4 className="text-sm font-medium text-blue-900">Account Assignment</h4>
                       <p className="text-sm text-blue-800 mt-1">
-                        {currentUser?.role === 'superadmin' 
-                          ? 'As a superadmin, you can manage all accounts without explicit assignment.'
+                        {seesAllAccounts
+                          ? 'You can see all accounts, so this account is not assigned to you.'
                           : 'This account will be automatically assigned to you for management.'
                         }
                       </p>
@@ -728,6 +816,21 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
                   </div>
                 </div>
                 
+                {isEditedElsewhere && concurrentChange && editingAccount && (
+                  <div className="flex items-center justify-between p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                    <span>
+                      {concurrentChange.user_name} updated this account while you were editing. Saving will overwrite their changes.
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleEdit(accounts.find(account => account.id === editingAccount.id) || editingAccount)}
+                      className="ml-3 px-3 py-1 text-sm font-medium text-yellow-800 border border-yellow-300 rounded-lg hover:bg-yellow-100 transition-colors whitespace-nowrap"
+                    >
+                      Load their version
+                    </button>
+                  </div>
+                )}
+
                 <div className="flex space-x-3 pt-6 border-t border-gray-100">
                   <button
                     type="button"
@@ -749,6 +852,8 @@ const AccountManagement: React.FC<AccountManagementProps> = ({
           </div>
         </div>
       )}
+
+      <ToastStack toasts={toasts} onDismiss={dismissToast} />
     </>
   );
 };
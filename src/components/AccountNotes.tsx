@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { MessageSquare, Send, Trash2 } from 'lucide-react';
+import { User } from '../types';
+import { useAccountNotes, useAddAccountNote, useDeleteAccountNote } from '../hooks/queries';
+import { can } from '../lib/permissions';
+
+interface AccountNotesProps {
+  accountId: string;
+  currentUser: User;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Free-text comments on an account, newest first. Authors can remove their own
+// notes; notes.delete_any allows removing anyone's.
+const AccountNotes: React.FC<AccountNotesProps> = ({ accountId, currentUser }) => {
+  const [body, setBody] = useState('');
+  const notesQuery = useAccountNotes(accountId);
+  const addNote = useAddAccountNote();
+  const deleteNote = useDeleteAccountNote();
+
+  const notes = notesQuery.data || [];
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+    const added = await addNote.mutate(accountId, body.trim());
+    if (added) setBody('');
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Delete this note?')) {
+      deleteNote.mutate(id);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {can(currentUser, 'notes.add') && (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <textarea
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            rows={3}
+            placeholder="Add a note about this account..."
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!body.trim() || addNote.isPending}
+              className="inline-flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" />
+              <span>{addNote.isPending ? 'Posting...' : 'Post Note'}</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {(addNote.error || deleteNote.error) && (
+        <p className="text-sm text-red-600">{addNote.error || deleteNote.error}</p>
+      )}
+
+      {notesQuery.isLoading ? (
+        <p className="text-sm text-gray-500">Loading notes...</p>
+      ) : notesQuery.error && notes.length === 0 ? (
+        <p className="text-sm text-red-600">Failed to load notes: {notesQuery.error}</p>
+      ) : notes.length === 0 ? (
+        <p className="text-sm text-gray-500">No notes yet.</p>
+      ) : (
+        <ul className="space-y-3">
+          {notes.map(note => (
+            <li key={note.id} className="flex items-start space-x-3">
+              <MessageSquare className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+              <div className="flex-1 min-w-0">
+                <div className="text-xs text-gray-500">
+                  {note.author_name || 'Unknown user'} · {formatDateTime(note.created_at)}
+                </div>
+                <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{note.body}</p>
+              </div>
+              {(note.author_id === currentUser.id || can(currentUser, 'notes.delete_any')) && (
+                <button
+                  type="button"
+                  onClick={() => handleDelete(note.id)}
+                  disabled={deleteNote.isPending}
+                  className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                  title="Delete note"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AccountNotes;
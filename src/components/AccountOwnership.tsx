@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { ArrowRightLeft, UserCheck } from 'lucide-react';
+import { User } from '../types';
+import { useAccountAssignments, useAssignAccount } from '../hooks/queries';
+import { getAccountAssignmentHistory } from '../lib/assignments';
+import { todayIsoDate } from '../lib/salesAggregates';
+import { can, hasPermission } from '../lib/permissions';
+
+interface AccountOwnershipProps {
+  accountId: string;
+  users: User[];
+  currentUser: User;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('id-ID', { year: 'numeric', month: 'short', day: 'numeric' });
+
+// Who owned the account and when, latest first. Users with accounts.assign can
+// move it to someone else from a date on; sales before that date stay with
+// the previous owner for incentives.
+const AccountOwnership: React.FC<AccountOwnershipProps> = ({ accountId, users, currentUser }) => {
+  const today = todayIsoDate();
+  const [newOwnerId, setNewOwnerId] = useState('');
+  const [effectiveFrom, setEffectiveFrom] = useState(today);
+  const assignmentsQuery = useAccountAssignments({ accountIds: [accountId] });
+  const assignAccount = useAssignAccount();
+
+  const history = getAccountAssignmentHistory(assignmentsQuery.data?.rows || [], accountId);
+  const canAssign = can(currentUser, 'accounts.assign');
+  // Users who see every account don't get accounts assigned
+  const assignableUsers = users.filter(user => !hasPermission(user.role, 'data.view_all'));
+
+  const userName = (userId: string) =>
+    users.find(user => user.id === userId)?.name || (userId === currentUser.id ? currentUser.name : 'Unknown user');
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = newOwnerId ? userName(newOwnerId) : 'nobody';
+    if (!confirm(`Assign this account to ${target} from ${formatDay(effectiveFrom)}?`)) return;
+    const assigned = await assignAccount.mutate(accountId, newOwnerId || null, effectiveFrom);
+    if (assigned) setNewOwnerId('');
+  };
+
+  return (
+    <div className="space-y-4">
+      {canAssign && (
+        <form onSubmit={handleTransfer} className="space-y-2">
+          <select
+            value={newOwnerId}
+            onChange={(e) => setNewOwnerId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          >
+            <option value="">Nobody (unassign)</option>
+            {assignableUsers.map(user => (
+              <option key={user.id} value={user.id}>{user.name}</option>
+            ))}
+          </select>
+          <div className="flex items-center space-x-2">
+            <label className="text-xs text-gray-600 flex-shrink-0">Effective from</label>
+            <input
+              type="date"
+              value={effectiveFrom}
+              max={today}
+              onChange={(e) => setEffectiveFrom(e.target.value)}
+              className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            />
+          </div>
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={!effectiveFrom || effectiveFrom > today || assignAccount.isPending}
+              className="inline-flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm font-medium bg-purple-600 text-white hover:bg-purple-700 transition-colors disabled:opacity-50"
+            >
+              <ArrowRightLeft className="w-4 h-4" />
+              <span>{assignAccount.isPending ? 'Saving...' : 'Transfer'}</span>
+            </button>
+          </div>
+        </form>
+      )}
+
+      {assignAccount.error && <p className="text-sm text-red-600">{assignAccount.error}</p>}
+
+      {assignmentsQuery.isLoading ? (
+        <p className="text-sm text-gray-500">Loading owners...</p>
+      ) : assignmentsQuery.error && history.length === 0 ? (
+        <p className="text-sm text-red-600">Failed to load owners: {assignmentsQuery.error}</p>
+      ) : history.length === 0 ? (
+        <p className="text-sm text-gray-500">Not assigned to anyone.</p>
+      ) : (
+        <ol className="space-y-3">
+          {history.map(assignment => (
+            <li key={assignment.id} className="flex items-start space-x-3">
+              <UserCheck className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+              <div className="text-sm">
+                <div className="text-gray-900">{userName(assignment.user_id)}</div>
+                <div className="text-xs text-gray-500">
+                  {assignment.starts_on ? formatDay(assignment.starts_on) : 'Since created'}
+                  {' – '}
+                  {assignment.ends_on ? formatDay(assignment.ends_on) : 'now'}
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default AccountOwnership;
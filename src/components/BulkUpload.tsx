@@ -0,0 +1,464 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { Upload, FileText, CheckCircle, AlertCircle, X, Trash2, ChevronDown, ChevronUp, Link } from 'lucide-react';
+import { Account, SalesData, SalesImportFile } from '../types';
+import {
+  AccountMatchSource,
+  ImportResult,
+  buildSalesImport,
+  detectHeaderRow,
+  guessColumnMapping,
+  matchAccountForFile,
+  parseCsv
+} from '../lib/csvImport';
+import { isXlsxFile, pickSalesSheet, readFileAsDataUrl, readWorkbook } from '../lib/xlsxImport';
+import { ConflictResolution, ImportDiffRow, diffSalesImport, resolveImport, summarizeDiff } from '../lib/importDiff';
+import { fetchSalesData } from '../lib/api';
+import { toErrorMessage } from '../lib/queryCache';
+
+interface BulkUploadProps {
+  accounts: Account[];
+  // Resolves to null when the file was imported, or to why it failed
+  onImportFile: (importFile: SalesImportFile) => Promise<string | null>;
+  onClose: () => void;
+}
+
+interface BulkFile {
+  id: string;
+  name: string;
+  content: string;
+  result: ImportResult | null;
+  parseError: string | null;
+  accountId: string;
+  matchedBy: AccountMatchSource | null;
+  conflictResolution: ConflictResolution; // applies to every changed day in the file
+  outcome: { success: boolean; message: string } | null;
+}
+
+// Stored days for one account and date range; rows stay null until loaded
+interface ExistingRows {
+  rows: SalesData[] | null;
+  error: string | null;
+}
+
+const matchLabels: Record<AccountMatchSource, string> = {
+  column: 'Matched by account column',
+  code: 'Matched by account code in file name',
+  username: 'Matched by username in file name',
+};
+
+// Stored days are fetched per account and per date range a file covers
+const getExistingKey = (file: BulkFile) => {
+  if (!file.result || file.result.rows.length === 0 || !file.accountId) return null;
+  const dates = file.result.rows.map(row => row.date).sort();
+  return `${file.accountId}|${dates[0]}|${dates[dates.length - 1]}`;
+};
+
+const BulkUpload: React.FC<BulkUploadProps> = ({ accounts, onImportFile, onClose }) => {
+  const [files, setFiles] = useState<BulkFile[]>([]);
+  const [expandedFile, setExpandedFile] = useState<string | null>(null);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const [existingRows, setExistingRows] = useState<Map<string, ExistingRows>>(new Map());
+  const requestedKeys = useRef(new Set<string>());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const readFiles = async (selectedFiles: File[]) => {
+    const importFiles = selectedFiles.filter(file =>
+      file.type === 'text/csv' || file.name.toLowerCase().endsWith('.csv') || isXlsxFile(file)
+    );
+    if (importFiles.length === 0) return;
+
+    setIsReading(true);
+    const parsed = await Promise.all(importFiles.map(async (file, index): Promise<BulkFile> => {
+      const base = {
+        id: `${Date.now()}-${index}-${file.name}`,
+        name: file.name,
+        content: '',
+        conflictResolution: 'keep' as ConflictResolution,
+        outcome: null,
+      };
+      try {
+        // Workbooks use the sheet that holds the export; the sheet can be
+        // picked by hand in the single-file upload
+        let content: string;
+        let records: string[][];
+        if (isXlsxFile(file)) {
+          const sheets = await readWorkbook(file);
+          records = sheets[pickSalesSheet(sheets)]?.records || [];
+          content = await readFileAsDataUrl(file);
+        } else {
+          content = await file.text();
+          records = parseCsv(content);
+        }
+        const headerRow = detectHeaderRow(records);
+        if (headerRow < 0) {
+          return { ...base, result: null, parseError: 'No Shopee affiliate header found', accountId: '', matchedBy: null };
+        }
+        const match = matchAccountForFile(file.name, records, headerRow, accounts);
+        return {
+          ...base,
+          content,
+          result: buildSalesImport(records, headerRow, guessColumnMapping(records[headerRow])),
+          parseError: null,
+          accountId: match?.accountId || '',
+          matchedBy: match?.matchedBy || null,
+        };
+      } catch {
+        return { ...base, result: null, parseError: 'Could not read the file', accountId: '', matchedBy: null };
+      }
+    }));
+    setFiles(prev => [...prev, ...parsed]);
+    setIsReading(false);
+  };
+
+  // Files for the same account may not share dates, or the later file would
+  // silently overwrite the earlier one
+  const conflicts = useMemo(() => {
+    const result = new Map<string, string>();
+    files.forEach((file, i) => {
+      files.slice(i + 1).forEach(other => {
+        if (!file.accountId || file.accountId !== other.accountId || !file.result || !other.result) return;
+        const dates = new Set(file.result.rows.map(row => row.date));
+        if (other.result.rows.some(row => dates.has(row.date))) {
+          result.set(file.id, other.name);
+          result.set(other.id, file.name);
+        }
+      });
+    });
+    return result;
+  }, [files]);
+
+  const existingKeys = files.map(getExistingKey).filter((key): key is string => key !== null).join(',');
+
+  const loadExistingRows = useCallback(async (key: string) => {
+    requestedKeys.current.add(key);
+    setExistingRows(prev => new Map(prev).set(key, { rows: null, error: null }));
+    const [accountId, start, end] = key.split('|');
+    try {
+      const result = await fetchSalesData({ accountIds: [accountId], range: { start, end } });
+      setExistingRows(prev => new Map(prev).set(key, { rows: result.rows, error: null }));
+    } catch (err) {
+      setExistingRows(prev => new Map(prev).set(key, { rows: null, error: toErrorMessage(err) }));
+    }
+  }, []);
+
+  useEffect(() => {
+    new Set(existingKeys.split(',')).forEach(key => {
+      if (key && !requestedKeys.current.has(key)) loadExistingRows(key);
+    });
+  }, [existingKeys, loadExistingRows]);
+
+  const getExistingRows = (file: BulkFile): ExistingRows | undefined => {
+    const key = getExistingKey(file);
+    return key ? existingRows.get(key) : undefined;
+  };
+
+  // Each file compared with what is already stored for its account. Files whose
+  // stored days haven't loaded get no diff: against nothing every day is new.
+  const diffs = useMemo(() => {
+    const result = new Map<string, ImportDiffRow[]>();
+    files.forEach(file => {
+      const key = getExistingKey(file);
+      const existing = key ? existingRows.get(key)?.rows : null;
+      if (file.result && existing) {
+        result.set(file.id, diffSalesImport(file.result.rows, existing, file.accountId));
+      }
+    });
+    return result;
+  }, [files, existingRows]);
+
+  const getRowsToUpload = (file: BulkFile) =>
+    resolveImport(diffs.get(file.id) || [], {}, file.conflictResolution);
+
+  const uploadableFiles = files.filter(file => file.result && file.result.rows.length > 0);
+  const unassignedCount = uploadableFiles.filter(file => !file.accountId).length;
+  const comparingCount = uploadableFiles.filter(file => file.accountId && !getExistingRows(file)?.rows).length;
+  const failedCount = uploadableFiles.filter(file => getExistingRows(file)?.error).length;
+  const totalRows = uploadableFiles.reduce((sum, file) => sum + getRowsToUpload(file).length, 0);
+  const canUpload = uploadableFiles.length > 0 && unassignedCount === 0 && comparingCount === 0 &&
+    conflicts.size === 0 && !isUploading;
+
+  const updateFile = (id: string, updates: Partial<BulkFile>) => {
+    setFiles(prev => prev.map(file => file.id === id ? { ...file, ...updates } : file));
+  };
+
+  const removeFile = (id: string) => {
+    setFiles(prev => prev.filter(file => file.id !== id));
+  };
+
+  const handleUpload = async () => {
+    if (!canUpload) return;
+    setIsUploading(true);
+
+    try {
+      // One import batch per file, so each file can be rolled back on its own
+      const outcomes = new Map<string, BulkFile['outcome']>();
+      for (const file of uploadableFiles) {
+        const rows = getRowsToUpload(file);
+        const skipped = file.result ? file.result.totalRows - file.result.rows.length : 0;
+        const untouched = (file.result?.rows.length || 0) - rows.length;
+        const details = [
+          skipped > 0 ? `${skipped} skipped` : '',
+          untouched > 0 ? `${untouched} unchanged or kept` : '',
+        ].filter(Boolean).join(', ');
+
+        if (rows.length === 0) {
+          outcomes.set(file.id, { success: true, message: `Nothing to upload${details ? `: ${details}` : ''}` });
+          continue;
+        }
+
+        const importError = await onImportFile({
+          account_id: file.accountId,
+          file_name: file.name,
+          file_content: file.content,
+          rows,
+        });
+        outcomes.set(file.id, importError === null
+          ? { success: true, message: `${rows.length} rows uploaded${details ? `, ${details}` : ''}` }
+          : { success: false, message: `Upload failed: ${importError}` });
+      }
+
+      setFiles(prev => prev.map(file => ({
+        ...file,
+        outcome: outcomes.get(file.id) || { success: false, message: file.parseError || 'No valid rows, skipped' },
+      })));
+      setIsDone(true);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragOver(false);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      readFiles(Array.from(e.dataTransfer.files));
+    }
+  };
+
+  const getAccountLabel = (account: Account) => `${account.username} (${account.account_code})`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-4xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Bulk Upload</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Drop the exports of many accounts at once. Files are matched to accounts automatically; unmatched files need an account before uploading.
+              </p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {/* Drop Area */}
+          {!isDone && (
+            <div
+              className={`border-2 border-dashed rounded-lg p-6 text-center mb-6 transition-colors ${
+                isDragOver ? 'border-purple-400 bg-purple-50' : 'border-gray-300 hover:border-gray-400'
+              }`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setIsDragOver(true);
+              }}
+              onDragLeave={(e) => {
+                e.preventDefault();
+                setIsDragOver(false);
+              }}
+              onDrop={handleDrop}
+            >
+              <Upload className="w-10 h-10 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-700 mb-3">{isReading ? 'Reading files...' : 'Drop CSV or Excel files here, or'}</p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".csv,.xlsx"
+                multiple
+                onChange={(e) => {
+                  if (e.target.files) readFiles(Array.from(e.target.files));
+                  e.target.value = '';
+                }}
+                className="hidden"
+              />
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="bg-purple-600 text-white px-6 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                Choose Files
+              </button>
+            </div>
+          )}
+
+          {/* Review */}
+          {files.length > 0 && (
+            <div className="border border-gray-200 rounded-lg divide-y divide-gray-100 mb-6">
+              {files.map(file => {
+                const conflict = conflicts.get(file.id);
+                const issueCount = file.result?.issues.length || 0;
+                const diff = diffs.get(file.id);
+                const summary = diff ? summarizeDiff(diff) : null;
+                const existing = getExistingRows(file);
+                const existingKey = getExistingKey(file);
+                return (
+                  <div key={file.id} className="p-4">
+                    <div className="flex items-center justify-between space-x-4">
+                      <div className="flex items-center space-x-3 min-w-0">
+                        <FileText className={`w-5 h-5 flex-shrink-0 ${file.result ? 'text-green-500' : 'text-red-500'}`} />
+                        <div className="min-w-0">
+                          <p className="font-medium text-gray-900 truncate">{file.name}</p>
+                          <p className="text-xs text-gray-500">
+                            {file.result
+                              ? `${file.result.rows.length} of ${file.result.totalRows} rows valid`
+                              : file.parseError}
+                            {issueCount > 0 && (
+                              <button
+                                onClick={() => setExpandedFile(expandedFile === file.id ? null : file.id)}
+                                className="ml-2 inline-flex items-center text-red-600 hover:text-red-700"
+                              >
+                                {issueCount} problem(s)
+                                {expandedFile === file.id ? <ChevronUp className="w-3 h-3 ml-0.5" /> : <ChevronDown className="w-3 h-3 ml-0.5" />}
+                              </button>
+                            )}
+                          </p>
+                        </div>
+                      </div>
+
+                      {file.outcome ? (
+                        <div className={`flex items-center space-x-2 text-sm ${file.outcome.success ? 'text-green-700' : 'text-red-700'}`}>
+                          {file.outcome.success ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                          <span>{file.outcome.message}</span>
+                        </div>
+                      ) : (
+                        <div className="flex items-center space-x-2 flex-shrink-0">
+                          {file.result && (
+                            <div>
+                              <select
+                                value={file.accountId}
+                                onChange={(e) => updateFile(file.id, { accountId: e.target.value, matchedBy: null })}
+                                className={`w-64 px-2 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent ${
+                                  !file.accountId || conflict ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                                }`}
+                              >
+                                <option value="">Assign account...</option>
+                                {accounts.map(account => (
+                                  <option key={account.id} value={account.id}>{getAccountLabel(account)}</option>
+                                ))}
+                              </select>
+                              {file.matchedBy && (
+                                <p className="text-xs text-gray-500 mt-1 flex items-center space-x-1">
+                                  <Link className="w-3 h-3" />
+                                  <span>{matchLabels[file.matchedBy]}</span>
+                                </p>
+                              )}
+                              {conflict && (
+                                <p className="text-xs text-red-600 mt-1">Shares dates with {conflict} for the same account</p>
+                              )}
+                              {existing?.error && existingKey && (
+                                <p className="text-xs text-red-600 mt-1">
+                                  Could not load existing data: {existing.error}{' '}
+                                  <button
+                                    onClick={() => loadExistingRows(existingKey)}
+                                    className="underline hover:text-red-700"
+                                  >
+                                    Retry
+                                  </button>
+                                </p>
+                              )}
+                              {existing && !existing.rows && !existing.error && (
+                                <p className="text-xs text-gray-500 mt-1">Comparing with existing data...</p>
+                              )}
+                              {summary && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  {summary.new} new · {summary.changed} changed · {summary.unchanged} unchanged
+                                </p>
+                              )}
+                              {summary && summary.changed > 0 && (
+                                <select
+                                  value={file.conflictResolution}
+                                  onChange={(e) => updateFile(file.id, { conflictResolution: e.target.value as ConflictResolution })}
+                                  className="mt-1 w-64 px-2 py-1 border border-yellow-300 bg-yellow-50 rounded text-xs"
+                                >
+                                  <option value="keep">Changed days: keep existing</option>
+                                  <option value="overwrite">Changed days: overwrite</option>
+                                </select>
+                              )}
+                            </div>
+                          )}
+                          <button
+                            onClick={() => removeFile(file.id)}
+                            className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                            title="Remove file"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+
+                    {expandedFile === file.id && file.result && (
+                      <ul className="mt-3 ml-8 space-y-1 text-xs text-gray-600 max-h-32 overflow-y-auto">
+                        {file.result.issues.map((issue, index) => (
+                          <li key={index}>Row {issue.row} · {issue.column}: {issue.reason}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-600">
+              {isDone
+                ? `${files.filter(file => file.outcome?.success).length} of ${files.length} files uploaded`
+                : unassignedCount > 0
+                  ? `${unassignedCount} file(s) still need an account`
+                  : failedCount > 0
+                    ? `${failedCount} file(s) could not be compared with existing data`
+                    : comparingCount > 0
+                      ? `Comparing ${comparingCount} file(s) with existing data...`
+                      : `${uploadableFiles.length} file(s), ${totalRows} rows ready`}
+            </p>
+            <div className="flex space-x-3">
+              <button
+                onClick={onClose}
+                className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                {isDone ? 'Close' : 'Cancel'}
+              </button>
+              {!isDone && (
+                <button
+                  onClick={handleUpload}
+                  disabled={!canUpload}
+                  className="bg-purple-600 text-white px-4 py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center space-x-2"
+                >
+                  {isUploading ? (
+                    <>
+                      <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                      <span>Uploading...</span>
+                    </>
+                  ) : (
+                    <>
+                      <Upload className="w-4 h-4" />
+                      <span>Upload Batch</span>
+                    </>
+                  )}
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BulkUpload;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { getPeriodBounds, parsePeriodKey } from '../lib/incentives';
+import { shiftDate } from '../lib/ruleVersions';
+
+interface CoverageCalendarProps {
+  months: string[]; // YYYY-MM, in display order
+  coveredDates: Set<string>;
+  today: string;
+  values?: Map<string, number>; // shades covered days by how much they hold
+  missingDates?: Set<string>; // days that should have data but don't
+}
+
+const WEEKDAYS = ['M', 'T', 'W', 'T', 'F', 'S', 'S'];
+
+// Covered days from the lowest to the highest quarter of the values
+const HEAT_LEVELS = ['bg-green-200 text-green-900', 'bg-green-300 text-green-900', 'bg-green-500 text-white', 'bg-green-700 text-white'];
+
+// Days of the month, preceded by blanks so the first day lands in its
+// weekday column (weeks start on Monday)
+const getMonthCells = (month: string): (string | null)[] => {
+  const { start, end } = getPeriodBounds(parsePeriodKey(month));
+  const leading = (new Date(`${start}T00:00:00`).getDay() + 6) % 7;
+  const cells: (string | null)[] = Array(leading).fill(null);
+  for (let date = start; date <= end; date = shiftDate(date, 1)) cells.push(date);
+  return cells;
+};
+
+// One small calendar per month showing which days have sales data, shaded
+// by value when values are given, with missing days marked
+const CoverageCalendar: React.FC<CoverageCalendarProps> = ({ months, coveredDates, today, values, missingDates }) => {
+  const maxValue = values ? Math.max(0, ...values.values()) : 0;
+
+  const getCoveredColor = (date: string) => {
+    if (!values || maxValue === 0) return 'bg-green-500 text-white';
+    const level = Math.min(HEAT_LEVELS.length - 1, Math.floor(((values.get(date) || 0) / maxValue) * HEAT_LEVELS.length));
+    return HEAT_LEVELS[level];
+  };
+
+  const describe = (date: string) => {
+    if (date > today) return 'upcoming';
+    if (!coveredDates.has(date)) return missingDates?.has(date) ? 'missing' : 'no data';
+    return values ? `data uploaded (${(values.get(date) || 0).toLocaleString('id-ID')})` : 'data uploaded';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-6">
+        {months.map(month => (
+          <div key={month}>
+            <div className="text-sm font-medium text-gray-700 mb-2">
+              {new Date(`${month}-01T00:00:00`).toLocaleDateString('id-ID', { month: 'long', year: 'numeric' })}
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {WEEKDAYS.map((day, index) => (
+                <div key={index} className="text-center text-xs text-gray-400">{day}</div>
+              ))}
+              {getMonthCells(month).map((date, index) => {
+                if (!date) return <div key={index} />;
+                const isCovered = coveredDates.has(date);
+                const isFuture = date > today;
+                return (
+                  <div
+                    key={date}
+                    title={`${date}: ${describe(date)}`}
+                    className={`aspect-square rounded text-[10px] flex items-center justify-center ${
+                      isFuture
+                        ? 'bg-gray-50 text-gray-300'
+                        : isCovered
+                          ? getCoveredColor(date)
+                          : missingDates?.has(date)
+                            ? 'bg-red-100 text-red-700 ring-1 ring-red-300'
+                            : 'bg-gray-200 text-gray-500'
+                    }`}
+                  >
+                    {parseInt(date.slice(8))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center space-x-4 text-xs text-gray-500">
+        <div className="flex items-center space-x-1">
+          <div className="w-3 h-3 rounded bg-green-500"></div>
+          <span>{values ? 'Data uploaded (darker = higher)' : 'Data uploaded'}</span>
+        </div>
+        {missingDates && (
+          <div className="flex items-center space-x-1">
+            <div className="w-3 h-3 rounded bg-red-100 ring-1 ring-red-300"></div>
+            <span>Missing</span>
+          </div>
+        )}
+        <div className="flex items-center space-x-1">
+          <div className="w-3 h-3 rounded bg-gray-200"></div>
+          <span>No data</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CoverageCalendar;
@@ -15,7 +15,13 @@ import {
   Shield
 } from 'lucide-react';
 import MetricCard from './MetricCard';
-import { DashboardMetrics, Account, SalesData, User } from '../types';
+import TruncationNotice from './TruncationNotice';
+import MissingSalesDays from './MissingSalesDays';
+import { DashboardMetrics, Account, User } from '../types';
+import { useDailySalesTotals } from '../hooks/queries';
+import { useAccountScope } from '../hooks/useAccountScope';
+import { dateFilterToRange, sumSalesTotals } from '../lib/salesAggregates';
+import { getDataScope, getScopedAccounts } from '../lib/permissions';
 
 interface DateFilter {
   startDate: string;
@@ -25,40 +31,20 @@ interface DateFilter {
 
 interface DashboardProps {
   accounts: Account[];
-  salesData: SalesData[];
   dateFilter: DateFilter;
   onDateFilterChange: (filter: DateFilter) => void;
   currentUser?: User;
   onTabChange?: (tab: string) => void;
+  onOpenAccount?: (account: Account) => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter, onDateFilterChange, currentUser, onTabChange }) => {
-  // Filter accounts and sales data based on user role
-  const filteredAccounts = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
-
-  const filteredSalesDataByUser = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return salesData;
-    } else {
-      // Regular users can only see sales data for accounts they manage
-      return salesData.filter(data => 
-        currentUser.managed_accounts.includes(data.account_id)
-      );
-    }
-  }, [salesData, currentUser]);
+const Dashboard: React.FC<DashboardProps> = ({ accounts, dateFilter, onDateFilterChange, currentUser, onTabChange, onOpenAccount }) => {
+  // Filter accounts and sales data to the user's scope
+  const accountScope = useAccountScope(currentUser);
+  const filteredAccounts = React.useMemo(
+    () => currentUser ? getScopedAccounts(currentUser, accounts, accountScope.assignedAccountIds) : [],
+    [accounts, currentUser, accountScope.assignedAccountIds]
+  );
 
   const [metrics, setMetrics] = useState<DashboardMetrics>({
     totalCommission: 0,
@@ -70,11 +56,10 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
   });
 
   const [dailyData, setDailyData] = useState<any[]>([]);
-  const [filteredSalesData, setFilteredSalesData] = useState<SalesData[]>([]);
 
-  // Calculate payment status statistics for superadmin
+  // Payment status statistics, for those who look after other users' accounts
   const paymentStats = React.useMemo(() => {
-    if (currentUser?.role !== 'superadmin') return null;
+    if (!currentUser || getDataScope(currentUser) === 'own') return null;
     
     const stats = {
       total: filteredAccounts.length,
@@ -90,37 +75,25 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
 
   // Get accounts that need immediate attention (utamakan status)
   const priorityAccounts = React.useMemo(() => {
-    if (currentUser?.role !== 'superadmin') return [];
+    if (!currentUser || getDataScope(currentUser) === 'own') return [];
     return filteredAccounts.filter(acc => acc.payment_data === 'utamakan');
   }, [filteredAccounts, currentUser]);
 
-  // Filter sales data based on date filter
-  useEffect(() => {
-    let filtered = filteredSalesDataByUser;
-    
-    if (dateFilter.preset === 'custom' && dateFilter.startDate && dateFilter.endDate) {
-      const startDate = new Date(dateFilter.startDate);
-      const endDate = new Date(dateFilter.endDate);
-      filtered = filteredSalesDataByUser.filter(data => {
-        const dataDate = new Date(data.date);
-        return dataDate >= startDate && dataDate <= endDate;
-      });
-    } else if (dateFilter.preset !== 'all') {
-      const daysAgo = parseInt(dateFilter.preset);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-      filtered = filteredSalesDataByUser.filter(data => new Date(data.date) >= cutoffDate);
-    }
-    
-    setFilteredSalesData(filtered);
-  }, [filteredSalesDataByUser, dateFilter]);
+  // Daily totals for the selected range, summed server-side
+  const dailyTotalsQuery = useDailySalesTotals({
+    range: dateFilterToRange(dateFilter),
+    userIds: accountScope.userIds,
+  }, { enabled: accountScope.isReady });
+  const dailyTotals = React.useMemo(() => dailyTotalsQuery.data?.rows || [], [dailyTotalsQuery.data]);
+  const isTruncated = dailyTotalsQuery.data?.truncated || false;
 
   useEffect(() => {
     // Calculate metrics from sales data
-    const totalCommission = filteredSalesData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const totalRevenue = filteredSalesData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalOrders = filteredSalesData.reduce((sum, data) => sum + data.orders, 0);
-    const totalClicks = filteredSalesData.reduce((sum, data) => sum + data.clicks, 0);
+    const totals = sumSalesTotals(dailyTotals);
+    const totalCommission = totals.gross_commission;
+    const totalRevenue = totals.total_purchases;
+    const totalOrders = totals.orders;
+    const totalClicks = totals.clicks;
     
     const commissionPercentage = totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0;
     const conversionRate = totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0;
@@ -134,32 +107,17 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
       conversionRate,
     });
 
-    // Prepare daily data for charts (last 7 days with data)
-    const groupedData = filteredSalesData.reduce((acc, data) => {
-      const date = data.date;
-      if (!acc[date]) {
-        acc[date] = {
-          date,
-          commission: 0,
-          revenue: 0,
-          orders: 0,
-          clicks: 0,
-        };
-      }
-      acc[date].commission += data.gross_commission;
-      acc[date].revenue += data.total_purchases;
-      acc[date].orders += data.orders;
-      acc[date].clicks += data.clicks;
-      return acc;
-    }, {} as any);
-
-    const dailyArray = Object.values(groupedData)
-      .sort((a: any, b: any) => new Date(b.date).getTime() - new Date(a.date).getTime())
-      .slice(0, 7)
-      .reverse();
+    // Prepare daily data for charts (last 7 days with data); totals come sorted by date
+    const dailyArray = dailyTotals.slice(-7).map(day => ({
+      date: day.date,
+      commission: day.gross_commission,
+      revenue: day.total_purchases,
+      orders: day.orders,
+      clicks: day.clicks,
+    }));
 
     setDailyData(dailyArray);
-  }, [filteredSalesData]);
+  }, [dailyTotals]);
 
   const handleDateFilterChange = (field: string, value: string) => {
     const newFilter = { ...dateFilter, [field]: value };
@@ -229,6 +187,8 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
         </div>
       </div>
 
+      {isTruncated && <TruncationNotice shown={dailyTotals.length} what="days" />}
+
       {/* Metrics Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <MetricCard
@@ -261,7 +221,9 @@ const Dashboard: React.FC<DashboardProps> = ({ accounts, salesData, dateFilter,
         />
       </div>
 
-      {currentUser?.role === 'superadmin' && paymentStats && (
+      <MissingSalesDays accounts={filteredAccounts} onOpenAccount={onOpenAccount} />
+
+      {paymentStats && (
         <>
           <div className="flex items-center justify-between">
             <div>
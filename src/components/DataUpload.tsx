@@ -1,53 +1,64 @@
-import React, { useState, useRef } from 'react';
-import { Upload, FileText, CheckCircle, AlertCircle, X, Search, Trash2, Calendar, User } from 'lucide-react';
-import { Account, SalesData, Category } from '../types';
+import React, { useState, useRef, useMemo } from 'react';
+import { Upload, FileText, CheckCircle, AlertCircle, X, Search, Trash2, Calendar, User, Columns, Files, GitCompare, History } from 'lucide-react';
+import { Account, Category, UserRole } from '../types';
+import { useAccountSalesTotals, useDeleteSalesData, useImportSalesBatch, useSalesData } from '../hooks/queries';
+import { useAccountScope } from '../hooks/useAccountScope';
+import {
+  ColumnMapping,
+  HEADER_SEARCH_ROWS,
+  SALES_FIELDS,
+  SalesField,
+  buildSalesImport,
+  detectHeaderRow,
+  emptyColumnMapping,
+  guessColumnMapping,
+  parseCsv
+} from '../lib/csvImport';
+import { WorkbookSheet, isXlsxFile, pickSalesSheet, readFileAsDataUrl, readWorkbook } from '../lib/xlsxImport';
+import { ConflictResolution, diffSalesImport, resolveImport, summarizeDiff } from '../lib/importDiff';
+import { getDataScope, getScopedAccounts } from '../lib/permissions';
+import { toErrorMessage } from '../lib/queryCache';
+import BulkUpload from './BulkUpload';
+import ImportHistory from './ImportHistory';
+import TruncationNotice from './TruncationNotice';
 
 interface DataUploadProps {
   accounts: Account[];
-  salesData: SalesData[];
   categories: Category[];
   currentUser?: {
     id: string;
     name: string;
     email: string;
-    role: 'user' | 'superadmin';
-    managed_accounts: string[];
+    role: UserRole;
   };
-  onUploadData: (accountId: string, data: Omit<SalesData, 'id' | 'account_id' | 'created_at'>[]) => void;
-  onDeleteSalesData: (accountId: string, dateRange?: { start: string; end: string }) => void;
+  onOpenAccount?: (account: Account) => void;
 }
 
-interface ParsedRow {
-  date: string;
-  clicks: number;
-  orders: number;
-  gross_commission: number;
-  products_sold: number;
-  total_purchases: number;
-  new_buyers: number;
-}
+// Rows shown in the error report before the rest collapse into a count
+const MAX_ISSUES_SHOWN = 50;
+
+// Changed days keep their stored values unless the user chooses to overwrite
+const DEFAULT_CONFLICT_RESOLUTION: ConflictResolution = 'keep';
+
+const CONFLICT_OPTIONS: { value: ConflictResolution; label: string }[] = [
+  { value: 'overwrite', label: 'Overwrite' },
+  { value: 'keep', label: 'Keep existing' },
+  { value: 'skip', label: 'Skip' },
+];
 
 const DataUpload: React.FC<DataUploadProps> = ({ 
   accounts, 
-  salesData, 
   categories, 
   currentUser,
-  onUploadData, 
-  onDeleteSalesData 
+  onOpenAccount
 }) => {
-  // Filter accounts based on user role
-  const filteredAccountsByRole = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
+  // Filter accounts to the user's scope
+  const accountScope = useAccountScope(currentUser);
+  const filteredAccountsByRole = React.useMemo(
+    () => currentUser ? getScopedAccounts(currentUser, accounts, accountScope.assignedAccountIds) : [],
+    [accounts, currentUser, accountScope.assignedAccountIds]
+  );
+  const seesAllAccounts = !!currentUser && getDataScope(currentUser) === 'all';
 
   const [searchTerm, setSearchTerm] = useState('');
   
@@ -55,13 +66,22 @@ const DataUpload: React.FC<DataUploadProps> = ({
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [selectedAccountForUpload, setSelectedAccountForUpload] = useState('');
   const [file, setFile] = useState<File | null>(null);
-  const [parsedData, setParsedData] = useState<ParsedRow[]>([]);
+  const [fileContent, setFileContent] = useState('');
+  const [sheets, setSheets] = useState<WorkbookSheet[]>([]);
+  const [selectedSheet, setSelectedSheet] = useState(0);
+  const [csvRecords, setCsvRecords] = useState<string[][]>([]);
+  const [headerRow, setHeaderRow] = useState(0);
+  const [columnMapping, setColumnMapping] = useState<ColumnMapping>(emptyColumnMapping());
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
   const [isUploading, setIsUploading] = useState(false);
   const [uploadResult, setUploadResult] = useState<{ success: boolean; message: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
   // Drag and drop states
   const [isDragOver, setIsDragOver] = useState(false);
+
+  const [showBulkUpload, setShowBulkUpload] = useState(false);
+  const [showImportHistory, setShowImportHistory] = useState(false);
   
   // Delete modal states
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -75,6 +95,52 @@ const DataUpload: React.FC<DataUploadProps> = ({
     return category?.name || 'Belum Diatur';
   };
 
+  // Validated rows and the per-row error report for the current file and mapping
+  const importResult = useMemo(() => {
+    if (csvRecords.length === 0) return null;
+    return buildSalesImport(csvRecords, headerRow, columnMapping);
+  }, [csvRecords, headerRow, columnMapping]);
+  const parsedData = useMemo(() => importResult?.rows || [], [importResult]);
+  const parsedDates = parsedData.map(row => row.date).sort();
+  const fileHeaders = csvRecords[headerRow] || [];
+  const firstParsedDate = parsedDates[0] || '';
+  const lastParsedDate = parsedDates[parsedDates.length - 1] || '';
+
+  // Row counts and date ranges per account, summed server-side
+  const accountTotalsQuery = useAccountSalesTotals({
+    userIds: accountScope.userIds,
+  }, { enabled: accountScope.isReady });
+  const accountTotals = useMemo(() => accountTotalsQuery.data?.rows || [], [accountTotalsQuery.data]);
+  const isTotalsTruncated = accountTotalsQuery.data?.truncated || false;
+
+  // Only the stored days the file covers are needed for the diff
+  const existingRowsQuery = useSalesData({
+    accountIds: [selectedAccountForUpload],
+    range: { start: firstParsedDate, end: lastParsedDate },
+  }, { enabled: !!selectedAccountForUpload && !!firstParsedDate });
+  const existingRows = useMemo(
+    () => (selectedAccountForUpload && firstParsedDate && existingRowsQuery.data?.rows) || [],
+    [selectedAccountForUpload, firstParsedDate, existingRowsQuery.data]
+  );
+  // Until the stored days are in, every day would diff as new and overwrite
+  // what is already there, so the upload waits for a successful load
+  const isExistingRowsReady = existingRowsQuery.data !== undefined &&
+    existingRowsQuery.error === null &&
+    !existingRowsQuery.isFetching;
+
+  // Imports, rollbacks and deletes refresh every sales query, the totals above included
+  const importSalesBatch = useImportSalesBatch();
+  const deleteSalesData = useDeleteSalesData();
+
+  // What the upload would change compared to the days already stored
+  const importDiff = useMemo(
+    () => diffSalesImport(parsedData, existingRows, selectedAccountForUpload),
+    [parsedData, existingRows, selectedAccountForUpload]
+  );
+  const diffSummary = summarizeDiff(importDiff);
+  const changedRows = importDiff.filter(row => row.status === 'changed');
+  const rowsToUpload = resolveImport(importDiff, resolutions, DEFAULT_CONFLICT_RESOLUTION);
+
   // Filter accounts based on search term
   const filteredAccounts = filteredAccountsByRole.filter(account => 
     account.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -83,18 +149,21 @@ const DataUpload: React.FC<DataUploadProps> = ({
     getCategoryName(account.category_id).toLowerCase().includes(searchTerm.toLowerCase())
   );
 
+  const getAccountTotals = (accountId: string) => {
+    return accountTotals.find(totals => totals.account_id === accountId);
+  };
+
   const getAccountSalesDataCount = (accountId: string) => {
-    return salesData.filter(data => data.account_id === accountId).length;
+    return getAccountTotals(accountId)?.days_count || 0;
   };
 
   const getAccountDateRange = (accountId: string) => {
-    const accountData = salesData.filter(data => data.account_id === accountId);
-    if (accountData.length === 0) return null;
+    const totals = getAccountTotals(accountId);
+    if (!totals) return null;
     
-    const dates = accountData.map(data => new Date(data.date)).sort((a, b) => a.getTime() - b.getTime());
     return {
-      start: dates[0].toISOString().split('T')[0],
-      end: dates[dates.length - 1].toISOString().split('T')[0]
+      start: totals.first_date,
+      end: totals.last_date
     };
   };
 
@@ -109,7 +178,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
     setShowUploadModal(false);
     setSelectedAccountForUpload('');
     setFile(null);
-    setParsedData([]);
+    resetParsedFile();
     setUploadResult(null);
     setIsDragOver(false);
     if (fileInputRef.current) {
@@ -117,65 +186,86 @@ const DataUpload: React.FC<DataUploadProps> = ({
     }
   };
 
-  const parseCSV = (csvText: string): ParsedRow[] => {
-    const lines = csvText.trim().split('\n');
-    const headers = lines[0].split(',');
-    
-    // Validate headers
-    const expectedHeaders = [
-      'Tanggal',
-      'Klik', 
-      'Pesanan',
-      'Komisi Kotor(Rp)',
-      'Produk Terjual',
-      'Total Pembelian yang Dibuat(Rp)',
-      'Pembeli Baru'
-    ];
-
-    const data: ParsedRow[] = [];
-    
-    for (let i = 1; i < lines.length; i++) {
-      const row = lines[i].split(',');
-      if (row.length === expectedHeaders.length) {
-        data.push({
-          date: row[0],
-          clicks: parseInt(row[1]) || 0,
-          orders: parseInt(row[2]) || 0,
-          gross_commission: parseFloat(row[3]) || 0,
-          products_sold: parseInt(row[4]) || 0,
-          total_purchases: parseFloat(row[5]) || 0,
-          new_buyers: parseInt(row[6]) || 0,
-        });
+  const resetParsedFile = () => {
+    setFileContent('');
+    setSheets([]);
+    setSelectedSheet(0);
+    setCsvRecords([]);
+    setHeaderRow(0);
+    setColumnMapping(emptyColumnMapping());
+    setResolutions({});
+  };
+
+  const setResolution = (date: string, resolution: ConflictResolution) => {
+    setResolutions(prev => ({ ...prev, [date]: resolution }));
+  };
+
+  const resolveAllConflicts = (resolution: ConflictResolution) => {
+    setResolutions(prev => ({
+      ...prev,
+      ...Object.fromEntries(changedRows.map(row => [row.date, resolution])),
+    }));
+  };
+
+  // Windows reports CSV files as application/vnd.ms-excel, so trust the extension too
+  const isCsvFile = (candidate: File) =>
+    candidate.type === 'text/csv' || candidate.name.toLowerCase().endsWith('.csv');
+
+  const isImportFile = (candidate: File) => isCsvFile(candidate) || isXlsxFile(candidate);
+
+  const loadRecords = (records: string[][]) => {
+    const detectedHeader = detectHeaderRow(records);
+    const header = detectedHeader >= 0 ? detectedHeader : 0;
+    setCsvRecords(records);
+    setHeaderRow(header);
+    setColumnMapping(guessColumnMapping(records[header] || []));
+    setResolutions({});
+  };
+
+  const readImportFile = async (selectedFile: File) => {
+    setFile(selectedFile);
+    setUploadResult(null);
+
+    try {
+      if (isXlsxFile(selectedFile)) {
+        const workbook = await readWorkbook(selectedFile);
+        const sheetIndex = pickSalesSheet(workbook);
+        setSheets(workbook);
+        setSelectedSheet(sheetIndex);
+        loadRecords(workbook[sheetIndex]?.records || []);
+        setFileContent(await readFileAsDataUrl(selectedFile));
+      } else {
+        const content = await selectedFile.text();
+        setSheets([]);
+        loadRecords(parseCsv(content));
+        setFileContent(content);
       }
+    } catch {
+      resetParsedFile();
+      setUploadResult({
+        success: false,
+        message: 'Error reading the file. Please check the file format.',
+      });
     }
-    
-    return data;
+  };
+
+  const handleSheetChange = (index: number) => {
+    setSelectedSheet(index);
+    loadRecords(sheets[index]?.records || []);
+  };
+
+  const handleMappingChange = (field: SalesField, value: string) => {
+    setColumnMapping(prev => ({ ...prev, [field]: value === '' ? null : Number(value) }));
   };
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
-    if (selectedFile && selectedFile.type === 'text/csv') {
-      setFile(selectedFile);
-      setUploadResult(null);
-      
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        try {
-          const csvText = e.target?.result as string;
-          const parsed = parseCSV(csvText);
-          setParsedData(parsed);
-        } catch (error) {
-          setUploadResult({
-            success: false,
-            message: 'Error parsing CSV file. Please check the file format.',
-          });
-        }
-      };
-      reader.readAsText(selectedFile);
+    if (selectedFile && isImportFile(selectedFile)) {
+      readImportFile(selectedFile);
     } else {
       setUploadResult({
         success: false,
-        message: 'Please select a valid CSV file.',
+        message: 'Please select a valid CSV or Excel (.xlsx) file.',
       });
     }
   };
@@ -201,28 +291,12 @@ const DataUpload: React.FC<DataUploadProps> = ({
     const files = e.dataTransfer.files;
     if (files && files.length > 0) {
       const droppedFile = files[0];
-      if (droppedFile.type === 'text/csv' || droppedFile.name.endsWith('.csv')) {
-        setFile(droppedFile);
-        setUploadResult(null);
-        
-        const reader = new FileReader();
-        reader.onload = (event) => {
-          try {
-            const csvText = event.target?.result as string;
-            const parsed = parseCSV(csvText);
-            setParsedData(parsed);
-          } catch (error) {
-            setUploadResult({
-              success: false,
-              message: 'Error parsing CSV file. Please check the file format.',
-            });
-          }
-        };
-        reader.readAsText(droppedFile);
+      if (isImportFile(droppedFile)) {
+        readImportFile(droppedFile);
       } else {
         setUploadResult({
           success: false,
-          message: 'Please drop a valid CSV file.',
+          message: 'Please drop a valid CSV or Excel (.xlsx) file.',
         });
       }
     }
@@ -232,7 +306,28 @@ const DataUpload: React.FC<DataUploadProps> = ({
     if (!selectedAccountForUpload || !file || parsedData.length === 0) {
       setUploadResult({
         success: false,
-        message: 'Please upload a valid CSV file.',
+        message: 'Please upload a valid CSV or Excel (.xlsx) file.',
+      });
+      return;
+    }
+
+    const skipped = importResult ? importResult.totalRows - parsedData.length : 0;
+    if (skipped > 0 && !confirm(`${skipped} row(s) have errors and will be skipped. Upload the other ${parsedData.length} row(s)?`)) {
+      return;
+    }
+
+    if (!isExistingRowsReady) {
+      setUploadResult({
+        success: false,
+        message: 'Existing data for this account has not loaded yet. Try again in a moment.',
+      });
+      return;
+    }
+
+    if (rowsToUpload.length === 0) {
+      setUploadResult({
+        success: false,
+        message: 'Nothing to upload: every day in this file is unchanged, kept or skipped.',
       });
       return;
     }
@@ -240,10 +335,17 @@ const DataUpload: React.FC<DataUploadProps> = ({
     setIsUploading(true);
     
     try {
-      await onUploadData(selectedAccountForUpload, parsedData);
+      await importSalesBatch.mutateAsync({
+        account_id: selectedAccountForUpload,
+        file_name: file.name,
+        file_content: fileContent,
+        rows: rowsToUpload,
+      });
+
+      const leftOut = parsedData.length - rowsToUpload.length;
       setUploadResult({
         success: true,
-        message: `Successfully uploaded ${parsedData.length} records.`,
+        message: `Successfully uploaded ${rowsToUpload.length} records.${leftOut > 0 ? ` ${leftOut} unchanged, kept or skipped day(s) were left as they are.` : ''}`,
       });
       
       // Reset form after successful upload
@@ -253,7 +355,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
     } catch (error) {
       setUploadResult({
         success: false,
-        message: 'Failed to upload data. Please try again.',
+        message: `Failed to upload data: ${toErrorMessage(error)}`,
       });
     }
     
@@ -262,7 +364,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
 
   const clearFile = () => {
     setFile(null);
-    setParsedData([]);
+    resetParsedFile();
     setUploadResult(null);
     setIsDragOver(false);
     if (fileInputRef.current) {
@@ -285,30 +387,60 @@ const DataUpload: React.FC<DataUploadProps> = ({
     setDeleteEndDate('');
   };
 
-  const handleDeleteSalesData = () => {
+  const handleDeleteSalesData = async () => {
     if (!deleteAccountId) return;
     
     const dateRange = deleteStartDate && deleteEndDate 
       ? { start: deleteStartDate, end: deleteEndDate }
       : undefined;
     
-    onDeleteSalesData(deleteAccountId, dateRange);
     closeDeleteModal();
+    await deleteSalesData.mutate(deleteAccountId, dateRange);
   };
 
   return (
     <>
       <div className="space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-2xl font-bold text-gray-900">Upload Sales Data</h1>
-          <p className="text-gray-600">
-            {currentUser?.role === 'superadmin' 
-              ? 'Manage sales data for all affiliate accounts'
-              : `Manage sales data for your ${filteredAccountsByRole.length} affiliate accounts`}
-          </p>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Upload Sales Data</h1>
+            <p className="text-gray-600">
+              {seesAllAccounts
+                ? 'Manage sales data for all affiliate accounts'
+                : `Manage sales data for your ${filteredAccountsByRole.length} affiliate accounts`}
+            </p>
+          </div>
+          {filteredAccountsByRole.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowImportHistory(true)}
+                className="flex items-center space-x-2 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <History className="w-4 h-4" />
+                <span>Import History</span>
+              </button>
+              <button
+                onClick={() => setShowBulkUpload(true)}
+                className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+              >
+                <Files className="w-4 h-4" />
+                <span>Bulk Upload</span>
+              </button>
+            </div>
+          )}
         </div>
 
+        {deleteSalesData.error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-800">Failed to delete sales data: {deleteSalesData.error}</p>
+          </div>
+        )}
+
+        {isTotalsTruncated && (
+          <TruncationNotice shown={accountTotals.length} what="account totals" hint="Row counts for the other accounts are not shown." />
+        )}
+
         {/* Search */}
         <div className="bg-white rounded-xl border border-gray-100 p-4">
           <div className="relative">
@@ -346,7 +478,12 @@ const DataUpload: React.FC<DataUploadProps> = ({
                         </div>
                         <div className="flex-1">
                           <div className="flex items-center space-x-2 mb-1">
-                            <h3 className="font-medium text-gray-900">{account.username}</h3>
+                            <button
+                              onClick={() => onOpenAccount?.(account)}
+                              className="font-medium text-gray-900 hover:text-purple-600"
+                            >
+                              {account.username}
+                            </button>
                             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
                               {account.account_code}
                             </span>
@@ -433,7 +570,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
               </h3>
               <p className="text-gray-600">
                 {filteredAccountsByRole.length === 0 
-                  ? currentUser?.role === 'superadmin'
+                  ? seesAllAccounts
                     ? 'Please add accounts first in the Account Management section'
                     : 'No accounts have been assigned to you yet. Contact your administrator.'
                   : 'Try adjusting your search criteria'
@@ -443,10 +580,14 @@ const DataUpload: React.FC<DataUploadProps> = ({
           )}
         </div>
 
-        {/* CSV Format Guide */}
+        {/* File Format Guide */}
         <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
-          <h3 className="text-lg font-semibold text-blue-900 mb-3">CSV Format Requirements</h3>
-          <p className="text-blue-800 mb-4">Your CSV file should contain the following columns in this exact order:</p>
+          <h3 className="text-lg font-semibold text-blue-900 mb-3">File Format Requirements</h3>
+          <p className="text-blue-800 mb-4">
+            Upload the Shopee affiliate export as-is. CSV files (comma or semicolon separated) and Excel workbooks (.xlsx)
+            work; title rows above the header and total rows at the bottom are skipped. Columns are matched by header and
+            can be remapped before uploading. The file should contain these columns:
+          </p>
           <div className="grid grid-cols-2 gap-4 text-sm">
             <div>
               <p className="font-medium text-blue-900">1. Tanggal (Date)</p>
@@ -472,7 +613,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 <div>
                   <h2 className="text-xl font-bold text-gray-900">Upload Sales Data</h2>
                   <p className="text-sm text-gray-600 mt-1">
-                    Upload CSV file for: {accounts.find(acc => acc.id === selectedAccountForUpload)?.username}
+                    Upload sales data for: {accounts.find(acc => acc.id === selectedAccountForUpload)?.username}
                   </p>
                 </div>
                 <button
@@ -499,15 +640,15 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 {!file ? (
                   <>
                     <h3 className="text-lg font-medium text-gray-900 mb-2">
-                      {isDragOver ? 'Drop your CSV file here' : 'Drop your CSV file here, or click to browse'}
+                      {isDragOver ? 'Drop your file here' : 'Drop your CSV or Excel file here, or click to browse'}
                     </h3>
                     <p className={`mb-4 ${isDragOver ? 'text-purple-600' : 'text-gray-600'}`}>
-                      CSV files up to 10MB are supported
+                      CSV and .xlsx files up to 10MB are supported
                     </p>
                     <input
                       ref={fileInputRef}
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.xlsx"
                       onChange={handleFileSelect}
                       className="hidden"
                     />
@@ -531,18 +672,228 @@ const DataUpload: React.FC<DataUploadProps> = ({
                       </button>
                     </div>
                     
-                    {parsedData.length > 0 && (
+                    {importResult && (
                       <div className="text-sm text-gray-600">
-                        <p>{parsedData.length} rows parsed successfully</p>
-                        <p className="text-xs mt-1">
-                          Date range: {parsedData[parsedData.length - 1]?.date} to {parsedData[0]?.date}
-                        </p>
+                        <p>{parsedData.length} of {importResult.totalRows} rows ready to upload</p>
+                        {parsedData.length > 0 && (
+                          <p className="text-xs mt-1">
+                            Date range: {parsedDates[0]} to {parsedDates[parsedDates.length - 1]}
+                          </p>
+                        )}
                       </div>
                     )}
                   </div>
                 )}
               </div>
 
+              {/* Column Mapping */}
+              {csvRecords.length > 0 && (
+                <div className="border border-gray-200 rounded-lg p-4 mb-6">
+                  <div className="flex items-center justify-between mb-3">
+                    <div className="flex items-center space-x-2">
+                      <Columns className="w-4 h-4 text-gray-500" />
+                      <h3 className="text-sm font-semibold text-gray-900">Column Mapping</h3>
+                    </div>
+                    <div className="flex items-center space-x-4">
+                      {sheets.length > 1 && (
+                        <label className="flex items-center space-x-2 text-xs text-gray-600">
+                          <span>Sheet</span>
+                          <select
+                            value={selectedSheet}
+                            onChange={(e) => handleSheetChange(Number(e.target.value))}
+                            className="px-2 py-1 border border-gray-300 rounded text-xs"
+                          >
+                            {sheets.map((sheet, index) => (
+                              <option key={sheet.name} value={index}>{sheet.name}</option>
+                            ))}
+                          </select>
+                        </label>
+                      )}
+                      <label className="flex items-center space-x-2 text-xs text-gray-600">
+                        <span>Header row</span>
+                        <select
+                          value={headerRow}
+                          onChange={(e) => {
+                            const row = Number(e.target.value);
+                            setHeaderRow(row);
+                            setColumnMapping(guessColumnMapping(csvRecords[row] || []));
+                          }}
+                          className="px-2 py-1 border border-gray-300 rounded text-xs"
+                        >
+                          {csvRecords.slice(0, HEADER_SEARCH_ROWS).map((_, index) => (
+                            <option key={index} value={index}>{index + 1}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {SALES_FIELDS.map(field => (
+                      <label key={field.key} className="block">
+                        <span className="block text-xs font-medium text-gray-700 mb-1">{field.label}</span>
+                        <select
+                          value={columnMapping[field.key] ?? ''}
+                          onChange={(e) => handleMappingChange(field.key, e.target.value)}
+                          className={`w-full px-2 py-1.5 border rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent ${
+                            columnMapping[field.key] === null ? 'border-red-300 bg-red-50' : 'border-gray-300'
+                          }`}
+                        >
+                          <option value="">Not mapped</option>
+                          {fileHeaders.map((header, index) => (
+                            <option key={index} value={index}>
+                              {header || `Column ${index + 1}`}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Error Report */}
+              {importResult && importResult.issues.length > 0 && (
+                <div className="border border-red-200 rounded-lg mb-6 overflow-hidden">
+                  <div className="bg-red-50 px-4 py-2 flex items-center space-x-2">
+                    <AlertCircle className="w-4 h-4 text-red-500" />
+                    <h3 className="text-sm font-semibold text-red-900">
+                      {importResult.issues.length} problem(s) found; affected rows will be skipped
+                    </h3>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto">
+                    <table className="w-full text-sm">
+                      <thead className="bg-gray-50 sticky top-0">
+                        <tr>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Row</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Column</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-100">
+                        {importResult.issues.slice(0, MAX_ISSUES_SHOWN).map((issue, index) => (
+                          <tr key={index}>
+                            <td className="px-4 py-2 text-gray-900">{issue.row}</td>
+                            <td className="px-4 py-2 text-gray-600">{issue.column}</td>
+                            <td className="px-4 py-2 text-gray-600">{issue.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    {importResult.issues.length > MAX_ISSUES_SHOWN && (
+                      <p className="px-4 py-2 text-xs text-gray-500">
+                        and {importResult.issues.length - MAX_ISSUES_SHOWN} more
+                      </p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {/* Changes vs stored data */}
+              {parsedData.length > 0 && existingRowsQuery.error && (
+                <div className="border border-red-200 bg-red-50 rounded-lg p-4 mb-6 flex items-start justify-between space-x-3">
+                  <div className="flex items-start space-x-3">
+                    <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+                    <p className="text-sm text-red-700">
+                      Could not load the existing data to compare against: {existingRowsQuery.error}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => existingRowsQuery.refetch()}
+                    disabled={existingRowsQuery.isFetching}
+                    className="px-2 py-1 text-xs border border-red-300 text-red-700 rounded hover:bg-red-100 transition-colors disabled:opacity-50 flex-shrink-0"
+                  >
+                    Retry
+                  </button>
+                </div>
+              )}
+
+              {parsedData.length > 0 && !existingRowsQuery.error && !isExistingRowsReady && (
+                <p className="text-sm text-gray-500 mb-6">Comparing with existing data...</p>
+              )}
+
+              {importDiff.length > 0 && isExistingRowsReady && (
+                <div className="border border-gray-200 rounded-lg mb-6 overflow-hidden">
+                  <div className="bg-gray-50 px-4 py-2 flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <GitCompare className="w-4 h-4 text-gray-500" />
+                      <h3 className="text-sm font-semibold text-gray-900">Changes vs Existing Data</h3>
+                    </div>
+                    <div className="flex items-center space-x-2 text-xs">
+                      <span className="px-2 py-0.5 rounded-full bg-green-100 text-green-800">{diffSummary.new} new</span>
+                      <span className="px-2 py-0.5 rounded-full bg-yellow-100 text-yellow-800">{diffSummary.changed} changed</span>
+                      <span className="px-2 py-0.5 rounded-full bg-gray-200 text-gray-700">{diffSummary.unchanged} unchanged</span>
+                    </div>
+                  </div>
+
+                  {changedRows.length > 0 && (
+                    <>
+                      <div className="px-4 py-2 flex items-center justify-between border-t border-gray-200">
+                        <p className="text-xs text-gray-600">
+                          These days already have different numbers. Existing data is kept unless you choose to overwrite it.
+                        </p>
+                        <div className="flex items-center space-x-2 flex-shrink-0 ml-3">
+                          <button
+                            onClick={() => resolveAllConflicts('overwrite')}
+                            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                          >
+                            Overwrite all
+                          </button>
+                          <button
+                            onClick={() => resolveAllConflicts('keep')}
+                            className="px-2 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                          >
+                            Keep all
+                          </button>
+                        </div>
+                      </div>
+                      <div className="max-h-64 overflow-y-auto">
+                        <table className="w-full text-sm">
+                          <thead className="bg-gray-50 sticky top-0">
+                            <tr>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changes (old → new)</th>
+                              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y divide-gray-100">
+                            {changedRows.map(row => (
+                              <tr key={row.date}>
+                                <td className="px-4 py-2 text-gray-900 whitespace-nowrap">{row.date}</td>
+                                <td className="px-4 py-2 text-gray-600">
+                                  {row.changes.map(change => (
+                                    <div key={change.field} className="text-xs">
+                                      <span className="font-medium text-gray-700">{change.label}:</span>{' '}
+                                      <span className="text-red-600 line-through">{change.before.toLocaleString('id-ID')}</span>
+                                      {' → '}
+                                      <span className="text-green-700">{change.after.toLocaleString('id-ID')}</span>
+                                    </div>
+                                  ))}
+                                </td>
+                                <td className="px-4 py-2">
+                                  <select
+                                    value={resolutions[row.date] || DEFAULT_CONFLICT_RESOLUTION}
+                                    onChange={(e) => setResolution(row.date, e.target.value as ConflictResolution)}
+                                    className="px-2 py-1 border border-gray-300 rounded text-xs"
+                                  >
+                                    {CONFLICT_OPTIONS.map(option => (
+                                      <option key={option.value} value={option.value}>{option.label}</option>
+                                    ))}
+                                  </select>
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  )}
+
+                  <p className="px-4 py-2 text-xs text-gray-600 border-t border-gray-200">
+                    {rowsToUpload.length} day(s) will be written.
+                  </p>
+                </div>
+              )}
+
               {/* Upload Result */}
               {uploadResult && (
                 <div className={`border rounded-lg p-4 mb-6 flex items-start space-x-3 ${
@@ -578,7 +929,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
                 </button>
                 <button
                   onClick={handleUpload}
-                  disabled={isUploading || !file || parsedData.length === 0}
+                  disabled={isUploading || !file || !isExistingRowsReady || rowsToUpload.length === 0}
                   className="flex-1 bg-purple-600 text-white py-2 rounded-lg font-medium hover:bg-purple-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
                   {isUploading ? (
@@ -599,6 +950,23 @@ const DataUpload: React.FC<DataUploadProps> = ({
         </div>
       )}
 
+      {/* Bulk Upload Modal */}
+      {showBulkUpload && (
+        <BulkUpload
+          accounts={filteredAccountsByRole}
+          onImportFile={importFile => importSalesBatch.mutateAsync(importFile).then(() => null, toErrorMessage)}
+          onClose={() => setShowBulkUpload(false)}
+        />
+      )}
+
+      {/* Import History Modal */}
+      {showImportHistory && (
+        <ImportHistory
+          accounts={filteredAccountsByRole}
+          onClose={() => setShowImportHistory(false)}
+        />
+      )}
+
       {/* Delete Sales Data Modal */}
       {showDeleteModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -621,7 +989,7 @@ const DataUpload: React.FC<DataUploadProps> = ({
                     <div>
                       <h3 className="font-medium text-red-900">Warning</h3>
                       <p className="text-sm text-red-700 mt-1">
-                        This action cannot be undone. Sales data will be permanently deleted.
+                        The sales data will be deleted for every user. The deleted days are kept in Import History and can be restored from there.
                       </p>
                     </div>
                   </div>
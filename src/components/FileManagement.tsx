@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   FileText, 
   Search, 
@@ -23,7 +23,8 @@ import {
   CheckCircle
 } from 'lucide-react';
 import { Category, User, FileData } from '../types';
-import { useSupabase } from '../hooks/useSupabase';
+import { useAddFile, useDeleteFile, useFiles, useUpdateFile } from '../hooks/queries';
+import { can } from '../lib/permissions';
 
 interface FileManagementProps {
   categories: Category[];
@@ -31,9 +32,11 @@ interface FileManagementProps {
 }
 
 const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser }) => {
-  const [files, setFiles] = useState<FileData[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [loadError, setLoadError] = useState<string | null>(null);
+  // Cached across visits; shown immediately and refreshed in the background
+  const filesQuery = useFiles();
+  const files = useMemo(() => filesQuery.data || [], [filesQuery.data]);
+  const isLoading = filesQuery.isLoading;
+  const loadError = filesQuery.data ? null : filesQuery.error;
   const [isSaving, setIsSaving] = useState(false);
   const [saveResult, setSaveResult] = useState<{ success: boolean; message: string } | null>(null);
 
@@ -49,35 +52,12 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
     description: '',
   });
 
-  const {
-    fetchFiles,
-    addFile,
-    updateFile,
-    deleteFile,
-  } = useSupabase();
+  const addFile = useAddFile();
+  const updateFile = useUpdateFile();
+  const deleteFile = useDeleteFile();
 
-  // Load files from database
-  useEffect(() => {
-    const loadFiles = async () => {
-      setIsLoading(true);
-      setLoadError(null);
-      
-      try {
-        const filesData = await fetchFiles();
-        setFiles(filesData);
-      } catch (err) {
-        console.error('Error loading files:', err);
-        setLoadError(err instanceof Error ? err.message : 'Failed to load files');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadFiles();
-  }, []);
-
-  // Check if current user is superadmin
-  const isAdmin = currentUser.role === 'superadmin';
+  // Only those with files.manage can add, edit and delete files
+  const isAdmin = can(currentUser, 'files.manage');
 
   const getCategoryName = (categoryId: string) => {
     if (!categoryId) return 'Belum Diatur';
@@ -149,11 +129,8 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
     
     try {
       if (editingFile) {
-        const updatedFile = await updateFile(editingFile.id, formData);
+        const updatedFile = await updateFile.mutate(editingFile.id, formData);
         if (updatedFile) {
-          setFiles(prev => prev.map(file => 
-            file.id === editingFile.id ? updatedFile : file
-          ));
           setSaveResult({ success: true, message: 'File updated successfully!' });
         } else {
           throw new Error('Failed to update file');
@@ -167,9 +144,8 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
           file_size: Math.floor(Math.random() * 4000) + 500, // Random size for demo
         };
         
-        const newFile = await addFile(newFileData);
+        const newFile = await addFile.mutate(newFileData);
         if (newFile) {
-          setFiles(prev => [newFile, ...prev]);
           setSaveResult({ success: true, message: 'File added successfully!' });
         } else {
           throw new Error('Failed to add file');
@@ -215,20 +191,14 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
 
   const handleDelete = async (id: string) => {
     if (confirm('Are you sure you want to delete this file?')) {
-      const success = await deleteFile(id);
-      if (success) {
-        setFiles(prev => prev.filter(file => file.id !== id));
-      }
+      await deleteFile.mutate(id);
     }
   };
 
   const handleTogglePin = async (id: string) => {
     const file = files.find(f => f.id === id);
     if (file) {
-      const updatedFile = await updateFile(id, { is_pinned: !file.is_pinned });
-      if (updatedFile) {
-        setFiles(prev => prev.map(f => f.id === id ? updatedFile : f));
-      }
+      await updateFile.mutate(id, { is_pinned: !file.is_pinned });
     }
   };
 
@@ -296,7 +266,7 @@ const FileManagement: React.FC<FileManagementProps> = ({ categories, currentUser
             <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Files</h3>
             <p className="text-gray-600 mb-4">{loadError}</p>
             <button
-              onClick={() => window.location.reload()}
+              onClick={() => filesQuery.refetch()}
               className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
             >
               Retry
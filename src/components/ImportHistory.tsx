@@ -0,0 +1,266 @@
+import React, { useState, useMemo } from 'react';
+import { X, Download, RotateCcw, AlertCircle, ChevronDown, ChevronUp } from 'lucide-react';
+import { Account, SalesImportBatch } from '../types';
+import { useImportBatches, useRollbackImportBatch } from '../hooks/queries';
+import { useMutation } from '../hooks/useQuery';
+import { fetchImportBatchFile } from '../lib/api';
+import TruncationNotice from './TruncationNotice';
+
+interface ImportHistoryProps {
+  accounts: Account[];
+  onClose: () => void;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const formatDateRange = (dates: string[]) => {
+  if (dates.length === 0) return '-';
+  const sorted = [...dates].sort();
+  return sorted.length === 1 ? sorted[0] : `${sorted[0]} to ${sorted[sorted.length - 1]}`;
+};
+
+const ImportHistory: React.FC<ImportHistoryProps> = ({ accounts, onClose }) => {
+  const [rollingBackId, setRollingBackId] = useState<string | null>(null);
+  const [expandedBatch, setExpandedBatch] = useState<string | null>(null);
+  const [accountFilter, setAccountFilter] = useState('');
+
+  const batchesQuery = useImportBatches();
+  const batches = useMemo(() => batchesQuery.data?.rows || [], [batchesQuery.data]);
+  const isTruncated = batchesQuery.data?.truncated || false;
+  const isLoading = batchesQuery.isLoading;
+
+  // A rollback refreshes the history and every sales total behind it
+  const rollbackImportBatch = useRollbackImportBatch();
+  const downloadBatchFile = useMutation(fetchImportBatchFile);
+  const error = batchesQuery.error || rollbackImportBatch.error || downloadBatchFile.error;
+
+  const accountsById = useMemo(() => new Map(accounts.map(account => [account.id, account])), [accounts]);
+
+  const visibleBatches = batches.filter(batch =>
+    accountsById.has(batch.account_id) && (!accountFilter || batch.account_id === accountFilter)
+  );
+
+  // Same rule as the server: a newer applied import of the same days has to be
+  // rolled back first, or restoring would undo it as well
+  const getBlockingBatch = (batch: SalesImportBatch) =>
+    batches.find(other =>
+      other.id !== batch.id &&
+      other.account_id === batch.account_id &&
+      other.status === 'applied' &&
+      other.created_at > batch.created_at &&
+      other.dates.some(date => batch.dates.includes(date))
+    );
+
+  const handleDownload = async (batch: SalesImportBatch) => {
+    const content = await downloadBatchFile.mutate(batch.id);
+    if (content === null) return;
+
+    // Excel files are stored as a data URL, CSV files as plain text
+    const isDataUrl = content.startsWith('data:');
+    const url = isDataUrl ? content : URL.createObjectURL(new Blob([content], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = batch.file_name;
+    link.click();
+    if (!isDataUrl) URL.revokeObjectURL(url);
+  };
+
+  const handleRollback = async (batch: SalesImportBatch) => {
+    const added = batch.dates.length - batch.previous_rows.length;
+    const restoredLabel = batch.kind === 'delete' ? 'deleted' : 'overwritten';
+    const message = [
+      `Roll back "${batch.file_name}"?`,
+      batch.previous_rows.length > 0 ? `${batch.previous_rows.length} ${restoredLabel} day(s) will be restored.` : '',
+      added > 0 ? `${added} day(s) added by this import will be deleted.` : '',
+    ].filter(Boolean).join(' ');
+    if (!confirm(message)) return;
+
+    setRollingBackId(batch.id);
+    try {
+      await rollbackImportBatch.mutate(batch.id);
+    } finally {
+      setRollingBackId(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-5xl mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="p-6">
+          <div className="flex items-center justify-between mb-6">
+            <div>
+              <h2 className="text-xl font-bold text-gray-900">Import History</h2>
+              <p className="text-sm text-gray-600 mt-1">
+                Every uploaded file and deleted range, newest first. Rolling back restores the values the import overwrote or deleted and removes the days it added.
+              </p>
+            </div>
+            <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <div className="mb-4">
+            <select
+              value={accountFilter}
+              onChange={(e) => setAccountFilter(e.target.value)}
+              className="w-72 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="">All accounts</option>
+              {accounts.map(account => (
+                <option key={account.id} value={account.id}>{account.username} ({account.account_code})</option>
+              ))}
+            </select>
+          </div>
+
+          {isTruncated && (
+            <div className="mb-4">
+              <TruncationNotice shown={batches.length} what="imports" hint="Older imports are not listed." />
+            </div>
+          )}
+
+          {error && (
+            <div className="border border-red-200 bg-red-50 rounded-lg p-3 mb-4 flex items-start space-x-2 text-sm text-red-700">
+              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <div className="w-8 h-8 border-4 border-purple-600 border-t-transparent rounded-full animate-spin"></div>
+            </div>
+          ) : visibleBatches.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">No imports or deletions yet.</p>
+          ) : (
+            <div className="border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Uploaded</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">File</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Account</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Days</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visibleBatches.map(batch => {
+                    const account = accountsById.get(batch.account_id);
+                    const blockingBatch = batch.status === 'applied' ? getBlockingBatch(batch) : undefined;
+                    const isExpanded = expandedBatch === batch.id;
+                    return (
+                      <React.Fragment key={batch.id}>
+                        <tr className={batch.status === 'rolled_back' ? 'bg-gray-50 text-gray-500' : ''}>
+                          <td className="px-4 py-3 whitespace-nowrap">
+                            <div className="text-gray-900">{formatDateTime(batch.created_at)}</div>
+                            <div className="text-xs text-gray-500">{batch.uploaded_by_name || 'Unknown user'}</div>
+                          </td>
+                          <td className="px-4 py-3 max-w-xs truncate" title={batch.file_name}>
+                            {batch.kind === 'delete' && (
+                              <span className="mr-2 px-2 py-0.5 rounded-full text-xs bg-red-100 text-red-800">Deleted</span>
+                            )}
+                            {batch.file_name}
+                          </td>
+                          <td className="px-4 py-3">{account ? account.username : '-'}</td>
+                          <td className="px-4 py-3">
+                            <button
+                              onClick={() => setExpandedBatch(isExpanded ? null : batch.id)}
+                              className="inline-flex items-center text-left hover:text-purple-700"
+                            >
+                              <span>
+                                {batch.row_count} day(s), {formatDateRange(batch.dates)}
+                                {batch.kind === 'import' && batch.previous_rows.length > 0 && (
+                                  <span className="block text-xs text-yellow-700">{batch.previous_rows.length} overwritten</span>
+                                )}
+                              </span>
+                              {isExpanded ? <ChevronUp className="w-3 h-3 ml-1" /> : <ChevronDown className="w-3 h-3 ml-1" />}
+                            </button>
+                          </td>
+                          <td className="px-4 py-3">
+                            {batch.status === 'applied' ? (
+                              <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-800">Applied</span>
+                            ) : (
+                              <span
+                                className="px-2 py-0.5 rounded-full text-xs bg-gray-200 text-gray-700"
+                                title={batch.rolled_back_at ? `Rolled back ${formatDateTime(batch.rolled_back_at)}` : undefined}
+                              >
+                                Rolled back
+                              </span>
+                            )}
+                          </td>
+                          <td className="px-4 py-3">
+                            <div className="flex items-center justify-end space-x-2">
+                              {/* A deleted range has no file to download */}
+                              {batch.kind === 'import' && (
+                                <button
+                                  onClick={() => handleDownload(batch)}
+                                  className="p-2 text-gray-400 hover:text-purple-600 transition-colors"
+                                  title="Download original file"
+                                >
+                                  <Download className="w-4 h-4" />
+                                </button>
+                              )}
+                              {batch.status === 'applied' && (
+                                <button
+                                  onClick={() => handleRollback(batch)}
+                                  disabled={!!blockingBatch || rollingBackId !== null}
+                                  className="flex items-center space-x-1 px-3 py-1.5 border border-red-200 text-red-600 rounded-lg text-xs hover:bg-red-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                                  title={blockingBatch ? `Roll back the newer import "${blockingBatch.file_name}" first` : batch.kind === 'delete' ? 'Restore the deleted days' : 'Roll back this import'}
+                                >
+                                  {rollingBackId === batch.id ? (
+                                    <div className="w-3 h-3 border-2 border-red-600 border-t-transparent rounded-full animate-spin"></div>
+                                  ) : (
+                                    <RotateCcw className="w-3 h-3" />
+                                  )}
+                                  <span>Roll back</span>
+                                </button>
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                        {isExpanded && (
+                          <tr>
+                            <td colSpan={6} className="px-4 py-3 bg-gray-50 text-xs text-gray-600">
+                              <p className="mb-1">
+                                <span className="font-medium text-gray-700">Dates:</span> {[...batch.dates].sort().join(', ')}
+                              </p>
+                              {batch.previous_rows.length > 0 && (
+                                <p>
+                                  <span className="font-medium text-gray-700">Restored on rollback:</span>{' '}
+                                  {batch.previous_rows.map(row => row.date).sort().join(', ')}
+                                </p>
+                              )}
+                            </td>
+                          </tr>
+                        )}
+                      </React.Fragment>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="flex justify-end mt-6">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportHistory;
@@ -20,11 +20,28 @@ import {
   Clock,
   AlertTriangle
 } from 'lucide-react';
-import { Account, SalesData, IncentiveRule, User, IncentiveCalculation } from '../types';
+import { Account, IncentiveRule, User } from '../types';
+import {
+  calculateIncentives,
+  findApplicableRule,
+  formatRateBand,
+  getPeriodBounds,
+  getRulesInForce,
+  getUserAccountIds,
+  getUserTotals,
+  isRateInBand,
+  isUserScoped,
+  parsePeriodKey,
+  payoutToCalculation
+} from '../lib/incentives';
+import { useAccountAssignments, useAssignmentSalesTotals, useIncentiveMonthClose, useIncentivePayouts } from '../hooks/queries';
+import { useUserCoverageGaps } from '../hooks/useCoverageGaps';
+import { can, getDataScope } from '../lib/permissions';
+import TruncationNotice from './TruncationNotice';
 interface IncentiveGameMapProps {
   accounts: Account[];
-  salesData: SalesData[];
   incentiveRules: IncentiveRule[];
+  users: User[];
   currentUser: User;
 }
 interface CountdownTime {
@@ -35,40 +52,20 @@ interface CountdownTime {
 }
 const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({ 
   accounts, 
-  salesData, 
   incentiveRules,
+  users,
   currentUser 
 }) => {
   const [selectedMonth, setSelectedMonth] = useState(() => {
     const now = new Date();
     return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}`;
   });
-  const [selectedUser, setSelectedUser] = useState<string>(currentUser.role === 'user' ? currentUser.id : 'all');
+  // Team leads and admins follow other users' incentives; the users prop is
+  // already limited to whom they can see
+  const seesOtherUsers = getDataScope(currentUser) !== 'own';
+  const earners = useMemo(() => users.filter(u => can(u, 'incentives.earn')), [users]);
+  const [selectedUser, setSelectedUser] = useState<string>(seesOtherUsers ? 'all' : currentUser.id);
   const [countdown, setCountdown] = useState<CountdownTime>({ days: 0, hours: 0, minutes: 0, seconds: 0 });
-  // Sample users data - in real app this would come from props or API
-  const users: User[] = useMemo(() => [
-    // Include current user
-    currentUser,
-    // Add other sample users if current user is superadmin
-    ...(currentUser.role === 'superadmin' ? [
-      {
-        id: '1',
-        name: 'John Doe',
-        email: 'john@kimostudio.com',
-        role: 'user' as const,
-        managed_accounts: accounts.length > 0 ? [accounts[0].id] : [], // manages first account if available
-        created_at: new Date().toISOString(),
-      },
-      {
-        id: '2',
-        name: 'Jane Smith',
-        email: 'jane@kimostudio.com',
-        role: 'user' as const,
-        managed_accounts: accounts.length > 1 ? [accounts[1].id] : [], // manages second account if available
-        created_at: new Date().toISOString(),
-      }
-    ] : [])
-  ], [currentUser, accounts]);
   // Countdown timer effect
   useEffect(() => {
     const updateCountdown = () => {
@@ -96,155 +93,60 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
     const interval = setInterval(updateCountdown, 1000);
     return () => clearInterval(interval);
   }, []);
-  // Filter sales data by selected month
-  const filteredSalesData = useMemo(() => {
-    const [year, month] = selectedMonth.split('-');
-    const filtered = salesData.filter(data => {
-      const dataDate = new Date(data.date);
-      return dataDate.getFullYear() === parseInt(year) && 
-             dataDate.getMonth() === parseInt(month) - 1;
-    });
-    
-    console.log('Filtered Sales Data:', {
-      selectedMonth,
-      totalSalesData: salesData.length,
-      filteredCount: filtered.length,
-      sampleData: filtered.slice(0, 3)
-    });
-    
-    return filtered;
-  }, [salesData, selectedMonth]);
-  // Calculate incentives for users
+  const period = useMemo(() => parsePeriodKey(selectedMonth), [selectedMonth]);
+  // Sales totals split by owner, the assignments and the payout ledger for the
+  // selected month
+  const accountTotalsQuery = useAssignmentSalesTotals({ range: getPeriodBounds(period) });
+  const assignmentsQuery = useAccountAssignments({ range: getPeriodBounds(period) });
+  const payoutsQuery = useIncentivePayouts(selectedMonth);
+  const monthCloseQuery = useIncentiveMonthClose(selectedMonth);
+  const accountTotals = useMemo(() => accountTotalsQuery.data?.rows || [], [accountTotalsQuery.data]);
+  const assignments = useMemo(() => assignmentsQuery.data?.rows || [], [assignmentsQuery.data]);
+  const payouts = useMemo(() => payoutsQuery.data || [], [payoutsQuery.data]);
+  const isTruncated = accountTotalsQuery.data?.truncated || assignmentsQuery.data?.truncated || false;
+  const isMonthClosed = !!monthCloseQuery.data;
+  const periodRange = useMemo(() => getPeriodBounds(period), [period]);
+  // Per-user rule versions in force for the selected month
+  const activeRules = useMemo(() => {
+    return getRulesInForce(incentiveRules, period).filter(rule => rule.is_active && isUserScoped(rule));
+  }, [incentiveRules, period]);
+  // Calculate incentives for users; closed months come from the ledger
   const incentiveCalculations = useMemo(() => {
-    const calculations: IncentiveCalculation[] = [];
-    const usersToCalculate = currentUser.role === 'superadmin' 
-      ? users.filter(u => u.role === 'user')
-      : [currentUser];
-    usersToCalculate.forEach(user => {
-      // Get accounts managed by this user
-      let userAccounts: Account[] = [];
-      
-      if (currentUser.role === 'superadmin') {
-        // For superadmin viewing other users, use their managed accounts
-        userAccounts = accounts.filter(acc => user.managed_accounts.includes(acc.id));
-      } else {
-        // For regular users, use their own managed accounts
-        userAccounts = accounts.filter(acc => currentUser.managed_accounts.includes(acc.id));
-      }
-      // Get all sales data for user's accounts
-      const userSalesData = filteredSalesData.filter(data => 
-        userAccounts.some(acc => acc.id === data.account_id)
-      );
-      
-      // Debug logging to verify data connection
-      if (user.id === currentUser.id) {
-        console.log('Debug - Current User Data:', {
-          userId: user.id,
-          userName: user.name,
-          managedAccounts: currentUser.managed_accounts,
-          userAccounts: userAccounts.map(acc => ({ id: acc.id, username: acc.username })),
-          salesDataCount: userSalesData.length,
-          totalSalesData: filteredSalesData.length,
-          selectedMonth,
-          userSalesData: userSalesData.slice(0, 3) // Show first 3 records for debugging
-        });
-      }
-      // Calculate total commission and revenue for all accounts (to determine average commission rate)
-      const allTotalRevenue = userSalesData.reduce((sum, data) => sum + (data.total_purchases || 0), 0);
-      const allTotalCommission = userSalesData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
-      const averageCommissionRate = allTotalRevenue > 0 ? (allTotalCommission / allTotalRevenue) * 100 : 0;
-      
-      // Debug logging for calculations
-      if (user.id === currentUser.id) {
-        console.log('Debug - Calculations:', {
-          allTotalRevenue,
-          allTotalCommission,
-          averageCommissionRate
-        });
-      }
-      // Find applicable incentive rule
-      const applicableRule = incentiveRules.find(rule => 
-        rule.is_active &&
-        averageCommissionRate >= rule.commission_rate_min &&
-        (rule.commission_rate_max === 100 ? averageCommissionRate >= rule.commission_rate_min : averageCommissionRate <= rule.commission_rate_max)
-      );
-      // Filter accounts that meet minimum commission threshold for incentive calculation
-      let qualifyingAccountsData: typeof userSalesData = [];
-      let totalRevenue = 0;
-      let totalCommission = 0;
-      if (applicableRule) {
-        // Group sales data by account and check if each account meets minimum commission threshold
-        const accountGroups = userSalesData.reduce((groups, data) => {
-          if (!groups[data.account_id]) {
-            groups[data.account_id] = [];
-          }
-          groups[data.account_id].push(data);
-          return groups;
-        }, {} as Record<string, typeof userSalesData>);
-        // Check each account's total commission against minimum threshold
-        Object.entries(accountGroups).forEach(([accountId, accountData]) => {
-          const accountTotalCommission = accountData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
-          // Only include accounts that meet minimum commission threshold
-          if (accountTotalCommission >= applicableRule.min_commission_threshold) {
-            qualifyingAccountsData.push(...accountData);
-          }
-        });
-        // Calculate totals from qualifying accounts only
-        totalRevenue = qualifyingAccountsData.reduce((sum, data) => sum + (data.total_purchases || 0), 0);
-        totalCommission = qualifyingAccountsData.reduce((sum, data) => sum + (data.gross_commission || 0), 0);
-      } else {
-        // If no applicable rule, use all data for display purposes
-        totalRevenue = allTotalRevenue;
-        totalCommission = allTotalCommission;
-      }
-      let currentTier = null;
-      let nextTier = null;
-      let incentiveAmount = 0;
-      let progressPercentage = 0;
-      let remainingToNextTier = 0;
-      if (applicableRule && totalRevenue >= applicableRule.base_revenue_threshold) {
-        // Find current tier
-        const sortedTiers = [...applicableRule.tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
-        for (let i = sortedTiers.length - 1; i >= 0; i--) {
-          if (totalRevenue >= sortedTiers[i].revenue_threshold) {
-            currentTier = sortedTiers[i];
-            nextTier = sortedTiers[i + 1] || null;
-            break;
-          }
-        }
-        if (currentTier) {
-          incentiveAmount = (totalRevenue * currentTier.incentive_rate) / 100;
-        }
-        if (nextTier) {
-          remainingToNextTier = nextTier.revenue_threshold - totalRevenue;
-          progressPercentage = ((totalRevenue - currentTier.revenue_threshold) / 
-                              (nextTier.revenue_threshold - currentTier.revenue_threshold)) * 100;
-        } else if (currentTier) {
-          progressPercentage = 100;
-        }
-      } else if (applicableRule) {
-        // User has qualifying commission but hasn't reached base threshold
-        remainingToNextTier = applicableRule.base_revenue_threshold - totalRevenue;
-        progressPercentage = (totalRevenue / applicableRule.base_revenue_threshold) * 100;
-        nextTier = applicableRule.tiers[0];
-      }
-      calculations.push({
-        user_id: user.id,
-        user_name: user.name,
-        total_revenue: totalRevenue,
-        total_commission: totalCommission,
-        commission_rate: averageCommissionRate,
-        applicable_rule: applicableRule,
-        current_tier: currentTier,
-        next_tier: nextTier,
-        incentive_amount: incentiveAmount,
-        progress_percentage: Math.min(progressPercentage, 100),
-        remaining_to_next_tier: remainingToNextTier,
-        managed_accounts_count: userAccounts.length,
-      });
+    const usersToCalculate = seesOtherUsers ? earners : [currentUser];
+    if (isMonthClosed) {
+      const userIds = new Set(usersToCalculate.map(u => u.id));
+      return payouts.filter(payout => userIds.has(payout.user_id)).map(payoutToCalculation);
+    }
+    return calculateIncentives({
+      accounts,
+      accountTotals,
+      assignments,
+      users: usersToCalculate,
+      rules: incentiveRules,
+      period,
     });
-    return calculations;
-  }, [users, accounts, filteredSalesData, incentiveRules, currentUser]);
+  }, [seesOtherUsers, earners, accounts, accountTotals, assignments, incentiveRules, currentUser, period, isMonthClosed, payouts]);
+  const displayedUsers = useMemo(() => {
+    if (!seesOtherUsers) return [currentUser];
+    return selectedUser === 'all' ? earners : earners.filter(u => u.id === selectedUser);
+  }, [seesOtherUsers, currentUser, earners, selectedUser]);
+  // Accounts each displayed user owned at some point in the month
+  const accountIdsByUser = useMemo(
+    () => new Map(displayedUsers.map(user => [user.id, getUserAccountIds(user, assignments, period)])),
+    [displayedUsers, assignments, period]
+  );
+  const displayedAccounts = useMemo(
+    () => accounts.filter(acc => [...accountIdsByUser.values()].some(ids => ids.includes(acc.id))),
+    [accounts, accountIdsByUser]
+  );
+  const displayedUserIds = useMemo(() => displayedUsers.map(user => user.id), [displayedUsers]);
+  // Days without uploaded sales data make incentives come out too low. That
+  // only matters while the month is open; closed months are final.
+  const coverage = useUserCoverageGaps(displayedUserIds, displayedAccounts, assignments, periodRange, { enabled: !isMonthClosed });
+  const getUserGaps = (userId: string) => (isMonthClosed ? [] : coverage.gapsByUser.get(userId) || []);
+  const coverageGaps = displayedUserIds.flatMap(getUserGaps);
+  const missingAccountsCount = new Set(coverageGaps.map(gap => gap.account.id)).size;
+  const missingDaysCount = coverageGaps.reduce((sum, gap) => sum + gap.missing_dates.length, 0);
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
       style: 'currency',
@@ -268,6 +170,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
     ];
     return isUnlocked ? colors[tierIndex % colors.length] : 'from-gray-300 to-gray-400';
   };
+  const currentUserAccountIds = accountIdsByUser.get(currentUser.id) || [];
   const displayedCalculations = selectedUser === 'all' 
     ? incentiveCalculations 
     : incentiveCalculations.filter(calc => calc.user_id === selectedUser);
@@ -286,6 +189,23 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
         </div>
       </div>
 
+      {isTruncated && (
+        <TruncationNotice shown={accountTotals.length} what="account totals" hint="Progress below may be understated." />
+      )}
+
+      {coverageGaps.length > 0 && (
+        <div className="flex items-start space-x-3 p-4 bg-yellow-50 border border-yellow-200 rounded-xl text-yellow-800">
+          <AlertTriangle className="w-5 h-5 mt-0.5 flex-shrink-0" />
+          <div className="text-sm">
+            <p className="font-semibold">Perhitungan memakai data yang belum lengkap</p>
+            <p>
+              {missingAccountsCount} akun belum memiliki data penjualan untuk total {missingDaysCount} hari di bulan ini,
+              sehingga insentif bisa lebih rendah dari seharusnya. Unggah data yang hilang sebelum bulan ditutup.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Countdown Timer */}
       <div className="bg-gradient-to-r from-red-500 to-orange-500 rounded-xl p-6 text-white shadow-lg">
         <div className="flex items-center justify-between">
@@ -332,7 +252,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
               className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
             />
           </div>
-          {currentUser.role === 'superadmin' && (
+          {seesOtherUsers && (
             <div className="flex items-center space-x-2">
               <Filter className="w-5 h-5 text-gray-400" />
               <label className="text-sm font-medium text-gray-700">User:</label>
@@ -342,7 +262,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
                 <option value="all">Semua User</option>
-                {users.filter(u => u.role === 'user').map(user => (
+                {earners.map(user => (
                   <option key={user.id} value={user.id}>{user.name}</option>
                 ))}
               </select>
@@ -366,13 +286,31 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                     <p className="text-indigo-100">
                       Mengelola {calc.managed_accounts_count} akun affiliate
                     </p>
+                    {getUserGaps(calc.user_id).length > 0 && (
+                      <p className="text-xs text-yellow-200 font-semibold mt-1 flex items-center space-x-1">
+                        <AlertTriangle className="w-3 h-3" />
+                        <span>
+                          Data belum lengkap: {getUserGaps(calc.user_id).map(gap => `${gap.account.username} (${gap.missing_dates.length} hari)`).join(', ')}
+                        </span>
+                      </p>
+                    )}
                   </div>
                 </div>
                 <div className="text-right">
                   <div className="text-3xl font-bold">
                     {formatCurrency(calc.incentive_amount)}
                   </div>
-                  <p className="text-indigo-100">Insentif Bulan Ini</p>
+                  <p className="text-indigo-100 flex items-center justify-end space-x-1">
+                    {isMonthClosed && <Lock className="w-4 h-4" />}
+                    <span>
+                      {isMonthClosed
+                        ? `Insentif Final · ${payouts.find(p => p.user_id === calc.user_id)?.status ?? 'draft'}`
+                        : 'Insentif Bulan Ini'}
+                    </span>
+                  </p>
+                  {calc.is_capped && (
+                    <p className="text-xs text-yellow-200 font-semibold mt-1">Batas maksimal insentif tercapai</p>
+                  )}
                 </div>
               </div>
             </div>
@@ -431,7 +369,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                         <h3 className="text-lg font-bold text-blue-900 mb-2">
                           🎯 Anda Tergabung dalam: {calc.applicable_rule.name}
                         </h3>
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
                           <div className="bg-white rounded-lg p-3 border border-blue-200">
                             <div className="text-sm text-blue-700 font-medium">Rate Komisi Anda</div>
                             <div className="text-xl font-bold text-blue-900">{calc.commission_rate.toFixed(2)}%</div>
@@ -439,9 +377,18 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                           <div className="bg-white rounded-lg p-3 border border-blue-200">
                             <div className="text-sm text-blue-700 font-medium">Range Rules Ini</div>
                             <div className="text-xl font-bold text-blue-900">
-                              {calc.applicable_rule.commission_rate_min}% - {calc.applicable_rule.commission_rate_max === 100 ? '∞' : `${calc.applicable_rule.commission_rate_max}%`}
+                              {formatRateBand(calc.applicable_rule)}
                             </div>
                           </div>
+                          <div className="bg-white rounded-lg p-3 border border-blue-200">
+                            <div className="text-sm text-blue-700 font-medium">Perhitungan</div>
+                            <div className="text-xl font-bold text-blue-900">
+                              {calc.applicable_rule.calculation_mode === 'marginal' ? 'Bertingkat' : 'Flat'}
+                            </div>
+                            {calc.applicable_rule.payout_cap !== null && calc.applicable_rule.payout_cap !== undefined && (
+                              <div className="text-xs text-blue-700">Maks. {formatCurrency(calc.applicable_rule.payout_cap)}</div>
+                            )}
+                          </div>
                         </div>
                         <p className="text-blue-800 text-sm leading-relaxed">
                           {calc.applicable_rule.description}
@@ -522,7 +469,10 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                             <h4 className="font-semibold text-orange-900">Hampir Sampai!</h4>
                             <p className="text-orange-700 text-sm">
                               Tingkatkan penjualan sebesar <strong>{formatCurrency(calc.remaining_to_next_tier)}</strong> lagi 
-                              untuk mencapai tier berikutnya dan dapatkan insentif {calc.next_tier.incentive_rate}%!
+                              untuk mencapai tier berikutnya dan dapatkan insentif {calc.next_tier.incentive_rate}%
+                              {calc.applicable_rule.calculation_mode === 'marginal'
+                                ? ` untuk penjualan di atas ${formatCurrency(calc.next_tier.revenue_threshold)}!`
+                                : ' dari total penjualan!'}
                             </p>
                           </div>
                           <div className="relative z-10 text-right">
@@ -643,9 +593,8 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                       {/* Rules Recommendation */}
                       <div className="space-y-3">
                         <h4 className="font-semibold text-amber-900">🎯 Rekomendasi Rules untuk Anda:</h4>
-                        {incentiveRules.filter(rule => rule.is_active).map(rule => {
-                          const isRateMatch = calc.commission_rate >= rule.commission_rate_min && 
-                            (rule.commission_rate_max === 100 ? calc.commission_rate >= rule.commission_rate_min : calc.commission_rate <= rule.commission_rate_max);
+                        {activeRules.map(rule => {
+                          const isRateMatch = isRateInBand(calc.commission_rate, rule);
                           return (
                             <div key={rule.id} className={`border-2 rounded-lg p-4 ${
                               isRateMatch 
@@ -666,7 +615,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                                 <div className="text-sm">
                                   <span className="text-gray-600">Range Rate:</span>
                                   <span className="font-semibold ml-1">
-                                    {rule.commission_rate_min}% - {rule.commission_rate_max === 100 ? '∞' : `${rule.commission_rate_max}%`}
+                                    {formatRateBand(rule)}
                                   </span>
                                 </div>
                                 <div className="text-sm">
@@ -682,7 +631,10 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                                   <ul className="text-sm text-green-800 space-y-1">
                                     <li>• Pastikan setiap akun mencapai komisi minimum {formatCurrency(rule.min_commission_threshold)}</li>
                                     <li>• Target penjualan total: {formatCurrency(rule.base_revenue_threshold)} untuk mulai dapat insentif</li>
-                                    <li>• Insentif maksimal: {Math.max(...rule.tiers.map(t => t.incentive_rate))}% dari total penjualan</li>
+                                    <li>• Insentif maksimal: {Math.max(...rule.tiers.map(t => t.incentive_rate))}% {rule.calculation_mode === 'marginal' ? 'untuk penjualan di tier tertinggi' : 'dari total penjualan'}</li>
+                                    {rule.payout_cap !== null && rule.payout_cap !== undefined && (
+                                      <li>• Insentif dibatasi maksimal {formatCurrency(rule.payout_cap)} per bulan</li>
+                                    )}
                                     <li>• Fokus pada akun dengan performa terbaik untuk mencapai tier tinggi</li>
                                   </ul>
                                 </div>
@@ -702,11 +654,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                       </div>
                       {/* Action Plan */}
                       {(() => {
-                        const matchingRule = incentiveRules.find(rule => 
-                          rule.is_active &&
-                          calc.commission_rate >= rule.commission_rate_min && 
-                          (rule.commission_rate_max === 100 ? true : calc.commission_rate <= rule.commission_rate_max)
-                        );
+                        const matchingRule = findApplicableRule(activeRules, calc.commission_rate);
                         if (matchingRule) {
                           return (
                             <div className="mt-4 bg-gradient-to-r from-green-100 to-emerald-100 border-2 border-green-300 rounded-xl p-4">
@@ -770,35 +718,17 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                     }
                   </p>
                   {/* Show progress to unlock incentives */}
-                  {calc.total_commission > 0 && incentiveRules.filter(rule => rule.is_active).length > 0 && (
+                  {calc.total_commission > 0 && activeRules.length > 0 && (
                     <div className="space-y-4">
-                      {incentiveRules.filter(rule => rule.is_active).map(rule => {
+                      {activeRules.map(rule => {
                         // Check how many accounts meet the minimum commission threshold
-                        const userAccounts = currentUser.role === 'superadmin' 
-                          ? accounts.filter(acc => users.find(u => u.id === calc.user_id)?.managed_accounts.includes(acc.id))
-                          : accounts.filter(acc => currentUser.managed_accounts.includes(acc.id));
-                        const userSalesData = filteredSalesData.filter(data => 
-                          userAccounts.some(acc => acc.id === data.account_id)
-                        );
-                        // Group by account and check qualifying accounts
-                        const accountGroups = userSalesData.reduce((groups, data) => {
-                          if (!groups[data.account_id]) {
-                            groups[data.account_id] = [];
-                          }
-                          groups[data.account_id].push(data);
-                          return groups;
-                        }, {} as Record<string, typeof userSalesData>);
-                        const qualifyingAccounts = Object.entries(accountGroups).filter(([accountId, accountData]) => {
-                          const accountTotalCommission = accountData.reduce((sum, data) => sum + data.gross_commission, 0);
-                          return accountTotalCommission >= rule.min_commission_threshold;
-                        });
-                        const totalQualifyingCommission = qualifyingAccounts.reduce((sum, [accountId, accountData]) => {
-                          return sum + accountData.reduce((accSum, data) => accSum + data.gross_commission, 0);
-                        }, 0);
+                        const calcUser = users.find(u => u.id === calc.user_id) || currentUser;
+                        const userTotals = getUserTotals(calcUser, accountTotals);
+                        // Check which accounts meet the rule's minimum commission
+                        const qualifyingAccounts = userTotals.filter(row => row.gross_commission >= rule.min_commission_threshold);
+                        const totalQualifyingCommission = qualifyingAccounts.reduce((sum, row) => sum + row.gross_commission, 0);
                         const hasQualifyingAccounts = qualifyingAccounts.length > 0;
-                        const isRateQualified = calc.commission_rate >= rule.commission_rate_min && calc.commission_rate <= rule.commission_rate_max;
-                        const isRateQualifiedFixed = calc.commission_rate >= rule.commission_rate_min && 
-                          (rule.commission_rate_max === 100 ? calc.commission_rate >= rule.commission_rate_min : calc.commission_rate <= rule.commission_rate_max);
+                        const isRateQualifiedFixed = isRateInBand(calc.commission_rate, rule);
                         return (
                           <div key={rule.id} className={`border-2 rounded-xl p-4 ${
                             hasQualifyingAccounts && isRateQualifiedFixed 
@@ -820,7 +750,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                               <div className="flex justify-between text-sm mb-1">
                                 <span className="text-gray-600">Akun yang Memenuhi Syarat:</span>
                                 <span className="font-semibold">
-                                  {qualifyingAccounts.length} dari {Object.keys(accountGroups).length} akun
+                                  {qualifyingAccounts.length} dari {userTotals.length} akun
                                 </span>
                               </div>
                               <div className="text-sm mb-2">
@@ -849,7 +779,7 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                                   isRateQualifiedFixed ? 'text-green-600' : 'text-orange-600'
                                 }`}>
                                   {calc.commission_rate.toFixed(2)}% 
-                                  ({rule.commission_rate_min}% - {rule.commission_rate_max === 100 ? '∞' : `${rule.commission_rate_max}%`})
+                                  ({formatRateBand(rule)})
                                   {isRateQualifiedFixed ? ' ✓' : ' ✗'}
                                 </span>
                               </div>
@@ -867,16 +797,16 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
                       })}
                     </div>
                   )}
-                  {incentiveRules.filter(rule => rule.is_active).length > 0 && calc.total_commission === 0 && (
+                  {activeRules.length > 0 && calc.total_commission === 0 && (
                     <div className="bg-blue-50 border border-blue-200 rounded-xl p-6">
                       <h4 className="font-semibold text-blue-900 mb-3">🎯 Quest Tersedia:</h4>
                       <div className="space-y-3">
-                        {incentiveRules.filter(rule => rule.is_active).map(rule => (
+                        {activeRules.map(rule => (
                           <div key={rule.id} className="bg-white rounded-lg p-3 border border-blue-200">
                             <div className="font-semibold text-blue-900">{rule.name}</div>
                             <div className="text-sm text-blue-700">
                               Min komisi per akun: {formatCurrency(rule.min_commission_threshold)} | 
-                              Rate: {rule.commission_rate_min}%-{rule.commission_rate_max === 100 ? '∞' : `${rule.commission_rate_max}%`}
+                              Rate: {formatRateBand(rule)}
                             </div>
                             <div className="text-xs text-blue-600 mt-1">
                               Insentif hingga {Math.max(...rule.tiers.map(t => t.incentive_rate))}%
@@ -899,20 +829,20 @@ const IncentiveGameMap: React.FC<IncentiveGameMapProps> = ({
           </div>
           <h3 className="text-lg font-medium text-gray-900 mb-2">Belum Ada Data Insentif</h3>
           <p className="text-gray-600">
-            {currentUser.role === 'superadmin' 
+            {seesOtherUsers
               ? 'Belum ada user dengan data penjualan untuk bulan ini'
-              : currentUser.managed_accounts.length === 0
+              : currentUserAccountIds.length === 0
                 ? 'Anda belum memiliki akun yang dikelola. Hubungi admin untuk mendapatkan akses akun.'
                 : `Belum ada data penjualan untuk bulan ${selectedMonth}. Upload data penjualan untuk melihat perhitungan insentif.`
             }
           </p>
-          {currentUser.role === 'user' && currentUser.managed_accounts.length > 0 && (
+          {!seesOtherUsers && currentUserAccountIds.length > 0 && (
             <div className="mt-4 p-4 bg-blue-50 rounded-lg">
               <p className="text-sm text-blue-800">
                 <strong>Akun yang Anda kelola:</strong>
               </p>
               <div className="mt-2 flex flex-wrap gap-2 justify-center">
-                {currentUser.managed_accounts.map(accountId => {
+                {currentUserAccountIds.map(accountId => {
                   const account = accounts.find(acc => acc.id === accountId);
                   return account ? (
                     <span key={accountId} className="inline-flex items-center px-3 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
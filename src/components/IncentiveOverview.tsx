@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   Users, 
   Calendar,
@@ -14,10 +14,43 @@ import {
   Percent,
   Star,
   Trophy,
-  Activity
+  Activity,
+  Lock,
+  CheckCircle
 } from 'lucide-react';
-import { useSupabase } from '../hooks/useSupabase';
-import { Account, SalesData, User as UserType, IncentiveRule } from '../types';
+import {
+  useAccountAssignments,
+  useAccounts,
+  useAssignmentSalesTotals,
+  useCategories,
+  useCloseIncentiveMonth,
+  useIncentiveMonthClose,
+  useIncentivePayouts,
+  useIncentivePoolPayouts,
+  useIncentiveRules,
+  useUpdatePayoutStatus,
+  useUserGroups,
+  useUsers
+} from '../hooks/queries';
+import { User as UserType, IncentiveCalculation, IncentivePayout } from '../types';
+import {
+  calculateIncentives,
+  calculatePoolIncentives,
+  formatRateBand,
+  getNextPayoutStatus,
+  getPeriodBounds,
+  getRulesInForce,
+  isPeriodClosable,
+  isUserScoped,
+  payoutToCalculation,
+  poolPayoutToCalculation,
+  toPayoutSnapshot,
+  toPoolPayoutSnapshot,
+  toPeriodKey
+} from '../lib/incentives';
+import { can } from '../lib/permissions';
+import PoolIncentives from './PoolIncentives';
+import TruncationNotice from './TruncationNotice';
 
 interface IncentiveOverviewProps {
   currentUser?: UserType;
@@ -27,123 +60,143 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1);
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [showDatePicker, setShowDatePicker] = useState(false);
-  const [isLoading, setIsLoading] = useState(true);
-  const [accounts, setAccounts] = useState<Account[]>([]);
-  const [salesData, setSalesData] = useState<SalesData[]>([]);
-  const [users, setUsers] = useState<UserType[]>([]);
-  const [incentiveRules, setIncentiveRules] = useState<IncentiveRule[]>([]);
-
-  const {
-    fetchAccounts,
-    fetchSalesData,
-    fetchUsers,
-    fetchIncentiveRules,
-  } = useSupabase();
-
-  // Load data
-  useEffect(() => {
-    const loadData = async () => {
-      setIsLoading(true);
-      try {
-        const [accountsData, salesDataResult, usersData, rulesData] = await Promise.all([
-          fetchAccounts(),
-          fetchSalesData(),
-          fetchUsers(),
-          fetchIncentiveRules(),
-        ]);
-        
-        setAccounts(accountsData);
-        setSalesData(salesDataResult);
-        setUsers(usersData);
-        setIncentiveRules(rulesData);
-      } catch (err) {
-        console.error('Error loading data:', err);
-      } finally {
-        setIsLoading(false);
-      }
-    };
 
-    loadData();
-  }, []);
+  const period = useMemo(() => ({ year: selectedYear, month: selectedMonth }), [selectedYear, selectedMonth]);
+  const periodKey = toPeriodKey(period);
+
+  // The same cached queries App and the other incentive screens use
+  const accountsQuery = useAccounts();
+  const usersQuery = useUsers();
+  const rulesQuery = useIncentiveRules();
+  const categoriesQuery = useCategories();
+  const userGroupsQuery = useUserGroups();
+  // Sales totals split by owner, the assignments and the payout ledger for the
+  // selected month only
+  const accountTotalsQuery = useAssignmentSalesTotals({ range: getPeriodBounds(period) });
+  const assignmentsQuery = useAccountAssignments({ range: getPeriodBounds(period) });
+  const payoutsQuery = useIncentivePayouts(periodKey);
+  const poolPayoutsQuery = useIncentivePoolPayouts(periodKey);
+  const monthCloseQuery = useIncentiveMonthClose(periodKey);
+
+  const accounts = useMemo(() => accountsQuery.data?.rows || [], [accountsQuery.data]);
+  const users = useMemo(() => usersQuery.data?.rows || [], [usersQuery.data]);
+  const incentiveRules = useMemo(() => rulesQuery.data || [], [rulesQuery.data]);
+  const categories = useMemo(() => categoriesQuery.data || [], [categoriesQuery.data]);
+  const userGroups = useMemo(() => userGroupsQuery.data || [], [userGroupsQuery.data]);
+  const accountTotals = useMemo(() => accountTotalsQuery.data?.rows || [], [accountTotalsQuery.data]);
+  const assignments = useMemo(() => assignmentsQuery.data?.rows || [], [assignmentsQuery.data]);
+  const payouts = useMemo(() => payoutsQuery.data || [], [payoutsQuery.data]);
+  const poolPayouts = useMemo(() => poolPayoutsQuery.data || [], [poolPayoutsQuery.data]);
+  const isLoading = [accountsQuery, usersQuery, rulesQuery, categoriesQuery, userGroupsQuery, assignmentsQuery, monthCloseQuery]
+    .some(query => query.isLoading);
+
+  // Lists that hit the row cap, with the number of rows that were loaded
+  const truncatedLists: Record<string, number> = {
+    accounts: accountsQuery.data?.truncated ? accounts.length : 0,
+    users: usersQuery.data?.truncated ? users.length : 0,
+    'account totals': accountTotalsQuery.data?.truncated ? accountTotals.length : 0,
+    assignments: assignmentsQuery.data?.truncated ? assignments.length : 0,
+  };
 
-  // Get active incentive rule
-  const activeRule = useMemo(() => {
-    return incentiveRules.find(rule => rule.is_active) || null;
-  }, [incentiveRules]);
-
-  // Calculate tiered incentive
-  const calculateTieredIncentive = (revenue: number, rule: IncentiveRule): number => {
-    if (revenue < rule.base_revenue_threshold) return 0;
-
-    // Apply tiered rates
-    const sortedTiers = [...rule.tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
-
-    // Find which tier applies based on revenue
-    let applicableTier = sortedTiers[0];
-    for (const tier of sortedTiers) {
-      if (revenue >= tier.revenue_threshold) {
-        applicableTier = tier;
-      } else {
-        break;
-      }
-    }
+  const closeIncentiveMonth = useCloseIncentiveMonth();
+  const updatePayoutStatus = useUpdatePayoutStatus();
+  const isClosingMonth = closeIncentiveMonth.isPending;
 
-    // Calculate incentive using the applicable tier's rate
-    const incentive = (revenue * applicableTier.incentive_rate) / 100;
+  // A closed month is read from the ledger instead of being recalculated
+  const monthClose = monthCloseQuery.data ?? null;
+  const isMonthClosed = monthClose !== null;
 
-    return incentive;
-  };
+  // Get the active rule version in force for the selected month
+  const activeRule = useMemo(() => {
+    return getRulesInForce(incentiveRules, period).find(rule => rule.is_active && isUserScoped(rule)) || null;
+  }, [incentiveRules, period]);
 
-  // Calculate user accounts overview with aggregated metrics
+  // The per-user rule with the highest rate band; users matched to it are the high performers
+  const topRule = useMemo(() => {
+    return getRulesInForce(incentiveRules, period)
+      .filter(rule => rule.is_active && isUserScoped(rule))
+      .sort((a, b) => b.commission_rate_min - a.commission_rate_min)[0] || null;
+  }, [incentiveRules, period]);
+
+  // Calculate incentives for every user with the shared engine
   const userAccountsOverview = useMemo(() => {
-    if (!activeRule) return [];
-
-    const overview = users.map(user => {
-      const userAccounts = accounts.filter(acc => acc.user_id === user.id);
-
-      // Calculate aggregated metrics for all accounts of this user
-      let totalRevenue = 0;
-      let totalCommission = 0;
-      let qualifyingAccountsCount = 0;
-
-      userAccounts.forEach(account => {
-        // Filter sales data for selected month/year
-        const accountSales = salesData.filter(sale => {
-          const saleDate = new Date(sale.date);
-          return sale.account_id === account.id &&
-                 saleDate.getMonth() + 1 === selectedMonth &&
-                 saleDate.getFullYear() === selectedYear;
+    const calculations = isMonthClosed
+      ? payouts.map(payoutToCalculation)
+      : calculateIncentives({
+          accounts,
+          accountTotals,
+          assignments,
+          users,
+          rules: incentiveRules,
+          period,
         });
+    return calculations.sort((a, b) => b.total_revenue - a.total_revenue);
+  }, [users, accounts, accountTotals, assignments, incentiveRules, period, isMonthClosed, payouts]);
+
+  // Category and team rules, pooled across everyone they cover
+  const poolCalculations = useMemo(() => {
+    if (isMonthClosed) return poolPayouts.map(poolPayoutToCalculation);
+    return calculatePoolIncentives({
+      accounts,
+      accountTotals,
+      assignments,
+      users,
+      rules: incentiveRules,
+      categories,
+      groups: userGroups,
+      period,
+    });
+  }, [accounts, accountTotals, assignments, users, incentiveRules, categories, userGroups, period, isMonthClosed, poolPayouts]);
+
+  // Closing locks in whatever is calculated now, so every list the snapshots
+  // are built from has to be fully loaded. Null when the month can be closed.
+  const snapshotQueries = {
+    accounts: accountsQuery,
+    users: usersQuery,
+    rules: rulesQuery,
+    categories: categoriesQuery,
+    groups: userGroupsQuery,
+    assignments: assignmentsQuery,
+    'account totals': accountTotalsQuery,
+  };
+  const closeBlocker = (() => {
+    if (monthCloseQuery.data === undefined) return 'Checking whether the month is already closed';
+    if (!isPeriodClosable(period)) return 'A month can only be closed after it ends';
+    const entries = Object.entries(snapshotQueries);
+    const failed = entries.filter(([, query]) => query.error !== null).map(([name]) => name);
+    if (failed.length > 0) return `Could not load ${failed.join(', ')}`;
+    const pending = entries.filter(([, query]) => query.data === undefined || query.isFetching).map(([name]) => name);
+    if (pending.length > 0) return `Still loading ${pending.join(', ')}`;
+    const truncated = Object.keys(truncatedLists).filter(name => truncatedLists[name] > 0);
+    if (truncated.length > 0) return `Only part of ${truncated.join(', ')} was loaded`;
+    return null;
+  })();
+
+  const payoutsByUser = useMemo(() => {
+    return new Map(payouts.map(payout => [payout.user_id, payout]));
+  }, [payouts]);
+
+  const handleCloseMonth = async () => {
+    if (isMonthClosed || closeBlocker) return;
+    if (!confirm(`Close ${fullMonthNames[selectedMonth - 1]} ${selectedYear}? Payouts will be locked and no longer follow rule or sales data changes.`)) {
+      return;
+    }
 
-        const accountCommission = accountSales.reduce((sum, sale) => sum + sale.gross_commission, 0);
+    const snapshots = userAccountsOverview.map(calc => toPayoutSnapshot(calc, period));
+    const poolSnapshots = poolCalculations.map(pool => toPoolPayoutSnapshot(pool, period));
+    await closeIncentiveMonth.mutate(periodKey, snapshots, poolSnapshots);
+  };
 
-        // Only count accounts that meet the min_commission_threshold
-        if (accountCommission >= activeRule.min_commission_threshold) {
-          const accountRevenue = accountSales.reduce((sum, sale) => sum + sale.total_purchases, 0);
-          totalRevenue += accountRevenue;
-          totalCommission += accountCommission;
-          qualifyingAccountsCount++;
-        }
-      });
-
-      const avgCommissionRate = totalRevenue > 0 ? Number(((totalCommission / totalRevenue) * 100).toFixed(4)) : 0;
-
-      return {
-        user_id: user.id,
-        user_name: user.name,
-        total_accounts: userAccounts.length,
-        qualifying_accounts: qualifyingAccountsCount,
-        total_revenue: totalRevenue,
-        total_commission: totalCommission,
-        avg_commission_rate: totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0,
-      };
-    });
-    return overview.sort((a, b) => b.total_revenue - a.total_revenue);
-  }, [users, accounts, salesData, selectedMonth, selectedYear, activeRule]);
+  const handleAdvancePayout = async (payout: IncentivePayout) => {
+    const nextStatus = getNextPayoutStatus(payout.status);
+    if (!nextStatus) return;
+
+    await updatePayoutStatus.mutate(payout.id, nextStatus);
+  };
 
   // Calculate summary statistics
   const summaryStats = useMemo(() => {
-    if (!activeRule) return null;
+    if (incentiveRules.length === 0 && !isMonthClosed) return null;
 
     let totalUsers = 0;
     let qualifyingUsers = 0;
@@ -152,22 +205,17 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
     let totalIncentive = 0;
     let highPerformers = 0;
 
-    userAccountsOverview.forEach(userOverview => {
+    userAccountsOverview.forEach(calc => {
       totalUsers++;
       
-      if (userOverview.qualifying_accounts > 0) {
+      if (calc.qualifying_accounts_count > 0) {
         qualifyingUsers++;
-        totalRevenue += userOverview.total_revenue;
-        totalCommission += userOverview.total_commission;
+        totalRevenue += calc.total_revenue;
+        totalCommission += calc.total_commission;
+        totalIncentive += calc.incentive_amount;
         
-        // Calculate incentive for this user
-        if (userOverview.total_revenue >= activeRule.base_revenue_threshold) {
-          const incentive = calculateTieredIncentive(userOverview.total_revenue, activeRule);
-          totalIncentive += incentive;
-        }
-        
-        // Count high performers (above 6.5% commission rate)
-        if (userOverview.avg_commission_rate >= 6.5) {
+        // Count high performers (matched to the top rate band)
+        if (topRule && calc.applicable_rule?.rule_key === topRule.rule_key) {
           highPerformers++;
         }
       }
@@ -186,7 +234,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
       avgCommissionRate,
       qualificationRate
     };
-  }, [userAccountsOverview, activeRule]);
+  }, [userAccountsOverview, incentiveRules, isMonthClosed, topRule]);
 
   // Month names in Indonesian
   const monthNames = [
@@ -199,20 +247,13 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
     'Juli', 'Agustus', 'September', 'Oktober', 'November', 'Desember'
   ];
 
-  // Function to determine which quest/rule category a user belongs to
-  const getUserQuestCategory = (avgCommissionRate: number) => {
-    if (!activeRule) return null;
-
-    const midPoint = 6.5;
+  // Quest category is the rule the engine matched for the user's commission rate
+  const getUserQuestCategory = (calc: IncentiveCalculation) => {
+    if (incentiveRules.length === 0) return null;
 
-    if (avgCommissionRate >= activeRule.commission_rate_min && avgCommissionRate <= activeRule.commission_rate_max) {
-      const maxDisplay = activeRule.commission_rate_max === 100 ? '∞' : activeRule.commission_rate_max + '%';
-
-      if (avgCommissionRate < midPoint) {
-        return { category: 'Standard Commission', range: `${activeRule.commission_rate_min}% - ${maxDisplay}`, color: 'bg-blue-100 text-blue-800' };
-      } else {
-        return { category: 'High Commission', range: `${activeRule.commission_rate_min}% - ${maxDisplay}`, color: 'bg-purple-100 text-purple-800' };
-      }
+    const rule = calc.applicable_rule;
+    if (rule) {
+      return { category: rule.name, range: formatRateBand(rule), color: 'bg-purple-100 text-purple-800' };
     }
     return { category: 'Not Qualifying', range: 'Outside range', color: 'bg-gray-100 text-gray-800' };
   };
@@ -343,6 +384,59 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
         </div>
       </div>
 
+      {Object.entries(truncatedLists).filter(([, shown]) => shown > 0).map(([what, shown]) => (
+        <TruncationNotice
+          key={what}
+          shown={shown}
+          what={what}
+          hint="Incentives below may be understated."
+        />
+      ))}
+
+      {/* Payout Ledger Status */}
+      <div className={`rounded-xl border p-4 flex items-center justify-between ${
+        isMonthClosed ? 'bg-gray-50 border-gray-200' : 'bg-yellow-50 border-yellow-200'
+      }`}>
+        <div className="flex items-center space-x-3">
+          {isMonthClosed ? (
+            <Lock className="w-5 h-5 text-gray-600" />
+          ) : (
+            <Calendar className="w-5 h-5 text-yellow-600" />
+          )}
+          <div>
+            <p className={`text-sm font-semibold ${isMonthClosed ? 'text-gray-900' : 'text-yellow-900'}`}>
+              {isMonthClosed
+                ? `${fullMonthNames[selectedMonth - 1]} ${selectedYear} is closed`
+                : `${fullMonthNames[selectedMonth - 1]} ${selectedYear} is still open`}
+            </p>
+            <p className={`text-xs ${isMonthClosed ? 'text-gray-600' : 'text-yellow-700'}`}>
+              {monthClose
+                ? `Payouts were locked on ${new Date(monthClose.closed_at).toLocaleDateString('id-ID')} and are read from the payout ledger`
+                : 'Amounts are live estimates and change with rule edits and new uploads until the month is closed'}
+            </p>
+          </div>
+        </div>
+        {can(currentUser, 'payouts.manage') && !isMonthClosed && (
+          <button
+            onClick={handleCloseMonth}
+            disabled={isClosingMonth || closeBlocker !== null}
+            title={closeBlocker || 'Lock payouts for this month'}
+            className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Lock className="w-4 h-4" />
+            <span>{isClosingMonth ? 'Closing...' : 'Close Month'}</span>
+          </button>
+        )}
+      </div>
+
+      {can(currentUser, 'payouts.manage') && !isMonthClosed && closeBlocker && isPeriodClosable(period) && (
+        <p className="text-sm text-yellow-800">Month can't be closed yet: {closeBlocker}.</p>
+      )}
+
+      {closeIncentiveMonth.error && (
+        <p className="text-sm text-red-600">Could not close the month: {closeIncentiveMonth.error}</p>
+      )}
+
       {/* Summary Cards */}
       {summaryStats && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
@@ -402,7 +496,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
               </div>
             </div>
             <div className="flex items-center justify-between text-sm">
-              <span className="text-purple-600">Above 6.5% Rate</span>
+              <span className="text-purple-600">{topRule ? `From ${topRule.commission_rate_min}% Rate` : 'No Rate Band'}</span>
               <span className="font-semibold text-purple-800">
                 {summaryStats.totalUsers > 0 ? ((summaryStats.highPerformers / summaryStats.totalUsers) * 100).toFixed(1) : 0}%
               </span>
@@ -453,7 +547,7 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
                   <div className="flex items-center space-x-2">
                     <Percent className="w-4 h-4 text-indigo-600" />
                     <span className="text-indigo-800">
-                      Rate Range: {activeRule.commission_rate_min}% - {activeRule.commission_rate_max === 100 ? '∞' : activeRule.commission_rate_max + '%'}
+                      Rate Range: {formatRateBand(activeRule)}
                     </span>
                   </div>
                   <div className="flex items-center space-x-2">
@@ -462,6 +556,13 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
                       Base Threshold: {formatCurrency(activeRule.base_revenue_threshold)}
                     </span>
                   </div>
+                  <div className="flex items-center space-x-2">
+                    <Activity className="w-4 h-4 text-indigo-600" />
+                    <span className="text-indigo-800">
+                      {activeRule.calculation_mode === 'marginal' ? 'Marginal' : 'Flat'}
+                      {activeRule.payout_cap !== null && activeRule.payout_cap !== undefined && ` · Cap ${formatCurrency(activeRule.payout_cap)}`}
+                    </span>
+                  </div>
                 </div>
               </div>
             </div>
@@ -478,6 +579,11 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
         </div>
       )}
 
+      {/* Pooled Campaigns */}
+      {poolCalculations.length > 0 && (
+        <PoolIncentives pools={poolCalculations} isMonthClosed={isMonthClosed} />
+      )}
+
       {/* User Accounts Overview */}
       <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
         <div className="p-6 border-b border-gray-100">
@@ -521,6 +627,11 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
                   <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Incentive Amount
                   </th>
+                  {isMonthClosed && (
+                    <th className="px-6 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      Payout Status
+                    </th>
+                  )}
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-100">
@@ -534,14 +645,14 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
                         <div>
                           <div className="font-medium text-gray-900">{userOverview.user_name}</div>
                           <div className="text-xs text-gray-500">
-                            {userOverview.qualifying_accounts} of {userOverview.total_accounts} accounts
+                            {userOverview.qualifying_accounts_count} of {userOverview.managed_accounts_count} accounts
                           </div>
                         </div>
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
                       <span className="inline-flex items-center px-3 py-1 rounded-full text-sm font-semibold bg-gray-100 text-gray-800">
-                        {userOverview.qualifying_accounts}
+                        {userOverview.qualifying_accounts_count}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium text-gray-900">
@@ -552,12 +663,12 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
                       <div className="text-sm font-medium text-gray-900">
-                        {userOverview.avg_commission_rate.toFixed(4)}%
+                        {userOverview.commission_rate.toFixed(4)}%
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-center">
                       {(() => {
-                        const questInfo = getUserQuestCategory(userOverview.avg_commission_rate);
+                        const questInfo = getUserQuestCategory(userOverview);
                         return questInfo ? (
                           <div className="space-y-1">
                             <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold ${questInfo.color}`}>
@@ -574,17 +685,50 @@ const IncentiveOverview: React.FC<IncentiveOverviewProps> = ({ currentUser }) =>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right">
                       {(() => {
-                        if (!activeRule || userOverview.total_revenue < activeRule.base_revenue_threshold) {
+                        if (!userOverview.current_tier) {
                           return <span className="text-sm text-gray-400">-</span>;
                         }
-                        const incentive = calculateTieredIncentive(userOverview.total_revenue, activeRule);
                         return (
                           <div className="text-sm font-semibold text-green-600">
-                            {formatCurrency(incentive)}
+                            {formatCurrency(userOverview.incentive_amount)}
+                            {userOverview.is_capped && (
+                              <div className="text-xs font-medium text-orange-600">Capped</div>
+                            )}
                           </div>
                         );
                       })()}
                     </td>
+                    {isMonthClosed && (
+                      <td className="px-6 py-4 whitespace-nowrap text-center">
+                        {(() => {
+                          const payout = payoutsByUser.get(userOverview.user_id);
+                          if (!payout) return <span className="text-sm text-gray-400">-</span>;
+                          const nextStatus = getNextPayoutStatus(payout.status);
+                          const statusColors = {
+                            draft: 'bg-gray-100 text-gray-800',
+                            approved: 'bg-blue-100 text-blue-800',
+                            paid: 'bg-green-100 text-green-800',
+                          };
+                          return (
+                            <div className="flex items-center justify-center space-x-2">
+                              <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold capitalize ${statusColors[payout.status]}`}>
+                                {payout.status}
+                              </span>
+                              {can(currentUser, 'payouts.manage') && nextStatus && (
+                                <button
+                                  onClick={() => handleAdvancePayout(payout)}
+                                  className="inline-flex items-center space-x-1 px-2 py-1 text-xs font-medium text-purple-600 hover:bg-purple-50 rounded-lg transition-colors"
+                                  title={`Mark as ${nextStatus}`}
+                                >
+                                  <CheckCircle className="w-3 h-3" />
+                                  <span className="capitalize">{nextStatus === 'approved' ? 'Approve' : 'Mark Paid'}</span>
+                                </button>
+                              )}
+                            </div>
+                          );
+                        })()}
+                      </td>
+                    )}
                   </tr>
                 ))}
               </tbody>
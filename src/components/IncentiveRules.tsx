@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   Plus, 
   Edit2, 
@@ -11,27 +11,79 @@ import {
   Save,
   AlertCircle,
   TrendingUp,
-  Calculator
+  Calculator,
+  History,
+  Calendar,
+  FlaskConical,
+  Users,
+  AlertTriangle
 } from 'lucide-react';
-import { IncentiveRule, IncentiveTier } from '../types';
-import { useSupabase } from '../hooks/useSupabase';
+import {
+  Account,
+  Category,
+  User,
+  UserGroup,
+  IncentiveRule,
+  IncentiveRuleDraft,
+  IncentiveTier,
+  IncentiveCalculationMode,
+  IncentiveRuleScope,
+  PoolDistribution
+} from '../types';
+import {
+  useAddIncentiveRule,
+  useCreateIncentiveRuleVersion,
+  useEndIncentiveRule
+} from '../hooks/queries';
+import { diffRuleVersions, getLatestVersions, getRuleVersions, isRuleCurrent, RuleFieldChange, shiftDate } from '../lib/ruleVersions';
+import { todayIsoDate } from '../lib/salesAggregates';
+import { getCompetingRules, toRateBands, validateRuleDraft } from '../lib/ruleValidation';
+import { formatRateBand, isUserScoped } from '../lib/incentives';
+import IncentiveSimulator from './IncentiveSimulator';
+import RateBandChart from './RateBandChart';
 
 interface IncentiveRulesProps {
   incentiveRules: IncentiveRule[];
-  onUpdateRules: (rules: IncentiveRule[]) => void;
+  accounts: Account[];
+  users: User[];
+  categories: Category[];
+  userGroups: UserGroup[];
 }
 
-const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdateRules }) => {
-  const [rules, setRules] = useState<IncentiveRule[]>(incentiveRules);
+const IncentiveRules: React.FC<IncentiveRulesProps> = ({
+  incentiveRules,
+  accounts,
+  users,
+  categories,
+  userGroups,
+}) => {
+  const rules = incentiveRules;
   const [showModal, setShowModal] = useState(false);
   const [editingRule, setEditingRule] = useState<IncentiveRule | null>(null);
+  const [historyRuleKey, setHistoryRuleKey] = useState<string | null>(null);
+  const [effectiveFrom, setEffectiveFrom] = useState('');
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [endingRule, setEndingRule] = useState<IncentiveRule | null>(null);
+  const [endDate, setEndDate] = useState('');
+  const today = todayIsoDate();
   
-  const {
-    loading,
-    addIncentiveRule,
-    updateIncentiveRule,
-    deleteIncentiveRule,
-  } = useSupabase();
+  // Each of these refreshes the shared incentive rules query on success
+  const addIncentiveRule = useAddIncentiveRule();
+  const createIncentiveRuleVersion = useCreateIncentiveRuleVersion();
+  const endIncentiveRule = useEndIncentiveRule();
+  const isSaving = addIncentiveRule.isPending || createIncentiveRuleVersion.isPending;
+  const saveError = editingRule ? createIncentiveRuleVersion.error : addIncentiveRule.error;
+
+  // Only the newest version of each rule is editable; older ones show in the history
+  const latestRules = useMemo(() => getLatestVersions(rules), [rules]);
+
+  const getMonthStart = (monthOffset: number) => {
+    const now = new Date();
+    const date = new Date(now.getFullYear(), now.getMonth() + monthOffset, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-01`;
+  };
+
+  const getMonthEnd = (monthOffset: number) => shiftDate(getMonthStart(monthOffset + 1), -1);
 
   const [formData, setFormData] = useState({
     name: '',
@@ -40,6 +92,12 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     commission_rate_min: 5,
     commission_rate_max: 7.99,
     base_revenue_threshold: 80000000,
+    calculation_mode: 'flat' as IncentiveCalculationMode,
+    payout_cap: null as number | null,
+    scope: 'user' as IncentiveRuleScope,
+    scope_category_id: null as string | null,
+    scope_group_id: null as string | null,
+    distribution: 'revenue' as PoolDistribution,
     is_active: true,
   });
   const [tiers, setTiers] = useState<Omit<IncentiveTier, 'id' | 'created_at'>[]>([
@@ -51,10 +109,27 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     { revenue_threshold: 130000000, incentive_rate: 1.5 },
   ]);
 
-  // Update local state when props change
-  useEffect(() => {
-    setRules(incentiveRules);
-  }, [incentiveRules]);
+  // Unsaved form state as a rule draft, shared by save and the simulator
+  const draft: IncentiveRuleDraft = useMemo(() => ({
+    ...formData,
+    tiers: tiers.map(tier => ({
+      revenue_threshold: tier.revenue_threshold,
+      incentive_rate: tier.incentive_rate,
+    })),
+  }), [formData, tiers]);
+
+  // Save-time validation against the other rules that will be in force alongside the draft
+  const competingRules = useMemo(() => {
+    return getCompetingRules(rules, draft, effectiveFrom, editingRule?.rule_key || null);
+  }, [rules, draft, effectiveFrom, editingRule]);
+
+  const ruleIssues = useMemo(() => validateRuleDraft(draft, competingRules), [draft, competingRules]);
+  const hasBlockingIssues = ruleIssues.some(issue => issue.severity === 'error');
+
+  // Bands of the per-user rules that are active today
+  const currentBands = useMemo(() => {
+    return toRateBands(latestRules.filter(rule => isRuleCurrent(rule, today) && isUserScoped(rule)));
+  }, [latestRules, today]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -71,37 +146,40 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     return num.toLocaleString();
   };
 
+  const formatValue = (change: RuleFieldChange, value: string | number | null) => {
+    if (value === null || value === '') return '—';
+    switch (change.kind) {
+      case 'currency':
+        return formatCurrency(Number(value));
+      case 'percent':
+        return `${value}%`;
+      default:
+        return String(value);
+    }
+  };
+
+  const getScopeLabel = (rule: IncentiveRule) => {
+    if (rule.scope === 'category') {
+      return `Category pool: ${categories.find(cat => cat.id === rule.scope_category_id)?.name || 'Unknown'}`;
+    }
+    return `Team pool: ${userGroups.find(group => group.id === rule.scope_group_id)?.name || 'Unknown'}`;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (hasBlockingIssues) return;
     
-    const ruleData = {
-      ...formData,
-      tiers: tiers.map((tier, index) => ({
-        revenue_threshold: tier.revenue_threshold,
-        incentive_rate: tier.incentive_rate,
-      })),
-    };
-
-    if (editingRule) {
-      const updatedRule = await updateIncentiveRule(editingRule.id, ruleData);
-      if (updatedRule) {
-        const newRules = rules.map(rule => rule.id === editingRule.id ? updatedRule : rule);
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
-    } else {
-      const newRule = await addIncentiveRule(ruleData);
-      if (newRule) {
-        const newRules = [...rules, newRule];
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
-    }
+    const ruleData = draft;
+
+    const saved = editingRule
+      ? await createIncentiveRuleVersion.mutate(editingRule, ruleData, effectiveFrom)
+      : await addIncentiveRule.mutate(ruleData, effectiveFrom);
+    if (!saved) return;
 
     closeModal();
   };
 
-  const handleEdit = (rule: IncentiveRule) => {
+  const handleEdit = (rule: IncentiveRule, overrides: Partial<typeof formData> = {}) => {
     setEditingRule(rule);
     setFormData({
       name: rule.name,
@@ -110,8 +188,18 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: rule.commission_rate_min,
       commission_rate_max: rule.commission_rate_max,
       base_revenue_threshold: rule.base_revenue_threshold,
+      calculation_mode: rule.calculation_mode || 'flat',
+      payout_cap: rule.payout_cap ?? null,
+      scope: rule.scope || 'user',
+      scope_category_id: rule.scope_category_id ?? null,
+      scope_group_id: rule.scope_group_id ?? null,
+      distribution: rule.distribution || 'revenue',
       is_active: rule.is_active,
+      ...overrides,
     });
+    // New versions default to the next month so the running month keeps its rule
+    const nextMonth = getMonthStart(1);
+    setEffectiveFrom(nextMonth > rule.effective_from ? nextMonth : '');
     setTiers(rule.tiers.map(tier => ({
       revenue_threshold: tier.revenue_threshold,
       incentive_rate: tier.incentive_rate,
@@ -128,8 +216,15 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: 5,
       commission_rate_max: 7.99,
       base_revenue_threshold: 80000000,
+      calculation_mode: 'flat',
+      payout_cap: null,
+      scope: 'user',
+      scope_category_id: null,
+      scope_group_id: null,
+      distribution: 'revenue',
       is_active: true,
     });
+    setEffectiveFrom(getMonthStart(0));
     setTiers([
       { revenue_threshold: 80000000, incentive_rate: 0.4 },
       { revenue_threshold: 90000000, incentive_rate: 0.6 },
@@ -141,27 +236,22 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
     setShowModal(true);
   };
 
-  const handleDelete = async (id: string) => {
-    if (confirm('Are you sure you want to delete this incentive rule?')) {
-      const success = await deleteIncentiveRule(id);
-      if (success) {
-        const newRules = rules.filter(rule => rule.id !== id);
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
+  // Versions already in force are never changed: a running rule is ended after
+  // a day, and a stopped one comes back as a new version
+  const toggleRuleStatus = (rule: IncentiveRule) => {
+    if (isRuleCurrent(rule, today)) {
+      setEndingRule(rule);
+      setEndDate(getMonthEnd(0));
+    } else {
+      handleEdit(rule, { is_active: true });
     }
   };
 
-  const toggleRuleStatus = async (id: string) => {
-    const rule = rules.find(r => r.id === id);
-    if (rule) {
-      const updatedRule = await updateIncentiveRule(id, { is_active: !rule.is_active });
-      if (updatedRule) {
-        const newRules = rules.map(r => r.id === id ? updatedRule : r);
-        setRules(newRules);
-        onUpdateRules(newRules);
-      }
-    }
+  const handleEnd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!endingRule) return;
+    const ended = await endIncentiveRule.mutate(endingRule.rule_key, endDate);
+    if (ended) setEndingRule(null);
   };
 
   const closeModal = () => {
@@ -174,9 +264,17 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
       commission_rate_min: 5,
       commission_rate_max: 7.99,
       base_revenue_threshold: 80000000,
+      calculation_mode: 'flat',
+      payout_cap: null,
+      scope: 'user',
+      scope_category_id: null,
+      scope_group_id: null,
+      distribution: 'revenue',
       is_active: true,
     });
     setTiers([]);
+    setEffectiveFrom('');
+    setShowSimulator(false);
   };
 
   const addTier = () => {
@@ -221,15 +319,26 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                 <p>• Only accounts with commission above the minimum threshold will be counted</p>
                 <p>• Calculation is based on total revenue from qualifying accounts</p>
                 <p>• Different commission rate ranges have different revenue thresholds</p>
-                <p>• Incentive rates are applied progressively based on revenue tiers</p>
+                <p>• Flat rules pay the reached tier's rate on the whole revenue</p>
+                <p>• Marginal rules pay each tier's rate only on the revenue between that tier and the next</p>
+                <p>• An optional payout cap limits the incentive per user per month</p>
               </div>
             </div>
           </div>
         </div>
 
+        {/* Rate Band Coverage */}
+        {currentBands.length > 0 && (
+          <div className="bg-white rounded-xl border border-gray-100 p-6">
+            <h3 className="text-lg font-semibold text-gray-900 mb-1">Commission Rate Coverage</h3>
+            <p className="text-sm text-gray-600 mb-4">Which active rule a user's average commission rate falls into</p>
+            <RateBandChart bands={currentBands} />
+          </div>
+        )}
+
         {/* Rules List */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
-          {rules.map((rule) => (
+          {latestRules.map((rule) => (
             <div key={rule.id} className="bg-white rounded-xl border border-gray-100 overflow-hidden">
               <div className="p-6">
                 <div className="flex items-start justify-between mb-4">
@@ -237,13 +346,26 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                     <div className="flex items-center space-x-3 mb-2">
                       <h3 className="text-lg font-semibold text-gray-900">{rule.name}</h3>
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        rule.is_active 
+                        isRuleCurrent(rule, today)
                           ? 'bg-green-100 text-green-800' 
                           : 'bg-gray-100 text-gray-800'
                       }`}>
-                        {rule.is_active ? 'Active' : 'Inactive'}
+                        {isRuleCurrent(rule, today) ? 'Active' : rule.is_active ? 'Ended' : 'Inactive'}
+                      </span>
+                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                        v{rule.version}
                       </span>
+                      {rule.scope && rule.scope !== 'user' && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-indigo-100 text-indigo-800">
+                          <Users className="w-3 h-3 mr-1" />
+                          {getScopeLabel(rule)}
+                        </span>
+                      )}
                     </div>
+                    <p className="text-xs text-gray-500 mb-2 flex items-center space-x-1">
+                      <Calendar className="w-3 h-3" />
+                      <span>Effective from {rule.effective_from}{rule.effective_to ? ` to ${rule.effective_to}` : ''}</span>
+                    </p>
                     <p className="text-sm text-gray-600 mb-4">{rule.description}</p>
                     
                     <div className="grid grid-cols-2 gap-4 mb-4">
@@ -263,7 +385,7 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                           <span className="text-xs font-medium text-gray-500">Commission Rate</span>
                         </div>
                         <div className="text-sm font-semibold text-gray-900">
-                          {rule.commission_rate_min}% - {rule.commission_rate_max === 100 ? '∞' : `${rule.commission_rate_max}%`}
+                          {formatRateBand(rule)}
                         </div>
                       </div>
                     </div>
@@ -277,17 +399,39 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                         {formatCurrency(rule.base_revenue_threshold)}
                       </div>
                     </div>
+
+                    <div className="grid grid-cols-2 gap-4 mb-4">
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <Calculator className="w-4 h-4 text-gray-400" />
+                          <span className="text-xs font-medium text-gray-500">Calculation Mode</span>
+                        </div>
+                        <div className="text-sm font-semibold text-gray-900">
+                          {rule.calculation_mode === 'marginal' ? 'Marginal' : 'Flat'}
+                        </div>
+                      </div>
+
+                      <div className="bg-gray-50 rounded-lg p-3">
+                        <div className="flex items-center space-x-2 mb-1">
+                          <DollarSign className="w-4 h-4 text-gray-400" />
+                          <span className="text-xs font-medium text-gray-500">Payout Cap</span>
+                        </div>
+                        <div className="text-sm font-semibold text-gray-900">
+                          {rule.payout_cap !== null && rule.payout_cap !== undefined ? formatCurrency(rule.payout_cap) : 'No cap'}
+                        </div>
+                      </div>
+                    </div>
                   </div>
                   
                   <div className="flex space-x-2 ml-4">
                     <button
-                      onClick={() => toggleRuleStatus(rule.id)}
+                      onClick={() => toggleRuleStatus(rule)}
                       className={`p-2 rounded-lg transition-colors ${
-                        rule.is_active 
+                        isRuleCurrent(rule, today)
                           ? 'text-green-600 hover:bg-green-50' 
                           : 'text-gray-400 hover:bg-gray-50'
                       }`}
-                      title={rule.is_active ? 'Deactivate' : 'Activate'}
+                      title={isRuleCurrent(rule, today) ? 'End rule' : 'Activate as a new version'}
                     >
                       <Settings className="w-4 h-4" />
                     </button>
@@ -298,10 +442,15 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                       <Edit2 className="w-4 h-4" />
                     </button>
                     <button
-                      onClick={() => handleDelete(rule.id)}
-                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      onClick={() => setHistoryRuleKey(historyRuleKey === rule.rule_key ? null : rule.rule_key)}
+                      className={`p-2 rounded-lg transition-colors ${
+                        historyRuleKey === rule.rule_key
+                          ? 'text-purple-600 bg-purple-50'
+                          : 'text-gray-600 hover:bg-gray-50'
+                      }`}
+                      title="Version history"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <History className="w-4 h-4" />
                     </button>
                   </div>
                 </div>
@@ -332,12 +481,59 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                     ))}
                   </div>
                 </div>
+
+                {/* Version Timeline */}
+                {historyRuleKey === rule.rule_key && (
+                  <div className="mt-6 pt-4 border-t border-gray-100">
+                    <h4 className="text-sm font-medium text-gray-700 mb-3 flex items-center space-x-2">
+                      <History className="w-4 h-4" />
+                      <span>Version History</span>
+                    </h4>
+                    <ol className="relative border-l-2 border-purple-100 ml-2 space-y-4">
+                      {getRuleVersions(rules, rule.rule_key).reverse().map((version, index, versions) => {
+                        const previous = versions[index + 1];
+                        const changes = previous ? diffRuleVersions(previous, version) : [];
+                        return (
+                          <li key={version.id} className="ml-4">
+                            <div className="absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full bg-purple-400 border-2 border-white"></div>
+                            <div className="flex items-center justify-between">
+                              <span className="text-sm font-semibold text-gray-900">Version {version.version}</span>
+                              <span className="text-xs text-gray-500">
+                                {version.effective_from} → {version.effective_to || 'now'}
+                              </span>
+                            </div>
+                            {previous ? (
+                              changes.length > 0 ? (
+                                <ul className="mt-2 space-y-1">
+                                  {changes.map(change => (
+                                    <li key={change.label} className="text-xs text-gray-600 flex items-center justify-between bg-gray-50 rounded px-2 py-1">
+                                      <span className="font-medium text-gray-700">{change.label}</span>
+                                      <span>
+                                        <span className="text-red-600 line-through">{formatValue(change, change.before)}</span>
+                                        {' → '}
+                                        <span className="text-green-700 font-semibold">{formatValue(change, change.after)}</span>
+                                      </span>
+                                    </li>
+                                  ))}
+                                </ul>
+                              ) : (
+                                <p className="mt-1 text-xs text-gray-500">No changes to the terms</p>
+                              )
+                            ) : (
+                              <p className="mt-1 text-xs text-gray-500">Initial version</p>
+                            )}
+                          </li>
+                        );
+                      })}
+                    </ol>
+                  </div>
+                )}
               </div>
             </div>
           ))}
         </div>
 
-        {rules.length === 0 && (
+        {latestRules.length === 0 && (
           <div className="text-center py-12">
             <Calculator className="w-16 h-16 text-gray-300 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No incentive rules yet</h3>
@@ -352,6 +548,57 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
         )}
       </div>
 
+      {/* End Rule Modal */}
+      {endingRule && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <form onSubmit={handleEnd} className="p-6 space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-xl font-bold text-gray-900">End {endingRule.name}</h2>
+                <button
+                  type="button"
+                  onClick={() => setEndingRule(null)}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+              <p className="text-sm text-gray-600">
+                The rule stays in force up to and including this day. Months it already applied to keep it.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Last day in force</label>
+                <input
+                  type="date"
+                  value={endDate}
+                  min={today > endingRule.effective_from ? today : endingRule.effective_from}
+                  onChange={(e) => setEndDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                  required
+                />
+              </div>
+              {endIncentiveRule.error && <p className="text-sm text-red-600">{endIncentiveRule.error}</p>}
+              <div className="flex space-x-3">
+                <button
+                  type="button"
+                  onClick={() => setEndingRule(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={!endDate || endDate < today || endIncentiveRule.isPending}
+                  className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {endIncentiveRule.isPending ? 'Ending...' : 'End Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
       {/* Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
@@ -458,6 +705,104 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                       required
                     />
                   </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Calculation Mode *
+                    </label>
+                    <select
+                      value={formData.calculation_mode}
+                      onChange={(e) => setFormData({ ...formData, calculation_mode: e.target.value as IncentiveCalculationMode })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      <option value="flat">Flat - reached tier's rate on the whole revenue</option>
+                      <option value="marginal">Marginal - each tier's rate on the revenue within that tier</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Payout Cap (IDR)
+                    </label>
+                    <input
+                      type="number"
+                      value={formData.payout_cap ?? ''}
+                      onChange={(e) => setFormData({ ...formData, payout_cap: e.target.value === '' ? null : Number(e.target.value) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      placeholder="No cap"
+                      min="0"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">
+                      Scope *
+                    </label>
+                    <select
+                      value={formData.scope}
+                      onChange={(e) => setFormData({ ...formData, scope: e.target.value as IncentiveRuleScope })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      <option value="user">Per user - each user earns on their own revenue</option>
+                      <option value="category">Category pool - all accounts of a category</option>
+                      <option value="group">Team pool - all accounts of a team's members</option>
+                    </select>
+                  </div>
+
+                  {formData.scope === 'category' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Category *
+                      </label>
+                      <select
+                        value={formData.scope_category_id || ''}
+                        onChange={(e) => setFormData({ ...formData, scope_category_id: e.target.value || null })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        required
+                      >
+                        <option value="">Select category</option>
+                        {categories.map(category => (
+                          <option key={category.id} value={category.id}>{category.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {formData.scope === 'group' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Team *
+                      </label>
+                      <select
+                        value={formData.scope_group_id || ''}
+                        onChange={(e) => setFormData({ ...formData, scope_group_id: e.target.value || null })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                        required
+                      >
+                        <option value="">Select team</option>
+                        {userGroups.map(group => (
+                          <option key={group.id} value={group.id}>{group.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+
+                  {formData.scope !== 'user' && (
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Pot Distribution *
+                      </label>
+                      <select
+                        value={formData.distribution}
+                        onChange={(e) => setFormData({ ...formData, distribution: e.target.value as PoolDistribution })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                      >
+                        <option value="equal">Equal split between participants</option>
+                        <option value="revenue">Pro-rata by contributed revenue</option>
+                        <option value="commission">Pro-rata by contributed commission</option>
+                      </select>
+                    </div>
+                  )}
                 </div>
 
                 {/* Incentive Tiers */}
@@ -525,6 +870,51 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                   </div>
                 </div>
 
+                {/* What-if Simulator - pooled rules are not part of the per-user simulation */}
+                {formData.scope === 'user' && (
+                  <div>
+                    <button
+                      type="button"
+                      onClick={() => setShowSimulator(!showSimulator)}
+                      className="flex items-center space-x-2 text-sm font-medium text-purple-600 hover:text-purple-700"
+                    >
+                      <FlaskConical className="w-4 h-4" />
+                      <span>{showSimulator ? 'Hide simulation' : 'Simulate against a past month'}</span>
+                    </button>
+                    {showSimulator && (
+                      <div className="mt-3">
+                        <IncentiveSimulator
+                          draft={draft}
+                          replacesRuleKey={editingRule?.rule_key || null}
+                          accounts={accounts}
+                          users={users}
+                          rules={rules}
+                        />
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Effective Date */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Effective From *
+                  </label>
+                  <input
+                    type="date"
+                    value={effectiveFrom}
+                    onChange={(e) => setEffectiveFrom(e.target.value)}
+                    className="w-full md:w-1/2 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    min={editingRule ? editingRule.effective_from : undefined}
+                    required
+                  />
+                  {editingRule && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Saving creates version {editingRule.version + 1}. Version {editingRule.version} stays in force until the day before this date.
+                    </p>
+                  )}
+                </div>
+
                 {/* Status */}
                 <div className="flex items-center space-x-3">
                   <input
@@ -538,7 +928,38 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                     Active Rule
                   </label>
                 </div>
+
+                {/* Rule Validation */}
+                {(ruleIssues.length > 0 || (formData.is_active && formData.scope === 'user')) && (
+                  <div className="space-y-3">
+                    {ruleIssues.map((issue, index) => (
+                      <div
+                        key={index}
+                        className={`flex items-start space-x-2 p-3 rounded-lg text-sm ${
+                          issue.severity === 'error' ? 'bg-red-50 text-red-800' : 'bg-yellow-50 text-yellow-800'
+                        }`}
+                      >
+                        {issue.severity === 'error' ? (
+                          <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        ) : (
+                          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                        )}
+                        <span>{issue.message}</span>
+                      </div>
+                    ))}
+                    {formData.is_active && formData.scope === 'user' && (
+                      <div className="border border-gray-200 rounded-lg p-4">
+                        <h4 className="text-sm font-medium text-gray-700 mb-3">Commission Rate Coverage</h4>
+                        <RateBandChart bands={toRateBands(competingRules, { key: 'draft', rule: draft })} />
+                      </div>
+                    )}
+                  </div>
+                )}
                 
+                {saveError && (
+                  <p className="text-sm text-red-600">{saveError}</p>
+                )}
+
                 <div className="flex space-x-3 pt-6 border-t border-gray-100">
                   <button
                     type="button"
@@ -549,10 +970,10 @@ const IncentiveRules: React.FC<IncentiveRulesProps> = ({ incentiveRules, onUpdat
                   </button>
                   <button
                     type="submit"
-                    disabled={loading}
-                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center justify-center space-x-2"
+                    disabled={isSaving || hasBlockingIssues}
+                    className="flex-1 px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center justify-center space-x-2 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
-                    {loading ? (
+                    {isSaving ? (
                       <>
                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
                         <span>Saving...</span>
@@ -0,0 +1,170 @@
+import React, { useState, useMemo } from 'react';
+import { Calendar, ArrowUp, ArrowDown, Minus, FlaskConical } from 'lucide-react';
+import { Account, User, IncentiveRule, IncentiveRuleDraft } from '../types';
+import { getPeriodBounds, getTierRank, parsePeriodKey, simulateRule } from '../lib/incentives';
+import { can } from '../lib/permissions';
+import { useAccountAssignments, useAssignmentSalesTotals } from '../hooks/queries';
+import TruncationNotice from './TruncationNotice';
+
+interface IncentiveSimulatorProps {
+  draft: IncentiveRuleDraft;
+  replacesRuleKey: string | null;
+  accounts: Account[];
+  users: User[];
+  rules: IncentiveRule[];
+}
+
+const IncentiveSimulator: React.FC<IncentiveSimulatorProps> = ({
+  draft,
+  replacesRuleKey,
+  accounts,
+  users,
+  rules,
+}) => {
+  // Default to last month, the most recent month with complete data
+  const [selectedMonth, setSelectedMonth] = useState(() => {
+    const now = new Date();
+    const lastMonth = new Date(now.getFullYear(), now.getMonth() - 1, 1);
+    return `${lastMonth.getFullYear()}-${String(lastMonth.getMonth() + 1).padStart(2, '0')}`;
+  });
+
+  // Sales totals split by owner, and the assignments, for the simulated month only
+  const range = getPeriodBounds(parsePeriodKey(selectedMonth));
+  const accountTotalsQuery = useAssignmentSalesTotals({ range });
+  const assignmentsQuery = useAccountAssignments({ range });
+  const accountTotals = useMemo(() => accountTotalsQuery.data?.rows || [], [accountTotalsQuery.data]);
+  const assignments = useMemo(() => assignmentsQuery.data?.rows || [], [assignmentsQuery.data]);
+  const isTruncated = accountTotalsQuery.data?.truncated || assignmentsQuery.data?.truncated || false;
+
+  const simulation = useMemo(() => {
+    return simulateRule(
+      {
+        accounts,
+        accountTotals,
+        assignments,
+        users: users.filter(u => can(u, 'incentives.earn')),
+        rules,
+        period: parsePeriodKey(selectedMonth),
+      },
+      draft,
+      replacesRuleKey
+    );
+  }, [accounts, accountTotals, assignments, users, rules, selectedMonth, draft, replacesRuleKey]);
+
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const formatDelta = (amount: number) => {
+    if (amount === 0) return formatCurrency(0);
+    return `${amount > 0 ? '+' : '-'}${formatCurrency(Math.abs(amount))}`;
+  };
+
+  const tierLabel = (rank: number) => (rank > 0 ? `Tier ${rank}` : 'No tier');
+
+  const gainers = simulation.rows.filter(row => row.tier_change === 'gain').length;
+  const losers = simulation.rows.filter(row => row.tier_change === 'loss').length;
+
+  return (
+    <div className="border border-purple-200 rounded-xl overflow-hidden">
+      <div className="bg-purple-50 px-4 py-3 flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <FlaskConical className="w-5 h-5 text-purple-600" />
+          <div>
+            <h4 className="text-sm font-semibold text-purple-900">What-if Simulation</h4>
+            <p className="text-xs text-purple-700">Draft rule against the rules in force for the chosen month. Nothing is saved.</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Calendar className="w-4 h-4 text-purple-400" />
+          <input
+            type="month"
+            value={selectedMonth}
+            onChange={(e) => setSelectedMonth(e.target.value)}
+            className="px-2 py-1 border border-purple-200 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {isTruncated && (
+        <div className="px-4 pt-4">
+          <TruncationNotice shown={accountTotals.length} what="account totals" hint="The simulated costs may be understated." />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 p-4">
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-xs text-gray-500">Current Cost</div>
+          <div className="text-sm font-semibold text-gray-900">{formatCurrency(simulation.current_total)}</div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-xs text-gray-500">Simulated Cost</div>
+          <div className="text-sm font-semibold text-gray-900">{formatCurrency(simulation.simulated_total)}</div>
+        </div>
+        <div className={`rounded-lg p-3 ${simulation.delta_total > 0 ? 'bg-red-50' : simulation.delta_total < 0 ? 'bg-green-50' : 'bg-gray-50'}`}>
+          <div className="text-xs text-gray-500">Cost Difference</div>
+          <div className={`text-sm font-semibold ${simulation.delta_total > 0 ? 'text-red-700' : simulation.delta_total < 0 ? 'text-green-700' : 'text-gray-900'}`}>
+            {formatDelta(simulation.delta_total)}
+          </div>
+        </div>
+        <div className="bg-gray-50 rounded-lg p-3">
+          <div className="text-xs text-gray-500">Tier Changes</div>
+          <div className="text-sm font-semibold text-gray-900">
+            <span className="text-green-700">{gainers} up</span>
+            {' · '}
+            <span className="text-red-700">{losers} down</span>
+          </div>
+        </div>
+      </div>
+
+      {simulation.rows.length > 0 ? (
+        <div className="overflow-x-auto max-h-72">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Revenue</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Current</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Simulated</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Delta</th>
+                <th className="px-4 py-2 text-center text-xs font-medium text-gray-500 uppercase tracking-wider">Tier</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {simulation.rows.map(row => (
+                <tr key={row.user_id}>
+                  <td className="px-4 py-2 text-gray-900">{row.user_name}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">{formatCurrency(row.simulated.total_revenue)}</td>
+                  <td className="px-4 py-2 text-right">
+                    <div className="text-gray-900">{formatCurrency(row.current.incentive_amount)}</div>
+                    <div className="text-xs text-gray-500">{tierLabel(getTierRank(row.current))}</div>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <div className="text-gray-900">{formatCurrency(row.simulated.incentive_amount)}</div>
+                    <div className="text-xs text-gray-500">{tierLabel(getTierRank(row.simulated))}</div>
+                  </td>
+                  <td className={`px-4 py-2 text-right font-medium ${row.delta > 0 ? 'text-green-700' : row.delta < 0 ? 'text-red-700' : 'text-gray-500'}`}>
+                    {formatDelta(row.delta)}
+                  </td>
+                  <td className="px-4 py-2 text-center">
+                    {row.tier_change === 'gain' && <ArrowUp className="w-4 h-4 text-green-600 inline" />}
+                    {row.tier_change === 'loss' && <ArrowDown className="w-4 h-4 text-red-600 inline" />}
+                    {row.tier_change === 'same' && <Minus className="w-4 h-4 text-gray-400 inline" />}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="px-4 pb-4 text-sm text-gray-500">No users to simulate for this month.</p>
+      )}
+    </div>
+  );
+};
+
+export default IncentiveSimulator;
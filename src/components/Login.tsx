@@ -1,12 +1,17 @@
 import React, { useState } from 'react';
-import { Eye, EyeOff, LogIn, Shield, User, AlertCircle } from 'lucide-react';
+import { Eye, EyeOff, LogIn, Shield, User, AlertCircle, Clock, Mail, CheckCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { loadSessionUser } from '../lib/auth';
+import { requestPasswordReset } from '../lib/api';
+import { User as UserType } from '../types';
+import { DEV_USERS, DevUser, isDevAuthEnabled } from '../lib/devAuth';
 
 interface LoginProps {
-  onLogin: (user: { id: string; name: string; email: string; role: 'user' | 'superadmin'; managed_accounts: string[]; access_token?: string; refresh_token?: string }) => void;
+  onLogin: (user: UserType) => void;
+  notice?: string; // why the user was logged out, if it wasn't their choice
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
+const Login: React.FC<LoginProps> = ({ onLogin, notice }) => {
   const [formData, setFormData] = useState({
     email: '',
     password: '',
@@ -14,145 +19,64 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
   const [showPassword, setShowPassword] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
+  const [isResetMode, setIsResetMode] = useState(false);
+  const [resetSentTo, setResetSentTo] = useState('');
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
+  const signIn = async (email: string, password: string) => {
     setIsLoading(true);
     setError('');
 
     try {
-      // Try to sign in with Supabase
       const { data: authData, error: authError } = await supabase.auth.signInWithPassword({
-        email: formData.email,
-        password: formData.password,
+        email,
+        password,
       });
 
       if (authError) {
-        // If Supabase auth fails, fall back to demo users for development
-        const demoUsers = [
-          {
-            email: 'admin@kimostudio.com',
-            password: 'admin123',
-            userData: { id: '1', name: 'Super Admin', role: 'superadmin' as const, managed_accounts: [] }
-          },
-          {
-            email: 'john@kimostudio.com', 
-            password: 'user123',
-            userData: { id: '2', name: 'John Doe', role: 'user' as const, managed_accounts: ['1'] }
-          },
-          {
-            email: 'jane@kimostudio.com',
-            password: 'user123', 
-            userData: { id: '3', name: 'Jane Smith', role: 'user' as const, managed_accounts: [] }
-          }
-        ];
+        setError('Email atau password tidak valid');
+      } else if (authData.session) {
+        onLogin(await loadSessionUser(authData.session));
+      }
+    } catch (err) {
+      console.error('Login error:', err);
+      setError('Terjadi kesalahan saat login. Silakan coba lagi.');
+    }
 
-        const demoUser = demoUsers.find(u => u.email === formData.email && u.password === formData.password);
-        
-        if (demoUser) {
-          // Create a demo session for development
-          await supabase.auth.setSession({
-            access_token: `demo_token_${demoUser.userData.id}`,
-            refresh_token: `demo_refresh_${demoUser.userData.id}`,
-          });
-          
-          onLogin({
-            ...demoUser.userData,
-            email: formData.email,
-            access_token: `demo_token_${demoUser.userData.id}`,
-            refresh_token: `demo_refresh_${demoUser.userData.id}`,
-          });
-        } else {
-          setError('Email atau password tidak valid');
-        }
-      } else if (authData.user) {
-        // Real Supabase authentication successful
-        try {
-          // Try to fetch user data from the users table
-          let userData = null;
-          try {
-            const { data, error: userError } = await supabase
-              .from('users')
-              .select('*')
-              .eq('email', authData.user.email)
-              .limit(1);
-            
-            if (userError) {
-              throw userError;
-            }
-            userData = data && data.length > 0 ? data[0] : null;
-          } catch (queryError: any) {
-            // If it's just a "no rows found" error, that's expected for new users
-            if (queryError.code !== 'PGRST116') {
-              throw queryError;
-            }
-          }
+    setIsLoading(false);
+  };
 
-          // If user doesn't exist in users table, create a default user entry
-          if (!userData) {
-            const newUser = {
-              id: authData.user.id,
-              name: authData.user.email?.split('@')[0] || 'User',
-              email: authData.user.email || '',
-              role: 'user' as const,
-              managed_accounts: [],
-            };
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    signIn(formData.email, formData.password);
+  };
 
-            const { data: insertedUser, error: insertError } = await supabase
-              .from('users')
-              .insert([newUser])
-              .select()
-              .maybeSingle();
+  // The reply is the same whether or not the email is registered, so the
+  // form can't be used to find out who has an account
+  const handleResetSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    setError('');
 
-            if (insertError) {
-              console.error('Could not create user record:', insertError);
-              // Fall back to basic user info from auth
-              onLogin({
-                ...newUser,
-                access_token: authData.session?.access_token,
-                refresh_token: authData.session?.refresh_token,
-              });
-            } else {
-              onLogin({
-                ...(insertedUser || newUser),
-                access_token: authData.session?.access_token,
-                refresh_token: authData.session?.refresh_token,
-              });
-            }
-          } else {
-            onLogin({
-              ...userData,
-              access_token: authData.session?.access_token,
-              refresh_token: authData.session?.refresh_token,
-            });
-          }
-        } catch (userFetchError) {
-          console.error('Error in user data handling:', userFetchError);
-          // Fall back to basic user info from auth
-          onLogin({
-            id: authData.user.id,
-            name: authData.user.email?.split('@')[0] || 'User',
-            email: authData.user.email || '',
-            role: 'user' as const,
-            managed_accounts: [],
-            access_token: authData.session?.access_token,
-            refresh_token: authData.session?.refresh_token,
-          });
-        }
-      }
+    try {
+      await requestPasswordReset(formData.email);
+      setResetSentTo(formData.email);
     } catch (err) {
-      console.error('Login error:', err);
-      setError('Terjadi kesalahan saat login. Silakan coba lagi.');
+      console.error('Password reset error:', err);
+      setError('Gagal mengirim email reset password. Silakan coba lagi.');
     }
 
     setIsLoading(false);
   };
 
-  const handleDemoLogin = (userType: 'admin' | 'user') => {    
-    setFormData({
-      email: userType === 'admin' ? 'admin@kimostudio.com' : 'john@kimostudio.com',
-      password: userType === 'admin' ? 'admin123' : 'user123',
-    });
+  const switchMode = (resetMode: boolean) => {
+    setIsResetMode(resetMode);
+    setResetSentTo('');
+    setError('');
+  };
+
+  const handleDevLogin = (devUser: DevUser) => {
+    setFormData({ email: devUser.email, password: devUser.password });
+    signIn(devUser.email, devUser.password);
   };
 
   return (
@@ -174,77 +98,160 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
         {/* Login Form */}
         <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
           <div className="mb-6">
-            <h2 className="text-2xl font-bold text-gray-900 mb-2">Masuk ke Akun</h2>
-            <p className="text-gray-600">Silakan masuk untuk mengakses dashboard</p>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {isResetMode ? 'Lupa Password' : 'Masuk ke Akun'}
+            </h2>
+            <p className="text-gray-600">
+              {isResetMode
+                ? 'Masukkan email Anda untuk menerima tautan reset password'
+                : 'Silakan masuk untuk mengakses dashboard'}
+            </p>
           </div>
 
+          {notice && !error && !isResetMode && (
+            <div className="mb-6 p-4 bg-yellow-50 border border-yellow-200 rounded-lg flex items-start space-x-3">
+              <Clock className="w-5 h-5 text-yellow-600 mt-0.5" />
+              <p className="text-sm text-yellow-800">{notice}</p>
+            </div>
+          )}
+
           {error && (
             <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
               <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
               <div>
-                <h3 className="font-medium text-red-900">Login Gagal</h3>
+                <h3 className="font-medium text-red-900">{isResetMode ? 'Reset Gagal' : 'Login Gagal'}</h3>
                 <p className="text-sm text-red-700">{error}</p>
               </div>
             </div>
           )}
 
-          <form onSubmit={handleSubmit} className="space-y-6">
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Email Address
-              </label>
-              <input
-                type="email"
-                value={formData.email}
-                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
-                placeholder="Masukkan email Anda"
-                required
-              />
-            </div>
+          {isResetMode ? (
+            resetSentTo ? (
+              <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-start space-x-3">
+                <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+                <p className="text-sm text-green-800">
+                  Jika {resetSentTo} terdaftar, tautan untuk mengatur ulang password telah dikirim ke email tersebut.
+                </p>
+              </div>
+            ) : (
+              <form onSubmit={handleResetSubmit} className="space-y-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Email Address
+                  </label>
+                  <input
+                    type="email"
+                    value={formData.email}
+                    onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                    placeholder="Masukkan email Anda"
+                    required
+                  />
+                </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Password
-              </label>
-              <div className="relative">
-                <input
-                  type={showPassword ? "text" : "password"}
-                  value={formData.password}
-                  onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                  className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
-                  placeholder="Masukkan password Anda"
-                  required
-                />
                 <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                  type="submit"
+                  disabled={isLoading}
+                  className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
                 >
-                  {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  <Mail className="w-5 h-5" />
+                  <span>{isLoading ? 'Mengirim...' : 'Kirim Tautan Reset'}</span>
                 </button>
+              </form>
+            )
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Email Address
+                </label>
+                <input
+                  type="email"
+                  value={formData.email}
+                  onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                  placeholder="Masukkan email Anda"
+                  required
+                />
               </div>
-            </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Password
+                </label>
+                <div className="relative">
+                  <input
+                    type={showPassword ? "text" : "password"}
+                    value={formData.password}
+                    onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                    className="w-full px-4 py-3 pr-12 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                    placeholder="Masukkan password Anda"
+                    required
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute right-4 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600 transition-colors"
+                  >
+                    {showPassword ? <EyeOff className="w-5 h-5" /> : <Eye className="w-5 h-5" />}
+                  </button>
+                </div>
+              </div>
+
+              <button
+                type="submit"
+                disabled={isLoading}
+                className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              >
+                {isLoading ? (
+                  <>
+                    <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                    <span>Memproses...</span>
+                  </>
+                ) : (
+                  <>
+                    <LogIn className="w-5 h-5" />
+                    <span>Masuk</span>
+                  </>
+                )}
+              </button>
+            </form>
+          )}
+
+          <div className="mt-4 text-center">
             <button
-              type="submit"
-              disabled={isLoading}
-              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+              type="button"
+              onClick={() => switchMode(!isResetMode)}
+              className="text-sm font-medium text-purple-600 hover:text-purple-700"
             >
-              {isLoading ? (
-                <>
-                  <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                  <span>Memproses...</span>
-                </>
-              ) : (
-                <>
-                  <LogIn className="w-5 h-5" />
-                  <span>Masuk</span>
-                </>
-              )}
+              {isResetMode ? 'Kembali ke halaman masuk' : 'Lupa password?'}
             </button>
-          </form>
+          </div>
 
+          {isDevAuthEnabled && !isResetMode && (
+            <div className="mt-6 pt-6 border-t border-dashed border-gray-300">
+              <p className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-3">
+                Development sign-in (local Supabase)
+              </p>
+              <div className="grid grid-cols-1 gap-2">
+                {DEV_USERS.map(devUser => (
+                  <button
+                    key={devUser.email}
+                    type="button"
+                    onClick={() => handleDevLogin(devUser)}
+                    disabled={isLoading}
+                    className="flex items-center justify-between px-4 py-2 border border-gray-200 rounded-lg text-sm hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <span className="flex items-center space-x-2">
+                      {devUser.role === 'superadmin' ? <Shield className="w-4 h-4 text-purple-600" /> : <User className="w-4 h-4 text-blue-600" />}
+                      <span className="font-medium text-gray-900">{devUser.label}</span>
+                    </span>
+                    <span className="text-gray-500">{devUser.email}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Footer */}
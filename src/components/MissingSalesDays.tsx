@@ -0,0 +1,95 @@
+import React, { useMemo, useState } from 'react';
+import { CalendarX, ChevronRight } from 'lucide-react';
+import { Account } from '../types';
+import { useCoverageGaps } from '../hooks/useCoverageGaps';
+import { groupConsecutiveDates } from '../lib/salesCoverage';
+import { getPeriodBounds, parsePeriodKey } from '../lib/incentives';
+import { todayIsoDate } from '../lib/salesAggregates';
+
+interface MissingSalesDaysProps {
+  accounts: Account[];
+  onOpenAccount?: (account: Account) => void;
+}
+
+// Accounts listed before the rest collapse behind "Show all"
+const COLLAPSED_COUNT = 5;
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('id-ID', { day: 'numeric', month: 'short' });
+
+// Missing days written as runs, e.g. "3–5 Okt, 9 Okt"
+const formatMissingDates = (dates: string[]) =>
+  groupConsecutiveDates(dates)
+    .map(run => run.start === run.end ? formatDay(run.start) : `${formatDay(run.start)}–${formatDay(run.end)}`)
+    .join(', ');
+
+// Accounts without sales data for some day this month, so their figures and
+// incentives come out too low until the days are uploaded
+const MissingSalesDays: React.FC<MissingSalesDaysProps> = ({ accounts, onOpenAccount }) => {
+  const [showAll, setShowAll] = useState(false);
+  const month = useMemo(() => getPeriodBounds(parsePeriodKey(todayIsoDate().slice(0, 7))), []);
+  const { gaps, isLoading, error, truncated } = useCoverageGaps(accounts, month);
+
+  if (isLoading || (gaps.length === 0 && !error)) return null;
+
+  const shownGaps = showAll ? gaps : gaps.slice(0, COLLAPSED_COUNT);
+
+  return (
+    <div className="bg-white rounded-xl border border-yellow-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="w-10 h-10 bg-yellow-100 rounded-lg flex items-center justify-center">
+            <CalendarX className="w-5 h-5 text-yellow-700" />
+          </div>
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Missing Sales Data</h3>
+            <p className="text-sm text-gray-600">
+              {gaps.length} account(s) have days without data this month
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-2">Failed to check data coverage: {error}</p>}
+      {truncated && (
+        <p className="text-sm text-yellow-800 mb-2">Only part of the coverage was loaded; some accounts may be listed wrongly.</p>
+      )}
+
+      <ul className="divide-y divide-gray-100">
+        {shownGaps.map(gap => (
+          <li key={gap.account.id}>
+            <button
+              onClick={() => onOpenAccount?.(gap.account)}
+              className="w-full flex items-center justify-between py-3 text-left hover:bg-gray-50 rounded-lg px-2"
+            >
+              <div className="min-w-0">
+                <div className="text-sm font-medium text-gray-900">
+                  {gap.account.username}
+                  <span className="ml-2 text-xs text-gray-500">{gap.account.account_code}</span>
+                </div>
+                <div className="text-xs text-gray-600 truncate">{formatMissingDates(gap.missing_dates)}</div>
+              </div>
+              <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+                <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                  {gap.missing_dates.length}/{gap.expected_days} days missing
+                </span>
+                {onOpenAccount && <ChevronRight className="w-4 h-4 text-gray-400" />}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {gaps.length > COLLAPSED_COUNT && (
+        <button
+          onClick={() => setShowAll(!showAll)}
+          className="mt-3 text-sm font-medium text-purple-600 hover:text-purple-700"
+        >
+          {showAll ? 'Show less' : `Show all ${gaps.length} accounts`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default MissingSalesDays;
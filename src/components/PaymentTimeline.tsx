@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { ArrowRight, Clock, Undo2 } from 'lucide-react';
+import { Account, PaymentStatus, User } from '../types';
+import { useChangePaymentStatus, usePaymentHistory } from '../hooks/queries';
+import { PAYMENT_STATUS_LABELS, getNextPaymentStatuses, isPaymentStepBack } from '../lib/paymentWorkflow';
+import { can } from '../lib/permissions';
+
+interface PaymentTimelineProps {
+  account: Account;
+  currentUser: User;
+}
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleDateString('id-ID', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+// Where the account's payment set-up stands, the steps the current user may
+// take from there and every change so far, newest first
+const PaymentTimeline: React.FC<PaymentTimelineProps> = ({ account, currentUser }) => {
+  const [note, setNote] = useState('');
+  const historyQuery = usePaymentHistory(account.id);
+  const changePaymentStatus = useChangePaymentStatus();
+
+  const history = historyQuery.data || [];
+  const nextStatuses = getNextPaymentStatuses(account.payment_data, currentUser.role);
+
+  const handleChange = async (status: PaymentStatus) => {
+    const updated = await changePaymentStatus.mutate(account.id, status, note.trim());
+    if (updated) setNote('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-gray-700">Payment Workflow</h3>
+        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+          {PAYMENT_STATUS_LABELS[account.payment_data]}
+        </span>
+      </div>
+
+      {nextStatuses.length > 0 ? (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note for this change (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+          />
+          <div className="flex flex-wrap gap-2">
+            {nextStatuses.map(status => {
+              const isStepBack = isPaymentStepBack(account.payment_data, status);
+              return (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => handleChange(status)}
+                  disabled={changePaymentStatus.isPending}
+                  className={`inline-flex items-center space-x-1 px-3 py-1.5 rounded-lg text-sm font-medium transition-colors disabled:opacity-50 ${
+                    isStepBack
+                      ? 'border border-gray-300 text-gray-700 hover:bg-gray-50'
+                      : 'bg-purple-600 text-white hover:bg-purple-700'
+                  }`}
+                >
+                  {isStepBack ? <Undo2 className="w-4 h-4" /> : <ArrowRight className="w-4 h-4" />}
+                  <span>{PAYMENT_STATUS_LABELS[status]}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500">
+          {can(currentUser, 'payments.update')
+            ? 'Only someone who approves payments can move this account further.'
+            : 'You can follow the payment workflow but not change it.'}
+        </p>
+      )}
+
+      {changePaymentStatus.error && (
+        <p className="text-sm text-red-600">{changePaymentStatus.error}</p>
+      )}
+
+      <div className="border-t border-gray-100 pt-4">
+        {historyQuery.isLoading ? (
+          <p className="text-sm text-gray-500">Loading history...</p>
+        ) : historyQuery.error && history.length === 0 ? (
+          <p className="text-sm text-red-600">Failed to load history: {historyQuery.error}</p>
+        ) : history.length === 0 ? (
+          <p className="text-sm text-gray-500">No payment status changes recorded yet.</p>
+        ) : (
+          <ol className="space-y-3">
+            {history.map(entry => (
+              <li key={entry.id} className="flex items-start space-x-3">
+                <Clock className="w-4 h-4 mt-0.5 text-gray-400 flex-shrink-0" />
+                <div className="text-sm">
+                  <div className="text-gray-900">
+                    {entry.from_status
+                      ? `${PAYMENT_STATUS_LABELS[entry.from_status]} → ${PAYMENT_STATUS_LABELS[entry.to_status]}`
+                      : `Created as ${PAYMENT_STATUS_LABELS[entry.to_status]}`}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {entry.changed_by_name || 'System'} · {formatDateTime(entry.created_at)}
+                  </div>
+                  {entry.note && <div className="text-xs text-gray-600 italic mt-0.5">{entry.note}</div>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentTimeline;
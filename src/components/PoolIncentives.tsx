@@ -0,0 +1,129 @@
+import React from 'react';
+import { Users, Tag, Target, Lock } from 'lucide-react';
+import { PoolIncentiveCalculation } from '../types';
+
+interface PoolIncentivesProps {
+  pools: PoolIncentiveCalculation[];
+  isMonthClosed: boolean;
+}
+
+const distributionLabels: Record<PoolIncentiveCalculation['rule']['distribution'], string> = {
+  equal: 'Equal split',
+  revenue: 'Pro-rata by revenue',
+  commission: 'Pro-rata by commission',
+};
+
+const PoolIncentives: React.FC<PoolIncentivesProps> = ({ pools, isMonthClosed }) => {
+  const formatCurrency = (amount: number) => {
+    return new Intl.NumberFormat('id-ID', {
+      style: 'currency',
+      currency: 'IDR',
+      maximumFractionDigits: 0,
+    }).format(amount);
+  };
+
+  const totalPot = pools.reduce((sum, pool) => sum + pool.pot_amount, 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-100 overflow-hidden">
+      <div className="p-6 border-b border-gray-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Pooled Campaigns</h3>
+            <p className="text-sm text-gray-600 mt-1">Team and category rules progress on combined revenue and split one pot</p>
+          </div>
+          <div className="text-right">
+            <div className="text-2xl font-bold text-gray-900">{formatCurrency(totalPot)}</div>
+            <div className="text-sm text-gray-500">Total Pot</div>
+          </div>
+        </div>
+        {isMonthClosed && (
+          <div className="mt-3 flex items-center space-x-2 text-xs text-gray-600">
+            <Lock className="w-4 h-4" />
+            <span>Pots and shares were locked in the payout ledger when the month was closed.</span>
+          </div>
+        )}
+      </div>
+
+      <div className="divide-y divide-gray-100">
+        {pools.map(pool => (
+          <div key={pool.rule.id} className="p-6 space-y-4">
+            <div className="flex items-start justify-between">
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-indigo-100 to-purple-100 rounded-lg flex items-center justify-center">
+                  {pool.rule.scope === 'category' ? (
+                    <Tag className="w-5 h-5 text-indigo-600" />
+                  ) : (
+                    <Users className="w-5 h-5 text-indigo-600" />
+                  )}
+                </div>
+                <div>
+                  <h4 className="font-semibold text-gray-900">{pool.rule.name}</h4>
+                  <p className="text-sm text-gray-600">
+                    {pool.rule.scope === 'category' ? 'Category' : 'Team'}: {pool.scope_name}
+                    {' · '}{distributionLabels[pool.rule.distribution]}
+                    {' · '}{pool.qualifying_accounts_count}/{pool.accounts_count} accounts qualifying
+                  </p>
+                </div>
+              </div>
+              <div className="text-right">
+                <div className="text-lg font-bold text-green-700">{formatCurrency(pool.pot_amount)}</div>
+                <div className="text-xs text-gray-500">
+                  {pool.current_tier ? `${pool.current_tier.incentive_rate}% tier reached` : 'No tier reached'}
+                  {pool.is_capped && ' · Capped'}
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between text-xs text-gray-600 mb-1">
+                <span>Pool revenue {formatCurrency(pool.total_revenue)} · Rate {pool.commission_rate.toFixed(2)}%</span>
+                {pool.next_tier && (
+                  <span className="flex items-center space-x-1">
+                    <Target className="w-3 h-3" />
+                    <span>{formatCurrency(pool.remaining_to_next_tier)} to next tier</span>
+                  </span>
+                )}
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-gradient-to-r from-indigo-500 to-purple-500 h-2 rounded-full"
+                  style={{ width: `${pool.progress_percentage}%` }}
+                />
+              </div>
+            </div>
+
+            {pool.shares.length > 0 ? (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 uppercase tracking-wider">
+                    <th className="py-2 text-left font-medium">Member</th>
+                    <th className="py-2 text-right font-medium">Revenue</th>
+                    <th className="py-2 text-right font-medium">Commission</th>
+                    <th className="py-2 text-right font-medium">Share</th>
+                    <th className="py-2 text-right font-medium">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-50">
+                  {pool.shares.map(share => (
+                    <tr key={share.user_id}>
+                      <td className="py-2 text-gray-900">{share.user_name}</td>
+                      <td className="py-2 text-right text-gray-600">{formatCurrency(share.revenue)}</td>
+                      <td className="py-2 text-right text-gray-600">{formatCurrency(share.commission)}</td>
+                      <td className="py-2 text-right text-gray-600">{(share.share_ratio * 100).toFixed(1)}%</td>
+                      <td className="py-2 text-right font-medium text-gray-900">{formatCurrency(share.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className="text-sm text-gray-500">Nobody takes part in this pool yet.</p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PoolIncentives;
@@ -1,7 +1,9 @@
 import React, { useState } from 'react';
 import { User, Mail, Building, Calendar, Save, Edit2, Lock, Eye, EyeOff, Phone, MapPin, FileText } from 'lucide-react';
-import { useSupabase } from '../hooks/useSupabase';
+import { useUpdateProfile } from '../hooks/queries';
+import { changePassword } from '../lib/api';
 import { User as UserType } from '../types';
+import { ROLE_LABELS } from '../lib/permissions';
 
 interface ProfileProps {
   currentUser: UserType;
@@ -19,13 +21,13 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUserUpdate }) => {
   const [isSaving, setIsSaving] = useState(false);
   const [saveResult, setSaveResult] = useState<{ success: boolean; message: string } | null>(null);
   
-  const { updateProfile, changePassword, loading } = useSupabase();
+  const updateProfile = useUpdateProfile();
   
   const [profileData, setProfileData] = useState({
     name: currentUser.name,
     email: currentUser.email,
     company: currentUser.company || 'Kimo Studio',
-    role: currentUser.role === 'superadmin' ? 'Super Administrator' : 'User',
+    role: ROLE_LABELS[currentUser.role],
     joinDate: new Date(currentUser.created_at).toISOString().split('T')[0],
     phone: currentUser.phone || '',
     address: currentUser.address || '',
@@ -43,7 +45,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUserUpdate }) => {
     setSaveResult(null);
     
     try {
-      const updatedUser = await updateProfile(currentUser.id, {
+      const updatedUser = await updateProfile.mutate(currentUser.id, {
         name: profileData.name,
         phone: profileData.phone || null,
         address: profileData.address || null,
@@ -116,18 +118,20 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUserUpdate }) => {
     setSaveResult(null);
     
     try {
-      const success = await changePassword(passwordData.currentPassword, passwordData.newPassword);
+      await changePassword(passwordData.currentPassword, passwordData.newPassword);
       
-      if (success) {
-        setSaveResult({ success: true, message: 'Password changed successfully!' });
-        setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
-        setShowPasswordForm(false);
-        
-        // Clear success message after 3 seconds
-        setTimeout(() => setSaveResult(null), 3000);
-      }
+      setSaveResult({ success: true, message: 'Password changed successfully!' });
+      setPasswordData({ currentPassword: '', newPassword: '', confirmPassword: '' });
+      setShowPasswordForm(false);
+      
+      // Clear success message after 3 seconds
+      setTimeout(() => setSaveResult(null), 3000);
     } catch (error) {
       console.error('Error changing password:', error);
+      setSaveResult({ 
+        success: false, 
+        message: error instanceof Error ? error.message : 'Failed to change password' 
+      });
     } finally {
       setIsSaving(false);
     }
@@ -150,7 +154,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUserUpdate }) => {
         </div>
         <button
           onClick={() => isEditing ? handleSave() : setIsEditing(true)}
-          disabled={isSaving || loading}
+          disabled={isSaving}
           className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
         >
           {isSaving ? (
@@ -350,7 +354,7 @@ const Profile: React.FC<ProfileProps> = ({ currentUser, onUserUpdate }) => {
                       name: currentUser.name,
                       email: currentUser.email,
                       company: currentUser.company || 'Kimo Studio',
-                      role: currentUser.role === 'superadmin' ? 'Super Administrator' : 'User',
+                      role: ROLE_LABELS[currentUser.role],
                       joinDate: new Date(currentUser.created_at).toISOString().split('T')[0],
                       phone: currentUser.phone || '',
                       address: currentUser.address || '',
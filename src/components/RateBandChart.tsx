@@ -0,0 +1,90 @@
+import React, { useMemo } from 'react';
+import { RateBand, getBandCoverage } from '../lib/ruleValidation';
+import { OPEN_ENDED_RATE_MAX, formatRateBand } from '../lib/incentives';
+
+interface RateBandChartProps {
+  bands: RateBand[];
+}
+
+// Share of the chart width used for the detailed part of the axis; the rest,
+// up to 100%, is compressed since real bands rarely go that high
+const DETAIL_WIDTH = 85;
+
+const RateBandChart: React.FC<RateBandChartProps> = ({ bands }) => {
+  const coverage = useMemo(() => getBandCoverage(bands), [bands]);
+
+  // End of the detailed axis: just past the highest finite band edge
+  const detailMax = useMemo(() => {
+    const edges = bands.flatMap(band => [band.min, band.max]).filter(edge => edge < OPEN_ENDED_RATE_MAX);
+    return Math.min(Math.ceil(Math.max(...edges, 9)) + 1, OPEN_ENDED_RATE_MAX);
+  }, [bands]);
+
+  const toPosition = (rate: number) => {
+    if (rate <= detailMax) return (rate / detailMax) * DETAIL_WIDTH;
+    return DETAIL_WIDTH + ((rate - detailMax) / (OPEN_ENDED_RATE_MAX - detailMax)) * (100 - DETAIL_WIDTH);
+  };
+
+  const segmentStyle = (from: number, to: number) => ({
+    left: `${toPosition(from)}%`,
+    width: `${Math.max(toPosition(to) - toPosition(from), 0.5)}%`,
+  });
+
+  const ticks = Array.from({ length: detailMax + 1 }, (_, i) => i).filter(i => detailMax <= 12 || i % 2 === 0);
+
+  return (
+    <div className="space-y-2">
+      {coverage.bands.map(band => (
+        <div key={band.key} className="flex items-center space-x-3">
+          <div className={`w-32 text-xs truncate ${band.isDraft ? 'font-semibold text-purple-700' : 'text-gray-600'}`}>
+            {band.name}
+          </div>
+          <div className="flex-1 relative h-4 bg-gray-100 rounded">
+            <div
+              className={`absolute h-4 rounded ${band.isDraft ? 'bg-purple-500' : 'bg-blue-400'}`}
+              style={segmentStyle(band.min, band.max)}
+              title={formatRateBand({ commission_rate_min: band.min, commission_rate_max: band.max })}
+            />
+          </div>
+        </div>
+      ))}
+
+      {/* Coverage: covered, uncovered and overlapping rates */}
+      <div className="flex items-center space-x-3">
+        <div className="w-32 text-xs font-medium text-gray-700">Coverage</div>
+        <div className="flex-1 relative h-4 bg-green-200 rounded overflow-hidden">
+          {coverage.gaps.map(gap => (
+            <div key={`gap-${gap.from}`} className="absolute h-4 bg-red-300" style={segmentStyle(gap.from, gap.to)} />
+          ))}
+          {coverage.overlaps.map(overlap => (
+            <div
+              key={`overlap-${overlap.bands[0].key}-${overlap.bands[1].key}`}
+              className="absolute h-4 bg-yellow-400"
+              style={segmentStyle(overlap.from, overlap.to)}
+            />
+          ))}
+        </div>
+      </div>
+
+      {/* Axis */}
+      <div className="flex items-center space-x-3">
+        <div className="w-32" />
+        <div className="flex-1 relative h-4 text-[10px] text-gray-500">
+          {ticks.map(tick => (
+            <span key={tick} className="absolute -translate-x-1/2" style={{ left: `${toPosition(tick)}%` }}>
+              {tick}%
+            </span>
+          ))}
+          <span className="absolute right-0">100%</span>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-4 text-xs text-gray-600 pt-1">
+        <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded bg-green-200 inline-block" /><span>Covered</span></span>
+        <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded bg-red-300 inline-block" /><span>No rule</span></span>
+        <span className="flex items-center space-x-1"><span className="w-3 h-3 rounded bg-yellow-400 inline-block" /><span>Overlap</span></span>
+      </div>
+    </div>
+  );
+};
+
+export default RateBandChart;
@@ -0,0 +1,63 @@
+import React from 'react';
+import { RefreshCw, X } from 'lucide-react';
+import { Account, RemoteChange, SyncedTable } from '../types';
+import { useRemoteChanges } from '../hooks/useRealtimeSync';
+import { dismissRemoteChange } from '../lib/realtime';
+
+interface RemoteChangeNoticeProps {
+  accounts: Account[];
+}
+
+// Only the latest few are shown; older ones have already been merged in
+const MAX_SHOWN = 3;
+
+const TABLE_LABELS: Record<SyncedTable, string> = {
+  accounts: 'account',
+  sales_data: 'sales data of',
+  users: 'team member',
+  incentive_rules: 'incentive rule',
+  files: 'file',
+};
+
+const describeChange = (change: RemoteChange, accounts: Account[]) => {
+  const verb = change.event === 'INSERT' && change.table !== 'sales_data' ? 'added' : 'updated';
+  const name = change.table === 'sales_data'
+    ? accounts.find(account => account.id === change.record_id)?.username || 'an account'
+    : change.record_name;
+  return `${verb} ${TABLE_LABELS[change.table]} ${name}`;
+};
+
+// "Updated by X" for writes from other sessions. The screens behind it have
+// already been refreshed.
+const RemoteChangeNotice: React.FC<RemoteChangeNoticeProps> = ({ accounts }) => {
+  const changes = useRemoteChanges().filter(change => !change.dismissed).slice(0, MAX_SHOWN);
+
+  if (changes.length === 0) return null;
+
+  return (
+    <div className="mb-4 space-y-2">
+      {changes.map(change => (
+        <div
+          key={change.id}
+          className="flex items-center justify-between p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800"
+        >
+          <div className="flex items-center space-x-2">
+            <RefreshCw className="w-4 h-4 flex-shrink-0" />
+            <span>
+              <span className="font-medium">{change.user_name}</span> {describeChange(change, accounts)}
+              <span className="text-blue-600"> · {new Date(change.at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}</span>
+            </span>
+          </div>
+          <button
+            onClick={() => dismissRemoteChange(change.id)}
+            className="p-1 text-blue-400 hover:text-blue-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default RemoteChangeNotice;
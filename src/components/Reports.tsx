@@ -1,6 +1,11 @@
 import React, { useState, useMemo } from 'react';
 import { BarChart3, Download, Calendar, Filter, Search, ChevronDown, Check, User } from 'lucide-react';
-import { Account, SalesData, Category } from '../types';
+import { Account, Category, UserRole } from '../types';
+import { useAccountSalesTotals } from '../hooks/queries';
+import { useAccountScope } from '../hooks/useAccountScope';
+import TruncationNotice from './TruncationNotice';
+import { dateFilterToRange, sumSalesTotals } from '../lib/salesAggregates';
+import { getDataScope, getScopedAccounts } from '../lib/permissions';
 
 interface DateFilter {
   startDate: string;
@@ -10,7 +15,6 @@ interface DateFilter {
 
 interface ReportsProps {
   accounts: Account[];
-  salesData: SalesData[];
   categories: Category[];
   dateFilter: DateFilter;
   onDateFilterChange: (filter: DateFilter) => void;
@@ -18,38 +22,19 @@ interface ReportsProps {
     id: string;
     name: string;
     email: string;
-    role: 'user' | 'superadmin';
-    managed_accounts: string[];
+    role: UserRole;
   };
+  onOpenAccount?: (account: Account) => void;
 }
 
-const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, dateFilter, onDateFilterChange, currentUser }) => {
-  // Filter accounts and sales data based on user role
-  const filteredAccountsByRole = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return accounts;
-    } else {
-      // Regular users can only see accounts they manage
-      return accounts.filter(account => 
-        currentUser.managed_accounts.includes(account.id)
-      );
-    }
-  }, [accounts, currentUser]);
-
-  const filteredSalesDataByUser = React.useMemo(() => {
-    if (!currentUser) return [];
-    
-    if (currentUser.role === 'superadmin') {
-      return salesData;
-    } else {
-      // Regular users can only see sales data for accounts they manage
-      return salesData.filter(data => 
-        currentUser.managed_accounts.includes(data.account_id)
-      );
-    }
-  }, [salesData, currentUser]);
+const Reports: React.FC<ReportsProps> = ({ accounts, categories, dateFilter, onDateFilterChange, currentUser, onOpenAccount }) => {
+  // Filter accounts and sales data to the user's scope
+  const accountScope = useAccountScope(currentUser);
+  const filteredAccountsByRole = React.useMemo(
+    () => currentUser ? getScopedAccounts(currentUser, accounts, accountScope.assignedAccountIds) : [],
+    [accounts, currentUser, accountScope.assignedAccountIds]
+  );
+  const seesAllAccounts = !!currentUser && getDataScope(currentUser) === 'all';
 
   const [selectedAccount, setSelectedAccount] = useState('all');
   const [showAccountDropdown, setShowAccountDropdown] = useState(false);
@@ -61,31 +46,14 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
     return category?.name || 'Belum Diatur';
   };
 
-  const filteredData = useMemo(() => {
-    let filtered = filteredSalesDataByUser;
-    
-    // Filter by account
-    if (selectedAccount !== 'all') {
-      filtered = filtered.filter(data => data.account_id === selectedAccount);
-    }
-    
-    // Filter by date range
-    if (dateFilter.preset === 'custom' && dateFilter.startDate && dateFilter.endDate) {
-      const startDate = new Date(dateFilter.startDate);
-      const endDate = new Date(dateFilter.endDate);
-      filtered = filtered.filter(data => {
-        const dataDate = new Date(data.date);
-        return dataDate >= startDate && dataDate <= endDate;
-      });
-    } else if (dateFilter.preset !== 'all') {
-      const daysAgo = parseInt(dateFilter.preset);
-      const cutoffDate = new Date();
-      cutoffDate.setDate(cutoffDate.getDate() - daysAgo);
-      filtered = filtered.filter(data => new Date(data.date) >= cutoffDate);
-    }
-    
-    return filtered;
-  }, [filteredSalesDataByUser, selectedAccount, dateFilter]);
+  // Per-account totals for the selected account and range, summed server-side
+  const accountTotalsQuery = useAccountSalesTotals({
+    range: dateFilterToRange(dateFilter),
+    accountIds: selectedAccount !== 'all' ? [selectedAccount] : undefined,
+    userIds: accountScope.userIds,
+  }, { enabled: accountScope.isReady });
+  const accountTotals = useMemo(() => accountTotalsQuery.data?.rows || [], [accountTotalsQuery.data]);
+  const isTruncated = accountTotalsQuery.data?.truncated || false;
 
   const handleDateFilterChange = (field: string, value: string) => {
     const newFilter = { ...dateFilter, [field]: value };
@@ -121,12 +89,13 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
     setAccountSearchTerm('');
   };
   const reportMetrics = useMemo(() => {
-    const totalCommission = filteredData.reduce((sum, data) => sum + data.gross_commission, 0);
-    const totalRevenue = filteredData.reduce((sum, data) => sum + data.total_purchases, 0);
-    const totalOrders = filteredData.reduce((sum, data) => sum + data.orders, 0);
-    const totalClicks = filteredData.reduce((sum, data) => sum + data.clicks, 0);
-    const totalProductsSold = filteredData.reduce((sum, data) => sum + data.products_sold, 0);
-    const totalNewBuyers = filteredData.reduce((sum, data) => sum + data.new_buyers, 0);
+    const totals = sumSalesTotals(accountTotals);
+    const totalCommission = totals.gross_commission;
+    const totalRevenue = totals.total_purchases;
+    const totalOrders = totals.orders;
+    const totalClicks = totals.clicks;
+    const totalProductsSold = totals.products_sold;
+    const totalNewBuyers = totals.new_buyers;
     
     return {
       totalCommission,
@@ -138,48 +107,24 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
       avgCommissionRate: totalRevenue > 0 ? (totalCommission / totalRevenue) * 100 : 0,
       conversionRate: totalClicks > 0 ? (totalOrders / totalClicks) * 100 : 0,
     };
-  }, [filteredData]);
+  }, [accountTotals]);
 
   // Calculate accumulated data per account
   const accumulatedData = useMemo(() => {
-    const accountData = new Map();
-    
-    filteredData.forEach(data => {
-      if (!accountData.has(data.account_id)) {
-        accountData.set(data.account_id, {
-          account_id: data.account_id,
-          clicks: 0,
-          orders: 0,
-          gross_commission: 0,
-          products_sold: 0,
-          total_purchases: 0,
-          new_buyers: 0,
-          data_count: 0,
-          date_range: { start: data.date, end: data.date }
-        });
-      }
-      
-      const accumulated = accountData.get(data.account_id);
-      accumulated.clicks += data.clicks;
-      accumulated.orders += data.orders;
-      accumulated.gross_commission += data.gross_commission;
-      accumulated.products_sold += data.products_sold;
-      accumulated.total_purchases += data.total_purchases;
-      accumulated.new_buyers += data.new_buyers;
-      accumulated.data_count += 1;
-      
-      // Update date range
-      if (data.date < accumulated.date_range.start) {
-        accumulated.date_range.start = data.date;
-      }
-      if (data.date > accumulated.date_range.end) {
-        accumulated.date_range.end = data.date;
-      }
-    });
-    
-    return Array.from(accountData.values())
+    return accountTotals
+      .map(totals => ({
+        account_id: totals.account_id,
+        clicks: totals.clicks,
+        orders: totals.orders,
+        gross_commission: totals.gross_commission,
+        products_sold: totals.products_sold,
+        total_purchases: totals.total_purchases,
+        new_buyers: totals.new_buyers,
+        data_count: totals.days_count,
+        date_range: { start: totals.first_date, end: totals.last_date }
+      }))
       .sort((a, b) => b.gross_commission - a.gross_commission); // Sort by commission descending
-  }, [filteredData]);
+  }, [accountTotals]);
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('id-ID', {
@@ -247,7 +192,7 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Reports</h1>
           <p className="text-gray-600">
-            {currentUser?.role === 'superadmin' 
+            {seesAllAccounts
               ? 'Detailed sales and commission reports for all accounts'
               : `Detailed sales and commission reports for your ${filteredAccountsByRole.length} accounts`}
           </p>
@@ -403,6 +348,8 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
         />
       )}
 
+      {isTruncated && <TruncationNotice shown={accountTotals.length} what="accounts" />}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
         <div className="bg-white rounded-xl border border-gray-100 p-6">
@@ -472,7 +419,12 @@ const Reports: React.FC<ReportsProps> = ({ accounts, salesData, categories, date
                           <User className="w-4 h-4 text-purple-600" />
                         </div>
                         <div>
-                          <div className="text-sm font-medium text-gray-900">{account?.username}</div>
+                          <button
+                            onClick={() => account && onOpenAccount?.(account)}
+                            className="text-sm font-medium text-gray-900 hover:text-purple-600"
+                          >
+                            {account?.username}
+                          </button>
                           <div className="text-sm text-gray-500">{account?.account_code}</div>
                         </div>
                       </div>
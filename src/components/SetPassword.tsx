@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { AlertCircle, KeyRound, LogOut } from 'lucide-react';
+import { User } from '../types';
+import { setPassword } from '../lib/api';
+import { toErrorMessage } from '../lib/queryCache';
+
+interface SetPasswordProps {
+  currentUser: User;
+  reason: 'recovery' | 'first-login';
+  onDone: () => void;
+  onLogout: () => void;
+}
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Shown instead of the app until the user has chosen a password: after
+// following a reset link, on first login from an invite, or when a superadmin
+// asked for a new one
+const SetPassword: React.FC<SetPasswordProps> = ({ currentUser, reason, onDone, onLogout }) => {
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (newPassword.length < MIN_PASSWORD_LENGTH) {
+      setError(`Password minimal ${MIN_PASSWORD_LENGTH} karakter.`);
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError('Konfirmasi password tidak sama.');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await setPassword(newPassword);
+      onDone();
+    } catch (err) {
+      setError(toErrorMessage(err));
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
+          <div className="mb-6">
+            <div className="w-12 h-12 bg-purple-100 rounded-xl flex items-center justify-center mb-4">
+              <KeyRound className="w-6 h-6 text-purple-600" />
+            </div>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {reason === 'recovery' ? 'Atur Ulang Password' : 'Buat Password Baru'}
+            </h2>
+            <p className="text-gray-600">
+              {reason === 'recovery'
+                ? `Masukkan password baru untuk ${currentUser.email}.`
+                : `Halo ${currentUser.name}, pilih password Anda sebelum melanjutkan.`}
+            </p>
+          </div>
+
+          {error && (
+            <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start space-x-3">
+              <AlertCircle className="w-5 h-5 text-red-500 mt-0.5" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Password Baru
+              </label>
+              <input
+                type="password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Konfirmasi Password
+              </label>
+              <input
+                type="password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent transition-colors"
+                minLength={MIN_PASSWORD_LENGTH}
+                autoComplete="new-password"
+                required
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-3 px-4 rounded-lg font-medium hover:from-purple-700 hover:to-blue-700 focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSaving ? 'Menyimpan...' : 'Simpan Password'}
+            </button>
+          </form>
+
+          <button
+            type="button"
+            onClick={onLogout}
+            className="mt-4 w-full flex items-center justify-center space-x-2 text-sm text-gray-500 hover:text-gray-700"
+          >
+            <LogOut className="w-4 h-4" />
+            <span>Keluar</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SetPassword;
@@ -15,6 +15,7 @@ import {
   PieChart
 } from 'lucide-react';
 import { User } from '../types';
+import { Permission, ROLE_LABELS, can, getDataScope } from '../lib/permissions';
 
 interface SidebarProps {
   activeTab: string;
@@ -23,24 +24,21 @@ interface SidebarProps {
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }) => {
-  // Filter menu items based on user role
-  const allMenuItems = [
+  // Filter menu items based on the user's permissions
+  const allMenuItems: { id: string; label: string; icon: typeof Home; permission?: Permission }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: Home },
     { id: 'accounts', label: 'Accounts', icon: Users },
-    { id: 'upload', label: 'Upload Data', icon: Upload },
+    { id: 'upload', label: 'Upload Data', icon: Upload, permission: 'sales.upload' },
     { id: 'files', label: 'File Management', icon: FileText },
     { id: 'reports', label: 'Reports', icon: FileText },
     { id: 'device', label: 'Device', icon: Smartphone },
-    { id: 'incentives', label: 'Incentive Rules', icon: BarChart3, adminOnly: true },
-    { id: 'incentive-overview', label: 'Incentive Overview', icon: PieChart, adminOnly: true },
-    { id: 'incentive-game', label: 'Incentive Quest', icon: Trophy, userOnly: true },
-    { id: 'team', label: 'Team', icon: UserPlus, adminOnly: true },
+    { id: 'incentives', label: 'Incentive Rules', icon: BarChart3, permission: 'incentives.manage_rules' },
+    { id: 'incentive-overview', label: 'Incentive Overview', icon: PieChart, permission: 'payouts.view' },
+    { id: 'incentive-game', label: 'Incentive Quest', icon: Trophy, permission: 'incentives.earn' },
+    { id: 'team', label: 'Team', icon: UserPlus, permission: 'users.manage' },
   ];
   
-  const menuItems = allMenuItems.filter(item => 
-    (!item.adminOnly || currentUser.role === 'superadmin') &&
-    (!item.userOnly || currentUser.role === 'user')
-  );
+  const menuItems = allMenuItems.filter(item => !item.permission || can(currentUser, item.permission));
 
   const bottomItems = [
     { id: 'profile', label: 'Profile', icon: UserProfile },
@@ -61,7 +59,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }
           <div>
             <h1 className="text-xl font-bold text-gray-900">Kimo Studio</h1>
             <p className="text-xs text-gray-500">
-              {currentUser.role === 'superadmin' ? 'Super Admin' : 'User'}
+              {ROLE_LABELS[currentUser.role]}
             </p>
           </div>
         </div>
@@ -72,7 +70,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeTab, onTabChange, currentUser }
         <div className="bg-gradient-to-r from-purple-50 to-blue-50 rounded-lg p-3">
           <div className="flex items-center space-x-3">
             <div className="w-8 h-8 bg-gradient-to-br from-purple-100 to-blue-100 rounded-lg flex items-center justify-center">
-              {currentUser.role === 'superadmin' ? (
+              {getDataScope(currentUser) !== 'own' ? (
                 <Shield className="w-4 h-4 text-purple-600" />
               ) : (
                 <UserProfile className="w-4 h-4 text-blue-600" />
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { 
   Plus, 
   Edit2, 
@@ -12,77 +12,86 @@ import {
   Users,
   Mail,
   Calendar,
-  Eye,
-  EyeOff,
+  KeyRound,
+  Send,
   UserCheck,
   UserX,
   AlertCircle,
   CheckCircle
 } from 'lucide-react';
-import { User as UserType, Account, Category } from '../types';
-import { useSupabase } from '../hooks/useSupabase';
-import { supabase } from '../lib/supabase';
+import { User as UserType, Account, Category, UserGroup, UserRole } from '../types';
+import { useAccountAssignments, useDeleteUser, useInviteUser, useSetUserAccounts, useUpdateUser, useUsers } from '../hooks/queries';
+import { requestPasswordReset } from '../lib/api';
+import { toErrorMessage } from '../lib/queryCache';
+import { ROLES, ROLE_DESCRIPTIONS, ROLE_LABELS, can, hasPermission } from '../lib/permissions';
+import { dayRange, getAccountOwnerIds, getAssignedAccountIds } from '../lib/assignments';
+import { todayIsoDate } from '../lib/salesAggregates';
+import UserGroupManagement from './UserGroupManagement';
+
+const ROLE_BADGE_COLORS: Record<UserRole, string> = {
+  superadmin: 'bg-purple-100 text-purple-800',
+  team_lead: 'bg-indigo-100 text-indigo-800',
+  finance: 'bg-green-100 text-green-800',
+  auditor: 'bg-gray-100 text-gray-800',
+  user: 'bg-blue-100 text-blue-800',
+};
+
+// Roles that see every account don't need any assigned to them
+const hasAssignedAccounts = (role: UserRole) => !hasPermission(role, 'data.view_all');
 
 interface TeamManagementProps {
   accounts: Account[];
   categories: Category[];
+  userGroups: UserGroup[];
   currentUser: UserType;
+  onAddUserGroup: (group: Omit<UserGroup, 'id' | 'created_at'>) => void;
+  onUpdateUserGroup: (id: string, group: Partial<UserGroup>) => void;
+  onDeleteUserGroup: (id: string) => void;
 }
 
-const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, currentUser }) => {
-  const [users, setUsers] = useState<UserType[]>([]);
+const TeamManagement: React.FC<TeamManagementProps> = ({
+  accounts,
+  categories,
+  userGroups,
+  currentUser,
+  onAddUserGroup,
+  onUpdateUserGroup,
+  onDeleteUserGroup,
+}) => {
+  const [showGroupManagement, setShowGroupManagement] = useState(false);
   const [showModal, setShowModal] = useState(false);
   const [editingUser, setEditingUser] = useState<UserType | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [roleFilter, setRoleFilter] = useState('all');
-  const [showPassword, setShowPassword] = useState(false);
   const [accountSearchTerm, setAccountSearchTerm] = useState('');
   const [isCreatingUser, setIsCreatingUser] = useState(false);
   const [signupResult, setSignupResult] = useState<{ success: boolean; message: string } | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-  const [loadError, setLoadError] = useState<string | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     email: '',
-    password: '',
-    role: 'user' as 'user' | 'superadmin',
-    managed_accounts: [] as string[],
+    role: 'user' as UserRole,
+    account_ids: [] as string[],
+    must_change_password: false,
   });
-
-  const {
-    fetchUsers,
-    addUser,
-    updateUser,
-    deleteUser,
-  } = useSupabase();
-
-  // Load users from Supabase
-  useEffect(() => {
-    const loadUsers = async () => {
-      if (currentUser.role !== 'superadmin') {
-        setIsLoading(false);
-        return;
-      }
-
-      setIsLoading(true);
-      setLoadError(null);
-      
-      try {
-        const usersData = await fetchUsers();
-        setUsers(usersData);
-      } catch (err) {
-        console.error('Error loading users:', err);
-        setLoadError(err instanceof Error ? err.message : 'Failed to load users');
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    loadUsers();
-  }, []);
-
-  // Check if current user is superadmin
-  if (currentUser.role !== 'superadmin') {
+  // When a change to an existing user's accounts takes effect; earlier sales
+  // stay with the previous owners
+  const [accountsEffectiveFrom, setAccountsEffectiveFrom] = useState(todayIsoDate());
+
+  // Shared with the other screens that list users
+  const usersQuery = useUsers({}, { enabled: can(currentUser, 'users.manage') });
+  const users = useMemo(() => usersQuery.data?.rows || [], [usersQuery.data]);
+  // Who owns which account today
+  const assignmentsQuery = useAccountAssignments({ range: dayRange() }, { enabled: can(currentUser, 'users.manage') });
+  const assignments = useMemo(() => assignmentsQuery.data?.rows || [], [assignmentsQuery.data]);
+  const isLoading = usersQuery.isLoading || assignmentsQuery.isLoading;
+  const loadError = usersQuery.data ? assignmentsQuery.error : usersQuery.error;
+
+  const inviteUser = useInviteUser();
+  const updateUser = useUpdateUser();
+  const setUserAccounts = useSetUserAccounts();
+  const deleteUser = useDeleteUser();
+
+  if (!can(currentUser, 'users.manage')) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="text-center">
@@ -165,7 +174,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
             <h3 className="text-lg font-medium text-gray-900 mb-2">Error Loading Users</h3>
             <p className="text-gray-600 mb-4">{loadError}</p>
             <button
-              onClick={() => window.location.reload()}
+              onClick={() => usersQuery.refetch()}
               className="bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
             >
               Retry
@@ -176,6 +185,34 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     );
   }
 
+  if (showGroupManagement) {
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Team Groups</h1>
+            <p className="text-gray-600">Manage the teams used by pooled incentive campaigns</p>
+          </div>
+          <button
+            onClick={() => setShowGroupManagement(false)}
+            className="flex items-center space-x-2 bg-gray-600 text-white px-4 py-2 rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            <X className="w-4 h-4" />
+            <span>Back to Users</span>
+          </button>
+        </div>
+
+        <UserGroupManagement
+          groups={userGroups}
+          users={users}
+          onAddGroup={onAddUserGroup}
+          onUpdateGroup={onUpdateUserGroup}
+          onDeleteGroup={onDeleteUserGroup}
+        />
+      </div>
+    );
+  }
+
   const filteredUsers = users.filter(user => {
     const matchesSearch = user.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          user.email.toLowerCase().includes(searchTerm.toLowerCase());
@@ -210,17 +247,22 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
         const updateData: Partial<UserType> = {
           name: formData.name,
           role: formData.role,
-          managed_accounts: formData.managed_accounts,
         };
         
-        // Only include email if it's different (though it shouldn't change)
-        if (formData.email !== editingUser.email) {
-          updateData.email = formData.email;
+        // Only superadmins can set this, and only this way; choosing a
+        // password clears it
+        if (formData.must_change_password !== !!editingUser.must_change_password) {
+          updateData.must_change_password = formData.must_change_password;
         }
         
-        const updatedUser = await updateUser(editingUser.id, updateData);
+        const updatedUser = await updateUser.mutateAsync(editingUser.id, updateData);
+        const previousAccountIds = getUserAccountIds(editingUser.id);
+        const accountsChanged = previousAccountIds.length !== formData.account_ids.length ||
+          formData.account_ids.some(id => !previousAccountIds.includes(id));
+        if (updatedUser && accountsChanged) {
+          await setUserAccounts.mutateAsync(editingUser.id, formData.account_ids, accountsEffectiveFrom);
+        }
         if (updatedUser) {
-          setUsers(prev => prev.map(user => user.id === editingUser.id ? updatedUser : user));
           setSignupResult({ success: true, message: 'User updated successfully!' });
           setTimeout(() => {
             closeModal();
@@ -229,72 +271,33 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
           throw new Error('Failed to update user - no data returned');
         }
       } else {
-        // Create user with Supabase Auth (same as sign up)
-        const { data: authData, error: authError } = await supabase.auth.signUp({
+        // The server sends the invite email and creates the users row; the
+        // invitee picks their own password from the link
+        await inviteUser.mutateAsync({
+          name: formData.name,
           email: formData.email,
-          password: formData.password,
-          options: {
-            emailRedirectTo: undefined, // Disable email confirmation
-            data: {
-              name: formData.name,
-              role: formData.role,
-            }
-          }
+          role: formData.role,
+          account_ids: formData.account_ids,
         });
-
-        if (authError) {
-          throw authError;
-        }
-
-        if (authData.user) {
-          // Create user record in users table
-          const newUserData = {
-            id: authData.user.id,
-            name: formData.name,
-            email: formData.email,
-            role: formData.role,
-            managed_accounts: formData.managed_accounts,
-          };
-          
-          const newUser = await addUser(newUserData);
-          if (newUser) {
-            setUsers(prev => [...prev, newUser]);
-            setSignupResult({ 
-              success: true, 
-              message: `User account created successfully! Login credentials have been set up for ${formData.email}` 
-            });
-            
-            // Auto-close modal after success
-            setTimeout(() => {
-              closeModal();
-            }, 3000);
-          } else {
-            // If user creation in database fails, we should clean up the auth user
-            try {
-              await supabase.auth.admin.deleteUser(authData.user.id);
-            } catch (cleanupError) {
-              console.warn('Could not clean up auth user:', cleanupError);
-            }
-            throw new Error('Failed to create user record in database');
-          }
-        } else {
-          throw new Error('Failed to create authentication account');
-        }
+        setSignupResult({
+          success: true,
+          message: `Invitation sent to ${formData.email}. They will choose a password when they open the link.`
+        });
+        setTimeout(() => {
+          closeModal();
+        }, 3000);
       }
-    } catch (err: any) {
+    } catch (err) {
       console.error('Error saving user:', err);
-      let errorMessage = 'An error occurred while saving the user.';
+      const message = toErrorMessage(err);
+      let errorMessage = message || 'An error occurred while saving the user.';
       
-      if (err.message?.includes('User already registered') || err.message?.includes('already been registered')) {
+      if (message.includes('already been registered') || message.includes('already registered')) {
         errorMessage = 'A user with this email address already exists.';
-      } else if (err.message?.includes('Password')) {
-        errorMessage = 'Password must be at least 6 characters long.';
-      } else if (err.message?.includes('Invalid email')) {
+      } else if (message.includes('Invalid email') || message.includes('invalid format')) {
         errorMessage = 'Please enter a valid email address.';
-      } else if (err.message?.includes('permission') || err.message?.includes('RLS')) {
+      } else if (message.includes('permission') || message.includes('RLS')) {
         errorMessage = 'Permission denied. Please check your access rights.';
-      } else if (err.message) {
-        errorMessage = err.message;
       }
       
       setSignupResult({ success: false, message: errorMessage });
@@ -303,15 +306,26 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     }
   };
 
+  const handleSendPasswordReset = async () => {
+    if (!editingUser) return;
+    try {
+      await requestPasswordReset(editingUser.email);
+      setSignupResult({ success: true, message: `Password reset email sent to ${editingUser.email}.` });
+    } catch (err) {
+      setSignupResult({ success: false, message: toErrorMessage(err) });
+    }
+  };
+
   const handleEdit = (user: UserType) => {
     setEditingUser(user);
     setFormData({
       name: user.name,
       email: user.email,
-      password: '', // Don't show existing password
       role: user.role,
-      managed_accounts: user.managed_accounts,
+      account_ids: getUserAccountIds(user.id),
+      must_change_password: !!user.must_change_password,
     });
+    setAccountsEffectiveFrom(todayIsoDate());
     setSignupResult(null);
     setShowModal(true);
   };
@@ -321,9 +335,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setFormData({
       name: '',
       email: '',
-      password: '',
       role: 'user',
-      managed_accounts: [],
+      account_ids: [],
+      must_change_password: false,
     });
     setSignupResult(null);
     setShowModal(true);
@@ -335,23 +349,12 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
       return;
     }
     
-    if (confirm('Are you sure you want to delete this user? This will also delete their authentication account and cannot be undone.')) {
+    if (confirm('Are you sure you want to delete this user? This will also delete their login and cannot be undone.')) {
       try {
-        // First delete from our users table
-        const success = await deleteUser(id);
-        if (success) {
-          // Then delete from Supabase Auth (if it exists)
-          try {
-            await supabase.auth.admin.deleteUser(id);
-          } catch (authError) {
-            console.warn('Could not delete auth user (may not exist):', authError);
-          }
-          
-          setUsers(prev => prev.filter(user => user.id !== id));
-        }
+        await deleteUser.mutateAsync(id);
       } catch (err) {
         console.error('Error deleting user:', err);
-        alert('Failed to delete user. Please try again.');
+        alert(`Failed to delete user: ${toErrorMessage(err)}`);
       }
     }
   };
@@ -365,22 +368,24 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
     setFormData({
       name: '',
       email: '',
-      password: '',
       role: 'user',
-      managed_accounts: [],
+      account_ids: [],
+      must_change_password: false,
     });
-    setShowPassword(false);
   };
 
   const handleAccountToggle = (accountId: string) => {
     setFormData(prev => ({
       ...prev,
-      managed_accounts: prev.managed_accounts.includes(accountId)
-        ? prev.managed_accounts.filter(id => id !== accountId)
-        : [...prev.managed_accounts, accountId]
+      account_ids: prev.account_ids.includes(accountId)
+        ? prev.account_ids.filter(id => id !== accountId)
+        : [...prev.account_ids, accountId]
     }));
   };
 
+  const getUserAccountIds = (userId: string) => getAssignedAccountIds(assignments, userId);
+  const getAccountOwnerId = (accountId: string): string | undefined => getAccountOwnerIds(assignments, accountId)[0];
+
   const getAccountName = (accountId: string) => {
     const account = accounts.find(acc => acc.id === accountId);
     return account ? `${account.username} (${account.account_code})` : 'Unknown Account';
@@ -388,7 +393,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
 
   const getUserStats = (user: UserType) => {
     return {
-      managedAccounts: user.managed_accounts.length,
+      managedAccounts: getUserAccountIds(user.id).length,
       joinDate: new Date(user.created_at).toLocaleDateString('id-ID', { 
         year: 'numeric', 
         month: 'long', 
@@ -406,13 +411,22 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
             <h1 className="text-2xl font-bold text-gray-900">Team Management</h1>
             <p className="text-gray-600">Manage user accounts and permissions</p>
           </div>
-          <button
-            onClick={handleAdd}
-            className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
-          >
-            <Plus className="w-4 h-4" />
-            <span>Add User</span>
-          </button>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => setShowGroupManagement(true)}
+              className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              <Users className="w-4 h-4" />
+              <span>Manage Teams</span>
+            </button>
+            <button
+              onClick={handleAdd}
+              className="flex items-center space-x-2 bg-purple-600 text-white px-4 py-2 rounded-lg hover:bg-purple-700 transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Invite User</span>
+            </button>
+          </div>
         </div>
 
         {/* Stats Cards */}
@@ -481,8 +495,9 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                 className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
               >
                 <option value="all">All Roles</option>
-                <option value="user">Users</option>
-                <option value="superadmin">Super Admins</option>
+                {ROLES.map(role => (
+                  <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                ))}
               </select>
             </div>
           </div>
@@ -507,10 +522,10 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     <div className="flex items-center justify-between">
                       <div className="flex items-center space-x-4">
                         <div className="w-12 h-12 bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg flex items-center justify-center">
-                          {user.role === 'superadmin' ? (
-                            <Shield className="w-6 h-6 text-purple-600" />
-                          ) : (
+                          {user.role === 'user' ? (
                             <User className="w-6 h-6 text-blue-600" />
+                          ) : (
+                            <Shield className="w-6 h-6 text-purple-600" />
                           )}
                         </div>
                         <div className="flex-1">
@@ -521,12 +536,13 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                                 You
                               </span>
                             )}
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                              user.role === 'superadmin' 
-                                ? 'bg-purple-100 text-purple-800' 
-                                : 'bg-blue-100 text-blue-800'
-                            }`}>
-                              {user.role === 'superadmin' ? 'Super Admin' : 'User'}
+                            {user.must_change_password && (
+                              <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                                Password not set
+                              </span>
+                            )}
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${ROLE_BADGE_COLORS[user.role]}`}>
+                              {ROLE_LABELS[user.role]}
                             </span>
                           </div>
                           <div className="flex items-center space-x-4 mt-1 text-sm text-gray-600">
@@ -538,33 +554,33 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                               <Calendar className="w-3 h-3" />
                               <span>Joined {stats.joinDate}</span>
                             </span>
-                            {user.role === 'user' && (
+                            {hasAssignedAccounts(user.role) && (
                               <span className="flex items-center space-x-1">
                                 <Users className="w-3 h-3" />
                                 <span>{stats.managedAccounts} accounts</span>
                               </span>
                             )}
                           </div>
-                          {user.role === 'user' && user.managed_accounts.length > 0 && (
+                          {hasAssignedAccounts(user.role) && stats.managedAccounts > 0 && (
                             <div className="mt-2">
-                              {user.managed_accounts.length <= 5 ? (
+                              {stats.managedAccounts <= 5 ? (
                                 <div className="flex flex-wrap gap-1">
-                                  {user.managed_accounts.map(accountId => (
+                                  {getUserAccountIds(user.id).map(accountId => (
                                     <span key={accountId} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
                                       {getAccountName(accountId)}
                                     </span>
                                   ))}
                                 </div>
-                              ) : user.managed_accounts.length <= 20 ? (
+                              ) : stats.managedAccounts <= 20 ? (
                                 <div className="space-y-1">
                                   <div className="flex flex-wrap gap-1">
-                                    {user.managed_accounts.slice(0, 3).map(accountId => (
+                                    {getUserAccountIds(user.id).slice(0, 3).map(accountId => (
                                       <span key={accountId} className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-700">
                                         {getAccountName(accountId)}
                                       </span>
                                     ))}
                                     <span className="inline-flex items-center px-2 py-0.5 rounded text-xs bg-blue-100 text-blue-700 font-medium">
-                                      +{user.managed_accounts.length - 3} more accounts
+                                      +{stats.managedAccounts - 3} more accounts
                                     </span>
                                   </div>
                                   <div className="text-xs text-gray-500">
@@ -580,7 +596,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                                       </div>
                                       <div>
                                         <div className="text-sm font-semibold text-blue-900">
-                                          {user.managed_accounts.length} Affiliate Accounts
+                                          {stats.managedAccounts} Affiliate Accounts
                                         </div>
                                         <div className="text-xs text-blue-700">
                                           Large portfolio - Click "Edit" to manage
@@ -592,7 +608,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                                         High Volume User
                                       </div>
                                       <div className="text-xs text-blue-500">
-                                        {user.managed_accounts.length > 100 ? '100+' : user.managed_accounts.length} accounts
+                                        {stats.managedAccounts > 100 ? '100+' : stats.managedAccounts} accounts
                                       </div>
                                     </div>
                                   </div>
@@ -659,7 +675,7 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
             <div className="p-6">
               <div className="flex items-center justify-between mb-6">
                 <h2 className="text-xl font-bold text-gray-900">
-                  {editingUser ? 'Edit User' : 'Create New User Account'}
+                  {editingUser ? 'Edit User' : 'Invite New User'}
                 </h2>
                 <button
                   onClick={closeModal}
@@ -683,20 +699,15 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     <h3 className={`font-medium ${
                       signupResult.success ? 'text-green-900' : 'text-red-900'
                     }`}>
-                      {signupResult.success ? 'Account Created Successfully!' : 'Account Creation Failed'}
+                      {signupResult.success
+                        ? (editingUser ? 'Done' : 'Invitation Sent')
+                        : (editingUser ? 'Update Failed' : 'Invitation Failed')}
                     </h3>
                     <p className={`text-sm ${
                       signupResult.success ? 'text-green-700' : 'text-red-700'
                     }`}>
                       {signupResult.message}
                     </p>
-                    {signupResult.success && !editingUser && (
-                      <div className="mt-2 p-2 bg-green-100 rounded text-xs text-green-800">
-                        <strong>Login Details:</strong><br />
-                        Email: {formData.email}<br />
-                        Password: {formData.password}
-                      </div>
-                    )}
                   </div>
                 </div>
               )}
@@ -741,30 +752,34 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-2">
-                      {editingUser ? 'New Password (leave blank to keep current)' : 'Password *'}
+                      Password
                     </label>
-                    <div className="relative">
-                      <input
-                        type={showPassword ? "text" : "password"}
-                        value={formData.password}
-                        onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                        className="w-full px-3 py-2 pr-10 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-                        placeholder={editingUser ? "Enter new password" : "Enter password"}
-                        required={!editingUser}
-                        minLength={6}
-                        disabled={isCreatingUser}
-                      />
-                      <button
-                        type="button"
-                        onClick={() => setShowPassword(!showPassword)}
-                        className="absolute right-3 top-1/2 transform -translate-y-1/2 text-gray-400 hover:text-gray-600"
-                        disabled={isCreatingUser}
-                      >
-                        {showPassword ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
-                      </button>
-                    </div>
-                    {!editingUser && (
-                      <p className="text-xs text-gray-500 mt-1">Password must be at least 6 characters long</p>
+                    {editingUser ? (
+                      <div className="space-y-2">
+                        <label className="flex items-center space-x-2 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={formData.must_change_password}
+                            onChange={(e) => setFormData({ ...formData, must_change_password: e.target.checked })}
+                            className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                            disabled={isCreatingUser}
+                          />
+                          <span>Require a new password at next login</span>
+                        </label>
+                        <button
+                          type="button"
+                          onClick={handleSendPasswordReset}
+                          className="flex items-center space-x-1 text-sm text-blue-600 hover:text-blue-700"
+                          disabled={isCreatingUser}
+                        >
+                          <KeyRound className="w-4 h-4" />
+                          <span>Send password reset email</span>
+                        </button>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-gray-600">
+                        An invitation is emailed to this address. The new user chooses their own password from the link.
+                      </p>
                     )}
                   </div>
                   
@@ -774,19 +789,21 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     </label>
                     <select
                       value={formData.role}
-                      onChange={(e) => setFormData({ ...formData, role: e.target.value as 'user' | 'superadmin' })}
+                      onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
                       className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
                       required
                       disabled={isCreatingUser}
                     >
-                      <option value="user">User</option>
-                      <option value="superadmin">Super Admin</option>
+                      {ROLES.map(role => (
+                        <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+                      ))}
                     </select>
+                    <p className="text-xs text-gray-500 mt-1">{ROLE_DESCRIPTIONS[formData.role]}</p>
                   </div>
                 </div>
 
-                {/* Account Management (only for regular users) */}
-                {formData.role === 'user' && (
+                {/* Account Management (only for roles that work on assigned accounts) */}
+                {hasAssignedAccounts(formData.role) && (
                   <div>
                     <label className="block text-sm font-medium text-gray-700 mb-3">
                       Managed Accounts
@@ -811,34 +828,24 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                      {(() => {
                        // Filter out accounts that are already managed by other users
                        const availableAccounts = filteredAccountsForSelection.filter(account => {
-                         // If editing a user, allow their currently managed accounts
-                         if (editingUser && editingUser.managed_accounts.includes(account.id)) {
-                           return true;
-                         }
-                         
-                         // Check if account is managed by any other user
-                         const isManaged = users.some(user => 
-                           user.id !== (editingUser?.id || 'new-user') && 
-                           user.managed_accounts.includes(account.id)
-                         );
-                         
-                         return !isManaged;
+                         const ownerId = getAccountOwnerId(account.id);
+                         return !ownerId || ownerId === editingUser?.id;
                        });
                        
                        return availableAccounts.length > 0 ? (
                         <div className="space-y-2">
                          {availableAccounts.map((account) => {
                            // Check if this account is managed by another user
-                           const managedByOtherUser = users.find(user => 
-                             user.id !== (editingUser?.id || 'new-user') && 
-                             user.managed_accounts.includes(account.id)
-                           );
+                           const ownerId = getAccountOwnerId(account.id);
+                           const managedByOtherUser = ownerId && ownerId !== editingUser?.id
+                             ? users.find(user => user.id === ownerId)
+                             : undefined;
                            
                            return (
                            <label key={account.id} className="flex items-center justify-between cursor-pointer hover:bg-gray-50 p-2 rounded border border-gray-100">
                               <input
                                 type="checkbox"
-                                checked={formData.managed_accounts.includes(account.id)}
+                                checked={formData.account_ids.includes(account.id)}
                                 onChange={() => handleAccountToggle(account.id)}
                                 className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
                                 disabled={isCreatingUser}
@@ -905,8 +912,26 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                      })()}
                     </div>
                     <p className="text-xs text-gray-500 mt-2">
-                      Select which accounts this user can manage. Accounts already managed by other users are not available for selection. Super admins have access to all accounts.
+                      Select which accounts this user can manage. Accounts already managed by other users are not available for selection; move them from the account's page instead. Super admins have access to all accounts.
                     </p>
+                    {editingUser && (
+                      <div className="mt-3">
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          Account changes effective from
+                        </label>
+                        <input
+                          type="date"
+                          value={accountsEffectiveFrom}
+                          max={todayIsoDate()}
+                          onChange={(e) => setAccountsEffectiveFrom(e.target.value)}
+                          className="px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                          disabled={isCreatingUser}
+                        />
+                        <p className="text-xs text-gray-500 mt-1">
+                          Sales before this date stay with the accounts' previous owners for incentives.
+                        </p>
+                      </div>
+                    )}
                   </div>
                 )}
                 
@@ -927,12 +952,12 @@ const TeamManagement: React.FC<TeamManagementProps> = ({ accounts, categories, c
                     {isCreatingUser ? (
                       <>
                         <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-                        <span>{editingUser ? 'Updating...' : 'Creating Account...'}</span>
+                        <span>{editingUser ? 'Updating...' : 'Sending Invitation...'}</span>
                       </>
                     ) : (
                       <>
-                        <Save className="w-4 h-4" />
-                        <span>{editingUser ? 'Update' : 'Create'} User</span>
+                        {editingUser ? <Save className="w-4 h-4" /> : <Send className="w-4 h-4" />}
+                        <span>{editingUser ? 'Update User' : 'Send Invitation'}</span>
                       </>
                     )}
                   </button>
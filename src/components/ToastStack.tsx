@@ -0,0 +1,50 @@
+import React from 'react';
+import { AlertCircle, CheckCircle, X } from 'lucide-react';
+import { Toast } from '../hooks/useToasts';
+
+interface ToastStackProps {
+  toasts: Toast[];
+  onDismiss: (id: number) => void;
+}
+
+const ToastStack: React.FC<ToastStackProps> = ({ toasts, onDismiss }) => {
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 space-y-2 w-96 max-w-[calc(100vw-2rem)]">
+      {toasts.map(toast => (
+        <div
+          key={toast.id}
+          className={`flex items-start space-x-3 p-3 rounded-lg shadow-lg border text-sm ${
+            toast.tone === 'error'
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-white border-gray-200 text-gray-800'
+          }`}
+        >
+          {toast.tone === 'error' ? (
+            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-600" />
+          ) : (
+            <CheckCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-green-600" />
+          )}
+          <span className="flex-1">{toast.message}</span>
+          {toast.action && (
+            <button
+              onClick={toast.action.onClick}
+              className="font-medium text-purple-600 hover:text-purple-800"
+            >
+              {toast.action.label}
+            </button>
+          )}
+          <button
+            onClick={() => onDismiss(toast.id)}
+            className="text-gray-400 hover:text-gray-600"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ToastStack;
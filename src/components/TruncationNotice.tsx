@@ -0,0 +1,25 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface TruncationNoticeProps {
+  shown: number;
+  what: string;
+  hint?: string;
+}
+
+// Shown when a paged fetch hit the row cap, so the screen is working from
+// part of the data
+const TruncationNotice: React.FC<TruncationNoticeProps> = ({
+  shown,
+  what,
+  hint = 'Narrow the date range or account filter to see everything.'
+}) => (
+  <div className="flex items-start space-x-2 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+    <span>
+      Only the first {shown.toLocaleString('id-ID')} {what} were loaded, so the figures below are incomplete. {hint}
+    </span>
+  </div>
+);
+
+export default TruncationNotice;
@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import { Plus, Edit2, Trash2, Users, X } from 'lucide-react';
+import { User, UserGroup } from '../types';
+import { can } from '../lib/permissions';
+
+interface UserGroupManagementProps {
+  groups: UserGroup[];
+  users: User[];
+  onAddGroup: (group: Omit<UserGroup, 'id' | 'created_at'>) => void;
+  onUpdateGroup: (id: string, group: Partial<UserGroup>) => void;
+  onDeleteGroup: (id: string) => void;
+}
+
+const UserGroupManagement: React.FC<UserGroupManagementProps> = ({
+  groups,
+  users,
+  onAddGroup,
+  onUpdateGroup,
+  onDeleteGroup,
+}) => {
+  const [showModal, setShowModal] = useState(false);
+  const [editingGroup, setEditingGroup] = useState<UserGroup | null>(null);
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    member_ids: [] as string[],
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (editingGroup) {
+      onUpdateGroup(editingGroup.id, formData);
+    } else {
+      onAddGroup(formData);
+    }
+
+    setShowModal(false);
+    setEditingGroup(null);
+    setFormData({ name: '', description: '', member_ids: [] });
+  };
+
+  const handleEdit = (group: UserGroup) => {
+    setEditingGroup(group);
+    setFormData({
+      name: group.name,
+      description: group.description || '',
+      member_ids: group.member_ids,
+    });
+    setShowModal(true);
+  };
+
+  const handleAdd = () => {
+    setEditingGroup(null);
+    setFormData({ name: '', description: '', member_ids: [] });
+    setShowModal(true);
+  };
+
+  const toggleMember = (userId: string) => {
+    setFormData(prev => ({
+      ...prev,
+      member_ids: prev.member_ids.includes(userId)
+        ? prev.member_ids.filter(id => id !== userId)
+        : [...prev.member_ids, userId],
+    }));
+  };
+
+  const getMemberNames = (group: UserGroup) =>
+    users.filter(user => group.member_ids.includes(user.id)).map(user => user.name);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Teams</h2>
+          <p className="text-sm text-gray-600">Group users into teams for pooled incentive campaigns</p>
+        </div>
+        <button
+          onClick={handleAdd}
+          className="flex items-center space-x-2 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Team</span>
+        </button>
+      </div>
+
+      {/* Groups List */}
+      <div className="bg-white rounded-xl border border-gray-100">
+        {groups.length > 0 ? (
+          <div className="divide-y divide-gray-100">
+            {groups.map((group) => {
+              const memberNames = getMemberNames(group);
+              return (
+                <div key={group.id} className="p-4 flex items-center justify-between hover:bg-gray-50">
+                  <div className="flex items-center space-x-3">
+                    <div className="w-10 h-10 bg-gradient-to-br from-blue-100 to-purple-100 rounded-lg flex items-center justify-center">
+                      <Users className="w-5 h-5 text-blue-600" />
+                    </div>
+                    <div>
+                      <h3 className="font-medium text-gray-900">{group.name}</h3>
+                      {group.description && (
+                        <p className="text-sm text-gray-500">{group.description}</p>
+                      )}
+                      <p className="text-xs text-gray-500">
+                        {memberNames.length > 0 ? memberNames.join(', ') : 'No members'}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleEdit(group)}
+                      className="p-2 text-gray-400 hover:text-blue-600 transition-colors"
+                    >
+                      <Edit2 className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => onDeleteGroup(group.id)}
+                      className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-12">
+            <Users className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No teams yet</h3>
+            <p className="text-gray-600 mb-4">Create a team to run pooled incentive campaigns</p>
+            <button
+              onClick={handleAdd}
+              className="bg-blue-600 text-white px-6 py-3 rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Add Your First Team
+            </button>
+          </div>
+        )}
+      </div>
+
+      {/* Modal */}
+      {showModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md mx-4">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-gray-900">
+                  {editingGroup ? 'Edit Team' : 'Add New Team'}
+                </h2>
+                <button
+                  onClick={() => setShowModal(false)}
+                  className="p-1 text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Team Name *
+                  </label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Enter team name"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Description
+                  </label>
+                  <textarea
+                    value={formData.description}
+                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    placeholder="Enter team description (optional)"
+                    rows={2}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Members ({formData.member_ids.length})
+                  </label>
+                  <div className="max-h-48 overflow-y-auto border border-gray-300 rounded-lg divide-y divide-gray-100">
+                    {users.filter(user => can(user, 'incentives.earn')).map(user => (
+                      <label key={user.id} className="flex items-center space-x-3 px-3 py-2 hover:bg-gray-50 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={formData.member_ids.includes(user.id)}
+                          onChange={() => toggleMember(user.id)}
+                          className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                        />
+                        <span className="text-sm text-gray-900">{user.name}</span>
+                        <span className="text-xs text-gray-500">{user.email}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex space-x-3 pt-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowModal(false)}
+                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                  >
+                    {editingGroup ? 'Update' : 'Add'} Team
+                  </button>
+                </div>
+              </form>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserGroupManagement;
@@ -0,0 +1,176 @@
+import * as api from '../lib/api';
+import { updateQueriesData } from '../lib/queryCache';
+import { Account, AccountAssignmentQuery, AccountQuery, PagedResult, SalesDataQuery, UserQuery } from '../types';
+import { useMutation, useQuery } from './useQuery';
+
+// Query keys. The first element names what a query depends on, so a mutation
+// can refresh every view of it with a one-element prefix.
+export const queryKeys = {
+  categories: ['categories'] as const,
+  accounts: (query: AccountQuery = {}) => ['accounts', query] as const,
+  users: (query: UserQuery = {}) => ['users', query] as const,
+  userGroups: ['userGroups'] as const,
+  salesData: (query: SalesDataQuery = {}) => ['sales', 'rows', query] as const,
+  dailySalesTotals: (query: SalesDataQuery = {}) => ['sales', 'daily', query] as const,
+  accountSalesTotals: (query: SalesDataQuery = {}) => ['sales', 'accounts', query] as const,
+  accountSalesCoverage: (query: SalesDataQuery = {}) => ['sales', 'coverage', query] as const,
+  assignmentSalesTotals: (query: SalesDataQuery = {}) => ['sales', 'assignments', query] as const,
+  accountAssignments: (query: AccountAssignmentQuery = {}) => ['accountAssignments', query] as const,
+  importBatches: (accountIds?: string[]) => ['sales', 'imports', accountIds ?? null] as const,
+  paymentHistory: (accountId: string) => ['accountHistory', 'payment', accountId] as const,
+  statusHistory: (accountId: string) => ['accountHistory', 'status', accountId] as const,
+  accountNotes: (accountId: string) => ['accountNotes', accountId] as const,
+  incentiveRules: ['incentiveRules'] as const,
+  incentivePayouts: (period: string) => ['incentivePayouts', period] as const,
+  incentivePoolPayouts: (period: string) => ['incentivePayouts', 'pools', period] as const,
+  incentiveMonthClose: (period: string) => ['incentiveMonthClose', period] as const,
+  files: ['files'] as const,
+};
+
+interface Enabled {
+  enabled?: boolean;
+}
+
+// Reads
+export const useCategories = (options?: Enabled) =>
+  useQuery(queryKeys.categories, api.fetchCategories, options);
+
+export const useAccounts = (query: AccountQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.accounts(query), () => api.fetchAccounts(query), options);
+
+export const useUsers = (query: UserQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.users(query), () => api.fetchUsers(query), options);
+
+export const useUserGroups = (options?: Enabled) =>
+  useQuery(queryKeys.userGroups, api.fetchUserGroups, options);
+
+export const useSalesData = (query: SalesDataQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.salesData(query), () => api.fetchSalesData(query), options);
+
+export const useDailySalesTotals = (query: SalesDataQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.dailySalesTotals(query), () => api.fetchDailySalesTotals(query), options);
+
+export const useAccountSalesTotals = (query: SalesDataQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.accountSalesTotals(query), () => api.fetchAccountSalesTotals(query), options);
+
+export const useAccountSalesCoverage = (query: SalesDataQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.accountSalesCoverage(query), () => api.fetchAccountSalesCoverage(query), options);
+
+export const useAssignmentSalesTotals = (query: SalesDataQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.assignmentSalesTotals(query), () => api.fetchAssignmentSalesTotals(query), options);
+
+export const useAccountAssignments = (query: AccountAssignmentQuery = {}, options?: Enabled) =>
+  useQuery(queryKeys.accountAssignments(query), () => api.fetchAccountAssignments(query), options);
+
+export const useImportBatches = (accountIds?: string[], options?: Enabled) =>
+  useQuery(queryKeys.importBatches(accountIds), () => api.fetchImportBatches(accountIds), options);
+
+export const usePaymentHistory = (accountId: string, options?: Enabled) =>
+  useQuery(queryKeys.paymentHistory(accountId), () => api.fetchPaymentHistory(accountId), options);
+
+export const useAccountStatusHistory = (accountId: string, options?: Enabled) =>
+  useQuery(queryKeys.statusHistory(accountId), () => api.fetchAccountStatusHistory(accountId), options);
+
+export const useAccountNotes = (accountId: string, options?: Enabled) =>
+  useQuery(queryKeys.accountNotes(accountId), () => api.fetchAccountNotes(accountId), options);
+
+export const useIncentiveRules = (options?: Enabled) =>
+  useQuery(queryKeys.incentiveRules, api.fetchIncentiveRules, options);
+
+export const useIncentivePayouts = (period: string, options?: Enabled) =>
+  useQuery(queryKeys.incentivePayouts(period), () => api.fetchIncentivePayouts(period), options);
+export const useIncentivePoolPayouts = (period: string, options?: Enabled) =>
+  useQuery(queryKeys.incentivePoolPayouts(period), () => api.fetchIncentivePoolPayouts(period), options);
+export const useIncentiveMonthClose = (period: string, options?: Enabled) =>
+  useQuery(queryKeys.incentiveMonthClose(period), () => api.fetchIncentiveMonthClose(period), options);
+
+export const useFiles = (options?: Enabled) =>
+  useQuery(queryKeys.files, api.fetchFiles, options);
+
+// Writes, each refreshing the queries that read what it changes. Account
+// scoping goes through account_assignments, and deleting an account cascades
+// to its sales data and assignments.
+export const useAddCategory = () => useMutation(api.addCategory, { invalidates: [['categories']] });
+export const useUpdateCategory = () => useMutation(api.updateCategory, { invalidates: [['categories']] });
+export const useDeleteCategory = () => useMutation(api.deleteCategory, { invalidates: [['categories']] });
+
+export const useAddAccount = () => useMutation(api.addAccount, { invalidates: [['accounts'], ['accountAssignments']] });
+export const useUpdateAccount = () => useMutation(api.updateAccount, { invalidates: [['accounts'], ['accountHistory']] });
+
+// Writes the fields into every cached account list and returns what they held
+const patchCachedAccount = (id: string, updates: Partial<Account>): Partial<Account> => {
+  let previous: Partial<Account> = {};
+  updateQueriesData<PagedResult<Account>>(['accounts'], page => ({
+    ...page,
+    rows: page.rows.map(account => {
+      if (account.id !== id) return account;
+      previous = Object.fromEntries(Object.keys(updates).map(field => [field, account[field as keyof Account]]));
+      return { ...account, ...updates };
+    }),
+  }));
+  return previous;
+};
+
+// Puts back the previous values of the fields that still hold what `written`
+// put there; a field another edit changed since keeps that edit
+const restoreCachedAccount = (id: string, previous: Partial<Account>, written: Partial<Account>) => {
+  updateQueriesData<PagedResult<Account>>(['accounts'], page => ({
+    ...page,
+    rows: page.rows.map(account => {
+      if (account.id !== id) return account;
+      const untouched = (Object.keys(previous) as (keyof Account)[]).filter(field => account[field] === written[field]);
+      return { ...account, ...Object.fromEntries(untouched.map(field => [field, previous[field]])) };
+    }),
+  }));
+};
+
+// Inline edits show straight away. A rejected edit only puts back the fields
+// it changed and nobody changed again, so other edits made in the meantime
+// stay.
+export const useOptimisticUpdateAccount = () => useMutation(api.updateAccount, {
+  invalidates: [['accounts'], ['accountHistory']],
+  optimistic: (id, updates) => {
+    const previous = patchCachedAccount(id, updates);
+    return () => restoreCachedAccount(id, previous, updates);
+  },
+});
+
+export const useChangePaymentStatus = () =>
+  useMutation(api.changePaymentStatus, { invalidates: [['accounts'], ['accountHistory']] });
+
+export const useAddAccountNote = () => useMutation(api.addAccountNote, { invalidates: [['accountNotes']] });
+export const useDeleteAccountNote = () => useMutation(api.deleteAccountNote, { invalidates: [['accountNotes']] });
+
+export const useDeleteAccount = () =>
+  useMutation(api.deleteAccount, { invalidates: [['accounts'], ['accountAssignments'], ['sales']] });
+
+export const useAssignAccount = () =>
+  useMutation(api.assignAccount, { invalidates: [['accountAssignments'], ['accounts'], ['sales']] });
+export const useSetUserAccounts = () =>
+  useMutation(api.setUserAccounts, { invalidates: [['accountAssignments'], ['accounts'], ['sales']] });
+
+export const useDeleteSalesData = () => useMutation(api.deleteSalesData, { invalidates: [['sales']] });
+export const useImportSalesBatch = () => useMutation(api.importSalesBatch, { invalidates: [['sales']] });
+export const useRollbackImportBatch = () => useMutation(api.rollbackImportBatch, { invalidates: [['sales']] });
+
+export const useInviteUser = () => useMutation(api.inviteUser, { invalidates: [['users'], ['accountAssignments']] });
+export const useUpdateUser = () => useMutation(api.updateUser, { invalidates: [['users'], ['accounts'], ['sales']] });
+export const useDeleteUser = () => useMutation(api.deleteUser, { invalidates: [['users'], ['accountAssignments']] });
+export const useUpdateProfile = () => useMutation(api.updateProfile, { invalidates: [['users']] });
+
+export const useAddUserGroup = () => useMutation(api.addUserGroup, { invalidates: [['userGroups']] });
+export const useUpdateUserGroup = () => useMutation(api.updateUserGroup, { invalidates: [['userGroups']] });
+export const useDeleteUserGroup = () => useMutation(api.deleteUserGroup, { invalidates: [['userGroups']] });
+
+export const useAddIncentiveRule = () => useMutation(api.addIncentiveRule, { invalidates: [['incentiveRules']] });
+export const useCreateIncentiveRuleVersion = () =>
+  useMutation(api.createIncentiveRuleVersion, { invalidates: [['incentiveRules']] });
+export const useEndIncentiveRule = () => useMutation(api.endIncentiveRule, { invalidates: [['incentiveRules']] });
+
+export const useCloseIncentiveMonth = () =>
+  useMutation(api.closeIncentiveMonth, { invalidates: [['incentivePayouts'], ['incentiveMonthClose']] });
+export const useUpdatePayoutStatus = () => useMutation(api.updatePayoutStatus, { invalidates: [['incentivePayouts']] });
+
+export const useAddFile = () => useMutation(api.addFile, { invalidates: [['files']] });
+export const useUpdateFile = () => useMutation(api.updateFile, { invalidates: [['files']] });
+export const useDeleteFile = () => useMutation(api.deleteFile, { invalidates: [['files']] });
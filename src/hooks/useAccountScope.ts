@@ -0,0 +1,36 @@
+import { useMemo } from 'react';
+import { User } from '../types';
+import { useAccountAssignments, useUserGroups } from './queries';
+import { getDataScope, getScopeUserIds } from '../lib/permissions';
+import { dayRange, getAssignedAccountIds } from '../lib/assignments';
+
+interface AccountScope {
+  userIds: string[] | undefined;
+  assignedAccountIds: string[];
+  isReady: boolean;
+}
+
+// The userIds filter for the user's scoped queries and, for users who only see
+// their own accounts, the accounts assigned to them today. A team lead's scope comes from their teams, so it isn't
+// ready until those have loaded; if they fail to load the lead is limited to
+// their own accounts.
+export const useAccountScope = (user: Pick<User, 'id' | 'role'> | null | undefined): AccountScope => {
+  const dataScope = user ? getDataScope(user) : null;
+  const isTeamScope = dataScope === 'team';
+  const userGroupsQuery = useUserGroups({ enabled: isTeamScope });
+  const userGroups = userGroupsQuery.data;
+  const isLoadingGroups = userGroupsQuery.isLoading;
+
+  const assignmentsQuery = useAccountAssignments(
+    { userIds: user ? [user.id] : [], range: dayRange() },
+    { enabled: dataScope === 'own' }
+  );
+  const assignments = assignmentsQuery.data;
+  const isLoadingAssignments = assignmentsQuery.isLoading;
+
+  return useMemo(() => ({
+    userIds: user ? getScopeUserIds(user, userGroups || []) : [],
+    assignedAccountIds: user && assignments ? getAssignedAccountIds(assignments.rows, user.id) : [],
+    isReady: !!user && !isLoadingGroups && !isLoadingAssignments,
+  }), [user, userGroups, isLoadingGroups, assignments, isLoadingAssignments]);
+};
@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { Account, AccountAssignment, AccountCoverageGap, DateRange } from '../types';
+import { useAccountSalesCoverage } from './queries';
+import { findCoverageGaps, findUserCoverageGaps } from '../lib/salesCoverage';
+import { todayIsoDate } from '../lib/salesAggregates';
+
+interface CoverageGaps {
+  gaps: AccountCoverageGap[];
+  isLoading: boolean;
+  error: string | null;
+  truncated: boolean;
+}
+
+interface UserCoverageGaps extends Omit<CoverageGaps, 'gaps'> {
+  gapsByUser: Map<string, AccountCoverageGap[]>;
+}
+
+// The accounts missing sales data somewhere in the range. Coverage includes
+// the days the user's scope owned an account, also after it moved on; only
+// the given accounts are checked.
+export const useCoverageGaps = (accounts: Account[], range: DateRange, options?: { enabled?: boolean }): CoverageGaps => {
+  const coverageQuery = useAccountSalesCoverage({ range }, options);
+  const today = todayIsoDate();
+  const { start, end } = range;
+
+  const gaps = useMemo(() => {
+    if (!coverageQuery.data) return [];
+    return findCoverageGaps(accounts, coverageQuery.data.rows, { start, end }, today);
+  }, [accounts, coverageQuery.data, start, end, today]);
+
+  return {
+    gaps,
+    isLoading: coverageQuery.isLoading,
+    error: coverageQuery.error,
+    truncated: coverageQuery.data?.truncated || false,
+  };
+};
+
+// Per user, the accounts missing sales data on days the user owned them.
+// Days owned by someone else don't count against the user.
+export const useUserCoverageGaps = (
+  userIds: string[],
+  accounts: Account[],
+  assignments: AccountAssignment[],
+  range: DateRange,
+  options?: { enabled?: boolean }
+): UserCoverageGaps => {
+  const coverageQuery = useAccountSalesCoverage({ range }, options);
+  const today = todayIsoDate();
+  const { start, end } = range;
+
+  const gapsByUser = useMemo(() => {
+    if (!coverageQuery.data) return new Map<string, AccountCoverageGap[]>();
+    const rows = coverageQuery.data.rows;
+    return new Map(userIds.map(userId => [
+      userId,
+      findUserCoverageGaps(userId, accounts, rows, assignments, { start, end }, today),
+    ]));
+  }, [userIds, accounts, assignments, coverageQuery.data, start, end, today]);
+
+  return {
+    gapsByUser,
+    isLoading: coverageQuery.isLoading,
+    error: coverageQuery.error,
+    truncated: coverageQuery.data?.truncated || false,
+  };
+};
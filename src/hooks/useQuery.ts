@@ -0,0 +1,104 @@
+import { useState, useEffect, useMemo, useRef, useCallback, useSyncExternalStore } from 'react';
+import {
+  DEFAULT_STALE_TIME,
+  QueryKey,
+  fetchQuery,
+  getQueryState,
+  hashQueryKey,
+  invalidateQueries,
+  isQueryStale,
+  subscribeQuery,
+  toErrorMessage
+} from '../lib/queryCache';
+
+interface QueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+export interface QueryResult<T> {
+  data: T | undefined;
+  error: string | null;
+  isLoading: boolean; // nothing to show yet
+  isFetching: boolean; // any request in flight, including background refreshes
+  refetch: () => Promise<void>;
+}
+
+export const useQuery = <T>(
+  key: QueryKey,
+  fetcher: () => Promise<T>,
+  { enabled = true, staleTime = DEFAULT_STALE_TIME }: QueryOptions = {}
+): QueryResult<T> => {
+  const hash = hashQueryKey(key);
+  // Keys and fetchers are rebuilt every render; only a change of hash matters.
+  // The key parsed back from its hash hashes the same and stays the same
+  // object until the hash changes.
+  const stableKey = useMemo<QueryKey>(() => JSON.parse(hash), [hash]);
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const subscribe = useCallback((listener: () => void) => subscribeQuery(stableKey, listener), [stableKey]);
+  const getSnapshot = useCallback(() => getQueryState<T>(stableKey), [stableKey]);
+  const state = useSyncExternalStore(subscribe, getSnapshot);
+
+  const refetch = useCallback(() => fetchQuery(stableKey, () => fetcherRef.current()), [stableKey]);
+
+  useEffect(() => {
+    if (enabled && isQueryStale(stableKey, staleTime)) refetch();
+  }, [stableKey, enabled, staleTime, refetch]);
+
+  return {
+    data: state.data,
+    error: state.error,
+    isLoading: enabled && state.data === undefined && state.error === null,
+    isFetching: state.isFetching,
+    refetch,
+  };
+};
+
+interface MutationOptions<TArgs extends unknown[]> {
+  // Queries to refresh after a successful call, by key prefix
+  invalidates?: QueryKey[];
+  // Writes the expected result into the cache before the request is sent and
+  // returns the function that takes it out again if the request fails
+  optimistic?: (...args: TArgs) => () => void;
+}
+
+export interface MutationResult<TArgs extends unknown[], TResult> {
+  // Resolves to null when the call failed; the reason is in error
+  mutate: (...args: TArgs) => Promise<TResult | null>;
+  // Same, but rejects on failure, for callers that report each call on its own
+  mutateAsync: (...args: TArgs) => Promise<TResult>;
+  isPending: boolean;
+  error: string | null;
+}
+
+export const useMutation = <TArgs extends unknown[], TResult>(
+  mutationFn: (...args: TArgs) => Promise<TResult>,
+  { invalidates = [], optimistic }: MutationOptions<TArgs> = {}
+): MutationResult<TArgs, TResult> => {
+  const [pendingCount, setPendingCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const mutateAsync = async (...args: TArgs): Promise<TResult> => {
+    setPendingCount(count => count + 1);
+    setError(null);
+    const rollback = optimistic?.(...args);
+
+    try {
+      const result = await mutationFn(...args);
+      invalidates.forEach(invalidateQueries);
+      return result;
+    } catch (err) {
+      rollback?.();
+      setError(toErrorMessage(err));
+      throw err;
+    } finally {
+      setPendingCount(count => count - 1);
+    }
+  };
+
+  const mutate = (...args: TArgs): Promise<TResult | null> => mutateAsync(...args).catch(() => null);
+
+  return { mutate, mutateAsync, isPending: pendingCount > 0, error };
+};
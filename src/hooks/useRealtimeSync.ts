@@ -0,0 +1,16 @@
+import { useEffect, useSyncExternalStore } from 'react';
+import { getRemoteChanges, startRealtimeSync, subscribeRemoteChanges } from '../lib/realtime';
+import { RemoteChange } from '../types';
+
+// Keeps the cached queries in step with writes from other sessions while a
+// user is logged in
+export const useRealtimeSync = (currentUserId: string | undefined) => {
+  useEffect(() => {
+    if (!currentUserId) return;
+    return startRealtimeSync(currentUserId);
+  }, [currentUserId]);
+};
+
+// Changes other users made since login, newest first
+export const useRemoteChanges = (): RemoteChange[] =>
+  useSyncExternalStore(subscribeRemoteChanges, getRemoteChanges);
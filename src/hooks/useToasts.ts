@@ -0,0 +1,28 @@
+import { useState, useRef, useCallback } from 'react';
+
+export interface Toast {
+  id: number;
+  key: string; // a newer toast with the same key replaces the older one
+  tone: 'info' | 'error';
+  message: string;
+  action?: { label: string; onClick: () => void };
+}
+
+// Short-lived messages stacked in a corner of the screen
+export const useToasts = () => {
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  const dismissToast = useCallback((id: number) => {
+    setToasts(prev => prev.filter(toast => toast.id !== id));
+  }, []);
+
+  const showToast = useCallback((toast: Omit<Toast, 'id'>, duration: number) => {
+    const id = ++nextId.current;
+    setToasts(prev => [...prev.filter(existing => existing.key !== toast.key), { ...toast, id }]);
+    setTimeout(() => dismissToast(id), duration);
+    return id;
+  }, [dismissToast]);
+
+  return { toasts, showToast, dismissToast };
+};
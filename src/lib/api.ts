@@ -0,0 +1,813 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { Account, AccountNote, AccountStatusHistoryEntry, Category, PaymentHistoryEntry, PaymentStatus, SalesData, User, IncentiveRule, IncentiveRuleDraft, UserGroup, FileData, IncentivePayout, IncentivePoolPayout, IncentiveMonthClose, PayoutStatus, SalesImportBatch, SalesImportFile, DateRange, DailySalesTotals, AccountSalesTotals, AccountSalesCoverage, AssignmentSalesTotals, AccountAssignment, AccountAssignmentQuery, UserMonthlySalesTotals, PagedResult, SalesDataQuery, AccountQuery, UserQuery, UserInvite } from '../types';
+import { PayoutSnapshot, PoolPayoutSnapshot } from './incentives';
+import { dayRange } from './assignments';
+import { shiftDate } from './ruleVersions';
+import { emptyPage, fetchAllPages } from './pagination';
+
+// Supabase reads and writes. Every function throws on failure; loading and
+// error state live in the query layer (hooks/useQuery).
+
+// Import batch columns without the original file, which can be large and is
+// only loaded on demand
+const IMPORT_BATCH_COLUMNS = 'id, kind, account_id, file_name, uploaded_by, uploaded_by_name, dates, row_count, previous_rows, status, rolled_back_by, rolled_back_at, created_at';
+
+// Accounts a scoped query is limited to, or null for every account the caller
+// can see. userIds narrows the scope to the accounts currently assigned to
+// those users.
+const resolveAccountScope = async (accountIds?: string[], userIds?: string[]): Promise<string[] | null> => {
+  if (!userIds) return accountIds ?? null;
+  if (userIds.length === 0) return [];
+
+  const { rows } = await fetchAccountAssignments({ userIds, range: dayRange() });
+  const assigned = new Set(rows.map(assignment => assignment.account_id));
+  return accountIds ? accountIds.filter(id => assigned.has(id)) : [...assigned];
+};
+
+
+// Categories
+export const fetchCategories = async (): Promise<Category[]> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .select('*')
+    .order('name');
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+export const addCategory = async (category: Omit<Category, 'id' | 'created_at'>): Promise<Category | null> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .insert([category])
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const updateCategory = async (id: string, updates: Partial<Category>): Promise<Category | null> => {
+  const { data, error } = await supabase
+    .from('categories')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const deleteCategory = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('categories')
+    .delete()
+    .eq('id', id);
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+// Accounts
+export const fetchAccounts = async (query: AccountQuery = {}): Promise<PagedResult<Account>> => {
+  const accountIds = await resolveAccountScope(query.accountIds, query.userIds);
+  if (accountIds && accountIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<Account>((from, to) => {
+    let request = supabase
+      .from('accounts')
+      .select('*', { count: 'exact' });
+
+    if (accountIds) request = request.in('id', accountIds);
+
+    return request
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to);
+  });
+};
+
+// The database assigns the account to its creator unless they see every
+// account (see account_assignments)
+export const addAccount = async (account: Omit<Account, 'id' | 'created_at'>): Promise<Account | null> => {
+  const { data, error } = await supabase
+    .from('accounts')
+    .insert([{ ...account, category_id: account.category_id || null }])
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const updateAccount = async (id: string, updates: Partial<Account>): Promise<Account> => {
+  const { data, error } = await supabase
+    .from('accounts')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  // Policies hide accounts the user may not change, so the update matched nothing
+  if (!data) throw new Error('Account not found or not editable');
+  
+  return data;
+};
+
+// The database checks the step against the payment workflow and records it,
+// with the note, in account_payment_history
+export const changePaymentStatus = async (accountId: string, status: PaymentStatus, note: string): Promise<Account> => {
+  const { data, error } = await supabase.rpc('change_payment_status', {
+    p_account_id: accountId,
+    p_status: status,
+    p_note: note,
+  });
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const fetchPaymentHistory = async (accountId: string): Promise<PaymentHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('account_payment_history')
+    .select('*')
+    .eq('account_id', accountId)
+    .order('created_at', { ascending: false });
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+export const fetchAccountStatusHistory = async (accountId: string): Promise<AccountStatusHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('account_status_history')
+    .select('*')
+    .eq('account_id', accountId)
+    .order('created_at', { ascending: false });
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+export const fetchAccountNotes = async (accountId: string): Promise<AccountNote[]> => {
+  const { data, error } = await supabase
+    .from('account_notes')
+    .select('*')
+    .eq('account_id', accountId)
+    .order('created_at', { ascending: false });
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+// The author is stamped by the database
+export const addAccountNote = async (accountId: string, body: string): Promise<AccountNote> => {
+  const { data, error } = await supabase
+    .from('account_notes')
+    .insert([{ account_id: accountId, body }])
+    .select()
+    .single();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const deleteAccountNote = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('account_notes')
+    .delete()
+    .eq('id', id);
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+export const deleteAccount = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('accounts')
+    .delete()
+    .eq('id', id);
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+// Sales Data
+export const fetchSalesData = async (query: SalesDataQuery = {}): Promise<PagedResult<SalesData>> => {
+  const accountIds = await resolveAccountScope(query.accountIds, query.userIds);
+  if (accountIds && accountIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<SalesData>((from, to) => {
+    let request = supabase
+      .from('sales_data')
+      .select('*', { count: 'exact' });
+
+    if (accountIds) request = request.in('account_id', accountIds);
+
+    if (query.range) {
+      request = request
+        .gte('date', query.range.start)
+        .lte('date', query.range.end);
+    }
+
+    return request
+      .order('date', { ascending: false })
+      .order('account_id')
+      .range(from, to);
+  });
+};
+
+export const deleteSalesData = async (accountId: string, dateRange?: { start: string; end: string }): Promise<SalesImportBatch | null> => {
+  // The server records the deleted rows as a batch, so the delete shows up
+  // in the import history and can be rolled back
+  const { data, error } = await supabase.rpc('delete_sales_range', {
+    p_account_id: accountId,
+    p_start: dateRange?.start ?? null,
+    p_end: dateRange?.end ?? null,
+  });
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+// Sales Aggregates
+// Same scoping as fetchSalesData; the functions return one row per group, so
+// the pages are over days, accounts or user months rather than raw rows
+export const fetchDailySalesTotals = async (query: SalesDataQuery = {}): Promise<PagedResult<DailySalesTotals>> => {
+  const accountIds = await resolveAccountScope(query.accountIds, query.userIds);
+  if (accountIds && accountIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<DailySalesTotals>((from, to) =>
+    supabase
+      .rpc('sales_daily_totals', {
+        p_start: query.range?.start ?? null,
+        p_end: query.range?.end ?? null,
+        p_account_ids: accountIds,
+      }, { count: 'exact' })
+      .order('date')
+      .range(from, to)
+  );
+};
+
+export const fetchAccountSalesTotals = async (query: SalesDataQuery = {}): Promise<PagedResult<AccountSalesTotals>> => {
+  const accountIds = await resolveAccountScope(query.accountIds, query.userIds);
+  if (accountIds && accountIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<AccountSalesTotals>((from, to) =>
+    supabase
+      .rpc('sales_account_totals', {
+        p_start: query.range?.start ?? null,
+        p_end: query.range?.end ?? null,
+        p_account_ids: accountIds,
+      }, { count: 'exact' })
+      .order('account_id')
+      .range(from, to)
+  );
+};
+
+export const fetchAccountSalesCoverage = async (query: SalesDataQuery = {}): Promise<PagedResult<AccountSalesCoverage>> => {
+  const accountIds = await resolveAccountScope(query.accountIds, query.userIds);
+  if (accountIds && accountIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<AccountSalesCoverage>((from, to) =>
+    supabase
+      .rpc('sales_account_coverage', {
+        p_start: query.range?.start ?? null,
+        p_end: query.range?.end ?? null,
+        p_account_ids: accountIds,
+      }, { count: 'exact' })
+      .order('account_id')
+      .range(from, to)
+  );
+};
+
+export const fetchUserMonthlySalesTotals = async (range?: DateRange): Promise<PagedResult<UserMonthlySalesTotals>> => {
+  return await fetchAllPages<UserMonthlySalesTotals>((from, to) =>
+    supabase
+      .rpc('sales_user_monthly_totals', {
+        p_start: range?.start ?? null,
+        p_end: range?.end ?? null,
+      }, { count: 'exact' })
+      .order('period')
+      .order('user_id')
+      .range(from, to)
+  );
+};
+
+export const fetchAssignmentSalesTotals = async (query: SalesDataQuery = {}): Promise<PagedResult<AssignmentSalesTotals>> => {
+  const accountIds = await resolveAccountScope(query.accountIds, query.userIds);
+  if (accountIds && accountIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<AssignmentSalesTotals>((from, to) =>
+    supabase
+      .rpc('sales_assignment_totals', {
+        p_start: query.range?.start ?? null,
+        p_end: query.range?.end ?? null,
+        p_account_ids: accountIds,
+      }, { count: 'exact' })
+      .order('account_id')
+      .order('user_id')
+      .range(from, to)
+  );
+};
+
+// Account assignments
+export const fetchAccountAssignments = async (query: AccountAssignmentQuery = {}): Promise<PagedResult<AccountAssignment>> => {
+  if (query.accountIds?.length === 0 || query.userIds?.length === 0) return emptyPage();
+
+  return await fetchAllPages<AccountAssignment>((from, to) => {
+    let request = supabase
+      .from('account_assignments')
+      .select('*', { count: 'exact' });
+
+    if (query.accountIds) request = request.in('account_id', query.accountIds);
+    if (query.userIds) request = request.in('user_id', query.userIds);
+    if (query.range) {
+      // Open-ended assignments overlap any range on their open side
+      const { start, end } = query.range;
+      request = request.or(`and(or(starts_on.is.null,starts_on.lte.${end}),or(ends_on.is.null,ends_on.gte.${start}))`);
+    }
+
+    return request
+      .order('account_id')
+      .order('starts_on', { ascending: true, nullsFirst: true })
+      .range(from, to);
+  });
+};
+
+// Moves the account to the user (null unassigns it) from the effective date
+// on; the previous owner keeps the days before it
+export const assignAccount = async (accountId: string, userId: string | null, effectiveFrom?: string): Promise<boolean> => {
+  const { error } = await supabase.rpc('assign_account', {
+    p_account_id: accountId,
+    p_user_id: userId,
+    ...(effectiveFrom ? { p_effective: effectiveFrom } : {}),
+  });
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+// Makes accountIds exactly the accounts assigned to the user from the
+// effective date on
+export const setUserAccounts = async (userId: string, accountIds: string[], effectiveFrom?: string): Promise<boolean> => {
+  const { error } = await supabase.rpc('set_user_accounts', {
+    p_user_id: userId,
+    p_account_ids: accountIds,
+    ...(effectiveFrom ? { p_effective: effectiveFrom } : {}),
+  });
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+// Sales Import Batches
+export const fetchImportBatches = async (accountIds?: string[]): Promise<PagedResult<SalesImportBatch>> => {
+  if (accountIds && accountIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<SalesImportBatch>((from, to) => {
+    let request = supabase
+      .from('sales_import_batches')
+      .select(IMPORT_BATCH_COLUMNS, { count: 'exact' });
+
+    if (accountIds) request = request.in('account_id', accountIds);
+
+    return request
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to);
+  });
+};
+
+export const fetchImportBatchFile = async (id: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('sales_import_batches')
+    .select('file_content')
+    .eq('id', id)
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data?.file_content ?? null;
+};
+
+export const importSalesBatch = async (importFile: SalesImportFile): Promise<SalesImportBatch | null> => {
+  // Recording the batch, snapshotting overwritten rows and the upsert
+  // happen in one transaction on the server
+  const { data, error } = await supabase.rpc('import_sales_batch', {
+    p_account_id: importFile.account_id,
+    p_file_name: importFile.file_name,
+    p_file_content: importFile.file_content,
+    p_rows: importFile.rows,
+  });
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const rollbackImportBatch = async (id: string): Promise<SalesImportBatch | null> => {
+  const { data, error } = await supabase.rpc('rollback_sales_import', { p_batch_id: id });
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+// Users
+export const fetchUsers = async (query: UserQuery = {}): Promise<PagedResult<User>> => {
+  if (query.userIds && query.userIds.length === 0) return emptyPage();
+
+  return await fetchAllPages<User>((from, to) => {
+    let request = supabase
+      .from('users')
+      .select('*', { count: 'exact' });
+
+    if (query.userIds) request = request.in('id', query.userIds);
+
+    return request
+      .order('created_at', { ascending: false })
+      .order('id')
+      .range(from, to);
+  });
+};
+
+// User provisioning runs in the manage-users edge function, which holds the
+// service role key; the Auth admin API is never called from the browser
+const invokeManageUsers = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('manage-users', { body });
+  
+  if (error) {
+    // The function answers errors with { error: message }
+    const details = error instanceof FunctionsHttpError
+      ? await error.context.json().catch(() => null)
+      : null;
+    throw new Error(details?.error || error.message);
+  }
+  
+  return data;
+};
+
+// Emails the invitee a link to choose their password and creates their users row
+export const inviteUser = async (invite: UserInvite): Promise<User> =>
+  await invokeManageUsers<User>({ action: 'invite', ...invite, redirect_to: window.location.origin });
+
+export const updateUser = async (id: string, updates: Partial<User>): Promise<User | null> => {
+  const { data, error } = await supabase
+    .from('users')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+// Removes the users row and the login
+export const deleteUser = async (id: string): Promise<boolean> => {
+  await invokeManageUsers({ action: 'delete', user_id: id });
+  
+  return true;
+};
+
+// User Groups
+export const fetchUserGroups = async (): Promise<UserGroup[]> => {
+  const { data, error } = await supabase
+    .from('user_groups')
+    .select('*')
+    .order('name');
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+export const addUserGroup = async (group: Omit<UserGroup, 'id' | 'created_at'>): Promise<UserGroup | null> => {
+  const { data, error } = await supabase
+    .from('user_groups')
+    .insert([group])
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const updateUserGroup = async (id: string, updates: Partial<UserGroup>): Promise<UserGroup | null> => {
+  const { data, error } = await supabase
+    .from('user_groups')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const deleteUserGroup = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('user_groups')
+    .delete()
+    .eq('id', id);
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+// Incentive Rules
+export const fetchIncentiveRules = async (): Promise<IncentiveRule[]> => {
+  const { data: rulesData, error: rulesError } = await supabase
+    .from('incentive_rules')
+    .select('*')
+    .order('created_at', { ascending: false });
+  
+  if (rulesError) throw rulesError;
+  
+  const { data: tiersData, error: tiersError } = await supabase
+    .from('incentive_tiers')
+    .select('*')
+    .order('revenue_threshold');
+  
+  if (tiersError) throw tiersError;
+  
+  // Combine rules with their tiers
+  const rules: IncentiveRule[] = (rulesData || []).map(rule => ({
+    ...rule,
+    tiers: (tiersData || [])
+      .filter(tier => tier.rule_id === rule.id)
+      .map(tier => ({
+        id: tier.id,
+        revenue_threshold: tier.revenue_threshold,
+        incentive_rate: tier.incentive_rate,
+        created_at: tier.created_at,
+      }))
+  }));
+  
+  return rules;
+};
+
+// The version, its tiers and, for an edit, closing the version it replaces are
+// saved in one transaction on the server
+const saveRuleVersion = async (
+  draft: IncentiveRuleDraft,
+  effectiveFrom: string,
+  previousId: string | null
+): Promise<IncentiveRule> => {
+  const { tiers, ...rule } = draft;
+  const { data, error } = await supabase.rpc('save_incentive_rule_version', {
+    p_previous_id: previousId,
+    p_rule: rule,
+    p_tiers: tiers,
+    p_effective_from: effectiveFrom,
+  });
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const addIncentiveRule = (draft: IncentiveRuleDraft, effectiveFrom: string): Promise<IncentiveRule> =>
+  saveRuleVersion(draft, effectiveFrom, null);
+
+// Rule versions are immutable: an edit closes the previous version the day
+// before the new one takes effect and inserts the new version next to it
+export const createIncentiveRuleVersion = async (
+  previous: IncentiveRule,
+  draft: IncentiveRuleDraft,
+  effectiveFrom: string
+): Promise<{ previous: IncentiveRule; current: IncentiveRule } | null> => {
+  if (effectiveFrom <= previous.effective_from) {
+    throw new Error(`New version must take effect after ${previous.effective_from}`);
+  }
+  
+  const current = await saveRuleVersion(draft, effectiveFrom, previous.id);
+  const closedOn = shiftDate(effectiveFrom, -1);
+  const effectiveTo = previous.effective_to && previous.effective_to < closedOn ? previous.effective_to : closedOn;
+  
+  return { previous: { ...previous, effective_to: effectiveTo }, current };
+};
+
+// Ends the rule after effectiveTo by closing its current version. Earlier
+// versions and the days already in force keep it; a new version resumes it.
+export const endIncentiveRule = async (ruleKey: string, effectiveTo: string): Promise<IncentiveRule> => {
+  const { data, error } = await supabase.rpc('end_incentive_rule', {
+    p_rule_key: ruleKey,
+    p_effective_to: effectiveTo,
+  });
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+// Incentive Payouts
+export const fetchIncentivePayouts = async (period: string): Promise<IncentivePayout[]> => {
+  const { data, error } = await supabase
+    .from('incentive_payouts')
+    .select('*')
+    .eq('period', period)
+    .order('incentive_amount', { ascending: false });
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+export const fetchIncentivePoolPayouts = async (period: string): Promise<IncentivePoolPayout[]> => {
+  const { data, error } = await supabase
+    .from('incentive_pool_payouts')
+    .select('*')
+    .eq('period', period)
+    .order('pot_amount', { ascending: false });
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+// null while the month is still open
+export const fetchIncentiveMonthClose = async (period: string): Promise<IncentiveMonthClose | null> => {
+  const { data, error } = await supabase
+    .from('incentive_periods')
+    .select('*')
+    .eq('period', period)
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const closeIncentiveMonth = async (
+  period: string,
+  snapshots: PayoutSnapshot[],
+  poolSnapshots: PoolPayoutSnapshot[]
+): Promise<IncentivePayout[]> => {
+  // Marking the month closed and inserting its user and pool payouts happen
+  // in one transaction; closing an already closed month fails instead of
+  // overwriting the ledger
+  const { data, error } = await supabase.rpc('close_incentive_month', {
+    p_period: period,
+    p_payouts: snapshots,
+    p_pool_payouts: poolSnapshots,
+  });
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+// Who approved or paid the payout, and when, is recorded by the database
+export const updatePayoutStatus = async (id: string, status: PayoutStatus): Promise<IncentivePayout | null> => {
+  const { data, error } = await supabase
+    .from('incentive_payouts')
+    .update({ status })
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+// Profile Management
+export const updateProfile = async (userId: string, profileData: {
+  name?: string;
+  phone?: string;
+  address?: string;
+  bio?: string;
+}): Promise<User | null> => {
+  const { data, error } = await supabase
+    .from('users')
+    .update(profileData)
+    .eq('id', userId)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const changePassword = async (currentPassword: string, newPassword: string): Promise<boolean> => {
+  // First verify current password by attempting to sign in
+  const { data: currentUser } = await supabase.auth.getUser();
+  if (!currentUser.user?.email) {
+    throw new Error('No authenticated user found');
+  }
+
+  // Verify current password
+  const { error: signInError } = await supabase.auth.signInWithPassword({
+    email: currentUser.user.email,
+    password: currentPassword,
+  });
+
+  if (signInError) {
+    throw new Error('Current password is incorrect');
+  }
+
+  // Update password
+  const { error: updateError } = await supabase.auth.updateUser({
+    password: newPassword
+  });
+
+  if (updateError) throw updateError;
+  
+  return true;
+};
+
+// Emails a link that signs the user in to choose a new password
+export const requestPasswordReset = async (email: string): Promise<boolean> => {
+  const { error } = await supabase.auth.resetPasswordForEmail(email, {
+    redirectTo: window.location.origin,
+  });
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+// Sets the password of the signed-in user, after a reset link, an invite or
+// when a password change is required. The database then clears
+// must_change_password.
+export const setPassword = async (newPassword: string): Promise<boolean> => {
+  const { error } = await supabase.auth.updateUser({ password: newPassword });
+  
+  if (error) throw error;
+  
+  return true;
+};
+
+// Files
+export const fetchFiles = async (): Promise<FileData[]> => {
+  const { data, error } = await supabase
+    .from('files')
+    .select('*')
+    .order('is_pinned', { ascending: false })
+    .order('updated_at', { ascending: false });
+  
+  if (error) throw error;
+  
+  return data || [];
+};
+
+export const addFile = async (file: Omit<FileData, 'id' | 'created_at' | 'updated_at'>): Promise<FileData | null> => {
+  const { data, error } = await supabase
+    .from('files')
+    .insert([file])
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const updateFile = async (id: string, updates: Partial<FileData>): Promise<FileData | null> => {
+  const { data, error } = await supabase
+    .from('files')
+    .update(updates)
+    .eq('id', id)
+    .select()
+    .maybeSingle();
+  
+  if (error) throw error;
+  
+  return data;
+};
+
+export const deleteFile = async (id: string): Promise<boolean> => {
+  const { error } = await supabase
+    .from('files')
+    .delete()
+    .eq('id', id);
+  
+  if (error) throw error;
+  
+  return true;
+};
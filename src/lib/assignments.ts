@@ -0,0 +1,45 @@
+import { AccountAssignment, DateRange } from '../types';
+import { todayIsoDate } from './salesAggregates';
+
+// Reading account ownership from account_assignments. Every screen asks these
+// helpers who owns what instead of looking at accounts.user_id or
+// users.managed_accounts, which the database only keeps as copies.
+
+// A single day as a range, for "who owns it on this date"
+export const dayRange = (date: string = todayIsoDate()): DateRange => ({ start: date, end: date });
+
+export const overlapsRange = (assignment: AccountAssignment, range: DateRange): boolean =>
+  (!assignment.starts_on || assignment.starts_on <= range.end) &&
+  (!assignment.ends_on || assignment.ends_on >= range.start);
+
+// Accounts the user owned on any day of the range (today by default)
+export const getAssignedAccountIds = (
+  assignments: AccountAssignment[],
+  userId: string,
+  range: DateRange = dayRange()
+): string[] => [
+  ...new Set(
+    assignments
+      .filter(assignment => assignment.user_id === userId && overlapsRange(assignment, range))
+      .map(assignment => assignment.account_id)
+  ),
+];
+
+// Users who owned the account on any day of the range (today by default)
+export const getAccountOwnerIds = (
+  assignments: AccountAssignment[],
+  accountId: string,
+  range: DateRange = dayRange()
+): string[] => [
+  ...new Set(
+    assignments
+      .filter(assignment => assignment.account_id === accountId && overlapsRange(assignment, range))
+      .map(assignment => assignment.user_id)
+  ),
+];
+
+// An account's assignments, the latest first
+export const getAccountAssignmentHistory = (assignments: AccountAssignment[], accountId: string): AccountAssignment[] =>
+  assignments
+    .filter(assignment => assignment.account_id === accountId)
+    .sort((a, b) => (b.starts_on || '').localeCompare(a.starts_on || ''));
@@ -0,0 +1,73 @@
+import { Session } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { User } from '../types';
+
+// Messages shown on the login screen when a session ends without the user
+// logging out
+export const SESSION_EXPIRED_MESSAGE = 'Sesi Anda telah berakhir. Silakan masuk kembali.';
+export const SESSION_REVOKED_MESSAGE = 'Sesi Anda telah dicabut. Silakan masuk kembali.';
+
+// The app user behind a Supabase session: the users row with the same email,
+// created on first sign-in. If the row can't be read or written the user still
+// gets in, with the basic user role.
+export const loadSessionUser = async (session: Session): Promise<User> => {
+  const authUser = session.user;
+  const tokens = {
+    access_token: session.access_token,
+    refresh_token: session.refresh_token,
+  };
+  const newUser = {
+    id: authUser.id,
+    name: authUser.email?.split('@')[0] || 'User',
+    email: authUser.email || '',
+    role: 'user' as const,
+  };
+  const basicUser: User = { ...newUser, created_at: authUser.created_at };
+
+  try {
+    const { data, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('email', authUser.email)
+      .limit(1);
+
+    if (error) throw error;
+    if (data && data.length > 0) return { ...data[0], ...tokens };
+
+    const { data: insertedUser, error: insertError } = await supabase
+      .from('users')
+      .insert([newUser])
+      .select()
+      .maybeSingle();
+
+    if (insertError) {
+      console.error('Could not create user record:', insertError);
+      return { ...basicUser, ...tokens };
+    }
+    return { ...(insertedUser || basicUser), ...tokens };
+  } catch (err) {
+    console.error('Error in user data handling:', err);
+    return { ...basicUser, ...tokens };
+  }
+};
+
+// The user of the session saved in the browser, if it is still good.
+// getSession refreshes an expired access token first; a refresh token that
+// no longer works leaves no session.
+export const restoreSession = async (): Promise<User | null> => {
+  const { data, error } = await supabase.auth.getSession();
+  if (error || !data.session) return null;
+  return await loadSessionUser(data.session);
+};
+
+// Whether the server still accepts the current session. A session ended
+// elsewhere (logged out on every device, user removed) keeps a valid-looking
+// token locally until it expires; asking the server notices straight away.
+// Network failures count as valid, so being offline doesn't log anyone out.
+export const isSessionRevoked = async (): Promise<boolean> => {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) return false;
+
+  const { error } = await supabase.auth.getUser();
+  return !!error && (error.status === 401 || error.status === 403);
+};
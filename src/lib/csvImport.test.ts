@@ -0,0 +1,237 @@
+import { describe, expect, it } from 'vitest';
+import { Account } from '../types';
+import {
+  buildSalesImport,
+  detectHeaderRow,
+  guessColumnMapping,
+  matchAccountForFile,
+  parseCsv,
+  parseLocaleDate,
+  parseLocaleNumber,
+} from './csvImport';
+import indonesianExport from './__fixtures__/shopee-export-id.csv?raw';
+import englishExport from './__fixtures__/shopee-export-en.csv?raw';
+import exportWithErrors from './__fixtures__/shopee-export-errors.csv?raw';
+
+const importFile = (text: string) => {
+  const records = parseCsv(text);
+  const headerRow = detectHeaderRow(records);
+  return buildSalesImport(records, headerRow, guessColumnMapping(records[headerRow]));
+};
+
+describe('parseCsv', () => {
+  it('keeps delimiters, escaped quotes and line breaks inside quoted fields', () => {
+    expect(parseCsv('a,"b,c","say ""hi""","two\nlines"\n1,2,3,4')).toEqual([
+      ['a', 'b,c', 'say "hi"', 'two\nlines'],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('ends records on CRLF, LF and lone CR', () => {
+    expect(parseCsv('a,b\r\nc,d\ne,f\rg,h')).toEqual([['a', 'b'], ['c', 'd'], ['e', 'f'], ['g', 'h']]);
+  });
+
+  it('does not add a record for a trailing line break', () => {
+    expect(parseCsv('a,b\r\n')).toEqual([['a', 'b']]);
+  });
+
+  it('strips a byte order mark', () => {
+    expect(parseCsv('\ufeffTanggal,Klik\n2026-10-01,5')[0][0]).toBe('Tanggal');
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    expect(parseCsv('a;"b;c";d\n1;2,5;3')).toEqual([['a', 'b;c', 'd'], ['1', '2,5', '3']]);
+    expect(parseCsv('a\tb\n1\t2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('uses the given delimiter', () => {
+    expect(parseCsv('a;b,c', ',')).toEqual([['a;b', 'c']]);
+  });
+
+  it('reads the same records from a CRLF export with a byte order mark', () => {
+    const windowsExport = `\ufeff${indonesianExport.replace(/\n/g, '\r\n')}`;
+    expect(parseCsv(windowsExport)).toEqual(parseCsv(indonesianExport));
+  });
+
+  it('parses a semicolon-separated dashboard export', () => {
+    const records = parseCsv(indonesianExport);
+    expect(records[3]).toHaveLength(7);
+    expect(records[5][3]).toBe('Rp 845.210,50');
+  });
+});
+
+describe('parseLocaleNumber', () => {
+  it('reads Indonesian and English grouping', () => {
+    expect(parseLocaleNumber('Rp 1.234.567,89')).toBe(1234567.89);
+    expect(parseLocaleNumber('1,234,567.89')).toBe(1234567.89);
+    expect(parseLocaleNumber('Rp. 15.000')).toBe(15000);
+  });
+
+  it('treats a single separator grouping three digits as thousands', () => {
+    expect(parseLocaleNumber('1.234')).toBe(1234);
+    expect(parseLocaleNumber('1,234')).toBe(1234);
+    expect(parseLocaleNumber('1.234.567')).toBe(1234567);
+  });
+
+  it('treats any other single separator as a decimal point', () => {
+    expect(parseLocaleNumber('12,5')).toBe(12.5);
+    expect(parseLocaleNumber('1.23')).toBe(1.23);
+    expect(parseLocaleNumber('1234,5678')).toBe(1234.5678);
+  });
+
+  it('reads blanks and dashes as zero', () => {
+    expect(parseLocaleNumber('')).toBe(0);
+    expect(parseLocaleNumber(' - ')).toBe(0);
+  });
+
+  it('reads minus signs and parentheses as negative', () => {
+    expect(parseLocaleNumber('-1.000')).toBe(-1000);
+    expect(parseLocaleNumber('(2.500,50)')).toBe(-2500.5);
+  });
+
+  it('rejects text', () => {
+    expect(parseLocaleNumber('abc')).toBeNull();
+    expect(parseLocaleNumber('12a')).toBeNull();
+  });
+});
+
+describe('parseLocaleDate', () => {
+  it('reads ISO dates', () => {
+    expect(parseLocaleDate('2026-10-17')).toBe('2026-10-17');
+    expect(parseLocaleDate('2026/1/7')).toBe('2026-01-07');
+  });
+
+  it('reads numeric dates day first', () => {
+    expect(parseLocaleDate('17/10/2026')).toBe('2026-10-17');
+    expect(parseLocaleDate('17-10-2026')).toBe('2026-10-17');
+    expect(parseLocaleDate('7.1.2026')).toBe('2026-01-07');
+  });
+
+  it('reads Indonesian and English month names', () => {
+    expect(parseLocaleDate('17 Okt 2026')).toBe('2026-10-17');
+    expect(parseLocaleDate('1 Agustus 2026')).toBe('2026-08-01');
+    expect(parseLocaleDate('05-Mei-2026')).toBe('2026-05-05');
+    expect(parseLocaleDate('3 Dec. 2026')).toBe('2026-12-03');
+  });
+
+  it('ignores a trailing time', () => {
+    expect(parseLocaleDate('17/10/2026 08:30')).toBe('2026-10-17');
+    expect(parseLocaleDate('2026-10-17 23:59:59')).toBe('2026-10-17');
+    expect(parseLocaleDate('2026-10-17T08:30:00Z')).toBe('2026-10-17');
+  });
+
+  it('rejects days that do not exist', () => {
+    expect(parseLocaleDate('31/09/2026')).toBeNull();
+    expect(parseLocaleDate('2026-02-29')).toBeNull();
+  });
+
+  it('rejects anything else', () => {
+    expect(parseLocaleDate('Total')).toBeNull();
+    expect(parseLocaleDate('17 Foo 2026')).toBeNull();
+    expect(parseLocaleDate('10/2026')).toBeNull();
+  });
+});
+
+describe('detectHeaderRow', () => {
+  it('skips the title lines of a dashboard export', () => {
+    expect(detectHeaderRow(parseCsv(indonesianExport))).toBe(3);
+  });
+
+  it('finds a header on the first line', () => {
+    expect(detectHeaderRow(parseCsv(englishExport))).toBe(0);
+  });
+
+  it('needs at least three known columns', () => {
+    expect(detectHeaderRow([['Tanggal', 'Klik', 'Catatan'], ['Date', 'Clicks', 'Orders']])).toBe(1);
+  });
+
+  it('returns -1 without a header in the first rows', () => {
+    const records = [...Array.from({ length: 20 }, () => ['x', 'y']), ['Tanggal', 'Klik', 'Pesanan']];
+    expect(detectHeaderRow(records)).toBe(-1);
+    expect(detectHeaderRow([])).toBe(-1);
+  });
+});
+
+describe('buildSalesImport', () => {
+  it('imports an Indonesian export and skips its footer', () => {
+    const result = importFile(indonesianExport);
+    expect(result.issues).toEqual([]);
+    expect(result.totalRows).toBe(3);
+    expect(result.rows).toEqual([
+      { date: '2026-10-01', clicks: 1250, orders: 34, gross_commission: 1234567, products_sold: 40, total_purchases: 15432100, new_buyers: 12 },
+      { date: '2026-10-02', clicks: 980, orders: 21, gross_commission: 845210.5, products_sold: 25, total_purchases: 9870000, new_buyers: 7 },
+      { date: '2026-10-03', clicks: 1102, orders: 0, gross_commission: 0, products_sold: 0, total_purchases: 0, new_buyers: 0 },
+    ]);
+  });
+
+  it('imports an English export', () => {
+    const result = importFile(englishExport);
+    expect(result.issues).toEqual([]);
+    expect(result.rows.map(row => [row.date, row.clicks, row.gross_commission])).toEqual([
+      ['2026-10-01', 1250, 1234567.5],
+      ['2026-10-02', 980, 845210],
+    ]);
+  });
+
+  it('reports every bad row and keeps the good ones', () => {
+    const result = importFile(exportWithErrors);
+    expect(result.rows.map(row => row.date)).toEqual(['2026-10-01', '2026-10-06']);
+    expect(result.totalRows).toBe(9);
+    expect(result.issues).toEqual([
+      { row: 3, column: 'Tanggal', reason: '"31/09/2026" is not a recognised date' },
+      { row: 4, column: 'Klik', reason: 'Value cannot be negative' },
+      { row: 5, column: 'Pesanan', reason: '"2.5" is not a whole number' },
+      { row: 6, column: 'Komisi Kotor(Rp)', reason: '"abc" is not a number' },
+      { row: 7, column: 'Tanggal', reason: 'Date 2026-10-01 already appears in row 2' },
+      { row: 8, column: 'Tanggal', reason: 'Date is missing' },
+      { row: 9, column: '-', reason: 'Expected 7 columns, found 6' },
+    ]);
+  });
+
+  it('reports unmapped columns against the header row', () => {
+    const records = parseCsv(englishExport);
+    const mapping = { ...guessColumnMapping(records[0]), new_buyers: null };
+    expect(buildSalesImport(records, 0, mapping)).toEqual({
+      rows: [],
+      issues: [{ row: 1, column: 'Pembeli Baru', reason: 'Column is not mapped' }],
+      totalRows: 0,
+    });
+  });
+});
+
+describe('matchAccountForFile', () => {
+  const account = (id: string, account_code: string, username: string): Account => ({
+    id,
+    username,
+    email: `${id}@example.com`,
+    phone: '',
+    status: 'active',
+    payment_data: 'belum diatur',
+    account_code,
+    category_id: 'cat-1',
+    created_at: '2026-01-01T00:00:00Z',
+  });
+  const matchName = (fileName: string, accounts: Account[]) => matchAccountForFile(fileName, [], 0, accounts);
+
+  it('prefers the longest account code in the file name', () => {
+    const accounts = [account('short', 'AB1', 'toko-a'), account('long', 'AB12', 'toko-b')];
+    expect(matchName('export_AB12_oktober.csv', accounts)).toEqual({ accountId: 'long', matchedBy: 'code' });
+    expect(matchName('export_AB1_oktober.csv', accounts)).toEqual({ accountId: 'short', matchedBy: 'code' });
+  });
+
+  it('skips codes that normalize to nothing', () => {
+    const accounts = [account('blank', ' - ', 'toko-a'), account('named', '', 'toko-b')];
+    expect(matchName('toko-b oktober.csv', accounts)).toEqual({ accountId: 'named', matchedBy: 'username' });
+  });
+
+  it('prefers the longest username', () => {
+    const accounts = [account('a', '', 'sari'), account('b', '', 'sari_store')];
+    expect(matchName('sari-store.csv', accounts)).toEqual({ accountId: 'b', matchedBy: 'username' });
+  });
+
+  it('reads the account from an account column first', () => {
+    const records = [['Tanggal', 'Akun'], ['2026-10-01', 'AB12']];
+    const accounts = [account('short', 'AB1', 'toko-a'), account('long', 'AB12', 'toko-b')];
+    expect(matchAccountForFile('AB1.csv', records, 0, accounts)).toEqual({ accountId: 'long', matchedBy: 'column' });
+  });
+});
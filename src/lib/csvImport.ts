@@ -0,0 +1,377 @@
+import { Account, SalesImportRow } from '../types';
+
+// Import pipeline for Shopee affiliate exports: RFC-4180 parsing, header
+// detection, column mapping and locale-aware value parsing. Pure functions so
+// the upload screen can show the full error report before anything is saved.
+
+export type SalesField = keyof SalesImportRow;
+export type FieldKind = 'date' | 'integer' | 'currency';
+
+export interface SalesFieldSpec {
+  key: SalesField;
+  label: string;
+  kind: FieldKind;
+  aliases: string[];
+}
+
+export type ColumnMapping = Record<SalesField, number | null>;
+
+export interface ImportIssue {
+  row: number; // 1-based record number in the file, header included
+  column: string;
+  reason: string;
+}
+
+export interface ImportResult {
+  rows: SalesImportRow[];
+  issues: ImportIssue[];
+  totalRows: number;
+}
+
+// The seven SalesData columns, with the headers Shopee uses in the Indonesian
+// and English dashboards
+export const SALES_FIELDS: SalesFieldSpec[] = [
+  { key: 'date', label: 'Tanggal', kind: 'date', aliases: ['Tanggal', 'Date', 'Waktu'] },
+  { key: 'clicks', label: 'Klik', kind: 'integer', aliases: ['Klik', 'Clicks', 'Jumlah Klik'] },
+  { key: 'orders', label: 'Pesanan', kind: 'integer', aliases: ['Pesanan', 'Orders', 'Jumlah Pesanan'] },
+  {
+    key: 'gross_commission',
+    label: 'Komisi Kotor(Rp)',
+    kind: 'currency',
+    aliases: ['Komisi Kotor(Rp)', 'Komisi Kotor', 'Gross Commission', 'Estimasi Komisi'],
+  },
+  { key: 'products_sold', label: 'Produk Terjual', kind: 'integer', aliases: ['Produk Terjual', 'Items Sold', 'Products Sold'] },
+  {
+    key: 'total_purchases',
+    label: 'Total Pembelian yang Dibuat(Rp)',
+    kind: 'currency',
+    aliases: ['Total Pembelian yang Dibuat(Rp)', 'Total Pembelian', 'Purchase Value', 'Total Purchases'],
+  },
+  { key: 'new_buyers', label: 'Pembeli Baru', kind: 'integer', aliases: ['Pembeli Baru', 'New Buyers'] },
+];
+
+// How many leading lines to search for the header; exports can start with a
+// title and a date range line, native dashboard workbooks with a few more
+export const HEADER_SEARCH_ROWS = 20;
+
+// Summary rows at the bottom of an export, labelled in the date column
+const TOTAL_ROW_PATTERN = /^(grand\s+)?(total|jumlah|subtotal)\b/i;
+
+// Parsing
+
+const detectDelimiter = (text: string): string => {
+  const firstLines = text.split(/\r\n|\n|\r/).slice(0, HEADER_SEARCH_ROWS).join('\n');
+  const count = (delimiter: string) => {
+    let total = 0;
+    let inQuotes = false;
+    for (const char of firstLines) {
+      if (char === '"') inQuotes = !inQuotes;
+      else if (char === delimiter && !inQuotes) total++;
+    }
+    return total;
+  };
+  return [',', ';', '\t'].reduce((best, delimiter) => (count(delimiter) > count(best) ? delimiter : best), ',');
+};
+
+// RFC-4180: quoted fields may contain delimiters, line breaks and "" escapes.
+// CRLF, LF and lone CR all end a record. Excel exports semicolon-separated files
+// in Indonesian locales, so the delimiter is detected unless given.
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\r' || char === '\n') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records;
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/\(rp\)/g, '').replace(/[^a-z0-9]/g, '');
+
+const matchField = (header: string): SalesField | null => {
+  const normalized = normalizeHeader(header);
+  if (!normalized) return null;
+  const spec = SALES_FIELDS.find(field => field.aliases.some(alias => normalizeHeader(alias) === normalized));
+  return spec ? spec.key : null;
+};
+
+// Index of the first record that looks like a header, or -1
+export const detectHeaderRow = (records: string[][]): number =>
+  records.slice(0, HEADER_SEARCH_ROWS).findIndex(record => record.filter(cell => matchField(cell)).length >= 3);
+
+export const emptyColumnMapping = (): ColumnMapping =>
+  SALES_FIELDS.reduce((mapping, field) => ({ ...mapping, [field.key]: null }), {} as ColumnMapping);
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = emptyColumnMapping();
+  headers.forEach((header, index) => {
+    const key = matchField(header);
+    if (key && mapping[key] === null) {
+      mapping[key] = index;
+    }
+  });
+  return mapping;
+};
+
+export const getUnmappedFields = (mapping: ColumnMapping): SalesFieldSpec[] =>
+  SALES_FIELDS.filter(field => mapping[field.key] === null);
+
+// Values
+
+// Accepts "Rp 1.234.567,89", "1,234,567.89", "12,5", "1.234" and "-". When only
+// one separator kind appears it is a thousands separator if it groups exactly
+// three digits (the Indonesian export default), otherwise a decimal point.
+export const parseLocaleNumber = (raw: string): number | null => {
+  let value = raw.replace(/rp\.?/i, '').replace(/\s/g, '');
+  if (value === '' || value === '-') return 0;
+
+  const negative = /^-|^\(.*\)$/.test(value);
+  value = value.replace(/^-|^\(|\)$/g, '');
+  if (!/^[\d.,]+$/.test(value)) return null;
+
+  const lastDot = value.lastIndexOf('.');
+  const lastComma = value.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) {
+    const decimal = lastDot > lastComma ? '.' : ',';
+    const thousands = decimal === '.' ? ',' : '.';
+    value = value.split(thousands).join('').replace(decimal, '.');
+  } else if (lastDot >= 0 || lastComma >= 0) {
+    const separator = lastDot >= 0 ? '.' : ',';
+    const groups = value.split(separator);
+    const isThousands = groups.length > 2 || (/^\d{1,3}$/.test(groups[0]) && groups[1].length === 3);
+    value = isThousands ? groups.join('') : groups.join('.');
+  }
+
+  if (!/^\d+(\.\d+)?$/.test(value)) return null;
+  const result = parseFloat(value);
+  return negative ? -result : result;
+};
+
+const MONTHS: Record<string, number> = {
+  jan: 1, januari: 1, january: 1,
+  feb: 2, februari: 2, february: 2,
+  mar: 3, maret: 3, march: 3,
+  apr: 4, april: 4,
+  mei: 5, may: 5,
+  jun: 6, juni: 6, june: 6,
+  jul: 7, juli: 7, july: 7,
+  agu: 8, agt: 8, agustus: 8, aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  okt: 10, oktober: 10, oct: 10, october: 10,
+  nov: 11, november: 11,
+  des: 12, desember: 12, dec: 12, december: 12,
+};
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(year, month - 1, day);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Accepts ISO dates, day-first numeric dates (17/10/2025, 17-10-2025,
+// 17.10.2025) and Indonesian or English month names (17 Okt 2025). A trailing
+// time is ignored. Returns YYYY-MM-DD or null.
+export const parseLocaleDate = (raw: string): string | null => {
+  const value = raw.trim().replace(/\s+\d{1,2}:\d{2}(:\d{2})?$/, '').replace(/T.*$/, '');
+
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+  if (match) return toIsoDate(Number(match[3]), Number(match[2]), Number(match[1]));
+
+  match = value.match(/^(\d{1,2})[\s-]+([a-z]+)\.?[\s-]+(\d{4})$/i);
+  if (match) {
+    const month = MONTHS[match[2].toLowerCase()];
+    return month ? toIsoDate(Number(match[3]), month, Number(match[1])) : null;
+  }
+
+  return null;
+};
+
+const parseField = (spec: SalesFieldSpec, raw: string): { value?: string | number; reason?: string } => {
+  if (spec.kind === 'date') {
+    const date = parseLocaleDate(raw);
+    return date ? { value: date } : { reason: `"${raw}" is not a recognised date` };
+  }
+
+  const number = parseLocaleNumber(raw);
+  if (number === null) return { reason: `"${raw}" is not a number` };
+  if (number < 0) return { reason: 'Value cannot be negative' };
+  if (spec.kind === 'integer' && !Number.isInteger(number)) return { reason: `"${raw}" is not a whole number` };
+  return { value: number };
+};
+
+// Footer lines of native exports: total rows, and notes such as "Data updated
+// on ..." that fill a single cell which isn't a date
+const isFooterRow = (record: string[], mapping: ColumnMapping): boolean => {
+  const dateCell = record[mapping.date as number]?.trim() || '';
+  if (TOTAL_ROW_PATTERN.test(dateCell)) return true;
+
+  const filled = record.filter(cell => cell.trim() !== '');
+  return filled.length === 1 && (dateCell === '' || parseLocaleDate(dateCell) === null);
+};
+
+// Turn the records below the header into sales rows. Rows with any problem are
+// left out and reported; blank lines and footer rows are skipped.
+export const buildSalesImport = (records: string[][], headerRow: number, mapping: ColumnMapping): ImportResult => {
+  const rows: SalesImportRow[] = [];
+  const issues: ImportIssue[] = [];
+  const seenDates = new Map<string, number>();
+  const headerWidth = records[headerRow]?.length || 0;
+
+  const unmapped = getUnmappedFields(mapping);
+  if (unmapped.length > 0) {
+    return {
+      rows: [],
+      issues: unmapped.map(field => ({ row: headerRow + 1, column: field.label, reason: 'Column is not mapped' })),
+      totalRows: 0,
+    };
+  }
+
+  let totalRows = 0;
+  records.slice(headerRow + 1).forEach((record, index) => {
+    const rowNumber = headerRow + index + 2;
+    if (record.every(cell => cell.trim() === '')) return;
+    if (isFooterRow(record, mapping)) return;
+    totalRows++;
+
+    const rowIssues: ImportIssue[] = [];
+    if (record.length !== headerWidth) {
+      rowIssues.push({ row: rowNumber, column: '-', reason: `Expected ${headerWidth} columns, found ${record.length}` });
+    }
+
+    const row: Partial<Record<SalesField, string | number>> = {};
+    SALES_FIELDS.forEach(spec => {
+      const raw = (record[mapping[spec.key] as number] ?? '').trim();
+      if (raw === '' && spec.kind === 'date') {
+        rowIssues.push({ row: rowNumber, column: spec.label, reason: 'Date is missing' });
+        return;
+      }
+      const { value, reason } = parseField(spec, raw);
+      if (reason) {
+        rowIssues.push({ row: rowNumber, column: spec.label, reason });
+      } else {
+        row[spec.key] = value;
+      }
+    });
+
+    if (typeof row.date === 'string') {
+      const firstRow = seenDates.get(row.date);
+      if (firstRow !== undefined) {
+        rowIssues.push({ row: rowNumber, column: 'Tanggal', reason: `Date ${row.date} already appears in row ${firstRow}` });
+      } else {
+        seenDates.set(row.date, rowNumber);
+      }
+    }
+
+    if (rowIssues.length > 0) {
+      issues.push(...rowIssues);
+    } else {
+      rows.push(row as SalesImportRow);
+    }
+  });
+
+  return { rows, issues, totalRows };
+};
+
+// Account matching for bulk imports
+
+export type AccountMatchSource = 'column' | 'code' | 'username';
+
+export interface AccountMatch {
+  accountId: string;
+  matchedBy: AccountMatchSource;
+}
+
+const ACCOUNT_COLUMN_ALIASES = ['Akun', 'Account', 'Kode Akun', 'Account Code', 'Username', 'Nama Pengguna'];
+
+export const findAccountColumn = (headers: string[]): number =>
+  headers.findIndex(header => ACCOUNT_COLUMN_ALIASES.some(alias => normalizeHeader(alias) === normalizeHeader(header)));
+
+const normalizeName = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findAccountByValue = (value: string, accounts: Account[]): Account | undefined => {
+  const normalized = normalizeName(value);
+  if (!normalized) return undefined;
+  return accounts.find(acc => normalizeName(acc.account_code) === normalized) ||
+    accounts.find(acc => normalizeName(acc.username) === normalized);
+};
+
+// The account whose code or username appears in the normalized file name. The
+// longest wins, so code "AB12" beats "AB1"; values that normalize to nothing
+// would appear in every name and are skipped.
+const findLongestInName = (name: string, accounts: Account[], field: (account: Account) => string): Account | undefined =>
+  accounts
+    .map(account => ({ account, value: normalizeName(field(account) || '') }))
+    .filter(({ value }) => value.length > 0 && name.includes(value))
+    .sort((a, b) => b.value.length - a.value.length)[0]?.account;
+
+// Match a file to an account: an account column inside the file wins, then the
+// longest account code in the file name, then the longest username in it.
+// A file whose account column names several accounts is left unmatched.
+export const matchAccountForFile = (
+  fileName: string,
+  records: string[][],
+  headerRow: number,
+  accounts: Account[]
+): AccountMatch | null => {
+  const accountColumn = findAccountColumn(records[headerRow] || []);
+  if (accountColumn >= 0) {
+    const values = new Set(
+      records.slice(headerRow + 1)
+        .map(record => (record[accountColumn] || '').trim())
+        .filter(Boolean)
+    );
+    const matched = new Set([...values].map(value => findAccountByValue(value, accounts)?.id));
+    if (matched.size === 1 && !matched.has(undefined)) {
+      return { accountId: [...matched][0] as string, matchedBy: 'column' };
+    }
+    if (values.size > 0) return null;
+  }
+
+  const name = normalizeName(fileName.replace(/\.[^.]+$/, ''));
+  const byCode = findLongestInName(name, accounts, acc => acc.account_code);
+  if (byCode) return { accountId: byCode.id, matchedBy: 'code' };
+
+  const byUsername = findLongestInName(name, accounts, acc => acc.username);
+  return byUsername ? { accountId: byUsername.id, matchedBy: 'username' } : null;
+};
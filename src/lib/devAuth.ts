@@ -0,0 +1,35 @@
+import { UserRole } from '../types';
+
+// Development sign-in. With VITE_DEV_AUTH=true and VITE_SUPABASE_URL pointing
+// at a local Supabase (`supabase start`, which loads supabase/seed.sql), the
+// login screen offers one-click sign-in as the seeded users below. It signs in
+// through Supabase Auth like everyone else; nothing is faked on the client.
+//
+// Only the dev server can enable it: import.meta.env.DEV is false in `vite
+// build`, so production bundles carry neither the switch nor the credentials.
+
+const isLocalUrl = (url: string) => /^https?:\/\/(localhost|127\.0\.0\.1)(:\d+)?(\/|$)/.test(url);
+
+const wantsDevAuth = import.meta.env.DEV && import.meta.env.VITE_DEV_AUTH === 'true';
+
+export const isDevAuthEnabled = wantsDevAuth && isLocalUrl(import.meta.env.VITE_SUPABASE_URL || '');
+
+if (wantsDevAuth && !isDevAuthEnabled) {
+  console.warn('VITE_DEV_AUTH is ignored: VITE_SUPABASE_URL does not point at a local Supabase.');
+}
+
+export interface DevUser {
+  label: string;
+  email: string;
+  password: string;
+  role: UserRole;
+}
+
+// Must match supabase/seed.sql
+export const DEV_USERS: DevUser[] = isDevAuthEnabled
+  ? [
+      { label: 'Dev Admin', email: 'admin@dev.local', password: 'dev-password', role: 'superadmin' },
+      { label: 'Dev User', email: 'user@dev.local', password: 'dev-password', role: 'user' },
+      { label: 'Dev User 2', email: 'user2@dev.local', password: 'dev-password', role: 'user' },
+    ]
+  : [];
@@ -0,0 +1,82 @@
+import { SalesData, SalesImportRow } from '../types';
+import { SALES_FIELDS, SalesField } from './csvImport';
+
+// Compare an import with the sales data already stored for the account, so a
+// re-upload of an older export can't silently overwrite corrected numbers.
+
+export type ImportDiffStatus = 'new' | 'unchanged' | 'changed';
+
+// overwrite: write the imported values; keep: leave the stored day as it is;
+// skip: drop the day from this import altogether (also possible for new days)
+export type ConflictResolution = 'overwrite' | 'keep' | 'skip';
+
+export interface SalesFieldChange {
+  field: SalesField;
+  label: string;
+  before: number;
+  after: number;
+}
+
+export interface ImportDiffRow {
+  date: string;
+  status: ImportDiffStatus;
+  incoming: SalesImportRow;
+  existing: SalesData | null;
+  changes: SalesFieldChange[];
+}
+
+export interface ImportDiffSummary {
+  new: number;
+  unchanged: number;
+  changed: number;
+}
+
+const NUMERIC_FIELDS = SALES_FIELDS.filter(field => field.kind !== 'date');
+
+export const diffSalesImport = (rows: SalesImportRow[], existingData: SalesData[], accountId: string): ImportDiffRow[] => {
+  const existingByDate = new Map(
+    existingData.filter(row => row.account_id === accountId).map(row => [row.date, row])
+  );
+
+  return rows
+    .map((incoming): ImportDiffRow => {
+      const existing = existingByDate.get(incoming.date) || null;
+      if (!existing) {
+        return { date: incoming.date, status: 'new', incoming, existing: null, changes: [] };
+      }
+
+      const changes = NUMERIC_FIELDS
+        .filter(field => Number(existing[field.key]) !== Number(incoming[field.key]))
+        .map(field => ({
+          field: field.key,
+          label: field.label,
+          before: Number(existing[field.key]),
+          after: Number(incoming[field.key]),
+        }));
+
+      return { date: incoming.date, status: changes.length > 0 ? 'changed' : 'unchanged', incoming, existing, changes };
+    })
+    .sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const summarizeDiff = (diff: ImportDiffRow[]): ImportDiffSummary => ({
+  new: diff.filter(row => row.status === 'new').length,
+  unchanged: diff.filter(row => row.status === 'unchanged').length,
+  changed: diff.filter(row => row.status === 'changed').length,
+});
+
+// Rows that actually need writing: new days that weren't skipped, plus changed
+// days resolved to overwrite. Unchanged days are left out since the upsert
+// would be a no-op.
+export const resolveImport = (
+  diff: ImportDiffRow[],
+  resolutions: Record<string, ConflictResolution>,
+  defaultResolution: ConflictResolution
+): SalesImportRow[] =>
+  diff
+    .filter(row => {
+      if (row.status === 'new') return resolutions[row.date] !== 'skip';
+      if (row.status === 'changed') return (resolutions[row.date] || defaultResolution) === 'overwrite';
+      return false;
+    })
+    .map(row => row.incoming);
@@ -0,0 +1,251 @@
+import { describe, expect, it } from 'vitest';
+import { AssignmentSalesTotals, IncentiveRule, IncentiveTier, User } from '../types';
+import {
+  calculateTierAmount,
+  calculateUserIncentive,
+  findApplicableRule,
+  isRateInBand,
+  resolveTierProgress,
+} from './incentives';
+
+const tier = (revenue_threshold: number, incentive_rate: number): IncentiveTier => ({
+  id: `tier-${revenue_threshold}`,
+  revenue_threshold,
+  incentive_rate,
+  created_at: '2026-01-01T00:00:00Z',
+});
+
+const rule = (overrides: Partial<IncentiveRule> = {}): IncentiveRule => ({
+  id: 'rule-1',
+  name: 'Standard',
+  description: '',
+  min_commission_threshold: 0,
+  commission_rate_min: 0,
+  commission_rate_max: 10,
+  base_revenue_threshold: 0,
+  calculation_mode: 'flat',
+  payout_cap: null,
+  scope: 'user',
+  scope_category_id: null,
+  scope_group_id: null,
+  distribution: 'equal',
+  tiers: [tier(1000, 1), tier(5000, 2), tier(10000, 3)],
+  is_active: true,
+  rule_key: 'rule-1',
+  version: 1,
+  effective_from: '2026-01-01',
+  effective_to: null,
+  created_at: '2026-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const user: User = {
+  id: 'user-1',
+  name: 'Sari',
+  email: 'sari@example.com',
+  role: 'user',
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+const totals = (account_id: string, total_purchases: number, gross_commission: number): AssignmentSalesTotals => ({
+  account_id,
+  user_id: user.id,
+  clicks: 0,
+  orders: 0,
+  gross_commission,
+  products_sold: 0,
+  total_purchases,
+  new_buyers: 0,
+  days_count: 31,
+  first_date: '2026-03-01',
+  last_date: '2026-03-31',
+});
+
+describe('calculateTierAmount', () => {
+  const tiers = rule().tiers;
+
+  it('pays the reached tier rate on all revenue in flat mode', () => {
+    expect(calculateTierAmount(6000, rule(), tiers, 1)).toEqual({ amount: 120, capped: false });
+  });
+
+  it('pays each tier rate on its own slice of revenue in marginal mode', () => {
+    // 4000 at 1% + 2000 at 2%
+    expect(calculateTierAmount(7000, rule({ calculation_mode: 'marginal' }), tiers, 1)).toEqual({ amount: 80, capped: false });
+  });
+
+  it('does not pay revenue below the first tier in marginal mode', () => {
+    expect(calculateTierAmount(3000, rule({ calculation_mode: 'marginal' }), tiers, 0)).toEqual({ amount: 20, capped: false });
+  });
+
+  it('limits the amount to the payout cap', () => {
+    expect(calculateTierAmount(20000, rule({ payout_cap: 500 }), tiers, 2)).toEqual({ amount: 500, capped: true });
+  });
+
+  it('reports an amount exactly at the cap as capped', () => {
+    expect(calculateTierAmount(10000, rule({ payout_cap: 300 }), tiers, 2)).toEqual({ amount: 300, capped: true });
+  });
+
+  it('leaves amounts under the cap alone', () => {
+    expect(calculateTierAmount(6000, rule({ payout_cap: 500 }), tiers, 1)).toEqual({ amount: 120, capped: false });
+  });
+});
+
+describe('resolveTierProgress', () => {
+  it('reports progress towards the first tier before it is reached', () => {
+    const progress = resolveTierProgress(500, rule());
+    expect(progress.current_tier).toBeNull();
+    expect(progress.next_tier?.revenue_threshold).toBe(1000);
+    expect(progress.incentive_amount).toBe(0);
+    expect(progress.remaining_to_next_tier).toBe(500);
+    expect(progress.progress_percentage).toBe(50);
+  });
+
+  it('reaches a tier exactly at its threshold', () => {
+    const progress = resolveTierProgress(5000, rule());
+    expect(progress.current_tier?.revenue_threshold).toBe(5000);
+    expect(progress.next_tier?.revenue_threshold).toBe(10000);
+    expect(progress.incentive_amount).toBe(100);
+    expect(progress.progress_percentage).toBe(0);
+    expect(progress.remaining_to_next_tier).toBe(5000);
+  });
+
+  it('measures progress between two tiers', () => {
+    const progress = resolveTierProgress(7500, rule());
+    expect(progress.current_tier?.revenue_threshold).toBe(5000);
+    expect(progress.progress_percentage).toBe(50);
+    expect(progress.remaining_to_next_tier).toBe(2500);
+  });
+
+  it('is complete once the last tier is reached', () => {
+    const progress = resolveTierProgress(12000, rule());
+    expect(progress.current_tier?.revenue_threshold).toBe(10000);
+    expect(progress.next_tier).toBeNull();
+    expect(progress.progress_percentage).toBe(100);
+    expect(progress.incentive_amount).toBe(360);
+  });
+
+  it('sorts tiers before resolving them', () => {
+    const progress = resolveTierProgress(6000, rule({ tiers: [tier(10000, 3), tier(1000, 1), tier(5000, 2)] }));
+    expect(progress.current_tier?.revenue_threshold).toBe(5000);
+  });
+
+  it('holds tiers back until the base revenue threshold is met', () => {
+    const progress = resolveTierProgress(6000, rule({ base_revenue_threshold: 8000 }));
+    expect(progress.current_tier).toBeNull();
+    expect(progress.incentive_amount).toBe(0);
+    expect(progress.remaining_to_next_tier).toBe(2000);
+    expect(progress.progress_percentage).toBe(75);
+  });
+
+  it('passes the cap through', () => {
+    const progress = resolveTierProgress(50000, rule({ payout_cap: 1000 }));
+    expect(progress.incentive_amount).toBe(1000);
+    expect(progress.is_capped).toBe(true);
+  });
+});
+
+describe('isRateInBand', () => {
+  const band = rule({ commission_rate_min: 5, commission_rate_max: 8 });
+
+  it('includes both edges of the band', () => {
+    expect(isRateInBand(5, band)).toBe(true);
+    expect(isRateInBand(8, band)).toBe(true);
+  });
+
+  it('excludes rates outside the band', () => {
+    expect(isRateInBand(4.99, band)).toBe(false);
+    expect(isRateInBand(8.01, band)).toBe(false);
+  });
+
+  it('matches the rate rounded to two decimals', () => {
+    expect(isRateInBand(8.004, band)).toBe(true);
+    expect(isRateInBand(4.996, band)).toBe(true);
+    expect(isRateInBand(8.006, band)).toBe(false);
+  });
+
+  it('treats a maximum of 100 or more as open-ended', () => {
+    const open = rule({ commission_rate_min: 8.01, commission_rate_max: 100 });
+    expect(isRateInBand(8.01, open)).toBe(true);
+    expect(isRateInBand(100, open)).toBe(true);
+    expect(isRateInBand(250, open)).toBe(true);
+    expect(isRateInBand(8, open)).toBe(false);
+  });
+});
+
+describe('findApplicableRule', () => {
+  const low = rule({ id: 'low', rule_key: 'low', commission_rate_min: 0, commission_rate_max: 5 });
+  const mid = rule({ id: 'mid', rule_key: 'mid', commission_rate_min: 5.01, commission_rate_max: 8 });
+  const high = rule({ id: 'high', rule_key: 'high', commission_rate_min: 8.01, commission_rate_max: 100 });
+  const rules = [low, mid, high];
+
+  it('picks the band holding the rate at each edge', () => {
+    expect(findApplicableRule(rules, 0)?.id).toBe('low');
+    expect(findApplicableRule(rules, 5)?.id).toBe('low');
+    expect(findApplicableRule(rules, 5.01)?.id).toBe('mid');
+    expect(findApplicableRule(rules, 8)?.id).toBe('mid');
+    expect(findApplicableRule(rules, 8.01)?.id).toBe('high');
+  });
+
+  it('leaves no rate between two contiguous bands', () => {
+    const bands = [
+      rule({ id: 'a', rule_key: 'a', commission_rate_min: 5, commission_rate_max: 7.99 }),
+      rule({ id: 'b', rule_key: 'b', commission_rate_min: 8, commission_rate_max: 10 }),
+    ];
+    expect(findApplicableRule(bands, 7.994)?.id).toBe('a');
+    expect(findApplicableRule(bands, 7.995)).not.toBeNull();
+    expect(findApplicableRule(bands, 7.996)?.id).toBe('b');
+  });
+
+  it('picks the open-ended band for rates of 100% and above', () => {
+    expect(findApplicableRule(rules, 100)?.id).toBe('high');
+    expect(findApplicableRule(rules, 140)?.id).toBe('high');
+  });
+
+  it('skips inactive rules', () => {
+    expect(findApplicableRule([{ ...mid, is_active: false }, high], 6)).toBeNull();
+  });
+
+  it('returns null when no band holds the rate', () => {
+    expect(findApplicableRule([mid], 3)).toBeNull();
+  });
+});
+
+describe('calculateUserIncentive', () => {
+  it('leaves accounts under the minimum commission out of revenue and commission', () => {
+    const rows = [totals('a1', 6000, 300), totals('a2', 2000, 50), totals('a3', 1000, 100)];
+    const result = calculateUserIncentive(user, ['a1', 'a2', 'a3'], rows, [rule({ min_commission_threshold: 100 })]);
+    expect(result.total_revenue).toBe(7000);
+    expect(result.total_commission).toBe(400);
+    expect(result.qualifying_accounts_count).toBe(2);
+    expect(result.managed_accounts_count).toBe(3);
+    expect(result.current_tier?.revenue_threshold).toBe(5000);
+    expect(result.incentive_amount).toBe(140);
+  });
+
+  it('counts an account exactly at the minimum commission', () => {
+    const rows = [totals('a1', 2000, 100)];
+    const result = calculateUserIncentive(user, ['a1'], rows, [rule({ min_commission_threshold: 100 })]);
+    expect(result.qualifying_accounts_count).toBe(1);
+    expect(result.total_revenue).toBe(2000);
+  });
+
+  it('picks the rate band on all accounts before filtering', () => {
+    // 450 / 9000 = 5% overall, although the one qualifying account alone is at 10%
+    const rows = [totals('a1', 3000, 300), totals('a2', 6000, 150)];
+    const bands = [
+      rule({ id: 'low', rule_key: 'low', commission_rate_max: 5, min_commission_threshold: 200 }),
+      rule({ id: 'high', rule_key: 'high', commission_rate_min: 5.01, commission_rate_max: 100 }),
+    ];
+    const result = calculateUserIncentive(user, ['a1', 'a2'], rows, bands);
+    expect(result.commission_rate).toBe(5);
+    expect(result.applicable_rule?.id).toBe('low');
+    expect(result.total_revenue).toBe(3000);
+    expect(result.qualifying_accounts_count).toBe(1);
+  });
+
+  it('ignores totals of days owned by someone else', () => {
+    const rows = [totals('a1', 6000, 300), { ...totals('a1', 4000, 200), user_id: 'user-2' }];
+    const result = calculateUserIncentive(user, ['a1'], rows, [rule()]);
+    expect(result.total_revenue).toBe(6000);
+  });
+});
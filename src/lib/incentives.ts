@@ -0,0 +1,571 @@
+import {
+  Account,
+  AccountAssignment,
+  AccountSalesTotals,
+  AssignmentSalesTotals,
+  Category,
+  User,
+  UserGroup,
+  IncentiveRule,
+  IncentiveRuleDraft,
+  IncentiveTier,
+  IncentiveCalculation,
+  PoolIncentiveCalculation,
+  PoolShare,
+  IncentivePayout,
+  IncentivePoolPayout,
+  PayoutStatus
+} from '../types';
+import { getAccountOwnerIds, getAssignedAccountIds } from './assignments';
+
+// Pure incentive calculation engine shared by Incentive Overview and Incentive Quest.
+// Keep this module free of React and Supabase so both screens (and any future
+// server-side job) produce exactly the same payout numbers.
+
+export interface IncentivePeriod {
+  year: number;
+  month: number; // 1-12
+}
+
+export interface IncentiveInput {
+  accounts: Account[];
+  accountTotals: AssignmentSalesTotals[]; // per account and owner sales totals for the period
+  assignments: AccountAssignment[]; // the assignments overlapping the period
+  users: User[];
+  rules: IncentiveRule[];
+  period: IncentivePeriod;
+}
+
+export interface TierProgress {
+  current_tier: IncentiveTier | null;
+  next_tier: IncentiveTier | null;
+  incentive_amount: number;
+  is_capped: boolean;
+  progress_percentage: number;
+  remaining_to_next_tier: number;
+}
+
+// A commission_rate_max of 100 (or more) means the band is open-ended
+export const OPEN_ENDED_RATE_MAX = 100;
+
+export const toPeriodKey = (period: IncentivePeriod): string =>
+  `${period.year}-${String(period.month).padStart(2, '0')}`;
+
+export const parsePeriodKey = (key: string): IncentivePeriod => {
+  const [year, month] = key.split('-');
+  return { year: parseInt(year), month: parseInt(month) };
+};
+
+export const getPeriodBounds = (period: IncentivePeriod): { start: string; end: string } => {
+  const key = toPeriodKey(period);
+  const lastDay = new Date(period.year, period.month, 0).getDate();
+  return { start: `${key}-01`, end: `${key}-${String(lastDay).padStart(2, '0')}` };
+};
+
+export const isRuleInForce = (rule: IncentiveRule, period: IncentivePeriod): boolean => {
+  const { start, end } = getPeriodBounds(period);
+  return rule.effective_from <= end && (!rule.effective_to || rule.effective_to >= start);
+};
+
+// Pick, for every rule, the version that was in force during the period. When a
+// rule changed mid-month the version in force at the end of the month wins.
+// Rule order is kept so findApplicableRule stays deterministic.
+export const getRulesInForce = (rules: IncentiveRule[], period: IncentivePeriod): IncentiveRule[] => {
+  const byKey = new Map<string, IncentiveRule>();
+  rules.forEach(rule => {
+    if (!isRuleInForce(rule, period)) return;
+    const current = byKey.get(rule.rule_key);
+    if (!current || rule.effective_from > current.effective_from) {
+      byKey.set(rule.rule_key, rule);
+    }
+  });
+  return rules.filter(rule => byKey.get(rule.rule_key) === rule);
+};
+
+// Pooled (category and group) rules are calculated by calculatePoolIncentives
+export const isUserScoped = (rule: Pick<IncentiveRule, 'scope'>): boolean => !rule.scope || rule.scope === 'user';
+
+export const sortTiers = (tiers: IncentiveTier[]): IncentiveTier[] =>
+  [...tiers].sort((a, b) => a.revenue_threshold - b.revenue_threshold);
+
+// Band edges have two decimals, so rates are matched at two decimals too;
+// otherwise 7.995% falls between a 5-7.99 band and an 8-10 band
+export const roundRate = (rate: number): number => Math.round(rate * 100) / 100;
+
+export const isRateInBand = (rate: number, rule: IncentiveRule): boolean => {
+  const rounded = roundRate(rate);
+  return rounded >= rule.commission_rate_min &&
+    (rule.commission_rate_max >= OPEN_ENDED_RATE_MAX || rounded <= rule.commission_rate_max);
+};
+
+export const formatRateBand = (rule: Pick<IncentiveRule, 'commission_rate_min' | 'commission_rate_max'>): string =>
+  `${rule.commission_rate_min}% - ${rule.commission_rate_max >= OPEN_ENDED_RATE_MAX ? '∞' : `${rule.commission_rate_max}%`}`;
+
+export const findApplicableRule = (rules: IncentiveRule[], commissionRate: number): IncentiveRule | null =>
+  rules.find(rule => rule.is_active && isRateInBand(commissionRate, rule)) || null;
+
+// Accounts the user owned on any day of the period. An account moved mid-month
+// counts for both owners; each is paid on the days it was theirs.
+export const getUserAccountIds = (user: User, assignments: AccountAssignment[], period: IncentivePeriod): string[] =>
+  getAssignedAccountIds(assignments, user.id, getPeriodBounds(period));
+
+export const getUserAccounts = (
+  user: User,
+  accounts: Account[],
+  assignments: AccountAssignment[],
+  period: IncentivePeriod
+): Account[] => {
+  const accountIds = new Set(getUserAccountIds(user, assignments, period));
+  return accounts.filter(acc => accountIds.has(acc.id));
+};
+
+// The user's share of the totals: the days of each account assigned to them
+export const getUserTotals = (user: User, accountTotals: AssignmentSalesTotals[]): AssignmentSalesTotals[] =>
+  accountTotals.filter(row => row.user_id === user.id);
+
+const sumRevenue = (rows: AccountSalesTotals[]) => rows.reduce((sum, row) => sum + (row.total_purchases || 0), 0);
+const sumCommission = (rows: AccountSalesTotals[]) => rows.reduce((sum, row) => sum + (row.gross_commission || 0), 0);
+
+export const commissionRate = (revenue: number, commission: number): number =>
+  revenue > 0 ? (commission / revenue) * 100 : 0;
+
+// Incentive earned on a revenue figure once tier `tierIndex` (of the sorted
+// tiers) is reached. Flat mode pays the reached tier's rate on the whole
+// revenue; marginal mode pays each tier's rate only on the revenue between its
+// threshold and the next one. The rule's payout cap applies to both.
+export const calculateTierAmount = (
+  revenue: number,
+  rule: IncentiveRule,
+  tiers: IncentiveTier[],
+  tierIndex: number
+): { amount: number; capped: boolean } => {
+  let amount = 0;
+
+  if (rule.calculation_mode === 'marginal') {
+    for (let i = 0; i <= tierIndex; i++) {
+      const upper = i < tierIndex ? tiers[i + 1].revenue_threshold : revenue;
+      amount += (Math.max(upper - tiers[i].revenue_threshold, 0) * tiers[i].incentive_rate) / 100;
+    }
+  } else {
+    amount = (revenue * tiers[tierIndex].incentive_rate) / 100;
+  }
+
+  if (rule.payout_cap !== null && rule.payout_cap !== undefined && amount >= rule.payout_cap) {
+    return { amount: rule.payout_cap, capped: true };
+  }
+  return { amount, capped: false };
+};
+
+// Resolve the tier reached for a revenue figure. A tier only counts once the
+// rule's base_revenue_threshold is also met.
+export const resolveTierProgress = (revenue: number, rule: IncentiveRule): TierProgress => {
+  const tiers = sortTiers(rule.tiers);
+  const result: TierProgress = {
+    current_tier: null,
+    next_tier: null,
+    incentive_amount: 0,
+    is_capped: false,
+    progress_percentage: 0,
+    remaining_to_next_tier: 0,
+  };
+
+  let tierIndex = -1;
+  if (revenue >= rule.base_revenue_threshold) {
+    for (let i = tiers.length - 1; i >= 0; i--) {
+      if (revenue >= tiers[i].revenue_threshold) {
+        tierIndex = i;
+        result.current_tier = tiers[i];
+        result.next_tier = tiers[i + 1] || null;
+        break;
+      }
+    }
+  }
+
+  if (result.current_tier) {
+    const { amount, capped } = calculateTierAmount(revenue, rule, tiers, tierIndex);
+    result.incentive_amount = amount;
+    result.is_capped = capped;
+
+    if (result.next_tier) {
+      const span = result.next_tier.revenue_threshold - result.current_tier.revenue_threshold;
+      result.remaining_to_next_tier = result.next_tier.revenue_threshold - revenue;
+      result.progress_percentage = span > 0 ? ((revenue - result.current_tier.revenue_threshold) / span) * 100 : 100;
+    } else {
+      result.progress_percentage = 100;
+    }
+  } else {
+    // Not unlocked yet: progress towards whichever comes last of the base
+    // threshold and the first tier
+    result.next_tier = tiers[0] || null;
+    const target = Math.max(rule.base_revenue_threshold, tiers[0]?.revenue_threshold || 0);
+    result.remaining_to_next_tier = Math.max(target - revenue, 0);
+    result.progress_percentage = target > 0 ? (revenue / target) * 100 : 0;
+  }
+
+  result.progress_percentage = Math.min(Math.max(result.progress_percentage, 0), 100);
+  return result;
+};
+
+export const calculateUserIncentive = (
+  user: User,
+  accountIds: string[],
+  accountTotals: AssignmentSalesTotals[],
+  rules: IncentiveRule[]
+): IncentiveCalculation => {
+  const userTotals = getUserTotals(user, accountTotals);
+
+  // The rate band is decided on all of the user's accounts, before the
+  // per-account minimum commission filter is applied
+  const allRevenue = sumRevenue(userTotals);
+  const allCommission = sumCommission(userTotals);
+  const averageRate = commissionRate(allRevenue, allCommission);
+  const rule = findApplicableRule(rules, averageRate);
+
+  let totalRevenue = allRevenue;
+  let totalCommission = allCommission;
+  let qualifyingAccounts = 0;
+
+  if (rule) {
+    totalRevenue = 0;
+    totalCommission = 0;
+    userTotals.forEach(row => {
+      if (row.gross_commission >= rule.min_commission_threshold) {
+        totalRevenue += row.total_purchases;
+        totalCommission += row.gross_commission;
+        qualifyingAccounts++;
+      }
+    });
+  }
+
+  const progress: TierProgress = rule
+    ? resolveTierProgress(totalRevenue, rule)
+    : { current_tier: null, next_tier: null, incentive_amount: 0, is_capped: false, progress_percentage: 0, remaining_to_next_tier: 0 };
+
+  return {
+    user_id: user.id,
+    user_name: user.name,
+    total_revenue: totalRevenue,
+    total_commission: totalCommission,
+    commission_rate: averageRate,
+    applicable_rule: rule,
+    ...progress,
+    managed_accounts_count: accountIds.length,
+    qualifying_accounts_count: qualifyingAccounts,
+  };
+};
+
+export const calculateIncentives = ({ accountTotals, assignments, users, rules, period }: IncentiveInput): IncentiveCalculation[] => {
+  const rulesInForce = getRulesInForce(rules, period).filter(isUserScoped);
+  return users.map(user =>
+    calculateUserIncentive(user, getUserAccountIds(user, assignments, period), accountTotals, rulesInForce)
+  );
+};
+
+// Pooled incentives
+
+export interface PoolInput extends IncentiveInput {
+  categories: Category[];
+  groups: UserGroup[];
+}
+
+// Accounts, participants and sales a pooled rule covers. A category pool
+// covers the category's accounts, all their sales, and whoever owned them
+// during the period; a group pool covers its members, the accounts they owned
+// and the sales of the days they owned them.
+export const getPoolMembers = (
+  rule: IncentiveRule,
+  { accounts, accountTotals, assignments, users, categories, groups, period }: Omit<PoolInput, 'rules'>
+): { scopeName: string; accounts: Account[]; users: User[]; totals: AssignmentSalesTotals[] } => {
+  const range = getPeriodBounds(period);
+
+  if (rule.scope === 'category') {
+    const poolAccounts = accounts.filter(acc => acc.category_id === rule.scope_category_id);
+    const accountIds = new Set(poolAccounts.map(acc => acc.id));
+    const ownerIds = new Set(poolAccounts.flatMap(acc => getAccountOwnerIds(assignments, acc.id, range)));
+    return {
+      scopeName: categories.find(cat => cat.id === rule.scope_category_id)?.name || 'Unknown category',
+      accounts: poolAccounts,
+      users: users.filter(user => ownerIds.has(user.id)),
+      totals: accountTotals.filter(row => accountIds.has(row.account_id)),
+    };
+  }
+
+  const group = groups.find(g => g.id === rule.scope_group_id);
+  const members = group ? users.filter(user => group.member_ids.includes(user.id)) : [];
+  const memberIds = new Set(members.map(user => user.id));
+  const accountIds = new Set(members.flatMap(user => getAssignedAccountIds(assignments, user.id, range)));
+  return {
+    scopeName: group?.name || 'Unknown group',
+    accounts: accounts.filter(acc => accountIds.has(acc.id)),
+    users: members,
+    totals: accountTotals.filter(row => row.user_id !== null && memberIds.has(row.user_id)),
+  };
+};
+
+// Split a pot between participants. Pro-rata modes fall back to an equal split
+// when nobody contributed anything to weigh by.
+export const splitPot = (
+  pot: number,
+  contributions: Omit<PoolShare, 'share_ratio' | 'amount'>[],
+  distribution: IncentiveRule['distribution']
+): PoolShare[] => {
+  const weight = (share: Omit<PoolShare, 'share_ratio' | 'amount'>) =>
+    distribution === 'revenue' ? share.revenue : distribution === 'commission' ? share.commission : 1;
+  const totalWeight = contributions.reduce((sum, share) => sum + weight(share), 0);
+
+  return contributions.map(share => {
+    const ratio = totalWeight > 0 ? weight(share) / totalWeight : 1 / contributions.length;
+    return { ...share, share_ratio: ratio, amount: pot * ratio };
+  });
+};
+
+export const calculatePoolIncentive = (
+  rule: IncentiveRule,
+  input: Omit<PoolInput, 'rules'>
+): PoolIncentiveCalculation => {
+  const { scopeName, accounts: poolAccounts, users: participants, totals: poolTotals } = getPoolMembers(rule, input);
+
+  // Same per-account minimum commission filter as user rules, on the pool's
+  // whole share of each account
+  const byAccount = new Map<string, { revenue: number; commission: number }>();
+  poolTotals.forEach(row => {
+    const totals = byAccount.get(row.account_id) || { revenue: 0, commission: 0 };
+    byAccount.set(row.account_id, {
+      revenue: totals.revenue + row.total_purchases,
+      commission: totals.commission + row.gross_commission,
+    });
+  });
+  const qualifying = new Map([...byAccount].filter(([, totals]) => totals.commission >= rule.min_commission_threshold));
+
+  let totalRevenue = 0;
+  let totalCommission = 0;
+  qualifying.forEach(totals => {
+    totalRevenue += totals.revenue;
+    totalCommission += totals.commission;
+  });
+
+  // The whole pool has to sit in the rule's commission rate band
+  const rate = commissionRate(sumRevenue(poolTotals), sumCommission(poolTotals));
+  const progress: TierProgress = isRateInBand(rate, rule)
+    ? resolveTierProgress(totalRevenue, rule)
+    : { current_tier: null, next_tier: null, incentive_amount: 0, is_capped: false, progress_percentage: 0, remaining_to_next_tier: 0 };
+
+  // Each participant contributed the qualifying days they owned
+  const contributions = participants.map(user => {
+    const owned = getUserTotals(user, poolTotals).filter(row => qualifying.has(row.account_id));
+    return {
+      user_id: user.id,
+      user_name: user.name,
+      revenue: sumRevenue(owned),
+      commission: sumCommission(owned),
+    };
+  });
+
+  return {
+    rule,
+    scope_name: scopeName,
+    total_revenue: totalRevenue,
+    total_commission: totalCommission,
+    commission_rate: rate,
+    accounts_count: poolAccounts.length,
+    qualifying_accounts_count: qualifying.size,
+    current_tier: progress.current_tier,
+    next_tier: progress.next_tier,
+    pot_amount: progress.incentive_amount,
+    is_capped: progress.is_capped,
+    progress_percentage: progress.progress_percentage,
+    remaining_to_next_tier: progress.remaining_to_next_tier,
+    shares: splitPot(progress.incentive_amount, contributions, rule.distribution),
+  };
+};
+
+export const calculatePoolIncentives = ({ rules, ...input }: PoolInput): PoolIncentiveCalculation[] =>
+  getRulesInForce(rules, input.period)
+    .filter(rule => rule.is_active && !isUserScoped(rule))
+    .map(rule => calculatePoolIncentive(rule, input));
+
+// Rule simulation
+
+export interface SimulationRow {
+  user_id: string;
+  user_name: string;
+  current: IncentiveCalculation;
+  simulated: IncentiveCalculation;
+  delta: number;
+  tier_change: 'gain' | 'loss' | 'same';
+}
+
+export interface SimulationResult {
+  rows: SimulationRow[];
+  current_total: number;
+  simulated_total: number;
+  delta_total: number;
+}
+
+// 1-based position of the reached tier within its rule, 0 when no tier is reached
+export const getTierRank = (calc: IncentiveCalculation): number => {
+  if (!calc.applicable_rule || !calc.current_tier) return 0;
+  return sortTiers(calc.applicable_rule.tiers).findIndex(tier => tier.id === calc.current_tier?.id) + 1;
+};
+
+// Turn an unsaved rule form into a rule that is in force for the period, so it
+// can run through the same engine as the saved rules
+export const draftToRule = (
+  draft: IncentiveRuleDraft,
+  period: IncentivePeriod,
+  ruleKey: string = 'draft'
+): IncentiveRule => ({
+  ...draft,
+  id: 'draft',
+  rule_key: ruleKey,
+  version: 0,
+  effective_from: getPeriodBounds(period).start,
+  effective_to: null,
+  created_at: new Date().toISOString(),
+  tiers: draft.tiers.map((tier, index) => ({
+    ...tier,
+    id: `draft-tier-${index}`,
+    created_at: '',
+  })),
+});
+
+// Compare what the rules in force paid for a period with what they would have
+// paid with the draft in place of the rule it edits (or added next to them)
+export const simulateRule = (
+  input: IncentiveInput,
+  draft: IncentiveRuleDraft,
+  replacesRuleKey: string | null
+): SimulationResult => {
+  const draftRule = draftToRule(draft, input.period, replacesRuleKey || 'draft');
+  const inForce = getRulesInForce(input.rules, input.period);
+  // Replace in place so rule order, and with it rule matching, stays the same
+  const replacedIndex = inForce.findIndex(rule => rule.rule_key === replacesRuleKey);
+  const simulatedRules = replacedIndex >= 0
+    ? inForce.map((rule, index) => index === replacedIndex ? draftRule : rule)
+    : [...inForce, draftRule];
+
+  const current = calculateIncentives(input);
+  const simulated = calculateIncentives({ ...input, rules: simulatedRules });
+
+  const rows = current.map((calc, index): SimulationRow => {
+    const sim = simulated[index];
+    const currentRank = getTierRank(calc);
+    const simulatedRank = getTierRank(sim);
+    return {
+      user_id: calc.user_id,
+      user_name: calc.user_name,
+      current: calc,
+      simulated: sim,
+      delta: sim.incentive_amount - calc.incentive_amount,
+      tier_change: simulatedRank > currentRank ? 'gain' : simulatedRank < currentRank ? 'loss' : 'same',
+    };
+  });
+
+  const currentTotal = rows.reduce((sum, row) => sum + row.current.incentive_amount, 0);
+  const simulatedTotal = rows.reduce((sum, row) => sum + row.simulated.incentive_amount, 0);
+
+  return {
+    rows,
+    current_total: currentTotal,
+    simulated_total: simulatedTotal,
+    delta_total: simulatedTotal - currentTotal,
+  };
+};
+
+// Payout ledger
+
+// What the client sends when closing a month; status, closing, approval and
+// payment columns are filled in by the database
+export type PayoutSnapshot = Omit<IncentivePayout,
+  'id' | 'status' | 'closed_by' | 'closed_at' | 'approved_by' | 'approved_at' | 'paid_by' | 'paid_at' | 'created_at'>;
+
+export const PAYOUT_STATUS_FLOW: PayoutStatus[] = ['draft', 'approved', 'paid'];
+
+export const getNextPayoutStatus = (status: PayoutStatus): PayoutStatus | null =>
+  PAYOUT_STATUS_FLOW[PAYOUT_STATUS_FLOW.indexOf(status) + 1] || null;
+
+// A month can only be closed once it is over
+export const isPeriodClosable = (period: IncentivePeriod, now: Date = new Date()): boolean =>
+  toPeriodKey(period) < toPeriodKey({ year: now.getFullYear(), month: now.getMonth() + 1 });
+
+export const toPayoutSnapshot = (calc: IncentiveCalculation, period: IncentivePeriod): PayoutSnapshot => ({
+  period: toPeriodKey(period),
+  user_id: calc.user_id,
+  user_name: calc.user_name,
+  total_revenue: calc.total_revenue,
+  total_commission: calc.total_commission,
+  commission_rate: calc.commission_rate,
+  managed_accounts_count: calc.managed_accounts_count,
+  qualifying_accounts_count: calc.qualifying_accounts_count,
+  rule_id: calc.applicable_rule?.id || null,
+  rule_snapshot: calc.applicable_rule,
+  tier_snapshot: calc.current_tier,
+  incentive_amount: calc.incentive_amount,
+});
+
+export type PoolPayoutSnapshot = Omit<IncentivePoolPayout, 'id' | 'closed_by' | 'closed_at' | 'created_at'>;
+
+export const toPoolPayoutSnapshot = (pool: PoolIncentiveCalculation, period: IncentivePeriod): PoolPayoutSnapshot => ({
+  period: toPeriodKey(period),
+  rule_id: pool.rule.id,
+  rule_snapshot: pool.rule,
+  scope_name: pool.scope_name,
+  total_revenue: pool.total_revenue,
+  total_commission: pool.total_commission,
+  commission_rate: pool.commission_rate,
+  accounts_count: pool.accounts_count,
+  qualifying_accounts_count: pool.qualifying_accounts_count,
+  tier_snapshot: pool.current_tier,
+  pot_amount: pool.pot_amount,
+  is_capped: pool.is_capped,
+  shares: pool.shares,
+});
+
+// Rebuild a calculation from a closed month. The amount and tier come from the
+// ledger as-is; only the progress display is derived from the snapshotted rule.
+export const payoutToCalculation = (payout: IncentivePayout): IncentiveCalculation => {
+  const progress = payout.rule_snapshot
+    ? resolveTierProgress(payout.total_revenue, payout.rule_snapshot)
+    : { next_tier: null, is_capped: false, progress_percentage: 0, remaining_to_next_tier: 0 };
+
+  return {
+    user_id: payout.user_id,
+    user_name: payout.user_name,
+    total_revenue: payout.total_revenue,
+    total_commission: payout.total_commission,
+    commission_rate: payout.commission_rate,
+    applicable_rule: payout.rule_snapshot,
+    current_tier: payout.tier_snapshot,
+    next_tier: progress.next_tier,
+    incentive_amount: payout.incentive_amount,
+    is_capped: progress.is_capped,
+    progress_percentage: progress.progress_percentage,
+    remaining_to_next_tier: progress.remaining_to_next_tier,
+    managed_accounts_count: payout.managed_accounts_count,
+    qualifying_accounts_count: payout.qualifying_accounts_count,
+  };
+};
+
+// Same for a pool: the pot and every share come from the ledger
+export const poolPayoutToCalculation = (payout: IncentivePoolPayout): PoolIncentiveCalculation => {
+  const progress = isRateInBand(payout.commission_rate, payout.rule_snapshot)
+    ? resolveTierProgress(payout.total_revenue, payout.rule_snapshot)
+    : { next_tier: null, progress_percentage: 0, remaining_to_next_tier: 0 };
+
+  return {
+    rule: payout.rule_snapshot,
+    scope_name: payout.scope_name,
+    total_revenue: payout.total_revenue,
+    total_commission: payout.total_commission,
+    commission_rate: payout.commission_rate,
+    accounts_count: payout.accounts_count,
+    qualifying_accounts_count: payout.qualifying_accounts_count,
+    current_tier: payout.tier_snapshot,
+    next_tier: progress.next_tier,
+    pot_amount: payout.pot_amount,
+    is_capped: payout.is_capped,
+    progress_percentage: progress.progress_percentage,
+    remaining_to_next_tier: progress.remaining_to_next_tier,
+    shares: payout.shares,
+  };
+};
@@ -0,0 +1,44 @@
+import { PagedResult } from '../types';
+
+// Supabase caps every response (1000 rows by default), so lists are read with
+// .range() page by page until the exact count reported by the server is reached.
+
+export const PAGE_SIZE = 1000;
+
+// Upper bound for a single fetch; anything past it is reported as truncated
+export const MAX_FETCH_ROWS = 50000;
+
+interface PageResponse<T> {
+  data: T[] | null;
+  error: unknown;
+  count: number | null;
+}
+
+// fetchPage must apply a stable order and request { count: 'exact' }
+export const fetchAllPages = async <T>(
+  fetchPage: (from: number, to: number) => PromiseLike<PageResponse<T>>,
+  maxRows: number = MAX_FETCH_ROWS
+): Promise<PagedResult<T>> => {
+  const rows: T[] = [];
+  let total: number | null = null;
+
+  while (rows.length < maxRows) {
+    const from = rows.length;
+    const to = Math.min(from + PAGE_SIZE, maxRows) - 1;
+    const { data, error, count } = await fetchPage(from, to);
+    if (error) throw error;
+
+    const page = data || [];
+    rows.push(...page);
+    total = count ?? total;
+
+    // A short page is only the end when the count agrees: the server may be
+    // configured with a lower cap than PAGE_SIZE
+    if (page.length === 0 || (total !== null && rows.length >= total)) break;
+    if (total === null && page.length < to - from + 1) break;
+  }
+
+  return { rows, truncated: total !== null && total > rows.length };
+};
+
+export const emptyPage = <T>(): PagedResult<T> => ({ rows: [], truncated: false });
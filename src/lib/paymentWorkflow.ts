@@ -0,0 +1,58 @@
+import { PaymentStatus, User } from '../types';
+import { hasPermission } from './permissions';
+
+// Client copy of payment_transition_allowed in the payment status workflow
+// migration; the database has the final say.
+
+export const PAYMENT_STATUS_FLOW: PaymentStatus[] = ['belum diatur', 'utamakan', 'dimasukkan', 'disetujui', 'sah'];
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  'belum diatur': 'Belum Diatur',
+  utamakan: 'Utamakan',
+  dimasukkan: 'Dimasukkan',
+  disetujui: 'Disetujui',
+  sah: 'Sah',
+};
+
+interface PaymentTransition {
+  from: PaymentStatus;
+  to: PaymentStatus;
+  approverOnly: boolean;
+}
+
+// Setting up payment is open to whoever manages the account; approving it,
+// marking it sah and sending it back need payments.approve
+const PAYMENT_TRANSITIONS: PaymentTransition[] = [
+  { from: 'belum diatur', to: 'utamakan', approverOnly: false },
+  { from: 'belum diatur', to: 'dimasukkan', approverOnly: false },
+  { from: 'utamakan', to: 'belum diatur', approverOnly: false },
+  { from: 'utamakan', to: 'dimasukkan', approverOnly: false },
+  { from: 'dimasukkan', to: 'disetujui', approverOnly: true },
+  { from: 'dimasukkan', to: 'utamakan', approverOnly: true },
+  { from: 'disetujui', to: 'sah', approverOnly: true },
+  { from: 'disetujui', to: 'dimasukkan', approverOnly: true },
+  { from: 'sah', to: 'disetujui', approverOnly: true },
+];
+
+// Statuses a new account may start at
+const INITIAL_STATUSES: PaymentStatus[] = ['belum diatur', 'utamakan', 'dimasukkan'];
+
+export const canChangePaymentStatus = (from: PaymentStatus | null, to: PaymentStatus, role: User['role']): boolean => {
+  if (from === to) return true;
+  if (!hasPermission(role, 'payments.update')) return false;
+
+  const isApprover = hasPermission(role, 'payments.approve');
+  if (from === null) return isApprover || INITIAL_STATUSES.includes(to);
+  return PAYMENT_TRANSITIONS.some(transition =>
+    transition.from === from && transition.to === to && (!transition.approverOnly || isApprover)
+  );
+};
+
+// Statuses the role can move an account to from where it is now, in workflow
+// order. Pass null for a new account.
+export const getNextPaymentStatuses = (from: PaymentStatus | null, role: User['role']): PaymentStatus[] =>
+  PAYMENT_STATUS_FLOW.filter(to => to !== from && canChangePaymentStatus(from, to, role));
+
+// Forward moves follow the flow; anything else sends the account back
+export const isPaymentStepBack = (from: PaymentStatus, to: PaymentStatus): boolean =>
+  PAYMENT_STATUS_FLOW.indexOf(to) < PAYMENT_STATUS_FLOW.indexOf(from);
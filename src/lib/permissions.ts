@@ -0,0 +1,108 @@
+import { Account, User, UserGroup, UserRole } from '../types';
+
+// Client copy of role_has_permission in the role permissions migration. The
+// client uses it to show only what a user can do; the database has the final
+// say through RLS.
+
+export type Permission =
+  | 'data.view_all' // every account, its sales and everyone's incentives
+  | 'data.view_team' // the accounts and incentives of the user's teams
+  | 'accounts.create'
+  | 'accounts.edit'
+  | 'accounts.delete'
+  | 'accounts.assign' // give accounts to other users
+  | 'categories.manage'
+  | 'payments.update'
+  | 'payments.approve' // approve, mark sah and send back payment statuses
+  | 'notes.add'
+  | 'notes.delete_any'
+  | 'sales.upload'
+  | 'files.manage'
+  | 'incentives.earn'
+  | 'incentives.manage_rules'
+  | 'payouts.view'
+  | 'payouts.manage' // close months and move payouts along
+  | 'users.manage';
+
+export const ROLES: UserRole[] = ['superadmin', 'team_lead', 'finance', 'auditor', 'user'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  superadmin: 'Super Admin',
+  team_lead: 'Team Lead',
+  finance: 'Finance',
+  auditor: 'Auditor',
+  user: 'User',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  superadmin: 'Full access to all accounts, data, incentives and users',
+  team_lead: "Works on the accounts of their teams and sees their teams' incentives",
+  finance: 'Payment statuses and incentive payouts only',
+  auditor: 'Read-only access to all accounts, data and payouts',
+  user: 'Works on the accounts assigned to them',
+};
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  superadmin: [
+    'data.view_all', 'accounts.create', 'accounts.edit', 'accounts.delete', 'accounts.assign',
+    'categories.manage', 'payments.update', 'payments.approve', 'notes.add', 'notes.delete_any',
+    'sales.upload', 'files.manage', 'incentives.manage_rules', 'payouts.view', 'payouts.manage',
+    'users.manage',
+  ],
+  team_lead: [
+    'data.view_team', 'accounts.create', 'accounts.edit', 'payments.update', 'notes.add',
+    'sales.upload', 'incentives.earn',
+  ],
+  finance: ['data.view_all', 'payments.update', 'payments.approve', 'payouts.view', 'payouts.manage'],
+  auditor: ['data.view_all', 'payouts.view'],
+  user: ['accounts.create', 'accounts.edit', 'payments.update', 'notes.add', 'sales.upload', 'incentives.earn'],
+};
+
+export const hasPermission = (role: UserRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+
+// The parts of a user the checks look at
+type RoleHolder = Pick<User, 'id' | 'role'>;
+
+export const can = (user: RoleHolder | null | undefined, permission: Permission): boolean =>
+  !!user && hasPermission(user.role, permission);
+
+// How much of the data a user sees: everything, their teams', or only the
+// accounts assigned to them
+export type DataScope = 'all' | 'team' | 'own';
+
+export const getDataScope = (user: RoleHolder): DataScope => {
+  if (can(user, 'data.view_all')) return 'all';
+  if (can(user, 'data.view_team')) return 'team';
+  return 'own';
+};
+
+// The user and everyone who shares a team (user group) with them
+export const getTeamMemberIds = (user: RoleHolder, userGroups: UserGroup[]): string[] => {
+  const memberIds = new Set([user.id]);
+  userGroups
+    .filter(group => group.member_ids.includes(user.id))
+    .forEach(group => group.member_ids.forEach(id => memberIds.add(id)));
+  return [...memberIds];
+};
+
+// The users whose accounts are in the user's scope, as the userIds filter of
+// the scoped queries; undefined means every account
+export const getScopeUserIds = (user: RoleHolder, userGroups: UserGroup[]): string[] | undefined => {
+  switch (getDataScope(user)) {
+    case 'all':
+      return undefined;
+    case 'team':
+      return getTeamMemberIds(user, userGroups);
+    default:
+      return [user.id];
+  }
+};
+
+// The loaded accounts the user works with. Lists for a wider scope are already
+// limited by the query and by RLS; a user with their own scope only gets the
+// accounts currently assigned to them (useAccountScope).
+export const getScopedAccounts = (user: RoleHolder, accounts: Account[], assignedAccountIds: string[]): Account[] =>
+  getDataScope(user) === 'own'
+    ? accounts.filter(account => assignedAccountIds.includes(account.id))
+    : accounts;
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { clearQueries, fetchQuery, getQueryState, subscribeQuery, toErrorMessage } from './queryCache';
+
+// A fetcher that resolves when the test says so
+const deferred = <T>() => {
+  let resolve: (value: T) => void = () => {};
+  const promise = new Promise<T>(res => {
+    resolve = res;
+  });
+  return { promise, resolve };
+};
+
+describe('clearQueries', () => {
+  it('drops responses to requests made before it', async () => {
+    const key = ['accounts', 'before-clear'];
+    const unsubscribe = subscribeQuery(key, () => {});
+    const request = deferred<string[]>();
+    const pending = fetchQuery(key, () => request.promise);
+
+    clearQueries();
+    request.resolve(['previous session']);
+    await pending;
+
+    expect(getQueryState(key).data).toBeUndefined();
+    expect(getQueryState(key).isFetching).toBe(false);
+    unsubscribe();
+  });
+
+  it('lets the next session fetch while an old request is still in flight', async () => {
+    const key = ['accounts', 'after-clear'];
+    const unsubscribe = subscribeQuery(key, () => {});
+    const oldRequest = deferred<string[]>();
+    const oldPending = fetchQuery(key, () => oldRequest.promise);
+
+    clearQueries();
+    await fetchQuery(key, () => Promise.resolve(['next session']));
+    oldRequest.resolve(['previous session']);
+    await oldPending;
+
+    expect(getQueryState(key).data).toEqual(['next session']);
+    unsubscribe();
+  });
+});
+
+describe('toErrorMessage', () => {
+  it('reads the message of errors Supabase returns as plain objects', () => {
+    expect(toErrorMessage({ message: 'There is no sales data to delete in this range', code: 'P0001' }))
+      .toBe('There is no sales data to delete in this range');
+  });
+
+  it('falls back when there is no message', () => {
+    expect(toErrorMessage(null)).toBe('Request failed');
+    expect(toErrorMessage({ code: '42501' })).toBe('Request failed');
+  });
+});
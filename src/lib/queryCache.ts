@@ -0,0 +1,154 @@
+// Shared cache for server reads. Each query is identified by a key such as
+// ['accounts', { userId }]; every component asking for the same key shares one
+// entry, one request in flight and one loading/error state. Cached data is
+// served straight away and refreshed in the background once it is stale.
+
+export type QueryKey = readonly unknown[];
+
+export interface QueryState<T = unknown> {
+  data: T | undefined;
+  error: string | null;
+  isFetching: boolean;
+  updatedAt: number; // 0 until the first response, and again after invalidation
+}
+
+interface QueryEntry {
+  key: QueryKey;
+  state: QueryState;
+  fetcher: (() => Promise<unknown>) | null;
+  promise: Promise<void> | null;
+  refetchWhenDone: boolean;
+  listeners: Set<() => void>;
+}
+
+// Data younger than this is served without asking the server again
+export const DEFAULT_STALE_TIME = 30 * 1000;
+
+const INITIAL_STATE: QueryState = { data: undefined, error: null, isFetching: false, updatedAt: 0 };
+
+const entries = new Map<string, QueryEntry>();
+
+// Bumped by clearQueries; responses to requests from an earlier generation
+// belong to the previous session and are dropped
+let generation = 0;
+
+export const hashQueryKey = (key: QueryKey): string => JSON.stringify(key);
+
+// Supabase hands back its errors as plain objects with a message, not as
+// Error instances
+export const toErrorMessage = (err: unknown): string => {
+  if (err instanceof Error) return err.message;
+  const message = (err as { message?: unknown } | null)?.message;
+  return typeof message === 'string' && message ? message : 'Request failed';
+};
+
+const getEntry = (key: QueryKey): QueryEntry => {
+  const hash = hashQueryKey(key);
+  let entry = entries.get(hash);
+  if (!entry) {
+    entry = { key, state: INITIAL_STATE, fetcher: null, promise: null, refetchWhenDone: false, listeners: new Set() };
+    entries.set(hash, entry);
+  }
+  return entry;
+};
+
+const setState = (entry: QueryEntry, updates: Partial<QueryState>) => {
+  entry.state = { ...entry.state, ...updates };
+  entry.listeners.forEach(listener => listener());
+};
+
+// ['sales'] matches ['sales', 'daily', {...}] and every other sales query
+const matchesPrefix = (prefix: QueryKey, key: QueryKey) =>
+  prefix.length <= key.length && prefix.every((part, i) => hashQueryKey([part]) === hashQueryKey([key[i]]));
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> => getEntry(key).state as QueryState<T>;
+
+export const subscribeQuery = (key: QueryKey, listener: () => void): (() => void) => {
+  const entry = getEntry(key);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+  };
+};
+
+export const fetchQuery = <T>(key: QueryKey, fetcher: () => Promise<T>): Promise<void> => {
+  const entry = getEntry(key);
+  entry.fetcher = fetcher;
+
+  // Callers asking while a request is in flight share it
+  if (entry.promise) return entry.promise;
+
+  setState(entry, { isFetching: true });
+  const startedIn = generation;
+  const promise = fetcher()
+    .then(
+      // Errors keep the last good data on screen
+      data => {
+        if (startedIn === generation) setState(entry, { data, error: null, isFetching: false, updatedAt: Date.now() });
+      },
+      err => {
+        if (startedIn === generation) setState(entry, { error: toErrorMessage(err), isFetching: false, updatedAt: Date.now() });
+      }
+    )
+    .finally(() => {
+      if (entry.promise !== promise) return;
+      entry.promise = null;
+      // Invalidated while in flight: the response may predate the change
+      if (entry.refetchWhenDone) {
+        entry.refetchWhenDone = false;
+        if (entry.listeners.size > 0 && entry.fetcher) fetchQuery(entry.key, entry.fetcher);
+      }
+    });
+  entry.promise = promise;
+  return promise;
+};
+
+export const isQueryStale = (key: QueryKey, staleTime: number = DEFAULT_STALE_TIME): boolean => {
+  const { updatedAt } = getEntry(key).state;
+  return updatedAt === 0 || Date.now() - updatedAt > staleTime;
+};
+
+// Marks every query under the prefix stale and refetches the ones on screen;
+// the others refetch the next time they are used
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach(entry => {
+    if (!matchesPrefix(prefix, entry.key)) return;
+
+    entry.state = { ...entry.state, updatedAt: 0 };
+    if (entry.promise) {
+      entry.refetchWhenDone = true;
+    } else if (entry.listeners.size > 0 && entry.fetcher) {
+      fetchQuery(entry.key, entry.fetcher);
+    }
+  });
+};
+
+export const setQueryData = <T>(key: QueryKey, updater: (previous: T | undefined) => T) => {
+  const entry = getEntry(key);
+  setState(entry, { data: updater(entry.state.data as T | undefined), error: null });
+};
+
+// Rewrites every cached entry under the prefix that has data, e.g. one account
+// in each filtered account list
+export const updateQueriesData = <T>(prefix: QueryKey, updater: (previous: T) => T) => {
+  entries.forEach(entry => {
+    if (matchesPrefix(prefix, entry.key) && entry.state.data !== undefined) {
+      setState(entry, { data: updater(entry.state.data as T) });
+    }
+  });
+};
+
+// On logout nothing from the previous session may be served again
+export const clearQueries = () => {
+  generation++;
+  entries.forEach((entry, hash) => {
+    entry.fetcher = null;
+    entry.promise = null;
+    entry.refetchWhenDone = false;
+    if (entry.listeners.size === 0) {
+      entries.delete(hash);
+    } else {
+      setState(entry, INITIAL_STATE);
+    }
+  });
+};
@@ -0,0 +1,120 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { QueryKey, invalidateQueries } from './queryCache';
+import { RemoteChange, SyncedTable } from '../types';
+
+// Followed tables and the queries that read them. Assigning an account
+// rewrites the owner copies on its accounts and users rows, so changes to
+// those also refresh assignments, and with them what a user sees.
+const SYNCED_TABLES: Record<SyncedTable, QueryKey[]> = {
+  accounts: [['accounts'], ['accountHistory'], ['accountAssignments']],
+  sales_data: [['sales']],
+  users: [['users'], ['accounts'], ['sales'], ['accountAssignments']],
+  incentive_rules: [['incentiveRules']],
+  files: [['files']],
+};
+
+// An import writes one sales_data row per day; their events are batched into
+// a single refresh
+const INVALIDATE_DELAY = 500;
+
+// How long a change stays in the notice, and how many are remembered
+const NOTICE_DURATION = 10 * 1000;
+const MAX_REMOTE_CHANGES = 50;
+
+let remoteChanges: RemoteChange[] = [];
+const listeners = new Set<() => void>();
+
+const setRemoteChanges = (changes: RemoteChange[]) => {
+  remoteChanges = changes;
+  listeners.forEach(listener => listener());
+};
+
+export const getRemoteChanges = (): RemoteChange[] => remoteChanges;
+
+export const subscribeRemoteChanges = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const dismissRemoteChange = (id: string) => {
+  if (!remoteChanges.some(change => change.id === id && !change.dismissed)) return;
+  setRemoteChanges(remoteChanges.map(change => change.id === id ? { ...change, dismissed: true } : change));
+};
+
+const recordRemoteChange = (
+  table: SyncedTable,
+  payload: RealtimePostgresChangesPayload<Record<string, unknown>>,
+  currentUserId: string
+) => {
+  // Deletes only carry the primary key, not who deleted the row
+  if (payload.eventType === 'DELETE') return;
+
+  const record = payload.new;
+  const userId = typeof record.updated_by === 'string' ? record.updated_by : null;
+  if (!userId || userId === currentUserId) return;
+
+  const recordId = String(table === 'sales_data' ? record.account_id : record.id);
+  const change: RemoteChange = {
+    id: `${table}:${recordId}:${userId}`,
+    table,
+    event: payload.eventType,
+    record_id: recordId,
+    record_name: String(record.username ?? record.name ?? ''),
+    user_id: userId,
+    user_name: String(record.updated_by_name || 'Another user'),
+    at: Date.now(),
+    dismissed: false,
+  };
+
+  // Repeated writes by the same user to the same row show as one, the latest
+  setRemoteChanges([change, ...remoteChanges.filter(existing => existing.id !== change.id)].slice(0, MAX_REMOTE_CHANGES));
+  setTimeout(() => {
+    if (getRemoteChanges().find(existing => existing.id === change.id)?.at === change.at) {
+      dismissRemoteChange(change.id);
+    }
+  }, NOTICE_DURATION);
+};
+
+// Subscribes to every followed table and refreshes the cached queries that
+// read it. Returns the function that unsubscribes.
+export const startRealtimeSync = (currentUserId: string): (() => void) => {
+  const tables = Object.keys(SYNCED_TABLES) as SyncedTable[];
+  const pending = new Set<SyncedTable>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    timer = null;
+    pending.forEach(table => SYNCED_TABLES[table].forEach(invalidateQueries));
+    pending.clear();
+  };
+
+  const queueRefresh = (table: SyncedTable) => {
+    pending.add(table);
+    if (!timer) timer = setTimeout(flush, INVALIDATE_DELAY);
+  };
+
+  const channel = supabase.channel('table-changes');
+  tables.forEach(table => {
+    channel.on<Record<string, unknown>>('postgres_changes', { event: '*', schema: 'public', table }, payload => {
+      queueRefresh(table);
+      recordRemoteChange(table, payload, currentUserId);
+    });
+  });
+
+  let hasSubscribed = false;
+  channel.subscribe(status => {
+    if (status !== 'SUBSCRIBED') return;
+    // Back after a dropped connection: whatever changed meanwhile was missed
+    if (hasSubscribed) tables.forEach(queueRefresh);
+    hasSubscribed = true;
+  });
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    supabase.removeChannel(channel);
+    setRemoteChanges([]);
+  };
+};
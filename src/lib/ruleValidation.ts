@@ -0,0 +1,171 @@
+import { IncentiveRule, IncentiveRuleDraft } from '../types';
+import { OPEN_ENDED_RATE_MAX, isUserScoped } from './incentives';
+import { getLatestVersions } from './ruleVersions';
+
+// Save-time checks for incentive rules. findApplicableRule takes the first
+// active rule whose band contains a user's rate, so overlapping bands silently
+// hand users the wrong rule and gaps silently leave them without one.
+
+export type RuleIssueSeverity = 'error' | 'warning';
+
+export interface RuleIssue {
+  severity: RuleIssueSeverity;
+  message: string;
+}
+
+export interface RateBand {
+  key: string;
+  name: string;
+  min: number;
+  max: number; // already resolved to OPEN_ENDED_RATE_MAX for open-ended bands
+  isDraft: boolean;
+}
+
+export interface RateSegment {
+  from: number;
+  to: number;
+}
+
+export interface BandCoverage {
+  bands: RateBand[];
+  gaps: RateSegment[];
+  overlaps: (RateSegment & { bands: [RateBand, RateBand] })[];
+}
+
+// Rates are entered and matched (see roundRate) with two decimals, so 5-7.99
+// followed by 8-10 is contiguous
+export const RATE_STEP = 0.01;
+
+const bandMax = (max: number) => Math.min(max, OPEN_ENDED_RATE_MAX);
+
+// Two rules compete for the same users when they pool the same thing; every
+// per-user rule competes with every other per-user rule
+const scopeKey = (rule: Pick<IncentiveRule, 'scope' | 'scope_category_id' | 'scope_group_id'>) => {
+  if (!rule.scope || rule.scope === 'user') return 'user';
+  return `${rule.scope}:${rule.scope === 'category' ? rule.scope_category_id : rule.scope_group_id}`;
+};
+
+// Active rules (newest versions) that will still be in force from effectiveFrom
+// on and compete with the draft. The rule being edited is left out.
+export const getCompetingRules = (
+  rules: IncentiveRule[],
+  draft: IncentiveRuleDraft,
+  effectiveFrom: string,
+  ruleKey: string | null
+): IncentiveRule[] =>
+  getLatestVersions(rules).filter(rule =>
+    rule.rule_key !== ruleKey &&
+    rule.is_active &&
+    (!rule.effective_to || rule.effective_to >= effectiveFrom) &&
+    scopeKey(rule) === scopeKey(draft)
+  );
+
+export const getBandCoverage = (bands: RateBand[]): BandCoverage => {
+  const sorted = [...bands].sort((a, b) => a.min - b.min || a.max - b.max);
+
+  const overlaps: BandCoverage['overlaps'] = [];
+  sorted.forEach((a, i) => {
+    sorted.slice(i + 1).forEach(b => {
+      if (b.min <= a.max) {
+        overlaps.push({ from: b.min, to: Math.min(a.max, b.max), bands: [a, b] });
+      }
+    });
+  });
+
+  const gaps: RateSegment[] = [];
+  let coveredTo = 0;
+  sorted.forEach(band => {
+    if (band.min - coveredTo > RATE_STEP) {
+      gaps.push({ from: coveredTo, to: band.min });
+    }
+    coveredTo = Math.max(coveredTo, band.max);
+  });
+  if (OPEN_ENDED_RATE_MAX - coveredTo > RATE_STEP) {
+    gaps.push({ from: coveredTo, to: OPEN_ENDED_RATE_MAX });
+  }
+
+  return { bands: sorted, gaps, overlaps };
+};
+
+export const toRateBands = (rules: IncentiveRule[], draft?: { key: string; rule: IncentiveRuleDraft }): RateBand[] => [
+  ...rules.map(rule => ({
+    key: rule.rule_key,
+    name: rule.name,
+    min: rule.commission_rate_min,
+    max: bandMax(rule.commission_rate_max),
+    isDraft: false,
+  })),
+  ...(draft ? [{
+    key: draft.key,
+    name: draft.rule.name || 'This rule',
+    min: draft.rule.commission_rate_min,
+    max: bandMax(draft.rule.commission_rate_max),
+    isDraft: true,
+  }] : []),
+];
+
+const formatRate = (rate: number) => `${Number(rate.toFixed(2))}%`;
+
+export const validateRuleDraft = (
+  draft: IncentiveRuleDraft,
+  competingRules: IncentiveRule[]
+): RuleIssue[] => {
+  const issues: RuleIssue[] = [];
+
+  if (draft.commission_rate_min > draft.commission_rate_max) {
+    issues.push({ severity: 'error', message: 'Commission rate min is above commission rate max.' });
+  }
+
+  const thresholds = draft.tiers.map(tier => tier.revenue_threshold);
+  if (thresholds.some((threshold, i) => i > 0 && threshold < thresholds[i - 1])) {
+    issues.push({ severity: 'error', message: 'Tiers are not sorted by ascending revenue threshold.' });
+  }
+
+  const duplicates = thresholds.filter((threshold, i) => thresholds.indexOf(threshold) !== i);
+  if (duplicates.length > 0) {
+    issues.push({
+      severity: 'error',
+      message: `Several tiers share the revenue threshold ${[...new Set(duplicates)].map(d => d.toLocaleString('id-ID')).join(', ')}.`,
+    });
+  }
+
+  const belowBase = draft.tiers
+    .map((tier, index) => ({ tier, index }))
+    .filter(({ tier }) => tier.revenue_threshold < draft.base_revenue_threshold);
+  if (belowBase.length > 0) {
+    issues.push({
+      severity: 'error',
+      message: `Tier ${belowBase.map(({ index }) => index + 1).join(', ')} ${belowBase.length > 1 ? 'are' : 'is'} below the base threshold of ${draft.base_revenue_threshold.toLocaleString('id-ID')}.`,
+    });
+  }
+
+  if (draft.is_active && isUserScoped(draft)) {
+    const coverage = getBandCoverage(toRateBands(competingRules, { key: 'draft', rule: draft }));
+
+    coverage.overlaps
+      .filter(overlap => overlap.bands.some(band => band.isDraft))
+      .forEach(overlap => {
+        const other = overlap.bands.find(band => !band.isDraft);
+        issues.push({
+          severity: 'error',
+          message: `Rate band overlaps "${other?.name}" between ${formatRate(overlap.from)} and ${formatRate(overlap.to)}.`,
+        });
+      });
+
+    coverage.gaps.forEach(gap => {
+      issues.push({
+        severity: 'warning',
+        message: `No rule covers commission rates from ${formatRate(gap.from)} to ${formatRate(gap.to)}; users in that range earn no incentive.`,
+      });
+    });
+  } else if (draft.is_active) {
+    // Every pooled rule in force pays out, so two on the same scope would pay twice
+    competingRules
+      .filter(rule => draft.commission_rate_min <= bandMax(rule.commission_rate_max) && rule.commission_rate_min <= bandMax(draft.commission_rate_max))
+      .forEach(rule => {
+        issues.push({ severity: 'error', message: `"${rule.name}" already pools the same scope with an overlapping rate band.` });
+      });
+  }
+
+  return issues;
+};
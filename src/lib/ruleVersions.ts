@@ -0,0 +1,93 @@
+import { IncentiveRule } from '../types';
+import { sortTiers } from './incentives';
+
+// Helpers for the version history of incentive rules. Every edit of a rule is
+// stored as a new immutable version sharing the same rule_key.
+
+export type RuleFieldKind = 'text' | 'currency' | 'percent' | 'date';
+
+export interface RuleFieldChange {
+  label: string;
+  kind: RuleFieldKind;
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export const getRuleVersions = (rules: IncentiveRule[], ruleKey: string): IncentiveRule[] =>
+  rules.filter(rule => rule.rule_key === ruleKey).sort((a, b) => a.version - b.version);
+
+// The newest version of every rule, in the order the rules were given
+export const getLatestVersions = (rules: IncentiveRule[]): IncentiveRule[] => {
+  const latest = new Map<string, IncentiveRule>();
+  rules.forEach(rule => {
+    const current = latest.get(rule.rule_key);
+    if (!current || rule.version > current.version) {
+      latest.set(rule.rule_key, rule);
+    }
+  });
+  return rules.filter(rule => latest.get(rule.rule_key) === rule);
+};
+
+// Whether the rule's newest version is still in force on the day. A rule is
+// switched off by ending that version, never by changing older ones.
+export const isRuleCurrent = (rule: IncentiveRule, today: string): boolean =>
+  rule.is_active && (!rule.effective_to || rule.effective_to >= today);
+
+// Date strings are YYYY-MM-DD; build them from local parts so no timezone shift applies
+export const shiftDate = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  const shifted = new Date(year, month - 1, day + days);
+  return `${shifted.getFullYear()}-${String(shifted.getMonth() + 1).padStart(2, '0')}-${String(shifted.getDate()).padStart(2, '0')}`;
+};
+
+const RULE_FIELDS: { key: keyof IncentiveRule; label: string; kind: RuleFieldKind }[] = [
+  { key: 'name', label: 'Name', kind: 'text' },
+  { key: 'description', label: 'Description', kind: 'text' },
+  { key: 'min_commission_threshold', label: 'Min Commission', kind: 'currency' },
+  { key: 'commission_rate_min', label: 'Commission Rate Min', kind: 'percent' },
+  { key: 'commission_rate_max', label: 'Commission Rate Max', kind: 'percent' },
+  { key: 'base_revenue_threshold', label: 'Base Threshold', kind: 'currency' },
+  { key: 'calculation_mode', label: 'Calculation Mode', kind: 'text' },
+  { key: 'payout_cap', label: 'Payout Cap', kind: 'currency' },
+  { key: 'scope', label: 'Scope', kind: 'text' },
+  { key: 'scope_category_id', label: 'Pool Category', kind: 'text' },
+  { key: 'scope_group_id', label: 'Pool Group', kind: 'text' },
+  { key: 'distribution', label: 'Pot Distribution', kind: 'text' },
+];
+
+export const diffRuleVersions = (before: IncentiveRule, after: IncentiveRule): RuleFieldChange[] => {
+  const changes: RuleFieldChange[] = [];
+
+  RULE_FIELDS.forEach(({ key, label, kind }) => {
+    if (before[key] !== after[key]) {
+      changes.push({ label, kind, before: before[key] as string | number | null, after: after[key] as string | number | null });
+    }
+  });
+
+  const beforeTiers = sortTiers(before.tiers);
+  const afterTiers = sortTiers(after.tiers);
+  const tierCount = Math.max(beforeTiers.length, afterTiers.length);
+
+  for (let i = 0; i < tierCount; i++) {
+    const a = beforeTiers[i];
+    const b = afterTiers[i];
+    if (a?.revenue_threshold !== b?.revenue_threshold) {
+      changes.push({
+        label: `Tier ${i + 1} Threshold`,
+        kind: 'currency',
+        before: a ? a.revenue_threshold : null,
+        after: b ? b.revenue_threshold : null,
+      });
+    }
+    if (a?.incentive_rate !== b?.incentive_rate) {
+      changes.push({
+        label: `Tier ${i + 1} Rate`,
+        kind: 'percent',
+        before: a ? a.incentive_rate : null,
+        after: b ? b.incentive_rate : null,
+      });
+    }
+  }
+
+  return changes;
+};
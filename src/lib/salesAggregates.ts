@@ -0,0 +1,68 @@
+import { DailySalesTotals, DateRange, MonthlySalesTotals, SalesTotals } from '../types';
+import { shiftDate } from './ruleVersions';
+
+// Helpers around the sales_* aggregate functions, which return sums per day,
+// per account or per user and month for the range a screen actually shows.
+
+export const EMPTY_SALES_TOTALS: SalesTotals = {
+  clicks: 0,
+  orders: 0,
+  gross_commission: 0,
+  products_sold: 0,
+  total_purchases: 0,
+  new_buyers: 0,
+};
+
+export const sumSalesTotals = (rows: SalesTotals[]): SalesTotals =>
+  rows.reduce((sum, row) => ({
+    clicks: sum.clicks + row.clicks,
+    orders: sum.orders + row.orders,
+    gross_commission: sum.gross_commission + row.gross_commission,
+    products_sold: sum.products_sold + row.products_sold,
+    total_purchases: sum.total_purchases + row.total_purchases,
+    new_buyers: sum.new_buyers + row.new_buyers,
+  }), EMPTY_SALES_TOTALS);
+
+export const todayIsoDate = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// Range picked in the Dashboard and Reports date filter; undefined means all
+// time. Presets are a number of days back from today.
+export const dateFilterToRange = (filter: { startDate: string; endDate: string; preset: string }): DateRange | undefined => {
+  if (filter.preset === 'custom') {
+    return filter.startDate && filter.endDate ? { start: filter.startDate, end: filter.endDate } : undefined;
+  }
+  if (filter.preset === 'all') return undefined;
+
+  const today = todayIsoDate();
+  return { start: shiftDate(today, -parseInt(filter.preset)), end: today };
+};
+
+// Every day of the range in order, with zeros for days without data, so a
+// chart shows gaps where they are
+export const fillDailyTotals = (rows: DailySalesTotals[], range: DateRange): DailySalesTotals[] => {
+  const byDate = new Map(rows.map(row => [row.date, row]));
+  const days: DailySalesTotals[] = [];
+  for (let date = range.start; date <= range.end; date = shiftDate(date, 1)) {
+    days.push(byDate.get(date) || { ...EMPTY_SALES_TOTALS, date, accounts_count: 0 });
+  }
+  return days;
+};
+
+// Daily totals summed per calendar month, oldest first
+export const groupTotalsByMonth = (rows: DailySalesTotals[]): MonthlySalesTotals[] => {
+  const months = new Map<string, DailySalesTotals[]>();
+  rows.forEach(row => {
+    const period = row.date.slice(0, 7);
+    months.set(period, [...(months.get(period) || []), row]);
+  });
+  return [...months.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, days]) => ({ ...sumSalesTotals(days), period, days_count: days.length }));
+};
+
+// Percentage change from the previous value; null when there is nothing to compare with
+export const percentChange = (current: number, previous: number): number | null =>
+  previous > 0 ? ((current - previous) / previous) * 100 : null;
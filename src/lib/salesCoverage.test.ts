@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { Account, AccountAssignment } from '../types';
+import { findCoverageGaps, findUserCoverageGaps } from './salesCoverage';
+
+const account: Account = {
+  id: 'acc-1',
+  username: 'toko-sari',
+  email: 'toko@example.com',
+  phone: '',
+  status: 'active',
+  payment_data: 'belum diatur',
+  account_code: 'TS01',
+  category_id: 'cat-1',
+  created_at: '2026-01-01T00:00:00Z',
+};
+
+const assignment = (user_id: string, starts_on: string | null, ends_on: string | null): AccountAssignment => ({
+  id: `${user_id}-${starts_on}`,
+  account_id: account.id,
+  user_id,
+  starts_on,
+  ends_on,
+  created_by: null,
+  created_at: '2026-01-01T00:00:00Z',
+});
+
+const range = { start: '2026-10-01', end: '2026-10-10' };
+const today = '2026-10-11';
+// The account moved from user-1 to user-2 on the 6th
+const assignments = [assignment('user-1', null, '2026-10-05'), assignment('user-2', '2026-10-06', null)];
+const coverage = [{ account_id: account.id, dates: ['2026-10-01', '2026-10-02', '2026-10-04', '2026-10-05', '2026-10-06'] }];
+
+describe('findCoverageGaps', () => {
+  it('lists every missing day of the range up to yesterday', () => {
+    const [gap] = findCoverageGaps([account], coverage, range, today);
+    expect(gap.missing_dates).toEqual(['2026-10-03', '2026-10-07', '2026-10-08', '2026-10-09', '2026-10-10']);
+    expect(gap.expected_days).toBe(10);
+  });
+});
+
+describe('findUserCoverageGaps', () => {
+  it('only counts the days the user owned the account', () => {
+    const [gap] = findUserCoverageGaps('user-1', [account], coverage, assignments, range, today);
+    expect(gap.missing_dates).toEqual(['2026-10-03']);
+    expect(gap.expected_days).toBe(5);
+  });
+
+  it('leaves the previous owner out of the new owner gaps', () => {
+    const [gap] = findUserCoverageGaps('user-2', [account], coverage, assignments, range, today);
+    expect(gap.missing_dates).toEqual(['2026-10-07', '2026-10-08', '2026-10-09', '2026-10-10']);
+    expect(gap.expected_days).toBe(5);
+  });
+
+  it('returns nothing for accounts the user never owned in the range', () => {
+    expect(findUserCoverageGaps('user-3', [account], coverage, assignments, range, today)).toEqual([]);
+  });
+});
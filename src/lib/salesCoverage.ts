@@ -0,0 +1,102 @@
+import { Account, AccountAssignment, AccountCoverageGap, AccountSalesCoverage, DateRange } from '../types';
+import { overlapsRange } from './assignments';
+import { shiftDate } from './ruleVersions';
+
+// Finding the days an account has no sales data for. An account is expected
+// to have data from the day it was added up to yesterday, since a day's
+// numbers are only uploaded once it is over. Inactive accounts aren't
+// expected to have any. For a user, only the days they owned the account
+// count.
+
+// The part of the range an account should have data for, or null when there
+// is none (the range is still ahead, or the account is newer than the range)
+export const getExpectedRange = (account: Account, range: DateRange, today: string): DateRange | null => {
+  const added = account.created_at.slice(0, 10);
+  const yesterday = shiftDate(today, -1);
+  const start = added > range.start ? added : range.start;
+  const end = yesterday < range.end ? yesterday : range.end;
+  return start <= end ? { start, end } : null;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date-only strings parse as UTC midnight, so the difference is whole days
+export const countDays = (range: DateRange): number =>
+  Math.round((Date.parse(range.end) - Date.parse(range.start)) / DAY_MS) + 1;
+
+export const findMissingDates = (coveredDates: Set<string>, range: DateRange): string[] => {
+  const missing: string[] = [];
+  for (let date = range.start; date <= range.end; date = shiftDate(date, 1)) {
+    if (!coveredDates.has(date)) missing.push(date);
+  }
+  return missing;
+};
+
+// The parts of the range the user owned the account
+export const getOwnedRanges = (
+  assignments: AccountAssignment[],
+  userId: string,
+  accountId: string,
+  range: DateRange
+): DateRange[] =>
+  assignments
+    .filter(assignment => assignment.user_id === userId && assignment.account_id === accountId && overlapsRange(assignment, range))
+    .map(assignment => ({
+      start: assignment.starts_on && assignment.starts_on > range.start ? assignment.starts_on : range.start,
+      end: assignment.ends_on && assignment.ends_on < range.end ? assignment.ends_on : range.end,
+    }));
+
+const collectCoverageGaps = (
+  accounts: Account[],
+  coverage: AccountSalesCoverage[],
+  getRanges: (account: Account) => DateRange[],
+  today: string
+): AccountCoverageGap[] => {
+  const datesByAccount = new Map(coverage.map(row => [row.account_id, new Set(row.dates)]));
+
+  return accounts
+    .filter(account => account.status !== 'inactive')
+    .flatMap(account => {
+      const expected = getRanges(account).flatMap(range => getExpectedRange(account, range, today) || []);
+      const covered = datesByAccount.get(account.id) || new Set<string>();
+      const missingDates = expected.flatMap(range => findMissingDates(covered, range)).sort();
+      if (missingDates.length === 0) return [];
+      return [{
+        account,
+        missing_dates: missingDates,
+        expected_days: expected.reduce((sum, range) => sum + countDays(range), 0),
+      }];
+    })
+    .sort((a, b) => b.missing_dates.length - a.missing_dates.length || a.account.username.localeCompare(b.account.username));
+};
+
+// Accounts with missing days in the range, the most incomplete first
+export const findCoverageGaps = (
+  accounts: Account[],
+  coverage: AccountSalesCoverage[],
+  range: DateRange,
+  today: string
+): AccountCoverageGap[] => collectCoverageGaps(accounts, coverage, () => [range], today);
+
+// The same for one user, over the days of the range they owned each account
+export const findUserCoverageGaps = (
+  userId: string,
+  accounts: Account[],
+  coverage: AccountSalesCoverage[],
+  assignments: AccountAssignment[],
+  range: DateRange,
+  today: string
+): AccountCoverageGap[] =>
+  collectCoverageGaps(accounts, coverage, account => getOwnedRanges(assignments, userId, account.id, range), today);
+
+// Sorted dates collapsed into runs of consecutive days
+export const groupConsecutiveDates = (dates: string[]): DateRange[] =>
+  dates.reduce<DateRange[]>((runs, date) => {
+    const last = runs[runs.length - 1];
+    if (last && shiftDate(last.end, 1) === date) {
+      last.end = date;
+    } else {
+      runs.push({ start: date, end: date });
+    }
+    return runs;
+  }, []);
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js'
+import type { AccountSalesCoverage, AccountSalesTotals, AssignmentSalesTotals, DailySalesTotals, IncentiveRule, IncentiveTier, PaymentStatus, SalesImportRow, UserMonthlySalesTotals } from '../types'
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
@@ -7,6 +8,10 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables')
 }
 
+// Read before the client takes the session out of the URL: a password reset
+// link signs the user in, and the app has to ask them for a new password
+export const isPasswordRecoveryRedirect = /type=recovery/.test(window.location.hash)
+
 export const supabase = createClient(supabaseUrl, supabaseAnonKey)
 
 // Database types
@@ -43,8 +48,10 @@ export interface Database {
           payment_data: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
           account_code: string
           category_id: string
-          user_id: string | null
+          user_id: string | null // read-only copy of the current assignment
           created_at: string
+          updated_by: string | null
+          updated_by_name: string
         }
         Insert: {
           id?: string
@@ -55,7 +62,6 @@ export interface Database {
           payment_data?: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
           account_code: string
           category_id: string
-          user_id?: string | null
           created_at?: string
         }
         Update: {
@@ -67,7 +73,6 @@ export interface Database {
           payment_data?: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
           account_code?: string
           category_id?: string
-          user_id?: string | null
           created_at?: string
         }
       }
@@ -83,6 +88,8 @@ export interface Database {
           total_purchases: number
           new_buyers: number
           created_at: string
+          updated_by: string | null
+          updated_by_name: string
         }
         Insert: {
           id?: string
@@ -114,40 +121,43 @@ export interface Database {
           id: string
           name: string
           email: string
-          role: 'user' | 'superadmin'
-          managed_accounts: string[]
+          role: 'superadmin' | 'team_lead' | 'finance' | 'auditor' | 'user'
+          managed_accounts: string[] // read-only copy of the current assignments
           created_at: string
           phone: string | null
           address: string | null
           bio: string | null
           company: string | null
           avatar_url: string | null
+          updated_by: string | null
+          updated_by_name: string
+          must_change_password: boolean
         }
         Insert: {
           id?: string
           name: string
           email: string
-          role?: 'user' | 'superadmin'
-          managed_accounts?: string[]
+          role?: 'superadmin' | 'team_lead' | 'finance' | 'auditor' | 'user'
           created_at?: string
           phone?: string | null
           address?: string | null
           bio?: string | null
           company?: string | null
           avatar_url?: string | null
+          must_change_password?: boolean
         }
         Update: {
           id?: string
           name?: string
           email?: string
-          role?: 'user' | 'superadmin'
-          managed_accounts?: string[]
+          role?: 'superadmin' | 'team_lead' | 'finance' | 'auditor' | 'user'
           created_at?: string
           phone?: string | null
           address?: string | null
           bio?: string | null
           company?: string | null
           avatar_url?: string | null
+          must_change_password?: boolean
         }
       }
       incentive_rules: {
@@ -159,8 +169,20 @@ export interface Database {
           commission_rate_min: number
           commission_rate_max: number
           base_revenue_threshold: number
+          calculation_mode: 'flat' | 'marginal'
+          payout_cap: number | null
+          scope: 'user' | 'category' | 'group'
+          scope_category_id: string | null
+          scope_group_id: string | null
+          distribution: 'equal' | 'revenue' | 'commission'
           is_active: boolean
+          rule_key: string
+          version: number
+          effective_from: string
+          effective_to: string | null
           created_at: string
+          updated_by: string | null
+          updated_by_name: string
         }
         Insert: {
           id?: string
@@ -170,7 +192,17 @@ export interface Database {
           commission_rate_min: number
           commission_rate_max: number
           base_revenue_threshold: number
+          calculation_mode?: 'flat' | 'marginal'
+          payout_cap?: number | null
+          scope?: 'user' | 'category' | 'group'
+          scope_category_id?: string | null
+          scope_group_id?: string | null
+          distribution?: 'equal' | 'revenue' | 'commission'
           is_active?: boolean
+          rule_key?: string
+          version?: number
+          effective_from?: string
+          effective_to?: string | null
           created_at?: string
         }
         Update: {
@@ -181,7 +213,17 @@ export interface Database {
           commission_rate_min?: number
           commission_rate_max?: number
           base_revenue_threshold?: number
+          calculation_mode?: 'flat' | 'marginal'
+          payout_cap?: number | null
+          scope?: 'user' | 'category' | 'group'
+          scope_category_id?: string | null
+          scope_group_id?: string | null
+          distribution?: 'equal' | 'revenue' | 'commission'
           is_active?: boolean
+          rule_key?: string
+          version?: number
+          effective_from?: string
+          effective_to?: string | null
           created_at?: string
         }
       }
@@ -220,6 +262,8 @@ export interface Database {
           created_by: string | null
           created_at: string
           updated_at: string
+          updated_by: string | null
+          updated_by_name: string
         }
         Insert: {
           id?: string
@@ -246,17 +290,278 @@ export interface Database {
           updated_at?: string
         }
       }
+      user_groups: {
+        Row: {
+          id: string
+          name: string
+          description: string | null
+          member_ids: string[]
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          name: string
+          description?: string | null
+          member_ids?: string[]
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          name?: string
+          description?: string | null
+          member_ids?: string[]
+          created_at?: string
+        }
+      }
+      incentive_payouts: {
+        Row: {
+          id: string
+          period: string
+          user_id: string
+          user_name: string
+          total_revenue: number
+          total_commission: number
+          commission_rate: number
+          managed_accounts_count: number
+          qualifying_accounts_count: number
+          rule_id: string | null
+          rule_snapshot: IncentiveRule | null
+          tier_snapshot: IncentiveTier | null
+          incentive_amount: number
+          status: 'draft' | 'approved' | 'paid'
+          closed_by: string | null
+          closed_at: string
+          approved_by: string | null
+          approved_at: string | null
+          paid_by: string | null
+          paid_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          period: string
+          user_id: string
+          user_name: string
+          total_revenue?: number
+          total_commission?: number
+          commission_rate?: number
+          managed_accounts_count?: number
+          qualifying_accounts_count?: number
+          rule_id?: string | null
+          rule_snapshot?: IncentiveRule | null
+          tier_snapshot?: IncentiveTier | null
+          incentive_amount?: number
+          status?: 'draft' | 'approved' | 'paid'
+          closed_by?: string | null
+          closed_at?: string
+          approved_by?: string | null
+          approved_at?: string | null
+          paid_by?: string | null
+          paid_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: 'draft' | 'approved' | 'paid'
+          approved_by?: string | null
+          approved_at?: string | null
+          paid_by?: string | null
+          paid_at?: string | null
+        }
+      }
+      sales_import_batches: {
+        Row: {
+          id: string
+          kind: 'import' | 'delete'
+          account_id: string
+          file_name: string
+          file_content: string
+          uploaded_by: string | null
+          uploaded_by_name: string
+          dates: string[]
+          row_count: number
+          previous_rows: SalesImportRow[]
+          status: 'applied' | 'rolled_back'
+          rolled_back_by: string | null
+          rolled_back_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          kind?: 'import' | 'delete'
+          account_id: string
+          file_name: string
+          file_content?: string
+          uploaded_by?: string | null
+          uploaded_by_name?: string
+          dates?: string[]
+          row_count?: number
+          previous_rows?: SalesImportRow[]
+          status?: 'applied' | 'rolled_back'
+          rolled_back_by?: string | null
+          rolled_back_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          status?: 'applied' | 'rolled_back'
+          rolled_back_by?: string | null
+          rolled_back_at?: string | null
+        }
+      }
+      account_payment_history: {
+        Row: {
+          id: string
+          account_id: string
+          from_status: PaymentStatus | null
+          to_status: PaymentStatus
+          note: string
+          changed_by: string | null
+          changed_by_name: string
+          created_at: string
+        }
+        Insert: never // written by the track_payment_status trigger only
+        Update: never
+      }
+      account_status_history: {
+        Row: {
+          id: string
+          account_id: string
+          from_status: 'active' | 'violation' | 'inactive' | null
+          to_status: 'active' | 'violation' | 'inactive'
+          changed_by: string | null
+          changed_by_name: string
+          created_at: string
+        }
+        Insert: never // written by the track_account_status trigger only
+        Update: never
+      }
+      account_notes: {
+        Row: {
+          id: string
+          account_id: string
+          body: string
+          author_id: string | null
+          author_name: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          account_id: string
+          body: string
+          created_at?: string
+        }
+        Update: never
+      }
+      account_assignments: {
+        Row: {
+          id: string
+          account_id: string
+          user_id: string
+          starts_on: string | null
+          ends_on: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: never // written by assign_account and set_user_accounts only
+        Update: never
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      change_payment_status: {
+        Args: {
+          p_account_id: string
+          p_status: PaymentStatus
+          p_note?: string
+        }
+        Returns: Database['public']['Tables']['accounts']['Row']
+      }
+      import_sales_batch: {
+        Args: {
+          p_account_id: string
+          p_file_name: string
+          p_file_content: string
+          p_rows: SalesImportRow[]
+        }
+        Returns: Database['public']['Tables']['sales_import_batches']['Row']
+      }
+      delete_sales_range: {
+        Args: {
+          p_account_id: string
+          p_start?: string | null
+          p_end?: string | null
+        }
+        Returns: Database['public']['Tables']['sales_import_batches']['Row']
+      }
+      rollback_sales_import: {
+        Args: {
+          p_batch_id: string
+        }
+        Returns: Database['public']['Tables']['sales_import_batches']['Row']
+      }
+      sales_daily_totals: {
+        Args: {
+          p_start?: string | null
+          p_end?: string | null
+          p_account_ids?: string[] | null
+        }
+        Returns: DailySalesTotals[]
+      }
+      sales_account_totals: {
+        Args: {
+          p_start?: string | null
+          p_end?: string | null
+          p_account_ids?: string[] | null
+        }
+        Returns: AccountSalesTotals[]
+      }
+      sales_account_coverage: {
+        Args: {
+          p_start?: string | null
+          p_end?: string | null
+          p_account_ids?: string[] | null
+        }
+        Returns: AccountSalesCoverage[]
+      }
+      sales_user_monthly_totals: {
+        Args: {
+          p_start?: string | null
+          p_end?: string | null
+        }
+        Returns: UserMonthlySalesTotals[]
+      }
+      sales_assignment_totals: {
+        Args: {
+          p_start?: string | null
+          p_end?: string | null
+          p_account_ids?: string[] | null
+        }
+        Returns: AssignmentSalesTotals[]
+      }
+      assign_account: {
+        Args: {
+          p_account_id: string
+          p_user_id: string | null
+          p_effective?: string
+        }
+        Returns: undefined
+      }
+      set_user_accounts: {
+        Args: {
+          p_user_id: string
+          p_account_ids: string[]
+          p_effective?: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       account_status: 'active' | 'violation' | 'inactive'
       payment_status: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah'
-      user_role: 'user' | 'superadmin'
+      user_role: 'superadmin' | 'team_lead' | 'finance' | 'auditor' | 'user'
+      payout_status: 'draft' | 'approved' | 'paid'
+      import_batch_status: 'applied' | 'rolled_back'
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,57 @@
+import readXlsxFile from 'read-excel-file/browser';
+import { detectHeaderRow } from './csvImport';
+
+// Excel workbooks from the affiliate dashboard, turned into the same string
+// records the CSV parser produces so both go through buildSalesImport.
+
+export interface WorkbookSheet {
+  name: string;
+  records: string[][];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+export const isXlsxFile = (file: File) =>
+  file.type === XLSX_MIME_TYPE || file.name.toLowerCase().endsWith('.xlsx');
+
+// Write numbers so parseLocaleNumber reads them back exactly: a fraction of
+// exactly three digits ("1.234") would otherwise be taken as thousands
+const formatNumberCell = (value: number): string => {
+  const text = String(Number(value.toPrecision(15)));
+  return /\.\d{3}$/.test(text) ? `${text}0` : text;
+};
+
+export const cellToText = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  // Date cells are read as midnight UTC
+  if (cell instanceof Date) return cell.toISOString().split('T')[0];
+  if (typeof cell === 'number') return formatNumberCell(cell);
+  return String(cell).trim();
+};
+
+export const readWorkbook = async (file: File): Promise<WorkbookSheet[]> => {
+  const sheets = await readXlsxFile(file);
+  return sheets.map(sheet => {
+    const records = sheet.data.map(row => row.map(cellToText));
+    // Pad ragged rows so the column count check only flags real problems
+    const width = Math.max(0, ...records.map(record => record.length));
+    return {
+      name: sheet.sheet,
+      records: records.map(record => [...record, ...Array(width - record.length).fill('')]),
+    };
+  });
+};
+
+// The sheet most likely to hold the daily export: the first one with a
+// recognisable header, falling back to the first sheet
+export const pickSalesSheet = (sheets: WorkbookSheet[]): number =>
+  Math.max(sheets.findIndex(sheet => detectHeaderRow(sheet.records) >= 0), 0);
+
+// Binary files are kept in the import history as a data URL
+export const readFileAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
@@ -1,13 +1,60 @@
+// Payment set-up of an account, in workflow order (see lib/paymentWorkflow)
+export type PaymentStatus = 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah';
+
 export interface Account {
   id: string;
   username: string;
   email: string;
   phone: string;
   status: 'active' | 'violation' | 'inactive';
-  payment_data: 'belum diatur' | 'utamakan' | 'dimasukkan' | 'disetujui' | 'sah';
+  payment_data: PaymentStatus;
   account_code: string;
   category_id: string;
-  user_id: string | null;
+  created_at: string;
+}
+
+// A stretch of time a user owned an account; who owns what is only read from
+// these (see lib/assignments). Dates are inclusive YYYY-MM-DD.
+export interface AccountAssignment {
+  id: string;
+  account_id: string;
+  user_id: string;
+  starts_on: string | null; // null: since the account was created
+  ends_on: string | null; // null: still assigned
+  created_by: string | null;
+  created_at: string;
+}
+
+// One payment status change, written by the database whenever payment_data moves
+export interface PaymentHistoryEntry {
+  id: string;
+  account_id: string;
+  from_status: PaymentStatus | null; // null for the status the account was created with
+  to_status: PaymentStatus;
+  note: string;
+  changed_by: string | null;
+  changed_by_name: string;
+  created_at: string;
+}
+
+// One change of Account.status, written by the database like PaymentHistoryEntry
+export interface AccountStatusHistoryEntry {
+  id: string;
+  account_id: string;
+  from_status: Account['status'] | null; // null for the status the account was created with
+  to_status: Account['status'];
+  changed_by: string | null;
+  changed_by_name: string;
+  created_at: string;
+}
+
+// A comment in an account's notes thread
+export interface AccountNote {
+  id: string;
+  account_id: string;
+  body: string;
+  author_id: string | null;
+  author_name: string;
   created_at: string;
 }
 
@@ -31,6 +78,94 @@ export interface SalesData {
   created_at: string;
 }
 
+// Sums of the SalesData measures, as returned by the sales_* aggregate functions
+export interface SalesTotals {
+  clicks: number;
+  orders: number;
+  gross_commission: number;
+  products_sold: number;
+  total_purchases: number;
+  new_buyers: number;
+}
+
+export interface DailySalesTotals extends SalesTotals {
+  date: string;
+  accounts_count: number;
+}
+
+export interface AccountSalesTotals extends SalesTotals {
+  account_id: string;
+  days_count: number;
+  first_date: string;
+  last_date: string;
+}
+
+// An account's totals over the days one user owned it; user_id is null for
+// days the account had no owner
+export interface AssignmentSalesTotals extends AccountSalesTotals {
+  user_id: string | null;
+}
+
+export interface MonthlySalesTotals extends SalesTotals {
+  period: string; // YYYY-MM
+  days_count: number;
+}
+
+// Days an account has sales data for, sorted
+export interface AccountSalesCoverage {
+  account_id: string;
+  dates: string[];
+}
+
+// An account missing days it should have data for
+export interface AccountCoverageGap {
+  account: Account;
+  missing_dates: string[];
+  expected_days: number;
+}
+
+export interface UserMonthlySalesTotals extends SalesTotals {
+  user_id: string;
+  period: string; // YYYY-MM
+  accounts_count: number;
+}
+
+// Inclusive YYYY-MM-DD bounds
+export interface DateRange {
+  start: string;
+  end: string;
+}
+
+// A list fetched page by page; truncated means rows exist past the row cap
+export interface PagedResult<T> {
+  rows: T[];
+  truncated: boolean;
+}
+
+// Filters for the scoped fetches. userIds limits results to the accounts
+// currently assigned to those users; leaving a filter out means everything the caller can see.
+export interface SalesDataQuery {
+  range?: DateRange;
+  accountIds?: string[];
+  userIds?: string[];
+}
+
+export interface AccountQuery {
+  accountIds?: string[];
+  userIds?: string[];
+}
+
+// Assignments of the given accounts or users that overlap the range
+export interface AccountAssignmentQuery {
+  range?: DateRange;
+  accountIds?: string[];
+  userIds?: string[];
+}
+
+export interface UserQuery {
+  userIds?: string[];
+}
+
 export interface DashboardMetrics {
   totalCommission: number;
   totalRevenue: number;
@@ -46,6 +181,13 @@ export interface IncentiveTier {
   created_at: string;
 }
 
+export type IncentiveCalculationMode = 'flat' | 'marginal';
+
+// 'user' rules are evaluated per user; 'category' and 'group' rules pool the
+// revenue of everything they cover and split one pot between the participants
+export type IncentiveRuleScope = 'user' | 'category' | 'group';
+export type PoolDistribution = 'equal' | 'revenue' | 'commission';
+
 export interface IncentiveRule {
   id: string;
   name: string;
@@ -54,17 +196,35 @@ export interface IncentiveRule {
   commission_rate_min: number;
   commission_rate_max: number;
   base_revenue_threshold: number;
+  calculation_mode: IncentiveCalculationMode;
+  payout_cap: number | null; // maximum incentive per user (or per pool) per month, null for no cap
+  scope: IncentiveRuleScope;
+  scope_category_id: string | null;
+  scope_group_id: string | null;
+  distribution: PoolDistribution;
   tiers: IncentiveTier[];
   is_active: boolean;
+  rule_key: string; // shared by every version of the same rule
+  version: number;
+  effective_from: string; // YYYY-MM-DD
+  effective_to: string | null; // null while this is the current version
   created_at: string;
 }
 
+// Editable part of a rule, as submitted from the rule form
+export type IncentiveRuleDraft = Omit<IncentiveRule,
+  'id' | 'created_at' | 'tiers' | 'rule_key' | 'version' | 'effective_from' | 'effective_to'> & {
+  tiers: Omit<IncentiveTier, 'id' | 'created_at'>[];
+};
+
+// What a user may do follows from their role; see lib/permissions
+export type UserRole = 'superadmin' | 'team_lead' | 'finance' | 'auditor' | 'user';
+
 export interface User {
   id: string;
   name: string;
   email: string;
-  role: 'user' | 'superadmin';
-  managed_accounts: string[]; // Array of account IDs
+  role: UserRole;
   created_at: string;
   access_token?: string;
   refresh_token?: string;
@@ -73,6 +233,49 @@ export interface User {
   bio?: string;
   company?: string;
   avatar_url?: string;
+  must_change_password?: boolean; // set for invited users until they choose a password
+}
+
+// What a superadmin fills in to invite someone
+export interface UserInvite {
+  name: string;
+  email: string;
+  role: User['role'];
+  account_ids: string[]; // assigned to the invitee once their row exists
+}
+
+export interface UserGroup {
+  id: string;
+  name: string;
+  description?: string | null;
+  member_ids: string[]; // Array of user IDs
+  created_at: string;
+}
+
+export interface PoolShare {
+  user_id: string;
+  user_name: string;
+  revenue: number;
+  commission: number;
+  share_ratio: number; // 0-1
+  amount: number;
+}
+
+export interface PoolIncentiveCalculation {
+  rule: IncentiveRule;
+  scope_name: string;
+  total_revenue: number;
+  total_commission: number;
+  commission_rate: number;
+  accounts_count: number;
+  qualifying_accounts_count: number;
+  current_tier: IncentiveTier | null;
+  next_tier: IncentiveTier | null;
+  pot_amount: number;
+  is_capped: boolean;
+  progress_percentage: number;
+  remaining_to_next_tier: number;
+  shares: PoolShare[];
 }
 
 export interface IncentiveCalculation {
@@ -85,9 +288,65 @@ export interface IncentiveCalculation {
   current_tier: IncentiveTier | null;
   next_tier: IncentiveTier | null;
   incentive_amount: number;
+  is_capped: boolean;
   progress_percentage: number;
   remaining_to_next_tier: number;
   managed_accounts_count: number;
+  qualifying_accounts_count: number;
+}
+
+export type PayoutStatus = 'draft' | 'approved' | 'paid';
+
+export interface IncentivePayout {
+  id: string;
+  period: string; // YYYY-MM
+  user_id: string;
+  user_name: string;
+  total_revenue: number;
+  total_commission: number;
+  commission_rate: number;
+  managed_accounts_count: number;
+  qualifying_accounts_count: number;
+  rule_id: string | null;
+  rule_snapshot: IncentiveRule | null;
+  tier_snapshot: IncentiveTier | null;
+  incentive_amount: number;
+  status: PayoutStatus;
+  closed_by: string | null;
+  closed_at: string;
+  approved_by: string | null;
+  approved_at: string | null;
+  paid_by: string | null;
+  paid_at: string | null;
+  created_at: string;
+}
+
+// A pooled rule's locked result for a closed month, with every member's share
+export interface IncentivePoolPayout {
+  id: string;
+  period: string; // YYYY-MM
+  rule_id: string | null;
+  rule_snapshot: IncentiveRule;
+  scope_name: string;
+  total_revenue: number;
+  total_commission: number;
+  commission_rate: number;
+  accounts_count: number;
+  qualifying_accounts_count: number;
+  tier_snapshot: IncentiveTier | null;
+  pot_amount: number;
+  is_capped: boolean;
+  shares: PoolShare[];
+  closed_by: string | null;
+  closed_at: string;
+  created_at: string;
+}
+
+// A closed incentive month; its payouts are read from the ledger from then on
+export interface IncentiveMonthClose {
+  period: string; // YYYY-MM
+  closed_by: string | null;
+  closed_at: string;
 }
 
 export interface FileData {
@@ -101,4 +360,50 @@ export interface FileData {
   created_by: string | null;
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+export type ImportBatchStatus = 'applied' | 'rolled_back';
+// 'delete' batches record a deleted date range instead of an uploaded file
+export type ImportBatchKind = 'import' | 'delete';
+
+export type SalesImportRow = Omit<SalesData, 'id' | 'account_id' | 'created_at'>;
+
+// One uploaded file, ready to be written as an import batch
+export interface SalesImportFile {
+  account_id: string;
+  file_name: string;
+  file_content: string;
+  rows: SalesImportRow[];
+}
+
+export interface SalesImportBatch {
+  id: string;
+  kind: ImportBatchKind;
+  account_id: string;
+  file_name: string;
+  file_content?: string; // only loaded when the original file is downloaded
+  uploaded_by: string | null;
+  uploaded_by_name: string;
+  dates: string[];
+  row_count: number;
+  previous_rows: SalesImportRow[]; // rows as they were before the import overwrote them
+  status: ImportBatchStatus;
+  rolled_back_by: string | null;
+  rolled_back_at: string | null;
+  created_at: string;
+}
+
+// Tables whose changes reach open sessions through Supabase Realtime
+export type SyncedTable = 'accounts' | 'sales_data' | 'users' | 'incentive_rules' | 'files';
+
+// A write another user made while this session was open
+export interface RemoteChange {
+  id: string;
+  table: SyncedTable;
+  event: 'INSERT' | 'UPDATE';
+  record_id: string; // the changed row; for sales data, the account
+  record_name: string; // username or name of the row, empty for sales data
+  user_id: string;
+  user_name: string;
+  at: number;
+  dismissed: boolean;
+}
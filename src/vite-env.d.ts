@@ -1 +1,12 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  // 'true' enables the development sign-in in lib/devAuth (dev server only)
+  readonly VITE_DEV_AUTH?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -0,0 +1,166 @@
+/*
+  # manage-users
+
+  User provisioning that needs the service role key, so the browser never
+  calls the Auth admin API. Only users with the users.manage permission may
+  call it.
+
+  POST { action: 'invite', name, email, role, account_ids, redirect_to }
+    Sends a Supabase invite email, creates the users row and assigns the
+    accounts to the new user (set_user_accounts). The invitee
+    chooses a password when they follow the link (must_change_password).
+    Returns the users row.
+
+  POST { action: 'delete', user_id }
+    Deletes the users row and the auth user. Returns { deleted: true }.
+    Users who ever owned an account or have payouts are kept for their
+    history; deleting them fails with a 409.
+*/
+
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const ROLES = ['superadmin', 'team_lead', 'finance', 'auditor', 'user'];
+
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const requireString = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw new RequestError(`${field} is required`);
+  return value.trim();
+};
+
+// The caller, from the JWT the client sent, if they may manage users
+const requireUserManager = async (req: Request, admin: SupabaseClient): Promise<string> => {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer /, '');
+  if (!token) throw new RequestError('Not signed in', 401);
+
+  const { data: { user }, error } = await admin.auth.getUser(token);
+  if (error || !user) throw new RequestError('Not signed in', 401);
+
+  const { data: profile } = await admin.from('users').select('role').eq('id', user.id).maybeSingle();
+  const { data: allowed } = profile
+    ? await admin.rpc('role_has_permission', { p_role: profile.role, p_permission: 'users.manage' })
+    : { data: false };
+  if (!allowed) throw new RequestError('You are not allowed to manage users', 403);
+
+  return user.id;
+};
+
+const inviteUser = async (admin: SupabaseClient, body: Record<string, unknown>) => {
+  const name = requireString(body.name, 'name');
+  const email = requireString(body.email, 'email').toLowerCase();
+  const role = requireString(body.role, 'role');
+  if (!ROLES.includes(role)) throw new RequestError(`Unknown role ${role}`);
+  const accountIds = Array.isArray(body.account_ids) ? body.account_ids.map(String) : [];
+  const redirectTo = typeof body.redirect_to === 'string' ? body.redirect_to : undefined;
+
+  const { data: invited, error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+    data: { name },
+    redirectTo,
+  });
+  if (inviteError) throw new RequestError(inviteError.message);
+
+  const { data: user, error: insertError } = await admin
+    .from('users')
+    .insert([{
+      id: invited.user.id,
+      name,
+      email,
+      role,
+      must_change_password: true,
+    }])
+    .select()
+    .single();
+
+  if (insertError) {
+    // Don't leave a login behind that has no users row
+    await admin.auth.admin.deleteUser(invited.user.id);
+    throw new RequestError(insertError.message);
+  }
+
+  if (accountIds.length > 0) {
+    const { error: assignError } = await admin.rpc('set_user_accounts', {
+      p_user_id: user.id,
+      p_account_ids: accountIds,
+    });
+    if (assignError) throw new RequestError(`User invited, but assigning accounts failed: ${assignError.message}`);
+  }
+
+  return user;
+};
+
+const deleteUser = async (admin: SupabaseClient, body: Record<string, unknown>, callerId: string) => {
+  const userId = requireString(body.user_id, 'user_id');
+  if (userId === callerId) throw new RequestError('You cannot delete your own account');
+
+  // Ownership history and payouts reference the user (ON DELETE RESTRICT)
+  const history = await Promise.all([
+    admin.from('account_assignments').select('id', { count: 'exact', head: true }).eq('user_id', userId),
+    admin.from('incentive_payouts').select('id', { count: 'exact', head: true }).eq('user_id', userId),
+  ]);
+  const failedCount = history.find(result => result.error);
+  if (failedCount?.error) throw new RequestError(failedCount.error.message);
+  const [assignmentCount, payoutCount] = history.map(result => result.count || 0);
+  if (assignmentCount > 0 || payoutCount > 0) {
+    const kept = [
+      assignmentCount > 0 ? `${assignmentCount} account assignment(s)` : null,
+      payoutCount > 0 ? `${payoutCount} payout(s)` : null,
+    ].filter(Boolean).join(' and ');
+    throw new RequestError(`This user has ${kept} and can't be deleted. Move their accounts to someone else instead.`, 409);
+  }
+
+  const { error: deleteRowError } = await admin.from('users').delete().eq('id', userId);
+  // 23503: a reference added since the check above
+  if (deleteRowError?.code === '23503') {
+    throw new RequestError('This user is still referenced by account history or payouts and can\'t be deleted', 409);
+  }
+  if (deleteRowError) throw new RequestError(deleteRowError.message);
+
+  // Users added before invites existed may have no auth user
+  const { error: deleteAuthError } = await admin.auth.admin.deleteUser(userId);
+  if (deleteAuthError && deleteAuthError.status !== 404) throw new RequestError(deleteAuthError.message);
+
+  return { deleted: true };
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  try {
+    const callerId = await requireUserManager(req, admin);
+    const body = await req.json() as Record<string, unknown>;
+
+    switch (body.action) {
+      case 'invite':
+        return json(await inviteUser(admin, body));
+      case 'delete':
+        return json(await deleteUser(admin, body, callerId));
+      default:
+        throw new RequestError(`Unknown action ${String(body.action)}`);
+    }
+  } catch (err) {
+    if (err instanceof RequestError) return json({ error: err.message }, err.status);
+    console.error('manage-users failed:', err);
+    return json({ error: 'Something went wrong managing users' }, 500);
+  }
+});
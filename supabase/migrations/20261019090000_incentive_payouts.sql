@@ -0,0 +1,105 @@
+/*
+  # Incentive payout ledger
+
+  1. New Tables
+    - `incentive_payouts`
+      - One locked snapshot of a user's incentive calculation per closed month
+      - `rule_snapshot` / `tier_snapshot` keep the rule and tier exactly as they were
+        when the month was closed, so later rule edits don't change the payout
+      - `status` moves draft -> approved -> paid
+
+  2. Locking
+    - Snapshot columns can never be updated once inserted
+    - Status can only move forward one step at a time
+    - Rows can't be deleted once they left draft
+
+  3. Security
+    - Superadmins can read and manage all payouts
+    - Users can read their own payouts
+*/
+
+DO $$ BEGIN
+  CREATE TYPE payout_status AS ENUM ('draft', 'approved', 'paid');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS incentive_payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period text NOT NULL CHECK (period ~ '^\d{4}-\d{2}$'),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  user_name text NOT NULL,
+  total_revenue numeric NOT NULL DEFAULT 0,
+  total_commission numeric NOT NULL DEFAULT 0,
+  commission_rate numeric NOT NULL DEFAULT 0,
+  managed_accounts_count integer NOT NULL DEFAULT 0,
+  qualifying_accounts_count integer NOT NULL DEFAULT 0,
+  rule_id uuid REFERENCES incentive_rules(id) ON DELETE SET NULL,
+  rule_snapshot jsonb,
+  tier_snapshot jsonb,
+  incentive_amount numeric NOT NULL DEFAULT 0,
+  status payout_status NOT NULL DEFAULT 'draft',
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  closed_at timestamptz NOT NULL DEFAULT now(),
+  approved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  paid_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  paid_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (period, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS incentive_payouts_period_idx ON incentive_payouts (period);
+
+CREATE OR REPLACE FUNCTION lock_incentive_payout()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.status <> 'draft' THEN
+      RAISE EXCEPTION 'Payout % is % and can no longer be deleted', OLD.id, OLD.status;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF NEW.period IS DISTINCT FROM OLD.period
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.total_revenue IS DISTINCT FROM OLD.total_revenue
+    OR NEW.total_commission IS DISTINCT FROM OLD.total_commission
+    OR NEW.commission_rate IS DISTINCT FROM OLD.commission_rate
+    OR NEW.rule_snapshot IS DISTINCT FROM OLD.rule_snapshot
+    OR NEW.tier_snapshot IS DISTINCT FROM OLD.tier_snapshot
+    OR NEW.incentive_amount IS DISTINCT FROM OLD.incentive_amount
+    OR NEW.closed_at IS DISTINCT FROM OLD.closed_at THEN
+    RAISE EXCEPTION 'Payout % is locked', OLD.id;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status AND NOT (
+    (OLD.status = 'draft' AND NEW.status = 'approved') OR
+    (OLD.status = 'approved' AND NEW.status = 'paid')
+  ) THEN
+    RAISE EXCEPTION 'Payout status cannot move from % to %', OLD.status, NEW.status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_incentive_payout ON incentive_payouts;
+CREATE TRIGGER lock_incentive_payout
+  BEFORE UPDATE OR DELETE ON incentive_payouts
+  FOR EACH ROW EXECUTE FUNCTION lock_incentive_payout();
+
+ALTER TABLE incentive_payouts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can manage payouts"
+  ON incentive_payouts
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+CREATE POLICY "Users can read own payouts"
+  ON incentive_payouts
+  FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
@@ -0,0 +1,90 @@
+/*
+  # Versioned incentive rules
+
+  1. Changes to `incentive_rules`
+    - `rule_key` groups every version of the same rule
+    - `version` is an increasing version number within a `rule_key`
+    - `effective_from` / `effective_to` give the date range a version is in force;
+      `effective_to` is null for the current version
+
+  2. Immutability
+    - A version's terms and its tiers can't be edited after insert. Editing a rule
+      inserts a new version and closes the previous one through `effective_to`.
+    - Only `is_active` and `effective_to` may still change on an existing version
+
+  3. Backfill
+    - Existing rules become version 1 of their own `rule_key`, in force from the
+      first month with sales data so past months keep their current rule
+*/
+
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS rule_key uuid;
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS version integer;
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS effective_from date;
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS effective_to date;
+
+UPDATE incentive_rules
+SET
+  rule_key = COALESCE(rule_key, id),
+  version = COALESCE(version, 1),
+  effective_from = COALESCE(
+    effective_from,
+    date_trunc('month', LEAST(created_at::date, COALESCE((SELECT min(date) FROM sales_data), created_at::date)))::date
+  );
+
+ALTER TABLE incentive_rules ALTER COLUMN rule_key SET DEFAULT gen_random_uuid();
+ALTER TABLE incentive_rules ALTER COLUMN rule_key SET NOT NULL;
+ALTER TABLE incentive_rules ALTER COLUMN version SET DEFAULT 1;
+ALTER TABLE incentive_rules ALTER COLUMN version SET NOT NULL;
+ALTER TABLE incentive_rules ALTER COLUMN effective_from SET DEFAULT CURRENT_DATE;
+ALTER TABLE incentive_rules ALTER COLUMN effective_from SET NOT NULL;
+
+DO $$ BEGIN
+  ALTER TABLE incentive_rules ADD CONSTRAINT incentive_rules_rule_key_version_key UNIQUE (rule_key, version);
+EXCEPTION
+  WHEN duplicate_table THEN null;
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE incentive_rules ADD CONSTRAINT incentive_rules_effective_range_check
+    CHECK (effective_to IS NULL OR effective_to >= effective_from);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE INDEX IF NOT EXISTS incentive_rules_rule_key_idx ON incentive_rules (rule_key, version);
+
+CREATE OR REPLACE FUNCTION lock_incentive_rule_version()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.rule_key IS DISTINCT FROM OLD.rule_key
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.effective_from IS DISTINCT FROM OLD.effective_from
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.min_commission_threshold IS DISTINCT FROM OLD.min_commission_threshold
+    OR NEW.commission_rate_min IS DISTINCT FROM OLD.commission_rate_min
+    OR NEW.commission_rate_max IS DISTINCT FROM OLD.commission_rate_max
+    OR NEW.base_revenue_threshold IS DISTINCT FROM OLD.base_revenue_threshold THEN
+    RAISE EXCEPTION 'Incentive rule version % is immutable, create a new version instead', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_incentive_rule_version ON incentive_rules;
+CREATE TRIGGER lock_incentive_rule_version
+  BEFORE UPDATE ON incentive_rules
+  FOR EACH ROW EXECUTE FUNCTION lock_incentive_rule_version();
+
+CREATE OR REPLACE FUNCTION lock_incentive_tier()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Incentive tiers are immutable, create a new rule version instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_incentive_tier ON incentive_tiers;
+CREATE TRIGGER lock_incentive_tier
+  BEFORE UPDATE ON incentive_tiers
+  FOR EACH ROW EXECUTE FUNCTION lock_incentive_tier();
@@ -0,0 +1,51 @@
+/*
+  # Incentive calculation mode and payout cap
+
+  1. Changes to `incentive_rules`
+    - `calculation_mode`
+      - `flat`: the reached tier's rate applies to the whole revenue (previous behaviour)
+      - `marginal`: each tier's rate applies only to the revenue between its
+        threshold and the next tier's threshold
+    - `payout_cap`: optional maximum incentive per user per month
+
+  2. Immutability
+    - Both columns are part of a rule version's terms, so the version lock
+      trigger now also protects them
+*/
+
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS calculation_mode text NOT NULL DEFAULT 'flat';
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS payout_cap numeric;
+
+DO $$ BEGIN
+  ALTER TABLE incentive_rules ADD CONSTRAINT incentive_rules_calculation_mode_check
+    CHECK (calculation_mode IN ('flat', 'marginal'));
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE incentive_rules ADD CONSTRAINT incentive_rules_payout_cap_check
+    CHECK (payout_cap IS NULL OR payout_cap >= 0);
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE FUNCTION lock_incentive_rule_version()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.rule_key IS DISTINCT FROM OLD.rule_key
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.effective_from IS DISTINCT FROM OLD.effective_from
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.min_commission_threshold IS DISTINCT FROM OLD.min_commission_threshold
+    OR NEW.commission_rate_min IS DISTINCT FROM OLD.commission_rate_min
+    OR NEW.commission_rate_max IS DISTINCT FROM OLD.commission_rate_max
+    OR NEW.base_revenue_threshold IS DISTINCT FROM OLD.base_revenue_threshold
+    OR NEW.calculation_mode IS DISTINCT FROM OLD.calculation_mode
+    OR NEW.payout_cap IS DISTINCT FROM OLD.payout_cap THEN
+    RAISE EXCEPTION 'Incentive rule version % is immutable, create a new version instead', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
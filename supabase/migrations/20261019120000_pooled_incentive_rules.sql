@@ -0,0 +1,85 @@
+/*
+  # Team-level and category-level incentive rules
+
+  1. New Tables
+    - `user_groups`
+      - A named team of users, members kept in `member_ids` like `users.managed_accounts`
+
+  2. Changes to `incentive_rules`
+    - `scope`: `user` (per user, previous behaviour), `category` or `group`
+    - `scope_category_id` / `scope_group_id`: what a pooled rule covers
+    - `distribution`: how a pooled pot is split - `equal`, `revenue` or `commission`
+    - The version lock trigger now also protects these columns
+
+  3. Security
+    - Superadmins manage groups, every authenticated user can read them
+*/
+
+CREATE TABLE IF NOT EXISTS user_groups (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  member_ids uuid[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read user groups"
+  ON user_groups
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Superadmins can manage user groups"
+  ON user_groups
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS scope text NOT NULL DEFAULT 'user';
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS scope_category_id uuid REFERENCES categories(id) ON DELETE RESTRICT;
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS scope_group_id uuid REFERENCES user_groups(id) ON DELETE RESTRICT;
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS distribution text NOT NULL DEFAULT 'revenue';
+
+DO $$ BEGIN
+  ALTER TABLE incentive_rules ADD CONSTRAINT incentive_rules_scope_check CHECK (
+    (scope = 'user' AND scope_category_id IS NULL AND scope_group_id IS NULL) OR
+    (scope = 'category' AND scope_category_id IS NOT NULL AND scope_group_id IS NULL) OR
+    (scope = 'group' AND scope_group_id IS NOT NULL AND scope_category_id IS NULL)
+  );
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+DO $$ BEGIN
+  ALTER TABLE incentive_rules ADD CONSTRAINT incentive_rules_distribution_check
+    CHECK (distribution IN ('equal', 'revenue', 'commission'));
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE OR REPLACE FUNCTION lock_incentive_rule_version()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.rule_key IS DISTINCT FROM OLD.rule_key
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.effective_from IS DISTINCT FROM OLD.effective_from
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.min_commission_threshold IS DISTINCT FROM OLD.min_commission_threshold
+    OR NEW.commission_rate_min IS DISTINCT FROM OLD.commission_rate_min
+    OR NEW.commission_rate_max IS DISTINCT FROM OLD.commission_rate_max
+    OR NEW.base_revenue_threshold IS DISTINCT FROM OLD.base_revenue_threshold
+    OR NEW.calculation_mode IS DISTINCT FROM OLD.calculation_mode
+    OR NEW.payout_cap IS DISTINCT FROM OLD.payout_cap
+    OR NEW.scope IS DISTINCT FROM OLD.scope
+    OR NEW.scope_category_id IS DISTINCT FROM OLD.scope_category_id
+    OR NEW.scope_group_id IS DISTINCT FROM OLD.scope_group_id
+    OR NEW.distribution IS DISTINCT FROM OLD.distribution THEN
+    RAISE EXCEPTION 'Incentive rule version % is immutable, create a new version instead', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
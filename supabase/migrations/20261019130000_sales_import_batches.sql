@@ -0,0 +1,174 @@
+/*
+  # Sales import batches
+
+  1. New Tables
+    - `sales_import_batches`
+      - One record per uploaded file: the original file, the uploader, the
+        account and the dates it wrote
+      - `previous_rows` keeps the sales_data rows the import overwrote, exactly
+        as they were, so the import can be undone
+      - `status` moves applied -> rolled_back
+
+  2. Functions
+    - `import_sales_batch` records the batch and upserts its rows in one
+      transaction, snapshotting the overwritten rows server-side
+    - `rollback_sales_import` restores the overwritten rows, deletes the days
+      the import added and marks the batch rolled back. A batch can't be rolled
+      back while a newer applied batch touched the same days.
+
+  3. Security
+    - Superadmins can read and manage all batches
+    - Users can read and manage batches of the accounts they manage
+    - Both functions run as the caller, so the sales_data policies still apply
+*/
+
+DO $$ BEGIN
+  CREATE TYPE import_batch_status AS ENUM ('applied', 'rolled_back');
+EXCEPTION
+  WHEN duplicate_object THEN null;
+END $$;
+
+CREATE TABLE IF NOT EXISTS sales_import_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  file_name text NOT NULL,
+  file_content text NOT NULL DEFAULT '',
+  uploaded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  uploaded_by_name text NOT NULL DEFAULT '',
+  dates date[] NOT NULL DEFAULT '{}',
+  row_count integer NOT NULL DEFAULT 0,
+  previous_rows jsonb NOT NULL DEFAULT '[]'::jsonb,
+  status import_batch_status NOT NULL DEFAULT 'applied',
+  rolled_back_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  rolled_back_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS sales_import_batches_account_idx ON sales_import_batches (account_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION import_sales_batch(
+  p_account_id uuid,
+  p_file_name text,
+  p_file_content text,
+  p_rows jsonb
+)
+RETURNS sales_import_batches AS $$
+DECLARE
+  v_dates date[];
+  v_batch sales_import_batches;
+BEGIN
+  SELECT COALESCE(array_agg(DISTINCT row_data.date ORDER BY row_data.date), '{}')
+    INTO v_dates
+    FROM jsonb_populate_recordset(NULL::sales_data, p_rows) AS row_data;
+
+  INSERT INTO sales_import_batches (account_id, file_name, file_content, uploaded_by, uploaded_by_name, dates, row_count, previous_rows)
+  VALUES (
+    p_account_id,
+    p_file_name,
+    p_file_content,
+    auth.uid(),
+    COALESCE((SELECT name FROM users WHERE id = auth.uid()), ''),
+    v_dates,
+    jsonb_array_length(p_rows),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(existing) - 'id' - 'account_id' - 'created_at' ORDER BY existing.date)
+        FROM sales_data existing
+       WHERE existing.account_id = p_account_id
+         AND existing.date = ANY (v_dates)
+    ), '[]'::jsonb)
+  )
+  RETURNING * INTO v_batch;
+
+  INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers)
+  SELECT p_account_id, row_data.date, row_data.clicks, row_data.orders, row_data.gross_commission,
+         row_data.products_sold, row_data.total_purchases, row_data.new_buyers
+    FROM jsonb_populate_recordset(NULL::sales_data, p_rows) AS row_data
+  ON CONFLICT (account_id, date) DO UPDATE SET
+    clicks = EXCLUDED.clicks,
+    orders = EXCLUDED.orders,
+    gross_commission = EXCLUDED.gross_commission,
+    products_sold = EXCLUDED.products_sold,
+    total_purchases = EXCLUDED.total_purchases,
+    new_buyers = EXCLUDED.new_buyers;
+
+  RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rollback_sales_import(p_batch_id uuid)
+RETURNS sales_import_batches AS $$
+DECLARE
+  v_batch sales_import_batches;
+  v_newer text;
+BEGIN
+  SELECT * INTO v_batch FROM sales_import_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import batch % was already rolled back', p_batch_id;
+  END IF;
+
+  -- Restoring older values on top of a newer import would silently undo it too
+  SELECT file_name INTO v_newer
+    FROM sales_import_batches
+   WHERE account_id = v_batch.account_id
+     AND status = 'applied'
+     AND created_at > v_batch.created_at
+     AND dates && v_batch.dates
+   ORDER BY created_at DESC
+   LIMIT 1;
+
+  IF v_newer IS NOT NULL THEN
+    RAISE EXCEPTION 'The newer import "%" changed the same days; roll that back first', v_newer;
+  END IF;
+
+  -- Days the import added
+  DELETE FROM sales_data
+   WHERE account_id = v_batch.account_id
+     AND date = ANY (v_batch.dates)
+     AND date NOT IN (
+       SELECT previous.date FROM jsonb_populate_recordset(NULL::sales_data, v_batch.previous_rows) AS previous
+     );
+
+  -- Days the import overwrote
+  INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers)
+  SELECT v_batch.account_id, previous.date, previous.clicks, previous.orders, previous.gross_commission,
+         previous.products_sold, previous.total_purchases, previous.new_buyers
+    FROM jsonb_populate_recordset(NULL::sales_data, v_batch.previous_rows) AS previous
+  ON CONFLICT (account_id, date) DO UPDATE SET
+    clicks = EXCLUDED.clicks,
+    orders = EXCLUDED.orders,
+    gross_commission = EXCLUDED.gross_commission,
+    products_sold = EXCLUDED.products_sold,
+    total_purchases = EXCLUDED.total_purchases,
+    new_buyers = EXCLUDED.new_buyers;
+
+  UPDATE sales_import_batches
+     SET status = 'rolled_back',
+         rolled_back_by = auth.uid(),
+         rolled_back_at = now()
+   WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE sales_import_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can manage import batches"
+  ON sales_import_batches
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+CREATE POLICY "Users can manage import batches of own accounts"
+  ON sales_import_batches
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND sales_import_batches.account_id = ANY (users.managed_accounts)))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND sales_import_batches.account_id = ANY (users.managed_accounts)));
@@ -0,0 +1,125 @@
+/*
+  # Sales aggregates
+
+  Screens used to load every sales_data row and sum them in the browser. These
+  functions return the sums for just the range a screen shows.
+
+  1. Functions
+    - `sales_daily_totals` - one row per day, summed over the accounts
+    - `sales_account_totals` - one row per account, with the first and last
+      day of data and the number of days
+    - `sales_user_monthly_totals` - one row per user and month, over the
+      accounts in `users.managed_accounts`
+    - All take an optional date range (inclusive, NULL = unbounded); the first
+      two also take an optional list of accounts (NULL = all visible accounts)
+
+  2. Security
+    - The functions run as the caller, so the sales_data and users policies
+      decide which rows are summed
+
+  3. Indexes
+    - `sales_data (date)` for range scans across all accounts
+*/
+
+CREATE INDEX IF NOT EXISTS sales_data_date_idx ON sales_data (date);
+
+CREATE OR REPLACE FUNCTION sales_daily_totals(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  date date,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint,
+  accounts_count bigint
+) AS $$
+  SELECT
+    s.date,
+    COALESCE(sum(s.clicks), 0)::bigint,
+    COALESCE(sum(s.orders), 0)::bigint,
+    COALESCE(sum(s.gross_commission), 0)::numeric,
+    COALESCE(sum(s.products_sold), 0)::bigint,
+    COALESCE(sum(s.total_purchases), 0)::numeric,
+    COALESCE(sum(s.new_buyers), 0)::bigint,
+    count(DISTINCT s.account_id)::bigint
+  FROM sales_data s
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY s.date
+  ORDER BY s.date;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sales_account_totals(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  account_id uuid,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint,
+  days_count bigint,
+  first_date date,
+  last_date date
+) AS $$
+  SELECT
+    s.account_id,
+    COALESCE(sum(s.clicks), 0)::bigint,
+    COALESCE(sum(s.orders), 0)::bigint,
+    COALESCE(sum(s.gross_commission), 0)::numeric,
+    COALESCE(sum(s.products_sold), 0)::bigint,
+    COALESCE(sum(s.total_purchases), 0)::numeric,
+    COALESCE(sum(s.new_buyers), 0)::bigint,
+    count(*)::bigint,
+    min(s.date),
+    max(s.date)
+  FROM sales_data s
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY s.account_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sales_user_monthly_totals(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  period text,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint,
+  accounts_count bigint
+) AS $$
+  SELECT
+    u.id,
+    to_char(s.date, 'YYYY-MM'),
+    COALESCE(sum(s.clicks), 0)::bigint,
+    COALESCE(sum(s.orders), 0)::bigint,
+    COALESCE(sum(s.gross_commission), 0)::numeric,
+    COALESCE(sum(s.products_sold), 0)::bigint,
+    COALESCE(sum(s.total_purchases), 0)::numeric,
+    COALESCE(sum(s.new_buyers), 0)::bigint,
+    count(DISTINCT s.account_id)::bigint
+  FROM users u
+  CROSS JOIN LATERAL unnest(u.managed_accounts) AS managed(account_id)
+  JOIN sales_data s ON s.account_id = managed.account_id
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+  GROUP BY u.id, to_char(s.date, 'YYYY-MM')
+  ORDER BY 2, u.id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,87 @@
+/*
+  # Realtime change tracking
+
+  Open sessions follow changes made elsewhere through Supabase Realtime. To tell
+  the user who made a change, every tracked row records its last writer.
+
+  1. Changes to `accounts`, `sales_data`, `users`, `incentive_rules`, `files`
+    - `updated_by`: the user whose insert or update wrote the row last
+    - `updated_by_name`: their name at the time, like
+      `sales_import_batches.uploaded_by_name`
+    - Both are set by the `stamp_updated_by` trigger, never by the client
+
+  2. Realtime
+    - The five tables are added to the `supabase_realtime` publication.
+      Subscribers only receive rows their select policies let them read.
+*/
+
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE accounts ADD COLUMN IF NOT EXISTS updated_by_name text NOT NULL DEFAULT '';
+
+ALTER TABLE sales_data ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE sales_data ADD COLUMN IF NOT EXISTS updated_by_name text NOT NULL DEFAULT '';
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS updated_by_name text NOT NULL DEFAULT '';
+
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE incentive_rules ADD COLUMN IF NOT EXISTS updated_by_name text NOT NULL DEFAULT '';
+
+ALTER TABLE files ADD COLUMN IF NOT EXISTS updated_by uuid REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE files ADD COLUMN IF NOT EXISTS updated_by_name text NOT NULL DEFAULT '';
+
+-- Writers without a users row (the service role, a signup creating its own
+-- row) leave the columns empty
+CREATE OR REPLACE FUNCTION stamp_updated_by()
+RETURNS trigger AS $$
+BEGIN
+  SELECT users.id, users.name
+    INTO NEW.updated_by, NEW.updated_by_name
+    FROM users
+   WHERE users.id = auth.uid();
+
+  NEW.updated_by_name := COALESCE(NEW.updated_by_name, '');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_updated_by ON accounts;
+CREATE TRIGGER stamp_updated_by
+  BEFORE INSERT OR UPDATE ON accounts
+  FOR EACH ROW EXECUTE FUNCTION stamp_updated_by();
+
+DROP TRIGGER IF EXISTS stamp_updated_by ON sales_data;
+CREATE TRIGGER stamp_updated_by
+  BEFORE INSERT OR UPDATE ON sales_data
+  FOR EACH ROW EXECUTE FUNCTION stamp_updated_by();
+
+DROP TRIGGER IF EXISTS stamp_updated_by ON users;
+CREATE TRIGGER stamp_updated_by
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION stamp_updated_by();
+
+DROP TRIGGER IF EXISTS stamp_updated_by ON incentive_rules;
+CREATE TRIGGER stamp_updated_by
+  BEFORE INSERT OR UPDATE ON incentive_rules
+  FOR EACH ROW EXECUTE FUNCTION stamp_updated_by();
+
+DROP TRIGGER IF EXISTS stamp_updated_by ON files;
+CREATE TRIGGER stamp_updated_by
+  BEFORE INSERT OR UPDATE ON files
+  FOR EACH ROW EXECUTE FUNCTION stamp_updated_by();
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['accounts', 'sales_data', 'users', 'incentive_rules', 'files'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+       WHERE pubname = 'supabase_realtime'
+         AND schemaname = 'public'
+         AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+    END IF;
+  END LOOP;
+END $$;
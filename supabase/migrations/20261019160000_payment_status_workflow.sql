@@ -0,0 +1,142 @@
+/*
+  # Payment status workflow
+
+  `accounts.payment_data` moves belum diatur -> utamakan -> dimasukkan ->
+  disetujui -> sah. Until now any value could follow any other and nothing
+  recorded who changed it.
+
+  1. Transitions (`payment_transition_allowed`)
+    - Anyone who can edit the account:
+      belum diatur <-> utamakan, belum diatur/utamakan -> dimasukkan
+    - Superadmins only: dimasukkan -> disetujui -> sah, and every step back
+      from dimasukkan, disetujui or sah
+    - New accounts start at belum diatur, utamakan or dimasukkan; superadmins
+      can create them at any status
+    - Writes without a logged-in user (service role, migrations) are not
+      checked
+
+  2. New Tables
+    - `account_payment_history`
+      - One row per status change, including the status an account was created
+        with (`from_status` NULL)
+      - `note` is the reason given through `change_payment_status`, empty for
+        changes saved with the account form
+      - Written by the trigger only; there is no way to edit or delete entries
+
+  3. Functions
+    - `change_payment_status` moves an account to a new status with a note
+
+  4. Security
+    - Superadmins can read all history
+    - Users can read the history of the accounts they manage
+*/
+
+CREATE TABLE IF NOT EXISTS account_payment_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  note text NOT NULL DEFAULT '',
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS account_payment_history_account_idx ON account_payment_history (account_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION payment_transition_allowed(p_from text, p_to text, p_is_superadmin boolean)
+RETURNS boolean AS $$
+  SELECT CASE
+    WHEN p_from IS NOT DISTINCT FROM p_to THEN true
+    WHEN p_from IS NULL THEN p_is_superadmin OR p_to IN ('belum diatur', 'utamakan', 'dimasukkan')
+    WHEN p_is_superadmin THEN (p_from, p_to) IN (
+      ('belum diatur', 'utamakan'), ('belum diatur', 'dimasukkan'),
+      ('utamakan', 'belum diatur'), ('utamakan', 'dimasukkan'),
+      ('dimasukkan', 'disetujui'), ('dimasukkan', 'utamakan'),
+      ('disetujui', 'sah'), ('disetujui', 'dimasukkan'),
+      ('sah', 'disetujui')
+    )
+    ELSE (p_from, p_to) IN (
+      ('belum diatur', 'utamakan'), ('belum diatur', 'dimasukkan'),
+      ('utamakan', 'belum diatur'), ('utamakan', 'dimasukkan')
+    )
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Runs as the owner so history can be written even though clients can't
+-- insert into it themselves
+CREATE OR REPLACE FUNCTION track_payment_status()
+RETURNS trigger AS $$
+DECLARE
+  v_from text;
+  v_user users;
+BEGIN
+  v_from := CASE WHEN TG_OP = 'UPDATE' THEN OLD.payment_data::text END;
+
+  IF TG_OP = 'UPDATE' AND v_from IS NOT DISTINCT FROM NEW.payment_data::text THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE users.id = auth.uid();
+
+  IF auth.uid() IS NOT NULL
+    AND NOT payment_transition_allowed(v_from, NEW.payment_data::text, COALESCE(v_user.role::text = 'superadmin', false)) THEN
+    RAISE EXCEPTION 'Payment status cannot move from % to %', COALESCE(v_from, '(new account)'), NEW.payment_data;
+  END IF;
+
+  INSERT INTO account_payment_history (account_id, from_status, to_status, note, changed_by, changed_by_name)
+  VALUES (
+    NEW.id,
+    v_from,
+    NEW.payment_data::text,
+    COALESCE(current_setting('app.payment_note', true), ''),
+    v_user.id,
+    COALESCE(v_user.name, '')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS track_payment_status ON accounts;
+CREATE TRIGGER track_payment_status
+  AFTER INSERT OR UPDATE OF payment_data ON accounts
+  FOR EACH ROW EXECUTE FUNCTION track_payment_status();
+
+-- The note travels to the trigger in a transaction-local setting
+CREATE OR REPLACE FUNCTION change_payment_status(p_account_id uuid, p_status text, p_note text DEFAULT '')
+RETURNS accounts AS $$
+DECLARE
+  v_account accounts;
+BEGIN
+  PERFORM set_config('app.payment_note', COALESCE(p_note, ''), true);
+
+  UPDATE accounts
+     SET payment_data = p_status
+   WHERE id = p_account_id
+  RETURNING * INTO v_account;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Account % not found or not editable', p_account_id;
+  END IF;
+
+  -- Later changes in the same transaction must not reuse the note
+  PERFORM set_config('app.payment_note', '', true);
+
+  RETURN v_account;
+END;
+$$ LANGUAGE plpgsql;
+
+ALTER TABLE account_payment_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can read payment history"
+  ON account_payment_history
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+CREATE POLICY "Users can read payment history of own accounts"
+  ON account_payment_history
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND account_payment_history.account_id = ANY (users.managed_accounts)));
@@ -0,0 +1,127 @@
+/*
+  # Account notes and status history
+
+  For the account detail page.
+
+  1. New Tables
+    - `account_notes`
+      - A free-text comment thread per account, with the author and their name
+        at the time, like `sales_import_batches.uploaded_by_name`
+    - `account_status_history`
+      - One row per change of `accounts.status` (active / violation /
+        inactive), including the status an account was created with
+        (`from_status` NULL); written by a trigger, like
+        `account_payment_history`
+
+  2. Security
+    - Superadmins can read and write notes on every account, users on the
+      accounts they manage
+    - Authors can delete their own notes; superadmins can delete any
+    - Status history can be read by the same people and never edited
+*/
+
+CREATE TABLE IF NOT EXISTS account_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  body text NOT NULL CHECK (length(trim(body)) > 0),
+  author_id uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  author_name text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS account_notes_account_idx ON account_notes (account_id, created_at DESC);
+
+-- The author is whoever is logged in, whatever the client sends
+CREATE OR REPLACE FUNCTION stamp_account_note_author()
+RETURNS trigger AS $$
+BEGIN
+  NEW.author_id := auth.uid();
+  NEW.author_name := COALESCE((SELECT name FROM users WHERE id = auth.uid()), '');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stamp_account_note_author ON account_notes;
+CREATE TRIGGER stamp_account_note_author
+  BEFORE INSERT ON account_notes
+  FOR EACH ROW EXECUTE FUNCTION stamp_account_note_author();
+
+ALTER TABLE account_notes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can manage account notes"
+  ON account_notes
+  FOR ALL
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'))
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+CREATE POLICY "Users can read notes of own accounts"
+  ON account_notes
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND account_notes.account_id = ANY (users.managed_accounts)));
+
+CREATE POLICY "Users can add notes to own accounts"
+  ON account_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND account_notes.account_id = ANY (users.managed_accounts)));
+
+CREATE POLICY "Users can delete own notes"
+  ON account_notes
+  FOR DELETE
+  TO authenticated
+  USING (author_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS account_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_by_name text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS account_status_history_account_idx ON account_status_history (account_id, created_at DESC);
+
+-- Runs as the owner so history can be written even though clients can't
+-- insert into it themselves
+CREATE OR REPLACE FUNCTION track_account_status()
+RETURNS trigger AS $$
+DECLARE
+  v_from text;
+BEGIN
+  v_from := CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::text END;
+
+  IF TG_OP = 'UPDATE' AND v_from IS NOT DISTINCT FROM NEW.status::text THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO account_status_history (account_id, from_status, to_status, changed_by, changed_by_name)
+  SELECT NEW.id, v_from, NEW.status::text, users.id, COALESCE(users.name, '')
+    FROM (SELECT 1) AS always
+    LEFT JOIN users ON users.id = auth.uid();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS track_account_status ON accounts;
+CREATE TRIGGER track_account_status
+  AFTER INSERT OR UPDATE OF status ON accounts
+  FOR EACH ROW EXECUTE FUNCTION track_account_status();
+
+ALTER TABLE account_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Superadmins can read status history"
+  ON account_status_history
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin'));
+
+CREATE POLICY "Users can read status history of own accounts"
+  ON account_status_history
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND account_status_history.account_id = ANY (users.managed_accounts)));
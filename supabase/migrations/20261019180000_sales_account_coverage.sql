@@ -0,0 +1,37 @@
+/*
+  # Sales data coverage
+
+  Reps sometimes forget to upload a day, and incentives are then calculated
+  from part of the month without anyone noticing. This function tells which
+  days each account has data for, so the app can point out the gaps.
+
+  1. Functions
+    - `sales_account_coverage` - one row per account with the sorted list of
+      days it has sales data for; accounts without any data in the range are
+      left out
+    - Takes the same optional date range and account list as
+      `sales_account_totals`
+
+  2. Security
+    - Runs as the caller, so the sales_data policies decide which accounts are
+      covered
+*/
+
+CREATE OR REPLACE FUNCTION sales_account_coverage(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  account_id uuid,
+  dates date[]
+) AS $$
+  SELECT
+    s.account_id,
+    array_agg(s.date ORDER BY s.date)
+  FROM sales_data s
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY s.account_id;
+$$ LANGUAGE sql STABLE;
@@ -0,0 +1,56 @@
+/*
+  # User provisioning and first-login password change
+
+  Users used to be created from the browser with `auth.signUp` and a password
+  typed by the admin. They are now invited by email through the
+  `manage-users` edge function, which holds the service role key, and choose
+  their own password.
+
+  1. Changes
+    - `users.must_change_password`
+      - Set for invited users; the app asks for a new password before showing
+        anything else while it is set
+      - Superadmins can set it on anyone to force a change at the next login
+      - Cleared by the database when the user's password actually changes
+
+  2. Security
+    - Only superadmins (or the server, with no logged-in user) can change
+      `must_change_password`; a user can't clear it on their own row without
+      choosing a password
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS must_change_password boolean NOT NULL DEFAULT false;
+
+-- Other changes to a user's own row go through as before
+CREATE OR REPLACE FUNCTION protect_must_change_password()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.must_change_password IS DISTINCT FROM OLD.must_change_password
+    AND NOT EXISTS (SELECT 1 FROM users WHERE users.id = auth.uid() AND users.role = 'superadmin') THEN
+    NEW.must_change_password := OLD.must_change_password;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_must_change_password ON users;
+CREATE TRIGGER protect_must_change_password
+  BEFORE UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION protect_must_change_password();
+
+-- Runs as the owner: it fires inside Supabase Auth, not as the user
+CREATE OR REPLACE FUNCTION clear_must_change_password()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.encrypted_password IS DISTINCT FROM OLD.encrypted_password THEN
+    UPDATE public.users SET must_change_password = false WHERE id = NEW.id AND must_change_password;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS clear_must_change_password ON auth.users;
+CREATE TRIGGER clear_must_change_password
+  AFTER UPDATE OF encrypted_password ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION clear_must_change_password();
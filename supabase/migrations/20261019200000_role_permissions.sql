@@ -0,0 +1,346 @@
+/*
+  # Roles and permissions
+
+  `users.role` was either `user` or `superadmin`, and every policy checked for
+  `superadmin` itself. Roles now map to permissions, and policies ask for a
+  permission instead of a role. `src/lib/permissions.ts` is the client copy
+  of `role_has_permission`.
+
+  1. Roles (`user_role`)
+    - `team_lead`: works on and sees the accounts of the teams (user groups)
+      they belong to, and their teams' incentives
+    - `finance`: sees everything; changes payment statuses and payouts only
+    - `auditor`: sees everything, changes nothing
+
+  2. Functions
+    - `role_has_permission(role, permission)`: the permission map
+    - `has_permission(permission)`: for the logged-in user
+    - `team_member_ids()`: the logged-in user and everyone sharing a user group
+      with them
+    - `can_access_account(account_id)`: whether the account is in the
+      logged-in user's scope (`data.view_all`, `data.view_team` or the
+      accounts they manage)
+
+  3. Changes
+    - Approving, marking sah and sending back payment statuses needs
+      `payments.approve` instead of the superadmin role; any change needs
+      `payments.update`
+    - Users without `accounts.edit` can only change an account's payment
+      status (`guard_account_update`)
+    - Only superadmins (`users.manage`) can change `must_change_password`, as
+      before
+
+  4. Security
+    - Policies added earlier for superadmins now check permissions:
+      payouts, user groups, import batches, payment and status history, notes
+    - New policies let the new roles read and write the base tables within
+      their scope
+    - Restrictive policies keep account and sales data writes to the roles
+      allowed to make them, whatever other policies allow
+*/
+
+-- New enum values can't be used in the transaction that adds them, so the
+-- functions below compare roles as text
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'team_lead';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'finance';
+ALTER TYPE user_role ADD VALUE IF NOT EXISTS 'auditor';
+
+-- Permission map
+
+CREATE OR REPLACE FUNCTION role_has_permission(p_role text, p_permission text)
+RETURNS boolean AS $$
+  SELECT p_permission = ANY (CASE p_role
+    WHEN 'superadmin' THEN ARRAY[
+      'data.view_all', 'accounts.create', 'accounts.edit', 'accounts.delete', 'accounts.assign',
+      'categories.manage', 'payments.update', 'payments.approve', 'notes.add', 'notes.delete_any',
+      'sales.upload', 'files.manage', 'incentives.manage_rules', 'payouts.view', 'payouts.manage',
+      'users.manage'
+    ]
+    WHEN 'team_lead' THEN ARRAY[
+      'data.view_team', 'accounts.create', 'accounts.edit', 'payments.update', 'notes.add',
+      'sales.upload', 'incentives.earn'
+    ]
+    WHEN 'finance' THEN ARRAY['data.view_all', 'payments.update', 'payments.approve', 'payouts.view', 'payouts.manage']
+    WHEN 'auditor' THEN ARRAY['data.view_all', 'payouts.view']
+    WHEN 'user' THEN ARRAY['accounts.create', 'accounts.edit', 'payments.update', 'notes.add', 'sales.upload', 'incentives.earn']
+    ELSE ARRAY[]::text[]
+  END);
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Run as the owner so policies on users can call them without recursing
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean AS $$
+  SELECT COALESCE(
+    (SELECT role_has_permission(users.role::text, p_permission) FROM users WHERE users.id = auth.uid()),
+    false
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION team_member_ids()
+RETURNS uuid[] AS $$
+  SELECT array_agg(DISTINCT member_id)
+  FROM (
+    SELECT auth.uid() AS member_id
+    UNION
+    SELECT unnest(user_groups.member_ids) FROM user_groups WHERE auth.uid() = ANY (user_groups.member_ids)
+  ) members
+  WHERE member_id IS NOT NULL;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_access_account(p_account_id uuid)
+RETURNS boolean AS $$
+  SELECT has_permission('data.view_all') OR EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = ANY (CASE WHEN has_permission('data.view_team') THEN team_member_ids() ELSE ARRAY[auth.uid()] END)
+      AND p_account_id = ANY (users.managed_accounts)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Payment workflow: p_is_superadmin of payment_transition_allowed now
+-- means "has payments.approve"
+
+CREATE OR REPLACE FUNCTION track_payment_status()
+RETURNS trigger AS $$
+DECLARE
+  v_from text;
+  v_user users;
+BEGIN
+  v_from := CASE WHEN TG_OP = 'UPDATE' THEN OLD.payment_data::text END;
+
+  IF TG_OP = 'UPDATE' AND v_from IS NOT DISTINCT FROM NEW.payment_data::text THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE users.id = auth.uid();
+
+  IF auth.uid() IS NOT NULL AND (
+    NOT COALESCE(role_has_permission(v_user.role::text, 'payments.update'), false)
+    OR NOT payment_transition_allowed(
+      v_from, NEW.payment_data::text, COALESCE(role_has_permission(v_user.role::text, 'payments.approve'), false)
+    )
+  ) THEN
+    RAISE EXCEPTION 'Payment status cannot move from % to %', COALESCE(v_from, '(new account)'), NEW.payment_data;
+  END IF;
+
+  INSERT INTO account_payment_history (account_id, from_status, to_status, note, changed_by, changed_by_name)
+  VALUES (
+    NEW.id,
+    v_from,
+    NEW.payment_data::text,
+    COALESCE(current_setting('app.payment_note', true), ''),
+    v_user.id,
+    COALESCE(v_user.name, '')
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Users who may update payments but not edit accounts (finance) can only
+-- change the payment status
+CREATE OR REPLACE FUNCTION guard_account_update()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT has_permission('accounts.edit')
+    AND (to_jsonb(NEW) - 'payment_data' - 'updated_by' - 'updated_by_name')
+      IS DISTINCT FROM (to_jsonb(OLD) - 'payment_data' - 'updated_by' - 'updated_by_name') THEN
+    RAISE EXCEPTION 'You can only change the payment status of this account';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_account_update ON accounts;
+CREATE TRIGGER guard_account_update
+  BEFORE UPDATE ON accounts
+  FOR EACH ROW EXECUTE FUNCTION guard_account_update();
+
+CREATE OR REPLACE FUNCTION protect_must_change_password()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.must_change_password IS DISTINCT FROM OLD.must_change_password
+    AND NOT has_permission('users.manage') THEN
+    NEW.must_change_password := OLD.must_change_password;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Policies from earlier migrations that checked for superadmins
+
+DROP POLICY IF EXISTS "Superadmins can manage payouts" ON incentive_payouts;
+DROP POLICY IF EXISTS "Payout managers can manage payouts" ON incentive_payouts;
+CREATE POLICY "Payout managers can manage payouts"
+  ON incentive_payouts
+  FOR ALL
+  TO authenticated
+  USING (has_permission('payouts.manage'))
+  WITH CHECK (has_permission('payouts.manage'));
+
+DROP POLICY IF EXISTS "Payout viewers can read payouts" ON incentive_payouts;
+CREATE POLICY "Payout viewers can read payouts"
+  ON incentive_payouts
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('payouts.view'));
+
+DROP POLICY IF EXISTS "Team leads can read team payouts" ON incentive_payouts;
+CREATE POLICY "Team leads can read team payouts"
+  ON incentive_payouts
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('data.view_team') AND user_id = ANY (team_member_ids()));
+
+DROP POLICY IF EXISTS "Superadmins can manage user groups" ON user_groups;
+DROP POLICY IF EXISTS "User managers can manage user groups" ON user_groups;
+CREATE POLICY "User managers can manage user groups"
+  ON user_groups
+  FOR ALL
+  TO authenticated
+  USING (has_permission('users.manage'))
+  WITH CHECK (has_permission('users.manage'));
+
+DROP POLICY IF EXISTS "Superadmins can manage import batches" ON sales_import_batches;
+DROP POLICY IF EXISTS "Uploaders can manage import batches in scope" ON sales_import_batches;
+CREATE POLICY "Uploaders can manage import batches in scope"
+  ON sales_import_batches
+  FOR ALL
+  TO authenticated
+  USING (has_permission('sales.upload') AND can_access_account(account_id))
+  WITH CHECK (has_permission('sales.upload') AND can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Users can read import batches in scope" ON sales_import_batches;
+CREATE POLICY "Users can read import batches in scope"
+  ON sales_import_batches
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Superadmins can read payment history" ON account_payment_history;
+DROP POLICY IF EXISTS "Users can read payment history in scope" ON account_payment_history;
+CREATE POLICY "Users can read payment history in scope"
+  ON account_payment_history
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Superadmins can read status history" ON account_status_history;
+DROP POLICY IF EXISTS "Users can read status history in scope" ON account_status_history;
+CREATE POLICY "Users can read status history in scope"
+  ON account_status_history
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Superadmins can manage account notes" ON account_notes;
+DROP POLICY IF EXISTS "Users can read notes in scope" ON account_notes;
+CREATE POLICY "Users can read notes in scope"
+  ON account_notes
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Users can add notes in scope" ON account_notes;
+CREATE POLICY "Users can add notes in scope"
+  ON account_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('notes.add') AND can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Note moderators can delete any note" ON account_notes;
+CREATE POLICY "Note moderators can delete any note"
+  ON account_notes
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('notes.delete_any'));
+
+-- Base tables: reads and writes within the user's scope for the new roles
+
+DROP POLICY IF EXISTS "Users can read accounts in scope" ON accounts;
+CREATE POLICY "Users can read accounts in scope"
+  ON accounts
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account(id));
+
+DROP POLICY IF EXISTS "Users can update accounts in scope" ON accounts;
+CREATE POLICY "Users can update accounts in scope"
+  ON accounts
+  FOR UPDATE
+  TO authenticated
+  USING ((has_permission('accounts.edit') OR has_permission('payments.update')) AND can_access_account(id))
+  WITH CHECK ((has_permission('accounts.edit') OR has_permission('payments.update')) AND can_access_account(id));
+
+DROP POLICY IF EXISTS "Users can read sales data in scope" ON sales_data;
+CREATE POLICY "Users can read sales data in scope"
+  ON sales_data
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Uploaders can write sales data in scope" ON sales_data;
+CREATE POLICY "Uploaders can write sales data in scope"
+  ON sales_data
+  FOR ALL
+  TO authenticated
+  USING (has_permission('sales.upload') AND can_access_account(account_id))
+  WITH CHECK (has_permission('sales.upload') AND can_access_account(account_id));
+
+DROP POLICY IF EXISTS "Users can read users in scope" ON users;
+CREATE POLICY "Users can read users in scope"
+  ON users
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('data.view_all') OR (has_permission('data.view_team') AND id = ANY (team_member_ids())));
+
+-- Restrictive policies: whatever else allows a write, these must too
+
+DROP POLICY IF EXISTS "Only account creators can add accounts" ON accounts;
+CREATE POLICY "Only account creators can add accounts"
+  ON accounts
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('accounts.create'));
+
+DROP POLICY IF EXISTS "Only account editors can change accounts" ON accounts;
+CREATE POLICY "Only account editors can change accounts"
+  ON accounts
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('accounts.edit') OR has_permission('payments.update'));
+
+DROP POLICY IF EXISTS "Only account deleters can delete accounts" ON accounts;
+CREATE POLICY "Only account deleters can delete accounts"
+  ON accounts
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('accounts.delete'));
+
+DROP POLICY IF EXISTS "Only uploaders can add sales data" ON sales_data;
+CREATE POLICY "Only uploaders can add sales data"
+  ON sales_data
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('sales.upload'));
+
+DROP POLICY IF EXISTS "Only uploaders can change sales data" ON sales_data;
+CREATE POLICY "Only uploaders can change sales data"
+  ON sales_data
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('sales.upload'));
+
+DROP POLICY IF EXISTS "Only uploaders can delete sales data" ON sales_data;
+CREATE POLICY "Only uploaders can delete sales data"
+  ON sales_data
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('sales.upload'));
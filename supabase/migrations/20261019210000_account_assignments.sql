@@ -0,0 +1,359 @@
+/*
+  # Account assignments
+
+  Who owns an account was stored twice, in `accounts.user_id` and in
+  `users.managed_accounts`, and the two were kept in step by the client. An
+  owner also only ever had a "now": moving an account mid-month moved the
+  whole month's sales, and its incentive, to the new owner.
+
+  1. New Tables
+    - `account_assignments`
+      - One row per stretch of time a user owned an account
+      - `starts_on` NULL means since the account was created, `ends_on` NULL
+        means still assigned; both inclusive
+      - An account has at most one owner on any day (exclusion constraint)
+      - Filled from `users.managed_accounts`, falling back to
+        `accounts.user_id`, with the assignments starting at creation
+
+  2. Changes
+    - `accounts.user_id` and `users.managed_accounts` are kept as read-only
+      copies of the current assignments, for policies that still read them.
+      Only the sync trigger writes them; client changes are ignored.
+    - A new account is assigned to its creator unless they see every account,
+      as `addAccount` did in the browser before
+
+  3. Functions
+    - `assign_account(account, user, effective)`: moves an account to a user
+      (or unassigns it, user NULL) from a date on; the previous assignment
+      ends the day before
+    - `set_user_accounts(user, accounts, effective)`: assigns exactly these
+      accounts to the user from a date on
+    - `scope_user_ids()`: the users whose accounts the logged-in user sees
+    - `can_access_account` reads the current assignments
+    - `sales_assignment_totals`: like `sales_account_totals`, split by the
+      user each day was assigned to
+    - `sales_user_monthly_totals` attributes each day to its owner that day
+
+  4. Security
+    - Assignments can be read for the accounts in scope, and by the users
+      they belong to
+    - They are only written through the functions above; assigning needs
+      `accounts.assign`
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE TABLE IF NOT EXISTS account_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  account_id uuid NOT NULL REFERENCES accounts(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  starts_on date,
+  ends_on date,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT account_assignments_dates_check CHECK (ends_on >= starts_on),
+  CONSTRAINT account_assignments_no_overlap EXCLUDE USING gist (
+    account_id WITH =,
+    daterange(starts_on, ends_on, '[]') WITH &&
+  )
+);
+
+CREATE INDEX IF NOT EXISTS account_assignments_user_idx ON account_assignments (user_id);
+
+-- Backfill: users.managed_accounts decided scoping and incentives, so it wins
+-- over accounts.user_id. An account listed for several users goes to the one
+-- accounts.user_id names, otherwise to the earliest user.
+INSERT INTO account_assignments (account_id, user_id, created_by)
+SELECT DISTINCT ON (accounts.id) accounts.id, users.id, NULL
+FROM accounts
+JOIN users ON accounts.id = ANY (users.managed_accounts)
+WHERE NOT EXISTS (SELECT 1 FROM account_assignments WHERE account_assignments.account_id = accounts.id)
+ORDER BY accounts.id, (users.id IS NOT DISTINCT FROM accounts.user_id) DESC, users.created_at;
+
+INSERT INTO account_assignments (account_id, user_id, created_by)
+SELECT accounts.id, accounts.user_id, NULL
+FROM accounts
+JOIN users ON users.id = accounts.user_id
+WHERE NOT EXISTS (SELECT 1 FROM account_assignments WHERE account_assignments.account_id = accounts.id);
+
+-- Scope
+
+CREATE OR REPLACE FUNCTION scope_user_ids()
+RETURNS uuid[] AS $$
+  SELECT CASE WHEN has_permission('data.view_team') THEN team_member_ids() ELSE ARRAY[auth.uid()] END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_access_account(p_account_id uuid)
+RETURNS boolean AS $$
+  SELECT has_permission('data.view_all') OR EXISTS (
+    SELECT 1 FROM account_assignments
+    WHERE account_assignments.account_id = p_account_id
+      AND account_assignments.user_id = ANY (scope_user_ids())
+      AND (account_assignments.starts_on IS NULL OR account_assignments.starts_on <= current_date)
+      AND (account_assignments.ends_on IS NULL OR account_assignments.ends_on >= current_date)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Read-only copies of the current owner
+
+CREATE OR REPLACE FUNCTION sync_account_owner(p_account_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_owner uuid;
+BEGIN
+  SELECT user_id INTO v_owner
+    FROM account_assignments
+   WHERE account_id = p_account_id
+     AND (starts_on IS NULL OR starts_on <= current_date)
+     AND (ends_on IS NULL OR ends_on >= current_date);
+
+  PERFORM set_config('app.syncing_ownership', 'on', true);
+
+  UPDATE accounts SET user_id = v_owner
+   WHERE id = p_account_id AND user_id IS DISTINCT FROM v_owner;
+
+  UPDATE users SET managed_accounts = array_remove(managed_accounts, p_account_id)
+   WHERE p_account_id = ANY (managed_accounts) AND id IS DISTINCT FROM v_owner;
+
+  UPDATE users SET managed_accounts = array_append(COALESCE(managed_accounts, '{}'), p_account_id)
+   WHERE id = v_owner AND NOT (p_account_id = ANY (COALESCE(managed_accounts, '{}')));
+
+  PERFORM set_config('app.syncing_ownership', 'off', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- The backfill may have dropped duplicate owners; bring the copies in line
+SELECT sync_account_owner(accounts.id) FROM accounts;
+
+CREATE OR REPLACE FUNCTION sync_ownership_mirrors()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM sync_account_owner(OLD.account_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.account_id <> OLD.account_id) THEN
+    PERFORM sync_account_owner(NEW.account_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS sync_ownership_mirrors ON account_assignments;
+CREATE TRIGGER sync_ownership_mirrors
+  AFTER INSERT OR UPDATE OR DELETE ON account_assignments
+  FOR EACH ROW EXECUTE FUNCTION sync_ownership_mirrors();
+
+-- Writes to the copies from anywhere but sync_account_owner are dropped
+CREATE OR REPLACE FUNCTION protect_ownership_mirrors()
+RETURNS trigger AS $$
+BEGIN
+  IF current_setting('app.syncing_ownership', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'users' THEN
+    NEW.managed_accounts := CASE WHEN TG_OP = 'INSERT' THEN '{}' ELSE OLD.managed_accounts END;
+  ELSIF TG_OP = 'UPDATE' THEN
+    NEW.user_id := OLD.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS protect_ownership_mirrors ON users;
+CREATE TRIGGER protect_ownership_mirrors
+  BEFORE INSERT OR UPDATE ON users
+  FOR EACH ROW EXECUTE FUNCTION protect_ownership_mirrors();
+
+DROP TRIGGER IF EXISTS protect_ownership_mirrors ON accounts;
+CREATE TRIGGER protect_ownership_mirrors
+  BEFORE UPDATE ON accounts
+  FOR EACH ROW EXECUTE FUNCTION protect_ownership_mirrors();
+
+-- New accounts: the creator owns them unless they see every account. Users
+-- who may assign accounts (and the server) can name another owner.
+CREATE OR REPLACE FUNCTION set_new_account_owner()
+RETURNS trigger AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_permission('accounts.assign') THEN
+    NEW.user_id := CASE WHEN has_permission('data.view_all') THEN NULL ELSE auth.uid() END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_new_account_owner ON accounts;
+CREATE TRIGGER set_new_account_owner
+  BEFORE INSERT ON accounts
+  FOR EACH ROW EXECUTE FUNCTION set_new_account_owner();
+
+CREATE OR REPLACE FUNCTION assign_new_account()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.user_id IS NOT NULL THEN
+    INSERT INTO account_assignments (account_id, user_id, created_by)
+    VALUES (NEW.id, NEW.user_id, auth.uid());
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS assign_new_account ON accounts;
+CREATE TRIGGER assign_new_account
+  AFTER INSERT ON accounts
+  FOR EACH ROW EXECUTE FUNCTION assign_new_account();
+
+-- Assigning
+
+-- Assignments starting on or after the effective date are replaced, so a
+-- correction can be backdated. The date can't be in the future: the copies
+-- only follow assignments as they are made.
+CREATE OR REPLACE FUNCTION assign_account(p_account_id uuid, p_user_id uuid, p_effective date DEFAULT current_date)
+RETURNS void AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_permission('accounts.assign') THEN
+    RAISE EXCEPTION 'You are not allowed to assign accounts';
+  END IF;
+
+  IF p_effective IS NULL OR p_effective > current_date THEN
+    RAISE EXCEPTION 'An assignment cannot start in the future';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM accounts WHERE id = p_account_id) THEN
+    RAISE EXCEPTION 'Account not found';
+  END IF;
+
+  -- Already with this user since before the date
+  IF p_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM account_assignments
+    WHERE account_id = p_account_id
+      AND user_id = p_user_id
+      AND (starts_on IS NULL OR starts_on <= p_effective)
+      AND ends_on IS NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM account_assignments
+   WHERE account_id = p_account_id AND starts_on >= p_effective;
+
+  UPDATE account_assignments SET ends_on = p_effective - 1
+   WHERE account_id = p_account_id AND (ends_on IS NULL OR ends_on >= p_effective);
+
+  IF p_user_id IS NOT NULL THEN
+    INSERT INTO account_assignments (account_id, user_id, starts_on, created_by)
+    VALUES (p_account_id, p_user_id, p_effective, auth.uid());
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_user_accounts(p_user_id uuid, p_account_ids uuid[], p_effective date DEFAULT current_date)
+RETURNS void AS $$
+DECLARE
+  v_account_id uuid;
+BEGIN
+  FOR v_account_id IN
+    SELECT account_id FROM account_assignments
+    WHERE user_id = p_user_id
+      AND ends_on IS NULL
+      AND NOT (account_id = ANY (COALESCE(p_account_ids, '{}')))
+  LOOP
+    PERFORM assign_account(v_account_id, NULL, p_effective);
+  END LOOP;
+
+  FOREACH v_account_id IN ARRAY COALESCE(p_account_ids, '{}') LOOP
+    PERFORM assign_account(v_account_id, p_user_id, p_effective);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Sales by owner
+
+-- Runs as the owner so users keep seeing the days of accounts that have
+-- since moved to someone outside their scope
+CREATE OR REPLACE FUNCTION sales_assignment_totals(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  account_id uuid,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint,
+  days_count bigint,
+  first_date date,
+  last_date date
+) AS $$
+  SELECT
+    a.user_id,
+    s.account_id,
+    COALESCE(sum(s.clicks), 0)::bigint,
+    COALESCE(sum(s.orders), 0)::bigint,
+    COALESCE(sum(s.gross_commission), 0)::numeric,
+    COALESCE(sum(s.products_sold), 0)::bigint,
+    COALESCE(sum(s.total_purchases), 0)::numeric,
+    COALESCE(sum(s.new_buyers), 0)::bigint,
+    count(*)::bigint,
+    min(s.date),
+    max(s.date)
+  FROM sales_data s
+  LEFT JOIN account_assignments a
+    ON a.account_id = s.account_id
+   AND (a.starts_on IS NULL OR a.starts_on <= s.date)
+   AND (a.ends_on IS NULL OR a.ends_on >= s.date)
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+    AND (can_access_account(s.account_id) OR a.user_id = ANY (scope_user_ids()))
+  GROUP BY a.user_id, s.account_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION sales_user_monthly_totals(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  period text,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint,
+  accounts_count bigint
+) AS $$
+  SELECT
+    a.user_id,
+    to_char(s.date, 'YYYY-MM'),
+    COALESCE(sum(s.clicks), 0)::bigint,
+    COALESCE(sum(s.orders), 0)::bigint,
+    COALESCE(sum(s.gross_commission), 0)::numeric,
+    COALESCE(sum(s.products_sold), 0)::bigint,
+    COALESCE(sum(s.total_purchases), 0)::numeric,
+    COALESCE(sum(s.new_buyers), 0)::bigint,
+    count(DISTINCT s.account_id)::bigint
+  FROM sales_data s
+  JOIN account_assignments a
+    ON a.account_id = s.account_id
+   AND (a.starts_on IS NULL OR a.starts_on <= s.date)
+   AND (a.ends_on IS NULL OR a.ends_on >= s.date)
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+  GROUP BY a.user_id, to_char(s.date, 'YYYY-MM')
+  ORDER BY 2, a.user_id;
+$$ LANGUAGE sql STABLE;
+
+ALTER TABLE account_assignments ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read assignments in scope" ON account_assignments;
+CREATE POLICY "Users can read assignments in scope"
+  ON account_assignments
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account(account_id) OR user_id = ANY (scope_user_ids()));
@@ -0,0 +1,189 @@
+/*
+  # Saving and ending incentive rule versions
+
+  Saving a new version took separate requests: closing the previous version,
+  inserting the new one and inserting its tiers. A failure in between left a
+  rule without a current version, or a version without tiers. Deactivating a
+  rule flipped `is_active` on versions already used for past months, and
+  deleting a rule removed every version the payout ledger points at.
+
+  1. Functions
+    - `save_incentive_rule_version(previous, rule, tiers, effective_from)`:
+      inserts a rule version and its tiers and, for a new version of an
+      existing rule, closes the previous version the day before, in one
+      transaction. Returns the version with its tiers.
+    - `end_incentive_rule(rule_key, effective_to)`: ends the rule after the
+      given day by closing its current version. Past days keep the rule; a new
+      version brings it back.
+
+  2. Changes to `incentive_rules`
+    - `is_active` is part of a version's terms and can no longer change
+    - Versions can't be deleted
+
+  3. Security
+    - Both functions run as the caller, so the incentive_rules policies apply
+*/
+
+CREATE OR REPLACE FUNCTION lock_incentive_rule_version()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.rule_key IS DISTINCT FROM OLD.rule_key
+    OR NEW.version IS DISTINCT FROM OLD.version
+    OR NEW.effective_from IS DISTINCT FROM OLD.effective_from
+    OR NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.description IS DISTINCT FROM OLD.description
+    OR NEW.min_commission_threshold IS DISTINCT FROM OLD.min_commission_threshold
+    OR NEW.commission_rate_min IS DISTINCT FROM OLD.commission_rate_min
+    OR NEW.commission_rate_max IS DISTINCT FROM OLD.commission_rate_max
+    OR NEW.base_revenue_threshold IS DISTINCT FROM OLD.base_revenue_threshold
+    OR NEW.calculation_mode IS DISTINCT FROM OLD.calculation_mode
+    OR NEW.payout_cap IS DISTINCT FROM OLD.payout_cap
+    OR NEW.scope IS DISTINCT FROM OLD.scope
+    OR NEW.scope_category_id IS DISTINCT FROM OLD.scope_category_id
+    OR NEW.scope_group_id IS DISTINCT FROM OLD.scope_group_id
+    OR NEW.distribution IS DISTINCT FROM OLD.distribution
+    OR NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+    RAISE EXCEPTION 'Incentive rule version % is immutable, create a new version instead', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION prevent_incentive_rule_delete()
+RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Incentive rule versions cannot be deleted, end the rule instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS prevent_incentive_rule_delete ON incentive_rules;
+CREATE TRIGGER prevent_incentive_rule_delete
+  BEFORE DELETE ON incentive_rules
+  FOR EACH ROW EXECUTE FUNCTION prevent_incentive_rule_delete();
+
+CREATE OR REPLACE FUNCTION incentive_rule_with_tiers(p_rule incentive_rules)
+RETURNS jsonb AS $$
+  SELECT to_jsonb(p_rule) || jsonb_build_object('tiers', COALESCE((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', tier.id,
+        'revenue_threshold', tier.revenue_threshold,
+        'incentive_rate', tier.incentive_rate,
+        'created_at', tier.created_at
+      ) ORDER BY tier.revenue_threshold
+    )
+    FROM incentive_tiers tier
+    WHERE tier.rule_id = p_rule.id
+  ), '[]'::jsonb));
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION save_incentive_rule_version(
+  p_previous_id uuid,
+  p_rule jsonb,
+  p_tiers jsonb,
+  p_effective_from date
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_previous incentive_rules;
+  v_draft incentive_rules;
+  v_rule incentive_rules;
+BEGIN
+  IF p_effective_from IS NULL THEN
+    RAISE EXCEPTION 'A rule version needs an effective date';
+  END IF;
+
+  IF p_previous_id IS NOT NULL THEN
+    -- Locked so two edits of the same rule can't both close it
+    SELECT * INTO v_previous FROM incentive_rules WHERE id = p_previous_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Incentive rule not found';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM incentive_rules
+      WHERE rule_key = v_previous.rule_key AND version > v_previous.version
+    ) THEN
+      RAISE EXCEPTION 'A newer version of this rule exists, reload and try again';
+    END IF;
+
+    IF p_effective_from <= v_previous.effective_from THEN
+      RAISE EXCEPTION 'New version must take effect after %', v_previous.effective_from;
+    END IF;
+
+    -- An earlier end is kept: the rule stays off until the new version starts
+    UPDATE incentive_rules
+    SET effective_to = LEAST(COALESCE(effective_to, p_effective_from - 1), p_effective_from - 1)
+    WHERE id = v_previous.id;
+  END IF;
+
+  v_draft := jsonb_populate_record(NULL::incentive_rules, p_rule);
+
+  INSERT INTO incentive_rules (
+    name, description, min_commission_threshold, commission_rate_min, commission_rate_max,
+    base_revenue_threshold, calculation_mode, payout_cap, scope, scope_category_id, scope_group_id,
+    distribution, is_active, rule_key, version, effective_from
+  )
+  VALUES (
+    v_draft.name,
+    v_draft.description,
+    v_draft.min_commission_threshold,
+    v_draft.commission_rate_min,
+    v_draft.commission_rate_max,
+    v_draft.base_revenue_threshold,
+    COALESCE(v_draft.calculation_mode, 'flat'),
+    v_draft.payout_cap,
+    COALESCE(v_draft.scope, 'user'),
+    CASE WHEN v_draft.scope = 'category' THEN v_draft.scope_category_id END,
+    CASE WHEN v_draft.scope = 'group' THEN v_draft.scope_group_id END,
+    COALESCE(v_draft.distribution, 'revenue'),
+    COALESCE(v_draft.is_active, true),
+    COALESCE(v_previous.rule_key, gen_random_uuid()),
+    COALESCE(v_previous.version + 1, 1),
+    p_effective_from
+  )
+  RETURNING * INTO v_rule;
+
+  INSERT INTO incentive_tiers (rule_id, revenue_threshold, incentive_rate)
+  SELECT v_rule.id, tier.revenue_threshold, tier.incentive_rate
+  FROM jsonb_to_recordset(COALESCE(p_tiers, '[]'::jsonb)) AS tier(revenue_threshold numeric, incentive_rate numeric);
+
+  RETURN incentive_rule_with_tiers(v_rule);
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION end_incentive_rule(p_rule_key uuid, p_effective_to date DEFAULT current_date)
+RETURNS jsonb AS $$
+DECLARE
+  v_current incentive_rules;
+BEGIN
+  -- Ending a rule in the past would change months already calculated with it
+  IF p_effective_to IS NULL OR p_effective_to < current_date THEN
+    RAISE EXCEPTION 'A rule cannot end before today';
+  END IF;
+
+  SELECT * INTO v_current
+  FROM incentive_rules
+  WHERE rule_key = p_rule_key
+  ORDER BY version DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incentive rule not found';
+  END IF;
+
+  IF v_current.effective_to IS NOT NULL AND v_current.effective_to < p_effective_to THEN
+    RAISE EXCEPTION 'This rule already ended on %', v_current.effective_to;
+  END IF;
+
+  IF p_effective_to < v_current.effective_from THEN
+    RAISE EXCEPTION 'Version % only takes effect on %, it cannot end before that', v_current.version, v_current.effective_from;
+  END IF;
+
+  UPDATE incentive_rules SET effective_to = p_effective_to WHERE id = v_current.id
+  RETURNING * INTO v_current;
+
+  RETURN incentive_rule_with_tiers(v_current);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,195 @@
+/*
+  # Closed incentive months
+
+  A month counted as closed while it had payout rows, so deleting the draft
+  payouts reopened it. The lock trigger left the account counts, the user name,
+  the rule and the closing user editable, and the approving and paying users
+  were whatever the client sent.
+
+  1. New Tables
+    - `incentive_periods`
+      - One row per closed month, with who closed it and when
+      - Rows can't be changed or deleted: a closed month stays closed
+
+  2. Functions
+    - `close_incentive_month(period, payouts)`: records the month as closed and
+      inserts its payout snapshots in one transaction. Needs `payouts.manage`;
+      the month must be over and not closed yet.
+
+  3. Locking (`lock_incentive_payout`)
+    - Every snapshot column is locked, including the counts, `user_name`,
+      `rule_id`, `closed_by` and `closed_at`. Actor columns only go NULL when
+      the user they point at is deleted.
+    - `closed_by`/`closed_at`, `approved_by`/`approved_at` and
+      `paid_by`/`paid_at` are set from `auth.uid()` and the clock, never from
+      the client
+    - Payouts of a closed month can't be deleted
+
+  4. Security
+    - Payouts are only inserted by `close_incentive_month`; payout managers
+      can still move a payout's status forward
+    - Every authenticated user can read which months are closed
+*/
+
+CREATE TABLE IF NOT EXISTS incentive_periods (
+  period text PRIMARY KEY CHECK (period ~ '^\d{4}-\d{2}$'),
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  closed_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Months closed before this table existed are the ones with payouts
+INSERT INTO incentive_periods (period, closed_by, closed_at)
+SELECT DISTINCT ON (period) period, closed_by, closed_at
+FROM incentive_payouts
+ORDER BY period, closed_at
+ON CONFLICT (period) DO NOTHING;
+
+-- ON DELETE SET NULL on the actor columns: the referenced user is gone
+CREATE OR REPLACE FUNCTION actor_was_deleted(p_old uuid, p_new uuid)
+RETURNS boolean AS $$
+  SELECT p_new IS NULL AND NOT EXISTS (SELECT 1 FROM users WHERE id = p_old);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION lock_incentive_period()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Incentive month % is closed and cannot be reopened', OLD.period;
+  END IF;
+
+  IF NEW.period IS DISTINCT FROM OLD.period
+    OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+    OR (NEW.closed_by IS DISTINCT FROM OLD.closed_by AND NOT actor_was_deleted(OLD.closed_by, NEW.closed_by)) THEN
+    RAISE EXCEPTION 'Incentive month % is closed', OLD.period;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_incentive_period ON incentive_periods;
+CREATE TRIGGER lock_incentive_period
+  BEFORE UPDATE OR DELETE ON incentive_periods
+  FOR EACH ROW EXECUTE FUNCTION lock_incentive_period();
+
+CREATE OR REPLACE FUNCTION lock_incentive_payout()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF EXISTS (SELECT 1 FROM incentive_periods WHERE period = OLD.period) THEN
+      RAISE EXCEPTION 'Incentive month % is closed, its payouts can no longer be deleted', OLD.period;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := 'draft';
+    NEW.closed_by := auth.uid();
+    NEW.closed_at := now();
+    NEW.approved_by := NULL;
+    NEW.approved_at := NULL;
+    NEW.paid_by := NULL;
+    NEW.paid_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.period IS DISTINCT FROM OLD.period
+    OR NEW.user_id IS DISTINCT FROM OLD.user_id
+    OR NEW.user_name IS DISTINCT FROM OLD.user_name
+    OR NEW.total_revenue IS DISTINCT FROM OLD.total_revenue
+    OR NEW.total_commission IS DISTINCT FROM OLD.total_commission
+    OR NEW.commission_rate IS DISTINCT FROM OLD.commission_rate
+    OR NEW.managed_accounts_count IS DISTINCT FROM OLD.managed_accounts_count
+    OR NEW.qualifying_accounts_count IS DISTINCT FROM OLD.qualifying_accounts_count
+    OR NEW.rule_id IS DISTINCT FROM OLD.rule_id
+    OR NEW.rule_snapshot IS DISTINCT FROM OLD.rule_snapshot
+    OR NEW.tier_snapshot IS DISTINCT FROM OLD.tier_snapshot
+    OR NEW.incentive_amount IS DISTINCT FROM OLD.incentive_amount
+    OR NEW.closed_at IS DISTINCT FROM OLD.closed_at
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+    OR (NEW.closed_by IS DISTINCT FROM OLD.closed_by AND NOT actor_was_deleted(OLD.closed_by, NEW.closed_by)) THEN
+    RAISE EXCEPTION 'Payout % is locked', OLD.id;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT (
+      (OLD.status = 'draft' AND NEW.status = 'approved') OR
+      (OLD.status = 'approved' AND NEW.status = 'paid')
+    ) THEN
+      RAISE EXCEPTION 'Payout status cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+
+    IF NEW.status = 'approved' THEN
+      NEW.approved_by := auth.uid();
+      NEW.approved_at := now();
+    ELSE
+      NEW.paid_by := auth.uid();
+      NEW.paid_at := now();
+    END IF;
+  ELSIF (NEW.approved_by IS DISTINCT FROM OLD.approved_by AND NOT actor_was_deleted(OLD.approved_by, NEW.approved_by))
+    OR NEW.approved_at IS DISTINCT FROM OLD.approved_at
+    OR (NEW.paid_by IS DISTINCT FROM OLD.paid_by AND NOT actor_was_deleted(OLD.paid_by, NEW.paid_by))
+    OR NEW.paid_at IS DISTINCT FROM OLD.paid_at THEN
+    RAISE EXCEPTION 'Payout % is locked', OLD.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_incentive_payout ON incentive_payouts;
+CREATE TRIGGER lock_incentive_payout
+  BEFORE INSERT OR UPDATE OR DELETE ON incentive_payouts
+  FOR EACH ROW EXECUTE FUNCTION lock_incentive_payout();
+
+CREATE OR REPLACE FUNCTION close_incentive_month(p_period text, p_payouts jsonb)
+RETURNS SETOF incentive_payouts AS $$
+BEGIN
+  IF NOT has_permission('payouts.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to close incentive months';
+  END IF;
+
+  IF p_period IS NULL OR p_period !~ '^\d{4}-\d{2}$' THEN
+    RAISE EXCEPTION 'Invalid period %', p_period;
+  END IF;
+
+  IF (p_period || '-01')::date + interval '1 month' > current_date THEN
+    RAISE EXCEPTION 'A month can only be closed after it ends';
+  END IF;
+
+  INSERT INTO incentive_periods (period, closed_by) VALUES (p_period, auth.uid())
+  ON CONFLICT (period) DO NOTHING;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incentive month % is already closed', p_period;
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO incentive_payouts (
+    period, user_id, user_name, total_revenue, total_commission, commission_rate,
+    managed_accounts_count, qualifying_accounts_count, rule_id, rule_snapshot, tier_snapshot,
+    incentive_amount
+  )
+  SELECT p_period, payout.user_id, payout.user_name, payout.total_revenue, payout.total_commission,
+         payout.commission_rate, payout.managed_accounts_count, payout.qualifying_accounts_count,
+         payout.rule_id, payout.rule_snapshot, payout.tier_snapshot, payout.incentive_amount
+  FROM jsonb_populate_recordset(NULL::incentive_payouts, COALESCE(p_payouts, '[]'::jsonb)) AS payout
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE incentive_periods ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read closed months" ON incentive_periods;
+CREATE POLICY "Authenticated users can read closed months"
+  ON incentive_periods
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Payout managers can manage payouts" ON incentive_payouts;
+DROP POLICY IF EXISTS "Payout managers can update payout status" ON incentive_payouts;
+CREATE POLICY "Payout managers can update payout status"
+  ON incentive_payouts
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('payouts.manage'))
+  WITH CHECK (has_permission('payouts.manage'));
@@ -0,0 +1,152 @@
+/*
+  # Pooled incentive payouts
+
+  Closing a month only locked per-user payouts. Category and team pools were
+  still recalculated from live sales, assignments and rules, so the pot and
+  each member's share of a closed month kept changing.
+
+  1. New Tables
+    - `incentive_pool_payouts`
+      - One locked snapshot of a pooled rule per closed month: the rule and
+        tier as they were, the pool totals, the pot and every member's share
+      - `shares` holds `user_id`, `user_name`, `revenue`, `commission`,
+        `share_ratio` and `amount` per member
+      - Rows can't be changed or deleted
+
+  2. Functions
+    - `close_incentive_month(period, payouts, pool_payouts)` replaces the two
+      argument version and inserts the pool snapshots in the same transaction
+      as the month and its payouts
+
+  3. Security
+    - Pool payouts are only inserted by `close_incentive_month`
+    - Payout viewers can read every pool, team leads the pools their team
+      members share in, and users the pools they share in
+*/
+
+CREATE TABLE IF NOT EXISTS incentive_pool_payouts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  period text NOT NULL REFERENCES incentive_periods(period) ON DELETE RESTRICT,
+  rule_id uuid REFERENCES incentive_rules(id) ON DELETE SET NULL,
+  rule_snapshot jsonb NOT NULL,
+  scope_name text NOT NULL,
+  total_revenue numeric NOT NULL DEFAULT 0,
+  total_commission numeric NOT NULL DEFAULT 0,
+  commission_rate numeric NOT NULL DEFAULT 0,
+  accounts_count integer NOT NULL DEFAULT 0,
+  qualifying_accounts_count integer NOT NULL DEFAULT 0,
+  tier_snapshot jsonb,
+  pot_amount numeric NOT NULL DEFAULT 0,
+  is_capped boolean NOT NULL DEFAULT false,
+  shares jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(shares) = 'array'),
+  closed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  closed_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (period, rule_id)
+);
+
+CREATE INDEX IF NOT EXISTS incentive_pool_payouts_shares_idx ON incentive_pool_payouts USING gin (shares jsonb_path_ops);
+
+CREATE OR REPLACE FUNCTION lock_incentive_pool_payout()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.closed_by := auth.uid();
+    NEW.closed_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RAISE EXCEPTION 'Pool payout % is locked', OLD.id;
+  END IF;
+
+  -- Only the references to deleted rules and users may go NULL
+  IF (NEW.rule_id IS DISTINCT FROM OLD.rule_id AND NOT (NEW.rule_id IS NULL AND NOT EXISTS (SELECT 1 FROM incentive_rules WHERE id = OLD.rule_id)))
+    OR (NEW.closed_by IS DISTINCT FROM OLD.closed_by AND NOT actor_was_deleted(OLD.closed_by, NEW.closed_by))
+    OR (to_jsonb(NEW) - 'rule_id' - 'closed_by') IS DISTINCT FROM (to_jsonb(OLD) - 'rule_id' - 'closed_by') THEN
+    RAISE EXCEPTION 'Pool payout % is locked', OLD.id;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_incentive_pool_payout ON incentive_pool_payouts;
+CREATE TRIGGER lock_incentive_pool_payout
+  BEFORE INSERT OR UPDATE OR DELETE ON incentive_pool_payouts
+  FOR EACH ROW EXECUTE FUNCTION lock_incentive_pool_payout();
+
+DROP FUNCTION IF EXISTS close_incentive_month(text, jsonb);
+
+CREATE OR REPLACE FUNCTION close_incentive_month(p_period text, p_payouts jsonb, p_pool_payouts jsonb DEFAULT '[]'::jsonb)
+RETURNS SETOF incentive_payouts AS $$
+BEGIN
+  IF NOT has_permission('payouts.manage') THEN
+    RAISE EXCEPTION 'You are not allowed to close incentive months';
+  END IF;
+
+  IF p_period IS NULL OR p_period !~ '^\d{4}-\d{2}$' THEN
+    RAISE EXCEPTION 'Invalid period %', p_period;
+  END IF;
+
+  IF (p_period || '-01')::date + interval '1 month' > current_date THEN
+    RAISE EXCEPTION 'A month can only be closed after it ends';
+  END IF;
+
+  INSERT INTO incentive_periods (period, closed_by) VALUES (p_period, auth.uid())
+  ON CONFLICT (period) DO NOTHING;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incentive month % is already closed', p_period;
+  END IF;
+
+  INSERT INTO incentive_pool_payouts (
+    period, rule_id, rule_snapshot, scope_name, total_revenue, total_commission, commission_rate,
+    accounts_count, qualifying_accounts_count, tier_snapshot, pot_amount, is_capped, shares
+  )
+  SELECT p_period, pool.rule_id, pool.rule_snapshot, pool.scope_name, pool.total_revenue,
+         pool.total_commission, pool.commission_rate, pool.accounts_count,
+         pool.qualifying_accounts_count, pool.tier_snapshot, pool.pot_amount, pool.is_capped,
+         COALESCE(pool.shares, '[]'::jsonb)
+  FROM jsonb_populate_recordset(NULL::incentive_pool_payouts, COALESCE(p_pool_payouts, '[]'::jsonb)) AS pool;
+
+  RETURN QUERY
+  INSERT INTO incentive_payouts (
+    period, user_id, user_name, total_revenue, total_commission, commission_rate,
+    managed_accounts_count, qualifying_accounts_count, rule_id, rule_snapshot, tier_snapshot,
+    incentive_amount
+  )
+  SELECT p_period, payout.user_id, payout.user_name, payout.total_revenue, payout.total_commission,
+         payout.commission_rate, payout.managed_accounts_count, payout.qualifying_accounts_count,
+         payout.rule_id, payout.rule_snapshot, payout.tier_snapshot, payout.incentive_amount
+  FROM jsonb_populate_recordset(NULL::incentive_payouts, COALESCE(p_payouts, '[]'::jsonb)) AS payout
+  RETURNING *;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE incentive_pool_payouts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Payout viewers can read pool payouts" ON incentive_pool_payouts;
+CREATE POLICY "Payout viewers can read pool payouts"
+  ON incentive_pool_payouts
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('payouts.view'));
+
+DROP POLICY IF EXISTS "Team leads can read team pool payouts" ON incentive_pool_payouts;
+CREATE POLICY "Team leads can read team pool payouts"
+  ON incentive_pool_payouts
+  FOR SELECT
+  TO authenticated
+  USING (
+    has_permission('data.view_team')
+    AND EXISTS (
+      SELECT 1 FROM jsonb_array_elements(shares) AS share
+      WHERE (share->>'user_id')::uuid = ANY (team_member_ids())
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can read pool payouts they share in" ON incentive_pool_payouts;
+CREATE POLICY "Users can read pool payouts they share in"
+  ON incentive_pool_payouts
+  FOR SELECT
+  TO authenticated
+  USING (shares @> jsonb_build_array(jsonb_build_object('user_id', auth.uid())));
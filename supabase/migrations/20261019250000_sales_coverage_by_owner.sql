@@ -0,0 +1,42 @@
+/*
+  # Sales data coverage by owner
+
+  `sales_account_coverage` ran as the caller, so the sales_data policies only
+  showed the days of accounts the user owns today. After an account moved,
+  its previous owner saw every day they owned it as missing.
+
+  1. Functions
+    - `sales_account_coverage` returns the days of the accounts the caller
+      can access now, plus the days owned by users in the caller's scope,
+      the same rows `sales_assignment_totals` adds up. Which of those days a
+      user was expected to upload is worked out by the app from the
+      assignments.
+
+  2. Security
+    - Runs as the owner, with the same account and scope check as
+      `sales_assignment_totals`
+*/
+
+CREATE OR REPLACE FUNCTION sales_account_coverage(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  account_id uuid,
+  dates date[]
+) AS $$
+  SELECT
+    s.account_id,
+    array_agg(s.date ORDER BY s.date)
+  FROM sales_data s
+  LEFT JOIN account_assignments a
+    ON a.account_id = s.account_id
+   AND (a.starts_on IS NULL OR a.starts_on <= s.date)
+   AND (a.ends_on IS NULL OR a.ends_on >= s.date)
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+    AND (can_access_account(s.account_id) OR a.user_id = ANY (scope_user_ids()))
+  GROUP BY s.account_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,148 @@
+/*
+  # Account access over assignment periods
+
+  `can_access_account` only looked at today's assignments, so a user lost
+  sight of an account, and of the sales they made on it, the day it moved to
+  someone else. `sales_assignment_totals` worked around that by running as
+  the owner and filtering by hand.
+
+  1. Functions
+    - `can_access_account(account)`: any of the assignment periods of the
+      users in scope counts, past ones included. Used for rows that belong
+      to the account as a whole.
+    - `can_access_account_on(account, date)`: the account was assigned to a
+      user in scope on that day. Used for sales rows, and with
+      `current_date` for writes.
+    - `sales_assignment_totals` and `sales_account_coverage` run as the
+      caller again; the sales_data policies now return the days owned in
+      scope
+
+  2. Security
+    - Sales data can be read for the days it was owned by a user in scope
+    - Writes (account edits, sales uploads, notes, import batches) still
+      need the account to be in scope today
+*/
+
+CREATE OR REPLACE FUNCTION can_access_account(p_account_id uuid)
+RETURNS boolean AS $$
+  SELECT has_permission('data.view_all') OR EXISTS (
+    SELECT 1 FROM account_assignments
+    WHERE account_assignments.account_id = p_account_id
+      AND account_assignments.user_id = ANY (scope_user_ids())
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION can_access_account_on(p_account_id uuid, p_date date)
+RETURNS boolean AS $$
+  SELECT has_permission('data.view_all') OR EXISTS (
+    SELECT 1 FROM account_assignments
+    WHERE account_assignments.account_id = p_account_id
+      AND account_assignments.user_id = ANY (scope_user_ids())
+      AND (account_assignments.starts_on IS NULL OR account_assignments.starts_on <= p_date)
+      AND (account_assignments.ends_on IS NULL OR account_assignments.ends_on >= p_date)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Sales rows: the days owned in scope
+
+DROP POLICY IF EXISTS "Users can read sales data in scope" ON sales_data;
+CREATE POLICY "Users can read sales data in scope"
+  ON sales_data
+  FOR SELECT
+  TO authenticated
+  USING (can_access_account_on(account_id, date));
+
+DROP POLICY IF EXISTS "Uploaders can write sales data in scope" ON sales_data;
+CREATE POLICY "Uploaders can write sales data in scope"
+  ON sales_data
+  FOR ALL
+  TO authenticated
+  USING (has_permission('sales.upload') AND can_access_account_on(account_id, current_date))
+  WITH CHECK (has_permission('sales.upload') AND can_access_account_on(account_id, current_date));
+
+-- Writes stay with the accounts in scope today
+
+DROP POLICY IF EXISTS "Users can update accounts in scope" ON accounts;
+CREATE POLICY "Users can update accounts in scope"
+  ON accounts
+  FOR UPDATE
+  TO authenticated
+  USING ((has_permission('accounts.edit') OR has_permission('payments.update')) AND can_access_account_on(id, current_date))
+  WITH CHECK ((has_permission('accounts.edit') OR has_permission('payments.update')) AND can_access_account_on(id, current_date));
+
+DROP POLICY IF EXISTS "Users can add notes in scope" ON account_notes;
+CREATE POLICY "Users can add notes in scope"
+  ON account_notes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('notes.add') AND can_access_account_on(account_id, current_date));
+
+DROP POLICY IF EXISTS "Uploaders can manage import batches in scope" ON sales_import_batches;
+CREATE POLICY "Uploaders can manage import batches in scope"
+  ON sales_import_batches
+  FOR ALL
+  TO authenticated
+  USING (has_permission('sales.upload') AND can_access_account_on(account_id, current_date))
+  WITH CHECK (has_permission('sales.upload') AND can_access_account_on(account_id, current_date));
+
+-- Sales by owner, as the caller
+
+CREATE OR REPLACE FUNCTION sales_assignment_totals(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  user_id uuid,
+  account_id uuid,
+  clicks bigint,
+  orders bigint,
+  gross_commission numeric,
+  products_sold bigint,
+  total_purchases numeric,
+  new_buyers bigint,
+  days_count bigint,
+  first_date date,
+  last_date date
+) AS $$
+  SELECT
+    a.user_id,
+    s.account_id,
+    COALESCE(sum(s.clicks), 0)::bigint,
+    COALESCE(sum(s.orders), 0)::bigint,
+    COALESCE(sum(s.gross_commission), 0)::numeric,
+    COALESCE(sum(s.products_sold), 0)::bigint,
+    COALESCE(sum(s.total_purchases), 0)::numeric,
+    COALESCE(sum(s.new_buyers), 0)::bigint,
+    count(*)::bigint,
+    min(s.date),
+    max(s.date)
+  FROM sales_data s
+  LEFT JOIN account_assignments a
+    ON a.account_id = s.account_id
+   AND (a.starts_on IS NULL OR a.starts_on <= s.date)
+   AND (a.ends_on IS NULL OR a.ends_on >= s.date)
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY a.user_id, s.account_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
+
+CREATE OR REPLACE FUNCTION sales_account_coverage(
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL,
+  p_account_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (
+  account_id uuid,
+  dates date[]
+) AS $$
+  SELECT
+    s.account_id,
+    array_agg(s.date ORDER BY s.date)
+  FROM sales_data s
+  WHERE (p_start IS NULL OR s.date >= p_start)
+    AND (p_end IS NULL OR s.date <= p_end)
+    AND (p_account_ids IS NULL OR s.account_id = ANY (p_account_ids))
+  GROUP BY s.account_id;
+$$ LANGUAGE sql STABLE SECURITY INVOKER;
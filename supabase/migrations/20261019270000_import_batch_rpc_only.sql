@@ -0,0 +1,143 @@
+/*
+  # Import batches are only written by the import functions
+
+  Two FOR ALL policies let users insert, edit and delete import batches
+  directly: "Users can manage import batches of own accounts" from the first
+  batches migration and "Uploaders can manage import batches in scope". A
+  batch edited by hand, e.g. its `previous_rows`, makes a rollback restore
+  whatever the client wrote.
+
+  1. Security
+    - Both FOR ALL policies are dropped. Batches stay readable through
+      "Users can read import batches in scope".
+    - `import_sales_batch` and `rollback_sales_import` run as the owner and
+      check themselves that the caller has `sales.upload` and the account is
+      in their scope today
+*/
+
+DROP POLICY IF EXISTS "Users can manage import batches of own accounts" ON sales_import_batches;
+DROP POLICY IF EXISTS "Uploaders can manage import batches in scope" ON sales_import_batches;
+
+CREATE OR REPLACE FUNCTION import_sales_batch(
+  p_account_id uuid,
+  p_file_name text,
+  p_file_content text,
+  p_rows jsonb
+)
+RETURNS sales_import_batches AS $$
+DECLARE
+  v_dates date[];
+  v_batch sales_import_batches;
+BEGIN
+  IF NOT has_permission('sales.upload') OR NOT can_access_account_on(p_account_id, current_date) THEN
+    RAISE EXCEPTION 'You are not allowed to upload sales data for this account';
+  END IF;
+
+  IF p_rows IS NULL OR jsonb_typeof(p_rows) <> 'array' THEN
+    RAISE EXCEPTION 'An import needs a list of rows';
+  END IF;
+
+  SELECT COALESCE(array_agg(DISTINCT row_data.date ORDER BY row_data.date), '{}')
+    INTO v_dates
+    FROM jsonb_populate_recordset(NULL::sales_data, p_rows) AS row_data;
+
+  INSERT INTO sales_import_batches (account_id, file_name, file_content, uploaded_by, uploaded_by_name, dates, row_count, previous_rows)
+  VALUES (
+    p_account_id,
+    p_file_name,
+    p_file_content,
+    auth.uid(),
+    COALESCE((SELECT name FROM users WHERE id = auth.uid()), ''),
+    v_dates,
+    jsonb_array_length(p_rows),
+    COALESCE((
+      SELECT jsonb_agg(to_jsonb(existing) - 'id' - 'account_id' - 'created_at' ORDER BY existing.date)
+        FROM sales_data existing
+       WHERE existing.account_id = p_account_id
+         AND existing.date = ANY (v_dates)
+    ), '[]'::jsonb)
+  )
+  RETURNING * INTO v_batch;
+
+  INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers)
+  SELECT p_account_id, row_data.date, row_data.clicks, row_data.orders, row_data.gross_commission,
+         row_data.products_sold, row_data.total_purchases, row_data.new_buyers
+    FROM jsonb_populate_recordset(NULL::sales_data, p_rows) AS row_data
+  ON CONFLICT (account_id, date) DO UPDATE SET
+    clicks = EXCLUDED.clicks,
+    orders = EXCLUDED.orders,
+    gross_commission = EXCLUDED.gross_commission,
+    products_sold = EXCLUDED.products_sold,
+    total_purchases = EXCLUDED.total_purchases,
+    new_buyers = EXCLUDED.new_buyers;
+
+  RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION rollback_sales_import(p_batch_id uuid)
+RETURNS sales_import_batches AS $$
+DECLARE
+  v_batch sales_import_batches;
+  v_newer text;
+BEGIN
+  SELECT * INTO v_batch FROM sales_import_batches WHERE id = p_batch_id FOR UPDATE;
+
+  -- Batches out of scope are reported as missing, like the read policy does
+  IF NOT FOUND OR NOT can_access_account(v_batch.account_id) THEN
+    RAISE EXCEPTION 'Import batch % not found', p_batch_id;
+  END IF;
+
+  IF NOT has_permission('sales.upload') OR NOT can_access_account_on(v_batch.account_id, current_date) THEN
+    RAISE EXCEPTION 'You are not allowed to roll back imports for this account';
+  END IF;
+
+  IF v_batch.status = 'rolled_back' THEN
+    RAISE EXCEPTION 'Import batch % was already rolled back', p_batch_id;
+  END IF;
+
+  -- Restoring older values on top of a newer import would silently undo it too
+  SELECT file_name INTO v_newer
+    FROM sales_import_batches
+   WHERE account_id = v_batch.account_id
+     AND status = 'applied'
+     AND created_at > v_batch.created_at
+     AND dates && v_batch.dates
+   ORDER BY created_at DESC
+   LIMIT 1;
+
+  IF v_newer IS NOT NULL THEN
+    RAISE EXCEPTION 'The newer import "%" changed the same days; roll that back first', v_newer;
+  END IF;
+
+  -- Days the import added
+  DELETE FROM sales_data
+   WHERE account_id = v_batch.account_id
+     AND date = ANY (v_batch.dates)
+     AND date NOT IN (
+       SELECT previous.date FROM jsonb_populate_recordset(NULL::sales_data, v_batch.previous_rows) AS previous
+     );
+
+  -- Days the import overwrote
+  INSERT INTO sales_data (account_id, date, clicks, orders, gross_commission, products_sold, total_purchases, new_buyers)
+  SELECT v_batch.account_id, previous.date, previous.clicks, previous.orders, previous.gross_commission,
+         previous.products_sold, previous.total_purchases, previous.new_buyers
+    FROM jsonb_populate_recordset(NULL::sales_data, v_batch.previous_rows) AS previous
+  ON CONFLICT (account_id, date) DO UPDATE SET
+    clicks = EXCLUDED.clicks,
+    orders = EXCLUDED.orders,
+    gross_commission = EXCLUDED.gross_commission,
+    products_sold = EXCLUDED.products_sold,
+    total_purchases = EXCLUDED.total_purchases,
+    new_buyers = EXCLUDED.new_buyers;
+
+  UPDATE sales_import_batches
+     SET status = 'rolled_back',
+         rolled_back_by = auth.uid(),
+         rolled_back_at = now()
+   WHERE id = p_batch_id
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,114 @@
+/*
+  # Locked incentive tiers
+
+  The tier lock only fired on UPDATE. Tiers of a version already in effect
+  could still be deleted, or new ones added, which silently changed the
+  months calculated with that version.
+
+  1. Changes to `incentive_tiers`
+    - Tiers can't be updated or deleted
+    - Tiers are only inserted by `save_incentive_rule_version`, together with
+      the version they belong to; direct inserts are rejected
+    - Deleting a rule version still can't cascade to its tiers, since
+      versions can't be deleted
+
+  2. Functions
+    - `save_incentive_rule_version` marks its tier insert, the same way
+      `sync_account_owner` marks its writes to the ownership copies
+*/
+
+CREATE OR REPLACE FUNCTION lock_incentive_tier()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF current_setting('app.saving_rule_version', true) = 'on' THEN
+      RETURN NEW;
+    END IF;
+    RAISE EXCEPTION 'Incentive tiers are only added with a new rule version';
+  END IF;
+
+  RAISE EXCEPTION 'Incentive tiers are immutable, create a new rule version instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_incentive_tier ON incentive_tiers;
+CREATE TRIGGER lock_incentive_tier
+  BEFORE INSERT OR UPDATE OR DELETE ON incentive_tiers
+  FOR EACH ROW EXECUTE FUNCTION lock_incentive_tier();
+
+CREATE OR REPLACE FUNCTION save_incentive_rule_version(
+  p_previous_id uuid,
+  p_rule jsonb,
+  p_tiers jsonb,
+  p_effective_from date
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_previous incentive_rules;
+  v_draft incentive_rules;
+  v_rule incentive_rules;
+BEGIN
+  IF p_effective_from IS NULL THEN
+    RAISE EXCEPTION 'A rule version needs an effective date';
+  END IF;
+
+  IF p_previous_id IS NOT NULL THEN
+    -- Locked so two edits of the same rule can't both close it
+    SELECT * INTO v_previous FROM incentive_rules WHERE id = p_previous_id FOR UPDATE;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Incentive rule not found';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM incentive_rules
+      WHERE rule_key = v_previous.rule_key AND version > v_previous.version
+    ) THEN
+      RAISE EXCEPTION 'A newer version of this rule exists, reload and try again';
+    END IF;
+
+    IF p_effective_from <= v_previous.effective_from THEN
+      RAISE EXCEPTION 'New version must take effect after %', v_previous.effective_from;
+    END IF;
+
+    -- An earlier end is kept: the rule stays off until the new version starts
+    UPDATE incentive_rules
+    SET effective_to = LEAST(COALESCE(effective_to, p_effective_from - 1), p_effective_from - 1)
+    WHERE id = v_previous.id;
+  END IF;
+
+  v_draft := jsonb_populate_record(NULL::incentive_rules, p_rule);
+
+  INSERT INTO incentive_rules (
+    name, description, min_commission_threshold, commission_rate_min, commission_rate_max,
+    base_revenue_threshold, calculation_mode, payout_cap, scope, scope_category_id, scope_group_id,
+    distribution, is_active, rule_key, version, effective_from
+  )
+  VALUES (
+    v_draft.name,
+    v_draft.description,
+    v_draft.min_commission_threshold,
+    v_draft.commission_rate_min,
+    v_draft.commission_rate_max,
+    v_draft.base_revenue_threshold,
+    COALESCE(v_draft.calculation_mode, 'flat'),
+    v_draft.payout_cap,
+    COALESCE(v_draft.scope, 'user'),
+    CASE WHEN v_draft.scope = 'category' THEN v_draft.scope_category_id END,
+    CASE WHEN v_draft.scope = 'group' THEN v_draft.scope_group_id END,
+    COALESCE(v_draft.distribution, 'revenue'),
+    COALESCE(v_draft.is_active, true),
+    COALESCE(v_previous.rule_key, gen_random_uuid()),
+    COALESCE(v_previous.version + 1, 1),
+    p_effective_from
+  )
+  RETURNING * INTO v_rule;
+
+  PERFORM set_config('app.saving_rule_version', 'on', true);
+  INSERT INTO incentive_tiers (rule_id, revenue_threshold, incentive_rate)
+  SELECT v_rule.id, tier.revenue_threshold, tier.incentive_rate
+  FROM jsonb_to_recordset(COALESCE(p_tiers, '[]'::jsonb)) AS tier(revenue_threshold numeric, incentive_rate numeric);
+  PERFORM set_config('app.saving_rule_version', 'off', true);
+
+  RETURN incentive_rule_with_tiers(v_rule);
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,17 @@
+/*
+  # Keep assignment history when users are deleted
+
+  Deleting a user cascaded to their account assignments, so the days they
+  owned an account moved to nobody: their sales dropped out of the totals by
+  owner and out of the access checks of their team lead.
+
+  1. Changes
+    - `account_assignments.user_id` is now ON DELETE RESTRICT, like
+      `incentive_payouts.user_id`. A user who ever owned an account, or has
+      payouts, can't be deleted; unassign them instead.
+*/
+
+ALTER TABLE account_assignments DROP CONSTRAINT IF EXISTS account_assignments_user_id_fkey;
+ALTER TABLE account_assignments
+  ADD CONSTRAINT account_assignments_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE RESTRICT;
@@ -0,0 +1,37 @@
+/*
+  # Sales data write policies without reads
+
+  "Uploaders can write sales data in scope" was a FOR ALL policy, so besides
+  writes it let the account's current owner read every day of it, including
+  the days before their assignment that "Users can read sales data in
+  scope" leaves out.
+
+  1. Security
+    - The FOR ALL policy is replaced by INSERT, UPDATE and DELETE policies
+      with the same check: `sales.upload` and the account in scope today
+    - Reads only go through "Users can read sales data in scope"
+*/
+
+DROP POLICY IF EXISTS "Uploaders can write sales data in scope" ON sales_data;
+
+DROP POLICY IF EXISTS "Uploaders can add sales data in scope" ON sales_data;
+CREATE POLICY "Uploaders can add sales data in scope"
+  ON sales_data
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('sales.upload') AND can_access_account_on(account_id, current_date));
+
+DROP POLICY IF EXISTS "Uploaders can update sales data in scope" ON sales_data;
+CREATE POLICY "Uploaders can update sales data in scope"
+  ON sales_data
+  FOR UPDATE
+  TO authenticated
+  USING (has_permission('sales.upload') AND can_access_account_on(account_id, current_date))
+  WITH CHECK (has_permission('sales.upload') AND can_access_account_on(account_id, current_date));
+
+DROP POLICY IF EXISTS "Uploaders can delete sales data in scope" ON sales_data;
+CREATE POLICY "Uploaders can delete sales data in scope"
+  ON sales_data
+  FOR DELETE
+  TO authenticated
+  USING (has_permission('sales.upload') AND can_access_account_on(account_id, current_date));
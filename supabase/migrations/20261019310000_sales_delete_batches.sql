@@ -0,0 +1,113 @@
+/*
+  # Deleting sales data through recorded batches
+
+  Deleting a date range went straight to sales_data, and the write policies
+  still allowed direct inserts and updates. Rows changed outside a batch were
+  silently restored or clobbered when a later batch was rolled back, and
+  nothing recorded who deleted what.
+
+  1. Changes to `sales_import_batches`
+    - `kind`: 'import' for uploaded files, 'delete' for deleted ranges. A
+      delete batch keeps the deleted rows in `previous_rows`, so rolling it
+      back brings them back, and it blocks rolling back older imports of the
+      same days like a newer import does.
+
+  2. Functions
+    - `delete_sales_range(account, start, end)`: deletes the account's rows in
+      the range (every row when both are NULL) and records them as a delete
+      batch, in one transaction. Needs `sales.upload` and the account in
+      scope today.
+
+  3. Security
+    - The insert, update and delete policies on sales_data are dropped, and
+      restrictive policies reject direct writes that any older policy still
+      allows. Sales data is only written by `import_sales_batch`,
+      `delete_sales_range` and `rollback_sales_import`.
+*/
+
+ALTER TABLE sales_import_batches
+  ADD COLUMN IF NOT EXISTS kind text NOT NULL DEFAULT 'import' CHECK (kind IN ('import', 'delete'));
+
+CREATE OR REPLACE FUNCTION delete_sales_range(
+  p_account_id uuid,
+  p_start date DEFAULT NULL,
+  p_end date DEFAULT NULL
+)
+RETURNS sales_import_batches AS $$
+DECLARE
+  v_deleted jsonb;
+  v_batch sales_import_batches;
+BEGIN
+  IF NOT has_permission('sales.upload') OR NOT can_access_account_on(p_account_id, current_date) THEN
+    RAISE EXCEPTION 'You are not allowed to delete sales data for this account';
+  END IF;
+
+  IF p_start > p_end THEN
+    RAISE EXCEPTION 'The range starts after it ends';
+  END IF;
+
+  WITH deleted AS (
+    DELETE FROM sales_data
+     WHERE account_id = p_account_id
+       AND (p_start IS NULL OR date >= p_start)
+       AND (p_end IS NULL OR date <= p_end)
+    RETURNING *
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(deleted) - 'id' - 'account_id' - 'created_at' ORDER BY deleted.date), '[]'::jsonb)
+    INTO v_deleted
+    FROM deleted;
+
+  IF jsonb_array_length(v_deleted) = 0 THEN
+    RAISE EXCEPTION 'There is no sales data to delete in this range';
+  END IF;
+
+  INSERT INTO sales_import_batches (kind, account_id, file_name, uploaded_by, uploaded_by_name, dates, row_count, previous_rows)
+  VALUES (
+    'delete',
+    p_account_id,
+    CASE WHEN p_start IS NULL AND p_end IS NULL THEN 'Deleted all days'
+         ELSE format('Deleted %s to %s', COALESCE(p_start::text, 'start'), COALESCE(p_end::text, 'end')) END,
+    auth.uid(),
+    COALESCE((SELECT name FROM users WHERE id = auth.uid()), ''),
+    ARRAY(SELECT (row_data->>'date')::date FROM jsonb_array_elements(v_deleted) AS row_data),
+    jsonb_array_length(v_deleted),
+    v_deleted
+  )
+  RETURNING * INTO v_batch;
+
+  RETURN v_batch;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP POLICY IF EXISTS "Uploaders can write sales data in scope" ON sales_data;
+DROP POLICY IF EXISTS "Uploaders can add sales data in scope" ON sales_data;
+DROP POLICY IF EXISTS "Uploaders can update sales data in scope" ON sales_data;
+DROP POLICY IF EXISTS "Uploaders can delete sales data in scope" ON sales_data;
+
+DROP POLICY IF EXISTS "Only uploaders can add sales data" ON sales_data;
+DROP POLICY IF EXISTS "Only uploaders can change sales data" ON sales_data;
+DROP POLICY IF EXISTS "Only uploaders can delete sales data" ON sales_data;
+
+DROP POLICY IF EXISTS "Sales data is only added by imports" ON sales_data;
+CREATE POLICY "Sales data is only added by imports"
+  ON sales_data
+  AS RESTRICTIVE
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (false);
+
+DROP POLICY IF EXISTS "Sales data is only changed by imports" ON sales_data;
+CREATE POLICY "Sales data is only changed by imports"
+  ON sales_data
+  AS RESTRICTIVE
+  FOR UPDATE
+  TO authenticated
+  USING (false);
+
+DROP POLICY IF EXISTS "Sales data is only deleted through batches" ON sales_data;
+CREATE POLICY "Sales data is only deleted through batches"
+  ON sales_data
+  AS RESTRICTIVE
+  FOR DELETE
+  TO authenticated
+  USING (false);
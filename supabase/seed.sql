@@ -0,0 +1,59 @@
+/*
+  # Development seed
+
+  Loaded by `supabase start` / `supabase db reset` into a local Supabase only.
+  It backs the development sign-in in src/lib/devAuth.ts; the users here must
+  match DEV_USERS there. Never run it against a hosted project.
+
+  1. Auth users (password `dev-password` for all)
+    - admin@dev.local - superadmin
+    - user@dev.local - user managing the two sample accounts
+    - user2@dev.local - user without accounts
+
+  2. Sample data
+    - One category and two accounts, so the user has something to look at
+*/
+
+INSERT INTO auth.users (
+  instance_id, id, aud, role, email, encrypted_password, email_confirmed_at,
+  raw_app_meta_data, raw_user_meta_data, created_at, updated_at,
+  confirmation_token, recovery_token, email_change, email_change_token_new
+)
+SELECT
+  '00000000-0000-0000-0000-000000000000', seed.id, 'authenticated', 'authenticated', seed.email,
+  crypt('dev-password', gen_salt('bf')), now(),
+  '{"provider":"email","providers":["email"]}', '{}', now(), now(),
+  '', '', '', ''
+FROM (VALUES
+  ('00000000-0000-4000-a000-000000000001'::uuid, 'admin@dev.local'),
+  ('00000000-0000-4000-a000-000000000002'::uuid, 'user@dev.local'),
+  ('00000000-0000-4000-a000-000000000003'::uuid, 'user2@dev.local')
+) AS seed (id, email)
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO auth.identities (id, provider_id, user_id, identity_data, provider, last_sign_in_at, created_at, updated_at)
+SELECT
+  gen_random_uuid(), users.id::text, users.id,
+  jsonb_build_object('sub', users.id::text, 'email', users.email, 'email_verified', true),
+  'email', now(), now(), now()
+FROM auth.users
+WHERE users.email IN ('admin@dev.local', 'user@dev.local', 'user2@dev.local')
+  AND NOT EXISTS (SELECT 1 FROM auth.identities WHERE identities.user_id = users.id);
+
+INSERT INTO categories (id, name, description)
+VALUES ('00000000-0000-4000-b000-000000000001', 'Fashion', 'Sample category')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO users (id, name, email, role)
+VALUES
+  ('00000000-0000-4000-a000-000000000001', 'Dev Admin', 'admin@dev.local', 'superadmin'),
+  ('00000000-0000-4000-a000-000000000002', 'Dev User', 'user@dev.local', 'user'),
+  ('00000000-0000-4000-a000-000000000003', 'Dev User 2', 'user2@dev.local', 'user')
+ON CONFLICT (id) DO NOTHING;
+
+-- user_id becomes the accounts' first assignment (see account_assignments)
+INSERT INTO accounts (id, username, email, phone, status, payment_data, account_code, category_id, user_id)
+VALUES
+  ('00000000-0000-4000-c000-000000000001', 'dev_store_one', 'store1@dev.local', '080000000001', 'active', 'belum diatur', 'ACC000001', '00000000-0000-4000-b000-000000000001', '00000000-0000-4000-a000-000000000002'),
+  ('00000000-0000-4000-c000-000000000002', 'dev_store_two', 'store2@dev.local', '080000000002', 'active', 'utamakan', 'ACC000002', '00000000-0000-4000-b000-000000000001', '00000000-0000-4000-a000-000000000002')
+ON CONFLICT (id) DO NOTHING;